@@ -25,7 +25,8 @@ const findBreakpoint = (breakpoint: Breakpoint) => {
   const index = breakpoints.findIndex(b => b.kind === breakpoint.kind
     && b.path === breakpoint.path
     && b.line === breakpoint.line
-    && b.column === breakpoint.column)
+    && b.column === breakpoint.column
+    && b.functionName === breakpoint.functionName)
 
   return {
     exists: index !== -1,
@@ -55,20 +56,23 @@ const asFunctionBreakpoint = (breakpoint: Breakpoint): DP.FunctionBreakpoint =>
   return { name, condition, hitCondition }
 }
 
-export const listSourceBreakpoints = () => [...files.entries()].map(([ path, allBreakpoints ]) => ({
+export const listSourceBreakpointsInFile = (path: string) => ({
   source: { path, name: basename(path) },
-  breakpoints: allBreakpoints
+  breakpoints: (files.get(path) || [])
     .filter(b => b.kind === BreakpointKind.Source)
     .map(asSourceBreakpoint),
-}))
+})
 
-export const listFunctionBreakpoints = () => [...files.entries()].map(([ path, allBreakpoints ]) => ({
-  source: { path, name: basename(path) },
-  breakpoints: allBreakpoints
+export const listSourceBreakpoints = () => [...files.keys()].filter(path => path).map(listSourceBreakpointsInFile)
+
+// function breakpoints are not in a source file. they are sent all at once
+export const listFunctionBreakpoints = () => ({
+  breakpoints: [...files.values()]
+    .reduce((res, breakpoints) => [ ...res, ...breakpoints ], [])
     .filter(b => b.kind === BreakpointKind.Function)
     .map(asFunctionBreakpoint)
-    .filter(b => b.name)
-}))
+    .filter(b => b.name),
+})
 
 export const list = () => [...files.values()].reduce((res, breakpoints) => {
   return [ ...res, ...breakpoints ]
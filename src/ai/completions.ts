@@ -4,10 +4,11 @@ import { workerData } from '../messaging/worker-client'
 import toVSCodeLanguage from '../vscode/vsc-languages'
 import { CompletionItemKind } from '../vscode/types'
 import { CompletionSource } from '../ai/protocol'
+import { CompletionItemData } from '../extension-host/providers'
+import { insertSnippet } from '../neovim/snippets'
 import { vscode } from '../core/extensions-api'
 import { filter } from 'fuzzaldrin-plus'
 import Worker from '../messaging/worker'
-import { CompletionItem } from 'vscode'
 import { join, dirname } from 'path'
 import nvim from '../neovim/api'
 import { ui } from '../core/ai'
@@ -15,6 +16,7 @@ import { ui } from '../core/ai'
 interface Cache {
   semanticCompletions: Map<string, CompletionOption[]>,
   activeCompletion: string,
+  completionOptions: Map<string, CompletionOption>,
 }
 
 export enum CompletionKind {
@@ -30,8 +32,14 @@ export interface CompletionOption {
   insertText: string,
   /** An enum used to display a fancy icon and color in the completion menu UI */
   kind: CompletionItemKind,
+  /** SnippetString insert text. The snippet replaces the completed word once the completion is done */
+  snippet?: string,
+  /** Text used by the fuzzy filter instead of the display text */
+  filterText?: string,
+  /** Cursor column when the completions were requested. Used to find the end of CompletionItem.range */
+  requestColumn?: number,
   /** The entire CompletionItem object. Is used by the UI to get/show documentation. If this does not exist the program will query a completion item provider from a relevant extensions */
-  raw?: CompletionItem,
+  raw?: CompletionItemData,
 }
 
 const completionBoss = PromiseBoss()
@@ -43,6 +51,7 @@ const MAX_SEARCH_RESULTS = 50
 const cache: Cache = {
   semanticCompletions: new Map(),
   activeCompletion: '',
+  completionOptions: new Map(),
 }
 
 const calcMenuPosition = async (startIndex: number, column: number) => {
@@ -110,10 +119,24 @@ const getPathCompletions = async (path: string, query: string) => {
   }))
 }
 
+const getInsertText = ({ textEdit, insertText, label }: CompletionItemData) => {
+  if (textEdit) return textEdit.newText
+  return insertText || label
+}
+
+// the preselected item is shown first. the rest keep the sortText order from the extension host
+const preselectFirst = (options: CompletionOption[]) => {
+  const preselected = options.findIndex(m => !!m.raw && !!m.raw.preselect)
+  if (preselected < 1) return options
+  return [ options[preselected], ...options.slice(0, preselected), ...options.slice(preselected + 1) ]
+}
+
 const getSemanticCompletions = (line: number, column: number) => EarlyPromise(async done => {
   if (cache.semanticCompletions.has(`${line}:${column}`)) 
     return done(cache.semanticCompletions.get(`${line}:${column}`)!)
 
+  const requestColumn = nvim.state.column
+
   // TODO: different 'triggerKind'(s)? what about 'triggerCharacters'?
   // TODO: i'm not sure if we are ready for this yet?
   // if we cache completions on the first char, then we will not want to cancel
@@ -126,21 +149,32 @@ const getSemanticCompletions = (line: number, column: number) => EarlyPromise(as
   const completions = await completionBoss.schedule(vscode.language.provideCompletionItems({ triggerKind: 0 }), { timeout: 2e3 })
   if (!completions) return done([])
 
-  // TODO: support TextEdits and snippets
-  // TODO: do we need to remap this or can we just pass along the completions object as is?
-  const options = completions.map(m => ({
-    raw: m,
-    // TODO: snippets not supported yet because no extended marks. try priority of label first
-    // insertText: ((m.insertText || {} as any).value as string || m.insertText as string) || m.label,
-    insertText: m.label || ((m.insertText || {} as any).value as string || m.insertText as string),
-    text: m.label,
-    kind: m.kind || CompletionItemKind.Text,
+  // SnippetString objects lose their class between workers, only the value is left
+  const options = preselectFirst(completions.map(m => {
+    const insertText = getInsertText(m)
+    const snippet = typeof insertText === 'object' ? insertText.value : undefined
+
+    return {
+      raw: m,
+      snippet,
+      requestColumn,
+      insertText: typeof insertText === 'string' ? insertText : m.label,
+      filterText: m.filterText || m.label,
+      text: m.label,
+      kind: m.kind || CompletionItemKind.Text,
+    }
   }))
 
   cache.semanticCompletions.set(`${line}:${column}`, options)
   done(options)
 })
 
+// different completion items can insert the same text. the completion menu
+// passes this key back in v:completed_item.user_data
+const completionKey = ({ raw, insertText }: CompletionOption) => raw
+  ? `${raw.providerId}:${raw.index}`
+  : insertText
+
 // allow the filter engine to rank camel case completions higher. i.e. getUserInfo > gui for query 'gui'
 const smartCaseQuery = (query: string): string => hasUpperCase(query[0])
   ? query
@@ -155,8 +189,12 @@ const showCompletionsRaw = (column: number, query: string, startIndex: number, l
       completionOptions: completions,
     })
 
-    const options = orderCompletions(transformedCompletions, query)
-    nvim.g.veonim_completions = options.map(m => m.insertText)
+    // semantic completions are already ranked by the extension host
+    const options = completionKind === CompletionKind.Semantic
+      ? transformedCompletions
+      : orderCompletions(transformedCompletions, query)
+    nvim.g.veonim_completions = options.map(m => ({ word: m.insertText, user_data: completionKey(m) }))
+    cache.completionOptions = new Map(options.map(m => [ completionKey(m), m ] as [ string, CompletionOption ]))
     nvim.g.veonim_complete_pos = startIndex
 
     calcMenuPosition(startIndex, column).then(({ row, col }) => {
@@ -219,7 +257,7 @@ export const discoverCompletions = async (lineContent: string, line: number, col
     // i mean could try to do some sort of combination with ranking/priority. idk if the filtering will interfere with it
     // TODO: do we want more than MAX_SEARCH_RESULTS? i.e. i want to explore all of Array.prototype.* completions
     // and i want to scroll thru the list. should i support that use case? or just use the query to filter?
-    const resSemantic = filter(semanticCompletions, queryCased, { maxResults: MAX_SEARCH_RESULTS, key: 'text' })
+    const resSemantic = filter(semanticCompletions, queryCased, { maxResults: MAX_SEARCH_RESULTS, key: 'filterText' })
     const completionOptions = resSemantic.length ? resSemantic : await pendingKeywords
 
     if (!completionOptions.length) {
@@ -235,7 +273,7 @@ export const discoverCompletions = async (lineContent: string, line: number, col
   }
 }
 
-export const getCompletionDetail = (item: CompletionItem): Promise<CompletionItem | undefined> => {
+export const getCompletionDetail = (item: CompletionItemData): Promise<CompletionItemData | undefined> => {
   return resolveBoss.schedule(vscode.language.resolveCompletionItem(item), { timeout: 5e3 })
 }
 
@@ -245,7 +283,68 @@ nvim.on.insertLeave(async () => {
   ui.completions.hide()
 })
 
-nvim.on.completion(() => {
+// the completion menu ends when a character is typed. snippets and replace ranges
+// are only applied if that character is whitespace or one of the item commitCharacters
+const isAccepted = (option: CompletionOption, nextChar?: string) => {
+  if (!nextChar || /\s/.test(nextChar)) return true
+  const commitCharacters = (option.raw && option.raw.commitCharacters) || []
+  return commitCharacters.includes(nextChar)
+}
+
+// the completion menu replaced the query with the word. CompletionItem.range
+// can start before the query and include text after the cursor
+const getReplaceRange = (option: CompletionOption, start: number, word: string) => {
+  const range = option.raw && (option.raw.textEdit ? option.raw.textEdit.range : option.raw.range)
+  const wordEnd = start + word.length
+  if (!range) return { start, end: wordEnd }
+
+  const textAfterCursor = Math.max(0, range.end.character - (option.requestColumn || range.end.character))
+  return {
+    start: Math.min(range.start.character, start),
+    end: wordEnd + textAfterCursor,
+  }
+}
+
+nvim.on.completion(async ({ word, user_data }) => {
   nvim.g.veonim_completing = 0
   nvim.g.veonim_completions = []
+
+  const option = user_data ? cache.completionOptions.get(user_data) : undefined
+  cache.completionOptions.clear()
+  if (!word || !option || !option.raw) return
+
+  // the completion menu inserted the word that ends at the cursor (or before
+  // the character that ended the completion)
+  const { line, column } = nvim.state
+  const lineContent = await nvim.getCurrentLine()
+  const start = lineContent.lastIndexOf(word, column)
+  if (start < 0) return
+
+  // the word stays in the buffer even if the completion was ended by another
+  // character, so additionalTextEdits (auto imports) are always applied. they
+  // can add lines above the completion
+  const linesAdded = await vscode.language.acceptCompletionItem(option.raw).promise
+
+  const wordEnd = start + word.length
+  const typedChar = column > wordEnd ? lineContent[wordEnd] : undefined
+  if (!isAccepted(option, typedChar)) return
+
+  const completionLine = line + (linesAdded || 0)
+  const range = getReplaceRange(option, start, word)
+  const needsReplace = range.start !== start || range.end !== wordEnd
+
+  if (!option.snippet && !needsReplace) return
+
+  const replaceRange = {
+    start: { line: completionLine, character: range.start },
+    end: { line: completionLine, character: range.end },
+  }
+
+  if (option.snippet) return insertSnippet(option.snippet, replaceRange)
+
+  const buffer = nvim.current.buffer
+  const currentLine = await buffer.getLine(completionLine)
+  const nextLine = currentLine.slice(0, range.start) + option.insertText + currentLine.slice(range.end)
+  await buffer.setLines(completionLine, completionLine + 1, [ nextLine ])
+  nvim.jumpTo({ line: completionLine, column: range.start + option.insertText.length })
 })
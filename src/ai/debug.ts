@@ -1,20 +1,12 @@
 import { DebugAdapterConnection } from '../messaging/debug-protocol'
-import { objToMap, uuid, merge, ID } from '../support/utils'
+import { DebugState, DebugOutput } from '../ai/protocol'
+import { objToMap, merge, ID } from '../support/utils'
 import { DebugProtocol as DP } from 'vscode-debugprotocol'
-import userSelectOption from '../components/generic-menu'
-// import * as windows from '../windows/window-manager'
 import * as extensions from '../core/extensions-api'
-import getDebugConfig from '../ai/get-debug-config'
 import * as breakpoints from '../ai/breakpoints'
-import { debugline } from '../core/cursor'
-// TODO: debugUI when ready
-const debugUI: any = new Proxy({}, {
-  get: (_: any, __: string) => () => {},
-})
-// import debugUI from '../components/debug'
-import * as Icon from 'hyperapp-feather'
-// import { translate } from '../ui/css'
+import { Omit } from '../support/types'
 import nvim from '../neovim/api'
+import { ui } from '../core/ai'
 
 // TODO: move to shared place
 interface DebugConfiguration {
@@ -24,10 +16,6 @@ interface DebugConfiguration {
   [index: string]: any
 }
 
-type Threads = DP.Thread[]
-type StackFrames = DP.StackFrame[]
-type Scopes = DP.Scope[]
-type Variables = DP.Variable[]
 type PossibleDebuggerFeatures = string
   | 'exceptionBreakpointFilters'
   | 'supportsConfigurationDoneRequest'
@@ -45,23 +33,11 @@ type PossibleDebuggerFeatures = string
   | 'supportsTerminateRequest'
   | 'supportsStepBack'
 
-export interface DebuggerInfo {
-  id: string
-  type: string
-}
-
-interface DebuggerState extends DebuggerInfo {
-  activeThread: number
-  activeStack: number
-  activeScope: number
-  threads: Threads
-  stackFrames: StackFrames
-  scopes: Scopes
-  variables: Variables
-}
+type DebuggerState = Omit<DebugState, 'debuggers' | 'breakpoints'>
 
 interface Debugger extends DebuggerState {
   rpc: DebugAdapterConnection
+  features: Map<PossibleDebuggerFeatures, any>
 }
 
 interface Position {
@@ -70,54 +46,53 @@ interface Position {
   column: number
 }
 
-const tempVimSignsIDGenerator = ID(1)
+// the debugger output kept for the debug panel
+const MAX_OUTPUT = 500
+// our signs are in their own group, so signs from other plugins are never touched
+const SIGN_GROUP = 'veonim_debug'
+const DEBUG_LINE_SIGN = 1
+const signIDs = ID(DEBUG_LINE_SIGN + 1)
 let activeDebugger = 'lolnope'
 const debuggers = new Map<string, Debugger>()
 
+const defineSigns = (() => {
+  let defined = false
+  return () => {
+    if (defined) return
+    defined = true
+    nvim.cmd(`sign define vnbp text=» texthl=String`)
+    nvim.cmd(`sign define vndebugline text=→ texthl=Function linehl=CursorLine`)
+  }
+})()
+
+const hideDebugLine = () => nvim.cmd(`sign unplace ${DEBUG_LINE_SIGN} group=${SIGN_GROUP}`)
+
 const moveDebugLine = async ({ path, line, column }: Position) => {
-  console.warn('NYI: moveDebugLine:', path, line, column)
-  // // TODO: need a way to show inline breakpoints. we can get multiple calls
-  // // for the same path/line, but with different columns. without showing that
-  // // the column changed in the UI, the user does not know if their actions
-  // // actually worked
-  // console.warn('NYI: move debugline ++ show COLUMN location', column)
-  // if (path !== nvim.state.absoluteFilepath) await nvim.buffers.open(path)
-
-  // const win = windows.getActive()
-  // if (!canvasWindow) return console.error('there is no current window. lolwut?')
-  // const specs = canvasWindow.getSpecs()
-  // const distanceFromTop = line - nvim.state.editorTopLine + 1
-  // const relativeLine = specs.row + distanceFromTop
-
-  // const { x, y, width } = canvasWindow.whereLine(relativeLine)
-
-  // merge(debugline.style, {
-  //   background: 'rgba(118, 0, 57, 0.6)',
-  //   display: 'block',
-  //   transform: translate(x, y),
-  //   width: `${width}px`,
-  // })
+  defineSigns()
+  await nvim.jumpTo({ path, line, column })
+  hideDebugLine()
+  nvim.cmd(`sign place ${DEBUG_LINE_SIGN} group=${SIGN_GROUP} priority=20 name=vndebugline line=${line + 1} file=${path}`)
 }
 
 const Refresher = (dbg: DebugAdapterConnection) => ({
   threads: async () => {
     const { threads } = await dbg.sendRequest<DP.ThreadsResponse>('threads')
-    debugUI.updateState({ threads })
+    ui.debug.updateState({ threads })
     return threads
   },
   stackFrames: async (threadId: number) => {
     const { stackFrames } = await dbg.sendRequest<DP.StackTraceResponse>('stackTrace', { threadId })
-    debugUI.updateState({ stackFrames })
+    ui.debug.updateState({ stackFrames })
     return stackFrames
   },
   scopes: async (frameId: number) => {
     const { scopes } = await dbg.sendRequest<DP.ScopesResponse>('scopes', { frameId })
-    debugUI.updateState({ scopes })
+    ui.debug.updateState({ scopes })
     return scopes
   },
   variables: async (variablesReference: number) => {
     const { variables } = await dbg.sendRequest<DP.VariablesResponse>('variables', { variablesReference })
-    debugUI.updateState({ variables })
+    ui.debug.updateState({ variables })
     return variables
   },
 })
@@ -127,6 +102,11 @@ const listActiveDebuggers = () => [...debuggers.values()].map(d => ({
   type: d.type,
 }))
 
+const asUIState = ({ rpc, features, ...debuggerState }: Debugger) => ({
+  ...debuggerState,
+  debuggers: listActiveDebuggers(),
+})
+
 export const continuee = () => {
   const dbg = debuggers.get(activeDebugger)
   if (!dbg) return console.warn('debug continue called without an active debugger')
@@ -147,65 +127,111 @@ const getStackFramePosition = (stackFrame: DP.StackFrame): Position => {
   return { line, column, path: source.path || nvim.state.absoluteFilepath }
 }
 
-// TODO: TEMP LOL
-const fileToID = new Map()
-setTimeout(() => {
-  nvim.cmd(`sign unplace *`)
-  nvim.cmd(`sign define vnbp text=» texthl=String`)
-}, 1e3)
-// TODO: TEMP LOL
+const fileToID = new Map<string, number>()
 
 // TODO: now that we have these visual signs, we can use the SetBreakpointsResponse
 // "verified" rating to change colors of any inactive (not verified) breakpoints
 // and visually see them as gray signs in the vim buffer
-const addOrRemoveVimSign = (bp: breakpoints.Breakpoint) => {
-  if (!fileToID.has(bp.path)) fileToID.set(bp.path, tempVimSignsIDGenerator.next())
+const setVimSign = (bp: breakpoints.Breakpoint, visible: boolean) => {
+  if (!bp.path) return
+  defineSigns()
+  if (!fileToID.has(bp.path)) fileToID.set(bp.path, signIDs.next())
   const line = bp.line + 1
   const fileId = fileToID.get(bp.path)
   const signId = `${fileId}${line}`
 
-  breakpoints.has(bp)
-    ? nvim.cmd(`sign unplace ${signId}`)
-    : nvim.cmd(`sign place ${signId} name=vnbp line=${line} file=${bp.path}`)
+  visible
+    ? nvim.cmd(`sign place ${signId} group=${SIGN_GROUP} name=vnbp line=${line} file=${bp.path}`)
+    : nvim.cmd(`sign unplace ${signId} group=${SIGN_GROUP}`)
 }
 
-export const toggleBreakpoint = () => {
-  const { absoluteFilepath: path, line, column } = nvim.state
-  const breakpoint = { path, line, column, kind: breakpoints.BreakpointKind.Source }
+// running debuggers get the new breakpoints of the file right away
+const sendSourceBreakpoints = (path: string) => [...debuggers.values()].forEach(dbg => {
+  dbg.rpc.sendRequest('setBreakpoints', breakpoints.listSourceBreakpointsInFile(path))
+})
+
+const sendFunctionBreakpoints = (dbg: Debugger) => {
+  if (!dbg.features.get('supportsFunctionBreakpoints')) return
+  dbg.rpc.sendRequest('setFunctionBreakpoints', breakpoints.listFunctionBreakpoints())
+}
 
-  addOrRemoveVimSign(breakpoint)
+const sendBreakpoints = (changed: breakpoints.Breakpoint[]) => {
+  const paths = new Set(changed
+    .filter(bp => bp.kind === breakpoints.BreakpointKind.Source)
+    .map(bp => bp.path))
 
-  breakpoints.has(breakpoint)
+  paths.forEach(sendSourceBreakpoints)
+  if (changed.some(bp => bp.kind === breakpoints.BreakpointKind.Function)) debuggers.forEach(sendFunctionBreakpoints)
+}
+
+const toggle = (breakpoint: breakpoints.Breakpoint) => {
+  const exists = breakpoints.has(breakpoint)
+  setVimSign(breakpoint, !exists)
+
+  exists
     ? breakpoints.remove(breakpoint)
     : breakpoints.add(breakpoint)
 
-  debugUI.updateState({ breakpoints: breakpoints.list() })
+  exists
+    ? extensions.vscode.debug.changeBreakpoints([], [ breakpoint ])
+    : extensions.vscode.debug.changeBreakpoints([ breakpoint ], [])
+
+  sendBreakpoints([ breakpoint ])
+  ui.debug.updateState({ breakpoints: breakpoints.list() })
 }
 
-export const toggleFunctionBreakpoint = () => {
+export const toggleBreakpoint = () => {
   const { absoluteFilepath: path, line, column } = nvim.state
-  const breakpoint = { path, line, column, kind: breakpoints.BreakpointKind.Function }
+  toggle({ path, line, column, kind: breakpoints.BreakpointKind.Source })
+}
 
-  addOrRemoveVimSign(breakpoint)
+// function breakpoints are not in a file. the word under the cursor is the default name
+export const toggleFunctionBreakpoint = async () => {
+  const word = await nvim.call.expand('<cword>')
+  const functionName = (await nvim.call.input('function breakpoint: ', word)).trim()
+  if (!functionName) return
+  toggle({ functionName, path: '', line: 0, column: 0, kind: breakpoints.BreakpointKind.Function })
+}
 
-  breakpoints.has(breakpoint)
-    ? breakpoints.remove(breakpoint)
-    : breakpoints.add(breakpoint)
+// breakpoints added or removed by extensions with vscode.debug.addBreakpoints/removeBreakpoints
+extensions.vscode.debug.onChangeBreakpoints((added, removed) => {
+  const addedBreakpoints = added.filter(bp => !breakpoints.has(bp))
+  const removedBreakpoints = removed.filter(bp => breakpoints.has(bp))
 
-  debugUI.updateState({ breakpoints: breakpoints.list() })
-}
+  addedBreakpoints.forEach(bp => {
+    breakpoints.add(bp)
+    setVimSign(bp, true)
+  })
 
-const terminateDebugger = (dbg: Debugger) => {
-  dbg.rpc.sendRequest('disconnect')
-  debuggers.delete(activeDebugger)
-  merge(debugline.style, { display: 'none' })
+  removedBreakpoints.forEach(bp => {
+    breakpoints.remove(bp)
+    setVimSign(bp, false)
+  })
+
+  sendBreakpoints([ ...addedBreakpoints, ...removedBreakpoints ])
+  ui.debug.updateState({ breakpoints: breakpoints.list() })
+})
+
+// the extension host ends the session when the debug adapter
+// responds to the disconnect request or when the connection closes
+const removeDebugger = (dbg: Debugger) => {
+  if (!debuggers.has(dbg.id)) return
+  debuggers.delete(dbg.id)
+  if (activeDebugger !== dbg.id) return
 
   const [ anotherDebugger ] = [...debuggers.values()]
-  if (!anotherDebugger) return debugUI.hide()
+  if (!anotherDebugger) {
+    hideDebugLine()
+    return ui.debug.hide()
+  }
 
   activeDebugger = anotherDebugger.id
-  const { rpc, ...debuggerState } = anotherDebugger
-  debugUI.updateState({ ...debuggerState, debuggers: listActiveDebuggers() })
+  ui.debug.updateState(asUIState(anotherDebugger))
+}
+
+const terminateDebugger = (dbg: Debugger) => {
+  dbg.rpc.sendRequest('disconnect').catch(err => console.warn('debug adapter disconnect failed', err))
+  removeDebugger(dbg)
 }
 
 // TODO: what about exception breakpoints?? i think this is just a boolean
@@ -215,11 +241,30 @@ const terminateDebugger = (dbg: Debugger) => {
 export const switchActiveDebugger = (id: string) => {
   if (!debuggers.has(id)) return false
   activeDebugger = id
-  const { rpc, ...debuggerState } = debuggers.get(id)!
-  debugUI.updateState(debuggerState)
+  extensions.vscode.debug.setActiveSession(id)
+  ui.debug.updateState(asUIState(debuggers.get(id)!))
   return true
 }
 
+export const changeThread = async (threadId: number) => {
+  const dbg = debuggers.get(activeDebugger)
+  if (!dbg) return console.error('no active debugger found. this is a problem because we already have the debug context present in the UI')
+
+  const refresh = Refresher(dbg.rpc)
+  const stackFrames = await refresh.stackFrames(threadId)
+  updateDebuggerState(activeDebugger, { stackFrames, activeThread: threadId })
+
+  // a running thread has no stack frames to show
+  if (!stackFrames.length) return updateDebuggerState(activeDebugger, {
+    scopes: [],
+    variables: [],
+    activeStack: -1,
+    activeScope: -1,
+  })
+
+  changeStack(stackFrames[0].id)
+}
+
 export const changeStack = async (frameId: number) => {
   const dbg = debuggers.get(activeDebugger)
   if (!dbg) return console.error('no active debugger found. this is a problem because we already have the debug context present in the UI')
@@ -256,11 +301,11 @@ export const changeScope = async (variablesReference: number) => {
 const updateDebuggerState = (id: string, state: Partial<Debugger>) => {
   const dbg = debuggers.get(id) || {} as Debugger
 
-  const { rpc, ...next } = merge(dbg, state)
-  debuggers.set(id, { rpc, ...next })
+  const next = merge(dbg, state)
+  debuggers.set(id, next)
 
   if (id !== activeDebugger) return
-  debugUI.updateState({ ...next, debuggers: listActiveDebuggers() })
+  ui.debug.updateState(asUIState(next))
 }
 
 export const stop = async () => {
@@ -269,10 +314,11 @@ export const stop = async () => {
   terminateDebugger(dbg)
 }
 
-export const startType = async (type: string) => {
+const startSession = async (serverId: string, launchConfig: DebugConfiguration) => {
+  const { type } = launchConfig
   const dbg: Debugger = {
     type,
-    id: uuid(),
+    id: serverId,
     activeThread: -1,
     activeStack: -1,
     activeScope: -1,
@@ -280,11 +326,12 @@ export const startType = async (type: string) => {
     stackFrames: [],
     scopes: [],
     variables: [],
-    rpc: await extensions.start.debug(type),
+    output: [],
+    rpc: extensions.vscode.debug.connect(serverId),
+    features: new Map(),
   }
 
-  // TODO: should features and refresh be stored on the debugger object?
-  const features = new Map<PossibleDebuggerFeatures, any>()
+  const { features } = dbg
   const refresh = Refresher(dbg.rpc)
 
   dbg.rpc.onNotification<DP.StoppedEvent>('stopped', async m => {
@@ -332,19 +379,13 @@ export const startType = async (type: string) => {
     terminateDebugger(dbg)
   })
 
+  dbg.rpc.onClose(() => removeDebugger(dbg))
+
   dbg.rpc.onNotification<DP.InitializedEvent>('initialized', async () => {
-    // TODO: find out what the key is that we are looking for (not sure this is correct)
-    const functionBreakpointsSupported = features.has('supportsFunctionBreakpoints')
     const sourceBreakpoints = breakpoints.listSourceBreakpoints()
-    const functionBreakpoints = breakpoints.listFunctionBreakpoints()
+    sendFunctionBreakpoints(dbg)
 
-    // TODO: send function breakpoints
     // TODO: send exception breakpoints
-    if (functionBreakpointsSupported) {
-      console.warn('NYI: pls sendRequest for function breakpoints to the debug adapter')
-      console.log(functionBreakpoints)
-    }
-
     const breakpointsReq = sourceBreakpoints.map(breakpointSource => {
       return dbg.rpc.sendRequest<DP.SetBreakpointsResponse>('setBreakpoints', breakpointSource)
     })
@@ -371,8 +412,8 @@ export const startType = async (type: string) => {
     // explored. see vscode debugger for more info
   })
 
-  dbg.rpc.onNotification<DP.OutputEvent>('output', data => {
-    if (data.category === 'console' || data.category === 'stderr') console.log(type, data.output)
+  dbg.rpc.onNotification<DP.OutputEvent>('output', ({ category = 'console', output }) => {
+    if (category !== 'telemetry') appendOutput(dbg.id, { category, output })
   })
 
   const initRequest: DP.InitializeRequest['arguments'] = {
@@ -388,13 +429,8 @@ export const startType = async (type: string) => {
   const capabilities = await dbg.rpc.sendRequest<DP.InitializeResponse>('initialize', initRequest)
   if (capabilities) objToMap(capabilities, features)
 
-  const launchConfig = {
-    ...getDebugConfig(type),
-    // TODO: this is the main entry point of the program. may or may not be the current file
-    program: nvim.state.absoluteFilepath,
-    cwd: nvim.state.cwd,
-  }
-  await dbg.rpc.sendRequest('launch', launchConfig)
+  // the launch configuration has been resolved by the debugger extension in the extension host
+  await dbg.rpc.sendRequest(launchConfig.request === 'attach' ? 'attach' : 'launch', launchConfig)
   const { threads } = await dbg.rpc.sendRequest<DP.ThreadsResponse>('threads')
 
   merge(dbg, {
@@ -402,50 +438,24 @@ export const startType = async (type: string) => {
     activeThread: (threads[0] || {}).id || -1,
   })
 
-  updateDebuggerState(dbg.id, dbg)
   activeDebugger = dbg.id
-  debugUI.show()
+  updateDebuggerState(dbg.id, dbg)
+  ui.debug.show()
 }
 
-const startWithLaunchConfig = async (launchConfigs: DebugConfiguration[]) => {
-  const launchOptions = launchConfigs.map(c => ({
-    key: c.type,
-    value: c.name,
-  }))
-
-  const selectedConfig = await userSelectOption<string>({
-    description: 'choose a debug configuration',
-    options: launchOptions,
-    icon: Icon.Cpu,
-  })
-
-  console.log('selectedConfig', selectedConfig)
+const appendOutput = (id: string, output: DebugOutput) => {
+  const dbg = debuggers.get(id)
+  if (dbg) updateDebuggerState(id, { output: [ ...dbg.output, output ].slice(-MAX_OUTPUT) })
 }
 
-const startWithDebugger = async () => {
-  const availableDebuggers = await extensions.list.debuggers()
-  const debuggerOptions = availableDebuggers.map(d => ({
-    key: d.type,
-    value: d.label,
-  }))
-
-  const selectedDebuggerType = await userSelectOption<string>({
-    description: 'choose a debugger to start',
-    options: debuggerOptions,
-    icon: Icon.Cpu,
-  })
+extensions.vscode.debug.onAdapterOutput((serverId, output) => appendOutput(serverId, { category: 'stderr', output }))
 
-  const folderUri = `file://${nvim.state.cwd}`
-  const { launchConfig, connection } = await extensions.start.debugWithType(folderUri, selectedDebuggerType)
-  console.log('starting debugger wtih type:', launchConfig, connection)
-}
+extensions.vscode.debug.onStartSession((serverId, launchConfig) => {
+  startSession(serverId, launchConfig).catch(err => console.error(`failed to start debugger ${launchConfig.type}`, err))
+})
 
-export const start = async () => {
-  const launchConfigs = await extensions.list.launchConfigs()
-  launchConfigs.length
-    ? startWithLaunchConfig(launchConfigs)
-    : startWithDebugger()
-}
+// pick a launch.json configuration or a debugger in the extension host
+export const start = () => extensions.start.debug()
 
 // TODO: add action to jump cursor location to currently stopped debug location
 // action('debug-jumpto-stopped', jumpToStopped)
@@ -454,9 +464,10 @@ export const start = async () => {
 // TODO: add action to remove all breakpoints in current file
 // action('debug-breakpoints-clear-file', clearFileBreakpoints)
 
-// TODO: no one should be using these, so we can remove
-// nvim.onAction('debug-stop', stop)
-// nvim.onAction('debug-next', next)
-// nvim.onAction('debug-continue', continuee)
-// nvim.onAction('debug-breakpoint', toggleBreakpoint)
-// nvim.onAction('debug-breakpoint-function', toggleFunctionBreakpoint)
+nvim.onAction('debug-start', start)
+nvim.onAction('debug-stop', stop)
+nvim.onAction('debug-next', next)
+nvim.onAction('debug-continue', continuee)
+nvim.onAction('debug-breakpoint', toggleBreakpoint)
+nvim.onAction('debug-breakpoint-function', toggleFunctionBreakpoint)
+nvim.onAction('debug-panel', () => ui.debug.toggle())
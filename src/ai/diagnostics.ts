@@ -2,7 +2,8 @@ import { LocationItem, findNext, findPrevious } from '../support/relative-finder
 import { ProblemHighlight, Highlight, HighlightGroupId } from '../neovim/types'
 import { positionWithinRange } from '../support/neovim-utils'
 import { DiagnosticSeverity } from '../vscode/types'
-import { Diagnostic, CodeAction } from 'vscode'
+import { CodeActionItem } from '../ai/protocol'
+import { Diagnostic } from 'vscode'
 import { vscode } from '../core/extensions-api'
 import { PromiseBoss } from '../support/utils'
 import nvim from '../neovim/api'
@@ -12,7 +13,7 @@ const boss = PromiseBoss()
 
 const cache = {
   problems: [] as Diagnostic[],
-  actions: [] as CodeAction[],
+  actions: [] as CodeActionItem[],
 }
 
 const getDiagnosticLocations = (diagnostics: Diagnostic[]): LocationItem[] => diagnostics.map(d => ({
@@ -79,23 +80,55 @@ nvim.onAction('prev-problem', async () => {
 nvim.onAction('problems-toggle', () => ui.problems.toggle())
 nvim.onAction('problems-focus', () => ui.problems.focus())
 
-nvim.on.cursorMove(async () => {
+const getRelevantDiagnostics = () => {
   const { line, column } = nvim.state
-  const relevantDiagnostics = cache.problems.filter(d => positionWithinRange(line, column, d.range))
-  const actions = await boss.schedule(vscode.language.provideCodeActions({ diagnostics: relevantDiagnostics }), { timeout: 10e3 })
-  cache.actions = actions || [] as CodeAction[]
+  return cache.problems.filter(d => positionWithinRange(line, column, d.range))
+}
+
+// the extension host runs code actions by their index in the last request.
+// cached actions are only valid while no other request was made
+const getCodeActions = async (only?: string) => {
+  if (only) cache.actions = []
+  const request = vscode.language.provideCodeActions({ diagnostics: getRelevantDiagnostics(), only })
+  const actions = await boss.schedule(request, { timeout: 10e3 })
+  return actions || [] as CodeActionItem[]
+}
+
+nvim.on.cursorMove(async () => {
+  cache.actions = await getCodeActions()
 })
 
-export const runCodeAction = (action: CodeAction) => {
-  if (action.command) vscode.commands.executeCommand(action.command.command, ...(action.command.arguments || []))
-  // TODO: run other kinds of code actions besides command
-  else console.warn('NYI: codeAction do other actions besides Commands')
+export const runCodeAction = (action: CodeActionItem) => {
+  if (action.disabled) return
+  vscode.language.runCodeAction(action.index)
 }
 
-nvim.onAction('code-action', async () => {
+const showCodeActions = async (actions: CodeActionItem[], desc?: string) => {
   const { row, col } = await nvim.getCursorPosition()
-  ui.codeAction.show(row, col, cache.actions)
+  ui.codeAction.show(row, col, actions, desc)
+}
+
+const showCodeActionsOfKind = (kind: string, desc: string) => async () => {
+  const actions = await getCodeActions(kind)
+  showCodeActions(actions, desc)
+}
+
+// like vscode, a single applicable action is run without showing a menu
+const applyCodeActionOfKind = (kind: string, desc: string, preferredOnly = false) => async () => {
+  const actions = (await getCodeActions(kind)).filter(m => !m.disabled && (!preferredOnly || m.isPreferred))
+  if (actions.length === 1) return runCodeAction(actions[0])
+  showCodeActions(actions, desc)
+}
+
+nvim.onAction('code-action', async () => {
+  const actions = cache.actions.length ? cache.actions : await getCodeActions()
+  showCodeActions(actions)
 })
+nvim.onAction('quick-fix', showCodeActionsOfKind('quickfix', 'quick fix'))
+nvim.onAction('refactor', showCodeActionsOfKind('refactor', 'refactor'))
+nvim.onAction('source-action', showCodeActionsOfKind('source', 'source action'))
+nvim.onAction('organize-imports', applyCodeActionOfKind('source.organizeImports', 'organize imports'))
+nvim.onAction('auto-fix', applyCodeActionOfKind('quickfix', 'auto fix', true))
 
 vscode.onDiagnostics(event => {
   if (!event.length) return
@@ -0,0 +1,86 @@
+import { positionWithinRange } from '../support/neovim-utils'
+import { PromiseBoss, debounce } from '../support/utils'
+import { HighlightGroupId } from '../neovim/types'
+import { vscode } from '../core/extensions-api'
+import { DocumentColor } from '../ai/protocol'
+import { Color, Range } from 'vscode'
+import nvim from '../neovim/api'
+
+const boss = PromiseBoss()
+const definedHighlights = new Set<string>()
+// the colors belong to the buffer that was current when they were requested
+let documentColors = { bufferId: 0, colors: [] as DocumentColor[] }
+
+const toHex = ({ red, green, blue }: Color) => '#' + [ red, green, blue ]
+  .map(m => Math.round(m * 255).toString(16).padStart(2, '0'))
+  .join('')
+
+const textColor = ({ red, green, blue }: Color) => (red * 0.299 + green * 0.587 + blue * 0.114) > 0.5
+  ? '#000000'
+  : '#ffffff'
+
+// every color gets its own highlight group. the text of the color is shown
+// in the color itself, like an inline swatch
+const getHighlight = (color: Color) => {
+  const hex = toHex(color)
+  const name = `VeonimDocumentColor${hex.slice(1)}`
+  if (definedHighlights.has(name)) return name
+
+  nvim.cmd(`highlight ${name} guibg=${hex} guifg=${textColor(color)}`)
+  definedHighlights.add(name)
+  return name
+}
+
+const refreshColors = debounce(async () => {
+  const bufferId = nvim.current.buffer.id
+  const colors = await boss.schedule(vscode.language.provideDocumentColors(bufferId), { timeout: 3e3 })
+  documentColors = { bufferId, colors: colors || [] }
+
+  const buffer = nvim.Buffer(bufferId)
+  buffer.clearHighlight(HighlightGroupId.DocumentColor, 0, -1)
+
+  documentColors.colors
+    .filter(({ range }) => range.start.line === range.end.line)
+    .forEach(({ color, range }) => buffer.addHighlight(
+      HighlightGroupId.DocumentColor,
+      getHighlight(color),
+      range.start.line,
+      range.start.character,
+      range.end.character,
+    ))
+}, 300)
+
+/** The document color under the cursor */
+export const getDocumentColor = () => {
+  const { line, column } = nvim.state
+  if (documentColors.bufferId !== nvim.current.buffer.id) return
+  return documentColors.colors.find(m => positionWithinRange(line, column, m.range))
+}
+
+/** Replace the document color text with the first color presentation. Returns the range of the new text */
+export const setDocumentColor = async (color: Color, range: Range) => {
+  const presentations = await vscode.language.provideColorPresentations(color, range).promise
+  if (!presentations || !presentations.length) return
+
+  const [ { label, textEdit, additionalTextEdits = [] } ] = presentations
+  const { range: editRange, newText } = textEdit || { range, newText: label }
+  const buffer = nvim.current.buffer
+
+  buffer.replaceRange(editRange, newText)
+  additionalTextEdits.forEach(edit => buffer.replaceRange(edit.range, edit.newText, true))
+
+  return {
+    start: editRange.start,
+    end: { line: editRange.start.line, character: editRange.start.character + newText.length },
+  }
+}
+
+// colorschemes clear all highlight groups
+nvim.watchState.colorscheme(() => {
+  definedHighlights.clear()
+  refreshColors()
+})
+
+nvim.on.bufLoad(refreshColors)
+nvim.on.bufChange(refreshColors)
+nvim.on.insertLeave(refreshColors)
@@ -0,0 +1,34 @@
+import { positionWithinRange } from '../support/neovim-utils'
+import { call } from '../messaging/worker-client'
+import { vscode } from '../core/extensions-api'
+import { PromiseBoss, isExternalUrl } from '../support/utils'
+import { URI } from '../vscode/uri'
+import nvim from '../neovim/api'
+
+const boss = PromiseBoss()
+
+// file links can point to a position with a fragment like #L10 or #L10,5
+const openTarget = (target: string) => {
+  const uri = URI.parse(target)
+  if (isExternalUrl(target)) return call.openExternal(target)
+  if (uri.scheme !== 'file') return nvim.cmd(`echo "not opening ${uri.scheme} link. only http, https and mailto links are opened"`)
+
+  const [ , line = '1', column = '1' ] = uri.fragment.match(/^L?(\d+)(?:,(\d+))?/) || []
+  nvim.jumpTo({
+    path: uri.fsPath,
+    line: Math.max(parseInt(line) - 1, 0),
+    column: Math.max(parseInt(column) - 1, 0),
+  })
+}
+
+nvim.onAction('follow-link', async () => {
+  const links = await boss.schedule(vscode.language.provideDocumentLinks(), { timeout: 3e3 })
+  if (!links) return
+
+  const { line, column } = nvim.state
+  const link = links.find(m => positionWithinRange(line, column, m.range))
+  if (!link) return
+
+  const target = link.target || await vscode.language.resolveDocumentLink(link.index).promise
+  if (target) openTarget(target)
+})
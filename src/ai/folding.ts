@@ -0,0 +1,37 @@
+import { vscode } from '../core/extensions-api'
+import { PromiseBoss, debounce } from '../support/utils'
+import nvim from '../neovim/api'
+
+const boss = PromiseBoss()
+
+const refreshFolds = debounce(async () => {
+  const bufferId = nvim.current.buffer.id
+  const ranges = await boss.schedule(vscode.language.provideFoldingRanges(bufferId), { timeout: 3e3 })
+  if (!ranges) return
+
+  // fold level of every line for VeonimFoldExpr. lines where a fold starts
+  // are marked with ">" so that sibling folds do not merge. no ranges clears
+  // the folds from a previous result
+  const folds = ranges.filter(m => m.end > m.start)
+  const lineCount = folds.reduce((max, m) => Math.max(max, m.end + 1), 0)
+  const depths = new Array(lineCount + 1).fill(0)
+  const starts = new Set(folds.map(m => m.start))
+
+  folds.forEach(m => {
+    depths[m.start]++
+    depths[m.end + 1]--
+  })
+
+  const levels: string[] = []
+  for (let line = 0, depth = 0; line < lineCount; line++) {
+    depth += depths[line]
+    levels.push(starts.has(line) ? `>${depth}` : `${depth}`)
+  }
+
+  nvim.call.VeonimSetFolds(bufferId, levels)
+}, 500)
+
+nvim.on.bufLoad(refreshFolds)
+nvim.on.bufChange(refreshFolds)
+nvim.on.insertLeave(refreshFolds)
+nvim.on.filetype(refreshFolds)
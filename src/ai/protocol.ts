@@ -1,12 +1,15 @@
 import { LocationResult } from '../neovim/get-line-contents'
 import { Providers } from '../extension-host/providers'
 import { CompletionOption } from '../ai/completions'
+import { DebugProtocol as DP } from 'vscode-debugprotocol'
+import { Breakpoint } from '../ai/breakpoints'
 import { ColorData } from '../services/colorizer'
-import { Diagnostic, CodeAction } from 'vscode'
+import { Diagnostic, Color, Range } from 'vscode'
 import { UnPromisify } from '../support/types'
 
 export type Symbol = NonNullable<UnPromisify<ReturnType<Providers['provideDocumentSymbols']>['promise']>>[0]
 export type WorkspaceSymbol = NonNullable<UnPromisify<ReturnType<Providers['provideWorkspaceSymbols']>['promise']>>[0]
+export type CodeActionItem = NonNullable<UnPromisify<ReturnType<Providers['provideCodeActions']>['promise']>>[0]
 export type Reference = NonNullable<UnPromisify<ReturnType<Providers['provideReferences']>['promise']>>[0]
 export type ReferenceResult = [string, LocationResult[]]
 
@@ -35,11 +38,39 @@ export interface HoverShow {
   doc?: string
 }
 
+export interface DocumentColor {
+  color: Color
+  range: Range
+}
+
 export interface ProblemCount {
   errors: number
   warnings: number
 }
 
+export interface DebuggerInfo {
+  id: string
+  type: string
+}
+
+export interface DebugOutput {
+  category: string
+  output: string
+}
+
+export interface DebugState extends DebuggerInfo {
+  activeThread: number
+  activeStack: number
+  activeScope: number
+  threads: DP.Thread[]
+  stackFrames: DP.StackFrame[]
+  scopes: DP.Scope[]
+  variables: DP.Variable[]
+  output: DebugOutput[]
+  debuggers: DebuggerInfo[]
+  breakpoints: Breakpoint[]
+}
+
 export interface AI {
   completions: {
     show(options: CompletionShow): void
@@ -67,7 +98,7 @@ export interface AI {
     hide(): void
   }
   codeAction: {
-    show(row: number, col: number, actions: CodeAction[]): void
+    show(row: number, col: number, actions: CodeActionItem[], desc?: string): void
   }
   problems: {
     update(problems: Diagnostic[]): void
@@ -77,6 +108,12 @@ export interface AI {
   problemCount: {
     update(count: ProblemCount): void
   }
+  debug: {
+    show(): void
+    hide(): void
+    toggle(): void
+    updateState(state: Partial<DebugState>): void
+  }
 }
 
 export interface AIClient {
@@ -116,4 +153,10 @@ export interface AIClient {
   problemCount: {
     onUpdate(fn: AI['problemCount']['update']): void
   }
+  debug: {
+    onShow(fn: AI['debug']['show']): void
+    onHide(fn: AI['debug']['hide']): void
+    onToggle(fn: AI['debug']['toggle']): void
+    onUpdateState(fn: AI['debug']['updateState']): void
+  }
 }
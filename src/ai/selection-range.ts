@@ -0,0 +1,71 @@
+import { vscode } from '../core/extensions-api'
+import { PromiseBoss } from '../support/utils'
+import { Position, Range, fallbackRanges, byteToCharacter, characterToCodePoint } from '../support/selection-ranges'
+import nvim from '../neovim/api'
+
+const boss = PromiseBoss()
+
+// the ranges from the smallest to the largest. index is the selected range
+const session = {
+  ranges: [] as Range[],
+  index: -1,
+}
+
+const samePosition = (a: Position, b: Position) => a.line === b.line && a.character === b.character
+
+const getLine = (line: number) => nvim.call.getline(line + 1) as Promise<string>
+
+// the visual selection marks are inclusive, 1 based and in bytes. the end
+// mark is on the first byte of the last selected character
+const isSelected = async (range?: Range) => {
+  if (!range) return false
+  const [ [ , startLine, startCol ], [ , endLine, endCol ] ] = await Promise.all([
+    nvim.call.getpos(`'<`),
+    nvim.call.getpos(`'>`),
+  ])
+
+  const [ startText, endText ] = await Promise.all([ getLine(startLine - 1), getLine(endLine - 1) ])
+  const start = { line: startLine - 1, character: byteToCharacter(startText, startCol - 1) }
+  const last = byteToCharacter(endText, endCol - 1)
+  const [ lastChar = '' ] = endText.slice(last)
+  const end = { line: endLine - 1, character: last + lastChar.length }
+
+  return samePosition(start, range.start) && (range.end.character > 0
+    ? samePosition(end, range.end)
+    : end.line === range.end.line - 1)
+}
+
+const select = async ({ start, end }: Range) => {
+  const [ startText, endText ] = await Promise.all([ getLine(start.line), getLine(end.line) ])
+  const startColumn = characterToCodePoint(startText, start.character)
+  const endColumn = characterToCodePoint(endText, end.character)
+  nvim.call.VeonimSelectRange(start.line, startColumn, end.line, endColumn)
+}
+
+const getRanges = async () => {
+  const ranges = await boss.schedule(vscode.language.provideSelectionRanges(), { timeout: 3e3 })
+  if (ranges && ranges.length) return ranges
+
+  const lines = await nvim.current.buffer.getAllLines()
+  const { line, column } = nvim.state
+  return fallbackRanges(lines, { line, character: byteToCharacter(lines[line] || '', column) })
+}
+
+nvim.onAction('expand-selection', async () => {
+  const continueSession = await isSelected(session.ranges[session.index])
+  if (!continueSession) Object.assign(session, { ranges: await getRanges(), index: -1 })
+
+  const next = Math.min(session.index + 1, session.ranges.length - 1)
+  if (next < 0) return
+
+  session.index = next
+  select(session.ranges[next])
+})
+
+nvim.onAction('shrink-selection', async () => {
+  const continueSession = await isSelected(session.ranges[session.index])
+  if (!continueSession || session.index < 1) return
+
+  session.index--
+  select(session.ranges[session.index])
+})
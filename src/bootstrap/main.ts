@@ -1,4 +1,5 @@
-import { app, BrowserWindow, Menu, shell } from 'electron'
+import { RESOURCE_SCHEME, RESOURCE_ROOTS_CHANNEL, isUnderRoot, parseResourceUrl } from '../support/webview-resources'
+import { app, BrowserWindow, Menu, shell, protocol, ipcMain } from 'electron'
 
 let win: any
 let winProcessExplorer: any
@@ -59,6 +60,24 @@ app.on('ready', async () => {
 
   Menu.setApplicationMenu(Menu.buildFromTemplate(menuTemplate))
 
+  // extension webviews load local resources with vscode-resource: urls. each
+  // webview may only load files from its own localResourceRoots
+  const resourceRoots = new Map<string, string[]>()
+
+  ipcMain.on(RESOURCE_ROOTS_CHANNEL, (_: any, webviewId: string, roots?: string[]) => roots
+    ? resourceRoots.set(webviewId, roots)
+    : resourceRoots.delete(webviewId))
+
+  protocol.registerFileProtocol(RESOURCE_SCHEME, (request, callback) => {
+    try {
+      const { webviewId, path } = parseResourceUrl(request.url)
+      const roots = resourceRoots.get(webviewId) || []
+      isUnderRoot(path, roots) ? callback(path) : callback()
+    } catch(err) {
+      callback()
+    }
+  }, err => err && console.error('failed to register vscode-resource protocol', err))
+
   win = new BrowserWindow({
     width: 950,
     height: 700,
@@ -6,15 +6,16 @@ import Overlay from '../components/overlay'
 import { filter } from 'fuzzaldrin-plus'
 import * as Icon from 'hyperapp-feather'
 import api from '../core/instance-api'
-import { CodeAction } from 'vscode'
+import { CodeActionItem } from '../ai/protocol'
 
 const state = {
   x: 0,
   y: 0,
   value: '',
+  desc: '',
   visible: false,
-  actions: [] as CodeAction[],
-  cache: [] as CodeAction[],
+  actions: [] as CodeActionItem[],
+  cache: [] as CodeActionItem[],
   index: 0,
 }
 
@@ -23,7 +24,7 @@ type S = typeof state
 const resetState = { value: '', visible: false } 
 
 const actions = {
-  show: ({ x, y, actions }: any) => (vimBlur(), { x, y, actions, cache: actions, visible: true }),
+  show: ({ x, y, actions, desc }: any) => (vimBlur(), { x, y, actions, desc, cache: actions, index: 0, visible: true }),
   hide: () => (vimFocus(), resetState),
 
   change: (value: string) => (s: S) => ({ value, index: 0, actions: value
@@ -35,7 +36,8 @@ const actions = {
     vimFocus()
     if (!s.actions.length) return resetState
     const action = s.actions[s.index]
-    if (action) api.ai.codeAction.run(action)
+    // disabled actions are listed to explain why they can not be used
+    if (action && !action.disabled) api.ai.codeAction.run(action)
     return resetState
   },
 
@@ -68,14 +70,18 @@ const view = ($: S, a: typeof actions) => Overlay({
       focus: true,
       small: true,
       icon: Icon.Code,
-      desc: 'run code action',
+      desc: $.desc ? `run ${$.desc}` : 'run code action',
     })
 
     ,h('div', $.actions.map((s, ix) => h(RowNormal, {
       key: s.title,
       active: ix === $.index,
+      style: s.disabled ? { color: 'var(--foreground-50)' } : undefined,
     }, [
       ,h('span', s.title)
+      ,s.disabled && h('span', {
+        style: { marginLeft: '12px', fontStyle: 'italic' },
+      }, s.disabled)
     ])))
 
   ])
@@ -84,8 +90,8 @@ const view = ($: S, a: typeof actions) => Overlay({
 
 const ui = app({ name: 'code-actions', state, actions, view })
 
-api.ai.codeAction.onShow((row: number, col: number, actions: CodeAction[]) => {
+api.ai.codeAction.onShow((row: number, col: number, actions: CodeActionItem[], desc?: string) => {
   if (!actions.length) return
   const { x, y } = windows.pixelPosition(row + 1, col)
-  ui.show({ x, y, actions })
+  ui.show({ x, y, actions, desc })
 })
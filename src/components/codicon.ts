@@ -0,0 +1,57 @@
+import * as FeatherIcon from 'hyperapp-feather'
+import { pascalCase } from '../support/utils'
+import { h } from '../ui/uikit'
+
+// vscode codicon names that do not match the name of a feather icon
+const customMappings = new Map<string, string>([
+  [ 'alert', 'alert-triangle' ],
+  [ 'warning', 'alert-triangle' ],
+  [ 'error', 'x-circle' ],
+  [ 'issues', 'alert-circle' ],
+  [ 'sync', 'refresh-cw' ],
+  [ 'gear', 'settings' ],
+  [ 'settings-gear', 'settings' ],
+  [ 'person', 'user' ],
+  [ 'cloud-download', 'download-cloud' ],
+  [ 'cloud-upload', 'upload-cloud' ],
+  [ 'tools', 'tool' ],
+  [ 'pencil', 'edit-2' ],
+  [ 'trashcan', 'trash-2' ],
+  [ 'comment', 'message-square' ],
+  [ 'repo', 'book' ],
+  [ 'file-code', 'file-text' ],
+  [ 'octoface', 'github' ],
+  [ 'mark-github', 'github' ],
+  [ 'debug', 'play-circle' ],
+  [ 'beaker', 'droplet' ],
+])
+
+const findIcon = (name: string) => {
+  const iconName = (customMappings.get(name) || name).split('-').map(pascalCase).join('')
+  return Reflect.get(FeatherIcon, iconName)
+}
+
+export const Codicon = (name: string, spin = false, size = 14) => {
+  const icon = findIcon(name)
+  if (!icon) return
+
+  return h('div', {
+    style: {
+      display: 'flex',
+      animation: spin ? 'spin 2.5s linear infinite' : undefined,
+    }
+  }, [
+    ,h(icon, { size })
+  ])
+}
+
+/** Render text that contains $(icon) or $(icon~spin) codicons */
+export default (text: string, size = 14) => text
+  .split(/(\$\([\w-]+(?:~spin)?\))/)
+  .filter(m => m)
+  .map(segment => {
+    const match = segment.match(/^\$\(([\w-]+?)(~spin)?\)$/)
+    return match
+      ? Codicon(match[1], !!match[2], size)
+      : h('span', { style: { whiteSpace: 'pre' } }, segment)
+  })
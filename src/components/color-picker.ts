@@ -9,9 +9,13 @@ import { basename, extname } from 'path'
 import { cursor } from '../core/cursor'
 import api from '../core/instance-api'
 import { h, app } from '../ui/uikit'
+import { Range } from 'vscode'
 
 let liveMode = false
 let restoreInput = () => {}
+// a color from a document color provider is changed with its color presentations
+let documentColorRange: Range | undefined
+let documentColorValue = ''
 
 const getPosition = (row: number, col: number) => ({
   ...windows.pixelPosition(
@@ -75,13 +79,7 @@ const view = ($: typeof state, a: typeof actions) => Overlay({
 
 const ui = app({ name: 'color-picker', state, actions, view })
 
-const show = (color: string) => {
-  // TODO: conditionally call setRGB or setHSL depending on input
-  // this will depend on functionality to parse/edit rgba+hsla
-  // colors from text.
-  colorPicker.setHex(color)
-  // colorPicker.setRGB(r, g, b, a)
-  // colorPicker.setHSL(h, s, l, a)
+const open = () => {
   ui.show()
 
   restoreInput = stealInput(keys => {
@@ -91,21 +89,54 @@ const show = (color: string) => {
   })
 }
 
+const show = (color: string) => {
+  // TODO: conditionally call setRGB or setHSL depending on input
+  // this will depend on functionality to parse/edit rgba+hsla
+  // colors from text.
+  colorPicker.setHex(color)
+  // colorPicker.setRGB(r, g, b, a)
+  // colorPicker.setHSL(h, s, l, a)
+  open()
+}
+
 colorPicker.onChange(color => {
+  if (documentColorRange) return
   // TODO: will also need to send what kind of color is updated, that way
   // we know which text edit to apply (rgba or hsla, etc.)
   api.nvim.cmd(`exec "normal! ciw${color}"`)
   possiblyUpdateColorScheme()
 })
 
+colorPicker.onChangeRGB(async (red, green, blue, alpha) => {
+  const value = [ red, green, blue, alpha ].join()
+  if (!documentColorRange || value === documentColorValue) return
+  documentColorValue = value
+  const color = { red: red / 255, green: green / 255, blue: blue / 255, alpha }
+  const nextRange = await api.ai.documentColor.set(color, documentColorRange)
+  if (nextRange && documentColorRange) documentColorRange = nextRange
+})
+
 api.onAction('pick-color', async () => {
   liveMode = false
+  const documentColor = await api.ai.documentColor.get()
+  documentColorRange = documentColor && documentColor.range
+
+  if (documentColor) {
+    const [ red, green, blue ] = [ documentColor.color.red, documentColor.color.green, documentColor.color.blue ]
+      .map(m => Math.round(m * 255))
+    const { alpha } = documentColor.color
+    documentColorValue = [ red, green, blue, alpha ].join()
+    colorPicker.setRGB(red, green, blue, alpha)
+    return open()
+  }
+
   const word = await api.nvim.call.expand('<cword>')
   show(word)
 })
 
 api.onAction('modify-colorscheme-live', async () => {
   liveMode = true
+  documentColorRange = undefined
   const word = await api.nvim.call.expand('<cword>')
   show(word)
 })
@@ -1,108 +1,173 @@
-// TODO: needs to be revisted once we get the new DEBUG
-// stuff going and now that we have instance threads
-// import { DebuggerInfo, changeStack, changeScope } from '../ai/debug'
-// import { PluginRight } from '../components/plugin-container'
-// import { DebugProtocol as DP } from 'vscode-debugprotocol'
-// import { Breakpoint } from '../ai/breakpoints'
-// import { paddingVH } from '../ui/css'
-// import { h, app } from '../ui/uikit'
-
-// type Threads = DP.Thread[]
-// type StackFrames = DP.StackFrame[]
-// type Scopes = DP.Scope[]
-// type Variables = DP.Variable[]
-
-// const state = {
-//   id: '',
-//   type: '',
-//   visible: false,
-//   threads: [] as Threads,
-//   stackFrames: [] as StackFrames,
-//   scopes: [] as Scopes,
-//   variables: [] as Variables,
-//   activeThread: 0,
-//   activeStack: 0,
-//   activeScope: 0,
-//   debuggers: [] as DebuggerInfo[],
-//   breakpoints: [] as Breakpoint[],
-// }
-
-// type S = typeof state
-
-// const actions = {
-//   show: () => ({ visible: true }),
-//   hide: () => ({ visible: false }),
-//   updateState: (state: Partial<S>) => state,
-// }
-
-// type A = typeof actions
-
-// const header = (title: string) => h('div', {
-//   style: {
-//     ...paddingVH(8, 8),
-//     background: 'rgba(255, 255, 255, 0.1)',
-//     fontWeight: 'bold',
-//   },
-// }, title)
-
-// const ListItem = (name: string, active: boolean, clickFn: Function) => h('div', {
-//   style: {
-//     ...paddingVH(8, 4),
-//     background: active ? 'rgba(255, 255, 255, 0.05)' : undefined,
-//   },
-//   onclick: clickFn,
-// }, name)
-
-// const view = ($: S) => PluginRight($.visible, {
-//   // TODO: TESTING ONLY
-//   zIndex: 99999999,
-// }, [
-
-//   ,h('div', [
-//     ,header('Threads')
-//     ,h('div', $.threads.map(m => ListItem(
-//       m.name,
-//       $.activeThread === m.id,
-//       () => console.log('pls change thread to:', m.id),
-//     )))
-//   ])
-
-//   ,h('div', [
-//     ,header('Stacks')
-//     ,h('div', $.stackFrames.map(m => ListItem(
-//       m.name,
-//       $.activeStack === m.id,
-//       () => changeStack(m.id),
-//     )))
-//   ])
-
-//   ,h('div', [
-//     ,header('Scopes')
-//     ,h('div', $.scopes.map(m => ListItem(
-//       m.name,
-//       $.activeScope === m.variablesReference,
-//       () => changeScope(m.variablesReference),
-//     )))
-//   ])
-
-//   ,h('div', [
-//     ,header('Variables')
-//     ,h('div', $.variables.map(m => ListItem(
-//       `${m.name} -> ${m.value}`,
-//       false,
-//       () => console.log('pls get var:', m.value),
-//     )))
-//   ])
-
-//   ,h('div', [
-//     ,header('Breakpoints')
-//     ,h('div', $.breakpoints.map(m => ListItem(
-//       `${m.path}:${m.line}`,
-//       false,
-//       () => {},
-//     )))
-//   ])
-
-// ])
-
-// export default app<S, A>({ name: 'debug', state, actions, view })
+import { DebugState, DebuggerInfo, DebugOutput } from '../ai/protocol'
+import { PluginRight } from '../components/plugin-container'
+import { Breakpoint, BreakpointKind } from '../ai/breakpoints'
+import * as Icon from 'hyperapp-feather'
+import { paddingVH, cvar } from '../ui/css'
+import api from '../core/instance-api'
+import { h, app } from '../ui/uikit'
+import { basename } from 'path'
+
+const state: DebugState & { visible: boolean } = {
+  id: '',
+  type: '',
+  visible: false,
+  threads: [],
+  stackFrames: [],
+  scopes: [],
+  variables: [],
+  output: [],
+  activeThread: 0,
+  activeStack: 0,
+  activeScope: 0,
+  debuggers: [],
+  breakpoints: [],
+}
+
+type S = typeof state
+
+const actions = {
+  show: () => ({ visible: true }),
+  hide: () => ({ visible: false }),
+  toggle: () => (s: S) => ({ visible: !s.visible }),
+  updateState: (state: Partial<S>) => state,
+}
+
+type A = typeof actions
+
+const header = (title: string) => h('div', {
+  style: {
+    ...paddingVH(8, 8),
+    background: 'rgba(255, 255, 255, 0.1)',
+    fontWeight: 'bold',
+  },
+}, title)
+
+const ListItem = (name: string, active: boolean, clickFn?: Function) => h('div', {
+  style: {
+    ...paddingVH(8, 4),
+    background: active ? 'rgba(255, 255, 255, 0.05)' : undefined,
+    cursor: clickFn ? 'pointer' : undefined,
+  },
+  onclick: clickFn,
+}, name)
+
+const Button = (icon: any, title: string, clickFn: Function) => h('div', {
+  title,
+  onclick: clickFn,
+  style: {
+    display: 'flex',
+    cursor: 'pointer',
+    marginLeft: '12px',
+  },
+}, [
+  ,h(icon, { size: '1rem' })
+])
+
+const breakpointName = (bp: Breakpoint) => bp.kind === BreakpointKind.Function
+  ? `${bp.functionName}()`
+  : `${basename(bp.path)}:${bp.line + 1}`
+
+const jumpToBreakpoint = (bp: Breakpoint) => bp.kind === BreakpointKind.Source
+  && api.nvim.jumpTo({ path: bp.path, line: bp.line, column: bp.column })
+
+const Debuggers = (debuggers: DebuggerInfo[], active: string) => debuggers.length > 1 && h('div', [
+  ,header('Debuggers')
+  ,h('div', debuggers.map(m => ListItem(
+    m.type,
+    m.id === active,
+    () => api.ai.debug.switchDebugger(m.id),
+  )))
+])
+
+const Output = (output: DebugOutput[]) => h('div', {
+  style: {
+    ...paddingVH(8, 4),
+    overflow: 'auto',
+    whiteSpace: 'pre-wrap',
+    fontFamily: 'var(--font)',
+  },
+}, output.map(m => h('span', {
+  style: { color: m.category === 'stderr' ? cvar('foreground-40') : undefined },
+}, m.output)))
+
+const view = ($: S) => PluginRight($.visible, [
+
+  ,h('div', {
+    style: {
+      ...paddingVH(8, 8),
+      display: 'flex',
+      alignItems: 'center',
+    },
+  }, [
+    ,h('div', { style: { flex: 1 } }, $.type)
+    ,Button(Icon.Play, 'continue', () => api.ai.debug.continue())
+    ,Button(Icon.CornerDownRight, 'step over', () => api.ai.debug.next())
+    ,Button(Icon.Square, 'stop', () => api.ai.debug.stop())
+  ])
+
+  ,Debuggers($.debuggers, $.id)
+
+  ,h('div', [
+    ,header('Threads')
+    ,h('div', $.threads.map(m => ListItem(
+      m.name,
+      $.activeThread === m.id,
+      () => api.ai.debug.changeThread(m.id),
+    )))
+  ])
+
+  ,h('div', [
+    ,header('Stacks')
+    ,h('div', $.stackFrames.map(m => ListItem(
+      m.name,
+      $.activeStack === m.id,
+      () => api.ai.debug.changeStack(m.id),
+    )))
+  ])
+
+  ,h('div', [
+    ,header('Scopes')
+    ,h('div', $.scopes.map(m => ListItem(
+      m.name,
+      $.activeScope === m.variablesReference,
+      () => api.ai.debug.changeScope(m.variablesReference),
+    )))
+  ])
+
+  ,h('div', [
+    ,header('Variables')
+    ,h('div', $.variables.map(m => ListItem(
+      `${m.name} -> ${m.value}`,
+      false,
+    )))
+  ])
+
+  ,h('div', [
+    ,header('Breakpoints')
+    ,h('div', $.breakpoints.map(m => ListItem(
+      breakpointName(m),
+      false,
+      () => jumpToBreakpoint(m),
+    )))
+  ])
+
+  ,h('div', {
+    style: {
+      display: 'flex',
+      flexFlow: 'column',
+      flex: 1,
+      minHeight: 0,
+    },
+  }, [
+    ,header('Output')
+    ,Output($.output)
+  ])
+
+])
+
+const ui = app<S, A>({ name: 'debug', state, actions, view })
+
+api.ai.debug.onShow(ui.show)
+api.ai.debug.onHide(ui.hide)
+api.ai.debug.onToggle(ui.toggle)
+api.ai.debug.onUpdateState(ui.updateState)
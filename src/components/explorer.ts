@@ -1,5 +1,7 @@
-import { getDirFiles, pathRelativeToHome, pathRelativeToCwd, getDirs, $HOME } from '../support/utils'
+import { getDirFiles, pathRelativeToHome, pathRelativeToCwd, virtualDocumentUri, $HOME } from '../support/utils'
+import { showDialog as showFilesDialog, cancelDialog as cancelFilesDialog, matchesExtensions } from '../components/files'
 import { RowNormal, RowImportant } from '../components/row-container'
+import { FileDialogShow } from '../protocols/vscode-ui'
 import FiletypeIcon, { Folder } from '../components/filetype-icon'
 import { h, app, vimBlur, vimFocus } from '../ui/uikit'
 import { Plugin } from '../components/plugin-container'
@@ -28,8 +30,13 @@ const state = {
   ix: 0,
   pathMode: false,
   pathValue: '',
+  // paths marked in dialogs that can select many
+  marked: [] as string[],
 }
 
+// open and save dialogs from extensions. only selectable files are listed
+let dialog: FileDialogShow | undefined
+
 const sortDirFiles = (filedirs: FileDir[]) => {
   const dirs = filedirs.filter(f => f.dir)
   const files = filedirs.filter(f => f.file)
@@ -38,12 +45,29 @@ const sortDirFiles = (filedirs: FileDir[]) => {
 
 const absolutePath = (path: string) => path.replace(/^~\//, `${$HOME}/`) 
 
+// paths with an uri scheme like memfs:/src are listed by the file system provider of an extension
+const readDir = async (path: string): Promise<FileDir[]> => {
+  const entries = virtualDocumentUri(path, api.nvim.state.schemes) && await api.ai.fileSystem.readDirectory(path)
+  const paths: FileDir[] = entries || await getDirFiles(path)
+  if (!dialog) return paths
+
+  const { canSelectFiles, extensions } = dialog
+  return paths.filter(m => m.dir || (canSelectFiles && matchesExtensions(m.name, extensions)))
+}
+
+// memfs:/src/lib -> memfs:/src -> memfs:/
+const parentUri = (path: string) => {
+  if (path.endsWith(':/')) return path
+  const parent = path.replace(/\/+$/, '').replace(/[^/]*$/, '')
+  return parent.endsWith(':/') ? parent : parent.replace(/\/$/, '')
+}
+
 const pathExplore = async (path: string) => {
   const fullpath = absolutePath(path)
   const complete = fullpath.endsWith('/')
   const dir = complete ? fullpath : dirname(fullpath)
   const top = basename(fullpath)
-  const dirs = await getDirs(dir)
+  const dirs = (await readDir(dir)).filter(m => m.dir)
   return complete ? dirs : filter(dirs, top, { key: 'name' })
 }
 
@@ -51,6 +75,41 @@ const resetState = { val: '', path: '', vis: false, ix: 0 }
 
 type S = typeof state
 
+const finishDialog = (paths?: string[]) => {
+  if (!dialog) return
+  paths
+    ? api.vscodeUIEvent.fileDialog.accept(dialog.id, paths)
+    : api.vscodeUIEvent.fileDialog.hide(dialog.id)
+  dialog = undefined
+  vimFocus()
+  return { ...resetState, marked: [] }
+}
+
+const openDir = (path: string) => {
+  readDir(path).then(paths => ui.show({ path, paths: sortDirFiles(paths) }))
+}
+
+// save dialogs save to the typed name unless it is a directory. open dialogs
+// return the marked paths or the selected file. folders are selected with ctrl+l
+const selectInDialog = (s: S) => {
+  const selected = s.paths[s.ix]
+
+  if (dialog!.kind === 'save') {
+    const dir = s.paths.find(m => m.dir && m.name === s.val) || (!s.val && selected && selected.dir && selected)
+    if (dir) return openDir(join(s.path, dir.name))
+    const name = s.val || (selected && selected.name)
+    return name ? finishDialog([ join(s.path, name) ]) : undefined
+  }
+
+  if (s.marked.length) return finishDialog(s.marked)
+  if (!selected) return
+  if (selected.dir) return openDir(join(s.path, selected.name))
+  return finishDialog([ join(s.path, selected.name) ])
+}
+
+const canSelect = ({ dir, file }: FileDir) => dialog
+  && ((file && dialog.canSelectFiles) || (dir && dialog.canSelectFolders))
+
 const actions = {
   // TODO: when choosing custom path and go back, make sure it updates correctly
   // like ~/proj/veonim/ -> OK
@@ -72,7 +131,7 @@ const actions = {
 
   selectPath: () => (s: S) => {
     if (!s.pathValue) return { pathMode: false, ix: 0 }
-    getDirFiles(s.pathValue).then(paths => ui.updatePaths(sortDirFiles(paths)))
+    readDir(s.pathValue).then(paths => ui.updatePaths(sortDirFiles(paths)))
     return { pathMode: false, path: s.pathValue, ix: 0 }
   },
 
@@ -100,6 +159,7 @@ const actions = {
   },
 
   select: () => (s: S) => {
+    if (dialog) return selectInDialog(s)
     vimFocus()
     if (!s.paths.length) return resetState
 
@@ -112,7 +172,7 @@ const actions = {
     }
 
     const path = join(s.path, name)
-    getDirFiles(path).then(paths => ui.show({ path, paths: sortDirFiles(paths) }))
+    readDir(path).then(paths => ui.show({ path, paths: sortDirFiles(paths) }))
   },
 
   change: (val: string) => (s: S) => ({ val, ix: 0, paths: val
@@ -122,7 +182,7 @@ const actions = {
 
   ctrlH: async () => {
     const { cwd } = api.nvim.state
-    const filedirs = await getDirFiles(cwd)
+    const filedirs = await readDir(cwd)
     const paths = sortDirFiles(filedirs)
     ui.show({ paths, cwd, path: cwd })
   },
@@ -130,12 +190,28 @@ const actions = {
   jumpPrev: () => (s: S) => {
     const next = s.path.split(sep)
     next.pop()
-    const path = join(sep, ...next)
-    getDirFiles(path).then(paths => ui.show({ path, paths: sortDirFiles(paths) }))
+    const path = virtualDocumentUri(s.path, api.nvim.state.schemes) ? parentUri(s.path) : join(sep, ...next)
+    readDir(path).then(paths => ui.show({ path, paths: sortDirFiles(paths) }))
+  },
+
+  mark: () => (s: S) => {
+    const selected = s.paths[s.ix]
+    if (!dialog || !dialog.canSelectMany || !selected || !canSelect(selected)) return
+    const path = join(s.path, selected.name)
+    return { marked: s.marked.includes(path)
+      ? s.marked.filter(m => m !== path)
+      : [ ...s.marked, path ]
+    }
+  },
+
+  selectFolder: () => (s: S) => {
+    if (!dialog || !dialog.canSelectFolders) return
+    return finishDialog(s.marked.length ? s.marked : [ s.path ])
   },
 
-  show: ({ paths, path, cwd }: any) => (s: S) => (vimBlur(), {
+  show: ({ paths, path, cwd, val }: any) => (s: S) => (vimBlur(), {
     ...resetState,
+    val: val || '',
     path,
     paths,
     vis: true,
@@ -156,7 +232,7 @@ const actions = {
 
   top: () => { listElRef.scrollTop = 0 },
   bottom: () => { listElRef.scrollTop = listElRef.scrollHeight },
-  hide: () => (vimFocus(), resetState),
+  hide: () => finishDialog() || (vimFocus(), resetState),
   next: () => (s: S) => ({ ix: s.ix + 1 >= s.paths.length ? 0 : s.ix + 1 }),
   prev: () => (s: S) => ({ ix: s.ix - 1 < 0 ? s.paths.length - 1 : s.ix - 1 }),
 }
@@ -171,7 +247,7 @@ const view = ($: S, a: A) => Plugin($.vis, [
     value: $.val,
     focus: !$.pathMode,
     icon: Icon.HardDrive,
-    desc: 'explorer',
+    desc: dialog ? dialog.title || dialog.kind : 'explorer',
     change: a.change,
     hide: a.hide,
     next: a.next,
@@ -182,6 +258,8 @@ const view = ($: S, a: A) => Plugin($.vis, [
     up: a.up,
     ctrlG: a.ctrlG,
     ctrlH: a.ctrlH,
+    ctrlL: a.selectFolder,
+    tab: a.mark,
   })
 
   ,!$.pathMode && h(RowImportant, [
@@ -215,6 +293,8 @@ const view = ($: S, a: A) => Plugin($.vis, [
     key: `${name}-${dir}`,
     active: ix === $.ix,
   }, [
+    ,$.marked.includes(join($.path, name)) && h(Icon.Check, { color: cvar('foreground-b20') })
+
     ,dir ? Folder : FiletypeIcon(name)
 
     ,h('span', { style: { color: dir && ix !== $.ix ? cvar('foreground-50') : undefined } }, name)
@@ -230,6 +310,21 @@ api.onAction('explorer', async (customDir?: string) => {
   const currentDir = isTerminal ? cwd : api.nvim.state.dir
   const path = customDir || currentDir
 
-  const paths = sortDirFiles(await getDirFiles(path))
+  const paths = sortDirFiles(await readDir(path))
   ui.show({ cwd, path, paths })
 })
+
+// file dialogs of local files are project wide fuzzy finders. folders and
+// provider backed paths are browsed in the explorer
+api.vscodeUI.fileDialog.onShow(async options => {
+  // one dialog at a time. an earlier dialog that is still open is canceled
+  cancelFilesDialog()
+  if (dialog) ui.hide()
+
+  const fileFinder = options.kind === 'open' && !options.canSelectFolders && !virtualDocumentUri(options.path, api.nvim.state.schemes)
+  if (fileFinder) return showFilesDialog(options)
+
+  dialog = options
+  const paths = sortDirFiles(await readDir(options.path))
+  ui.show({ cwd: api.nvim.state.cwd, path: options.path, paths, val: options.name })
+})
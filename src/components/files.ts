@@ -1,3 +1,4 @@
+import { FileDialogShow } from '../protocols/vscode-ui'
 import { Plugin } from '../components/plugin-container'
 import { RowNormal } from '../components/row-container'
 import { h, app, vimBlur, vimFocus } from '../ui/uikit'
@@ -15,6 +16,11 @@ interface FileDir {
 }
 
 const worker = Worker('project-file-finder')
+
+/** File names allowed by the extensions of dialog filters. No extensions allow any file */
+export const matchesExtensions = (name: string, extensions: string[]) => !extensions.length
+  || extensions.some(m => name.toLowerCase().endsWith(`.${m.toLowerCase()}`))
+
 const formatDir = (dir: string) => dir === '.' ? '' : `${dir}/`
 const asDirFile = (files: string[], currentFile: string) => files
   .filter(m => m !== currentFile)
@@ -31,11 +37,25 @@ const state = {
   ix: 0,
   currentFile: '',
   loading: false,
+  // open dialog from an extension. files are relative to the dialog path
+  dialog: undefined as FileDialogShow | undefined,
+  marked: [] as string[],
 }
 
 type S = typeof state
 
-const resetState = { val: '', vis: false, ix: 0, loading: false, cache: [], files: [] }
+const resetState = { val: '', vis: false, ix: 0, loading: false, cache: [], files: [], dialog: undefined, marked: [] }
+
+const dialogPath = (s: S, { dir, file }: FileDir) => join(s.dialog!.path, dir, file)
+
+// the marked files, or the selected file
+const acceptDialog = (s: S) => {
+  const selected = s.files[s.ix]
+  const paths = s.marked.length ? s.marked : selected ? [ dialogPath(s, selected) ] : []
+  paths.length
+    ? api.vscodeUIEvent.fileDialog.accept(s.dialog!.id, paths)
+    : api.vscodeUIEvent.fileDialog.hide(s.dialog!.id)
+}
 
 const actions = {
   show: (currentFile: string) => (s: S) => (vimBlur(), {
@@ -45,14 +65,40 @@ const actions = {
     loading: true,
   }),
 
-  hide: () => {
+  showDialog: (dialog: FileDialogShow) => (vimBlur(), {
+    vis: true,
+    dialog,
+    currentFile: '',
+    loading: true,
+  }),
+
+  hide: () => (s: S) => {
+    if (s.dialog) api.vscodeUIEvent.fileDialog.hide(s.dialog.id)
     worker.call.stop()
     vimFocus()
     return resetState
   },
 
+  // the extension gets no paths, like when the dialog is hidden
+  cancelDialog: () => (s: S) => {
+    if (!s.dialog) return
+    api.vscodeUIEvent.fileDialog.hide(s.dialog.id)
+    worker.call.stop()
+    return resetState
+  },
+
+  mark: () => (s: S) => {
+    if (!s.dialog || !s.dialog.canSelectMany || !s.files[s.ix]) return
+    const path = dialogPath(s, s.files[s.ix])
+    return { marked: s.marked.includes(path)
+      ? s.marked.filter(m => m !== path)
+      : [ ...s.marked, path ]
+    }
+  },
+
   select: () => (s: S) => {
     vimFocus()
+    if (s.dialog) return (acceptDialog(s), resetState)
     if (!s.files.length) return resetState
     const { dir, file } = s.files[s.ix]
     const path = join(dir, file)
@@ -65,10 +111,16 @@ const actions = {
     return { val, ix: 0 }
   },
 
-  results: (files: string[]) => (s: S) => ({
-    cache: !s.cache.length ? files.slice(0, 10) : s.cache,
-    files: asDirFile(files, s.currentFile)
-  }),
+  results: (results: string[]) => (s: S) => {
+    const files = s.dialog
+      ? results.filter(m => matchesExtensions(m, s.dialog!.extensions))
+      : results
+
+    return {
+      cache: !s.cache.length ? files.slice(0, 10) : s.cache,
+      files: asDirFile(files, s.currentFile)
+    }
+  },
 
 
   loadingDone: () => ({ loading: false }),
@@ -85,10 +137,11 @@ const view = ($: S, a: typeof actions) => Plugin($.vis, [
     change: a.change,
     next: a.next,
     prev: a.prev,
+    tab: a.mark,
     value: $.val,
     focus: true,
     icon: Icon.FileText,
-    desc: 'open file',
+    desc: $.dialog && $.dialog.title || 'open file',
     // TODO: loading is so fast that this flickers and looks janky
     // use debounce or throttle to only show this if a loading operation
     // has already been going for a few ms. e.g. 150ms or more, etc.
@@ -98,6 +151,8 @@ const view = ($: S, a: typeof actions) => Plugin($.vis, [
   ,h('div', $.files.map(({ dir, file }, ix) => RowNormal({
     active: ix === $.ix,
   }, [
+    ,$.dialog && $.marked.includes(dialogPath($, { dir, file })) && h(Icon.Check, { color: cvar('foreground-b20') })
+
     ,FiletypeIcon(file)
 
     ,h('span', { style: { color: cvar('foreground-50') } }, dir)
@@ -120,3 +175,10 @@ api.onAction('files', () => {
 })
 
 export const show = () => {}
+
+export const showDialog = (dialog: FileDialogShow) => {
+  worker.call.load(dialog.path)
+  ui.showDialog(dialog)
+}
+
+export const cancelDialog = () => ui.cancelDialog()
@@ -1,15 +1,26 @@
-import { Plugin } from '../components/plugin-container'
+import { QuickPickShow, QuickInputButtonData } from '../protocols/vscode-ui'
+import QuickInputTitle, { formatTitle, findBackButton, findOtherButton } from '../components/quick-input-title'
 import { RowNormal } from '../components/row-container'
+import { Plugin } from '../components/plugin-container'
 import { h, app, vimBlur, vimFocus } from '../ui/uikit'
 import { CreateTask } from '../support/utils'
 import Input from '../components/text-input'
+import api from '../core/instance-api'
 import { filter } from 'fuzzaldrin-plus'
 import * as Icon from 'hyperapp-feather'
+import { cvar } from '../ui/css'
 import { Component } from 'hyperapp'
 
 export interface MenuOption {
   key: any,
   value: string,
+  description?: string,
+  detail?: string,
+  alwaysShow?: boolean,
+}
+
+interface FilterableOption extends MenuOption {
+  filterText: string,
 }
 
 interface Props {
@@ -21,71 +32,231 @@ interface Props {
 const state = {
   visible: false,
   value: '',
-  options: [] as MenuOption[],
-  cache: [] as MenuOption[],
+  options: [] as FilterableOption[],
+  cache: [] as FilterableOption[],
   description: '',
   ix: 0,
   icon: Icon.User,
   task: CreateTask(),
+  quickPickId: '',
+  remoteValue: '',
+  title: '',
+  busy: false,
+  enabled: true,
+  canSelectMany: false,
+  selected: [] as any[],
+  buttons: [] as QuickInputButtonData[],
 }
 
 type S = typeof state
 
-const resetState = { value: '', visible: false, ix: 0 }
+const resetState = { value: '', visible: false, ix: 0, quickPickId: '', selected: [] }
+
+// TODO: not hardcoded 14
+const filterOptions = (options: FilterableOption[], value: string) => {
+  if (!value) return options.slice(0, 14)
+  const matches = filter(options, value, { key: 'filterText' })
+  const alwaysShow = options.filter(m => m.alwaysShow && !matches.includes(m))
+  return [ ...matches, ...alwaysShow ].slice(0, 14)
+}
+
+const activeKeys = (options: MenuOption[], ix: number) => options[ix] ? [ options[ix].key ] : []
+
+const asFilterable = (options: MenuOption[]): FilterableOption[] => options
+  .map(m => ({ ...m, filterText: m.value }))
+
+const quickPickOptions = ({ items, matchOnDescription, matchOnDetail }: QuickPickShow) => items
+  .map(({ index, label, description, detail, alwaysShow }) => ({
+    key: index,
+    value: label,
+    description,
+    detail,
+    alwaysShow,
+    filterText: [
+      label,
+      matchOnDescription ? description : '',
+      matchOnDetail ? detail : '',
+    ].join(' '),
+  }))
+
+const quickPickState = (pick: QuickPickShow, s: S) => {
+  const cache = quickPickOptions(pick)
+  const valueChanged = pick.value !== s.remoteValue
+  const value = valueChanged ? pick.value : s.value
+  const options = filterOptions(cache, value)
+  const [ active ] = pick.activeItems
+  const activeIx = options.findIndex(m => m.key === active)
+
+  return {
+    cache,
+    options,
+    value,
+    quickPickId: pick.id,
+    remoteValue: pick.value,
+    title: formatTitle(pick.title, pick.step, pick.totalSteps),
+    description: pick.placeholder || '',
+    busy: pick.busy,
+    enabled: pick.enabled,
+    canSelectMany: pick.canSelectMany,
+    selected: pick.selectedItems,
+    buttons: pick.buttons,
+    ix: activeIx > -1 ? activeIx : Math.min(s.ix, Math.max(options.length - 1, 0)),
+  }
+}
+
+const quickPick = api.vscodeUIEvent.quickPick
+
+const triggerButton = (s: S, button?: QuickInputButtonData) => {
+  if (s.quickPickId && button) quickPick.triggerButton(s.quickPickId, button.index)
+}
 
 const actions = {
   select: () => (s: S) => {
+    if (s.quickPickId) {
+      if (!s.enabled) return
+      if (!s.canSelectMany) quickPick.changeSelection(s.quickPickId, activeKeys(s.options, s.ix))
+      quickPick.accept(s.quickPickId)
+      return
+    }
+
     vimFocus()
     if (!s.options.length) return resetState
     s.task.done((s.options[s.ix] || {}).key)
     return resetState
   },
 
-  // TODO: not hardcoded 14
-  change: (value: string) => (s: S) => ({ value, ix: 0, options: value
-    ? filter(s.cache, value, { key: 'value' }).slice(0, 14)
-    : s.cache.slice(0, 14)
-  }),
+  change: (value: string) => (s: S) => {
+    const options = filterOptions(s.cache, value)
+    if (s.quickPickId) {
+      quickPick.changeValue(s.quickPickId, value)
+      quickPick.changeActive(s.quickPickId, activeKeys(options, 0))
+    }
+    return { value, options, ix: 0 }
+  },
 
   show: ({ options, description, icon, task }: any) => (vimBlur(), {
     description,
-    options,
     task,
     icon,
-    cache: options,
-    visible: true
+    options: filterOptions(asFilterable(options), ''),
+    cache: asFilterable(options),
+    title: '',
+    busy: false,
+    enabled: true,
+    canSelectMany: false,
+    buttons: [],
+    visible: true,
+  }),
+
+  showQuickPick: (pick: QuickPickShow) => (s: S) => (vimBlur(), {
+    ...quickPickState(pick, { ...s, value: '', remoteValue: '', ix: 0 }),
+    icon: Icon.List,
+    visible: true,
   }),
 
-  hide: () => (vimFocus(), resetState),
-  next: () => (s: S) => ({ ix: s.ix + 1 > Math.min(s.options.length - 1, 13) ? 0 : s.ix + 1 }),
-  prev: () => (s: S) => ({ ix: s.ix - 1 < 0 ? Math.min(s.options.length - 1, 13) : s.ix - 1 }),
+  updateQuickPick: (pick: QuickPickShow) => (s: S) => {
+    if (s.quickPickId !== pick.id) return
+    return quickPickState(pick, s)
+  },
+
+  hideQuickPick: (id: string) => (s: S) => {
+    if (s.quickPickId !== id) return
+    vimFocus()
+    return resetState
+  },
+
+  hide: () => (s: S) => {
+    if (s.quickPickId) quickPick.hide(s.quickPickId)
+    vimFocus()
+    return resetState
+  },
+
+  toggleSelected: () => (s: S) => {
+    if (!s.quickPickId || !s.canSelectMany || !s.options[s.ix]) return
+    const { key } = s.options[s.ix]
+    const selected = s.selected.includes(key)
+      ? s.selected.filter(m => m !== key)
+      : [ ...s.selected, key ]
+    quickPick.changeSelection(s.quickPickId, selected)
+    return { selected }
+  },
+
+  backButton: () => (s: S) => triggerButton(s, findBackButton(s.buttons)),
+  firstButton: () => (s: S) => triggerButton(s, findOtherButton(s.buttons, 0)),
+  secondButton: () => (s: S) => triggerButton(s, findOtherButton(s.buttons, 1)),
+
+  next: () => (s: S) => {
+    const ix = s.ix + 1 > Math.min(s.options.length - 1, 13) ? 0 : s.ix + 1
+    if (s.quickPickId) quickPick.changeActive(s.quickPickId, activeKeys(s.options, ix))
+    return { ix }
+  },
+
+  prev: () => (s: S) => {
+    const ix = s.ix - 1 < 0 ? Math.min(s.options.length - 1, 13) : s.ix - 1
+    if (s.quickPickId) quickPick.changeActive(s.quickPickId, activeKeys(s.options, ix))
+    return { ix }
+  },
 }
 
 const view = ($: S, a: typeof actions) => Plugin($.visible, [
 
+  ,QuickInputTitle($.title, $.buttons)
+
   ,Input({
     select: a.select,
     change: a.change,
     hide: a.hide,
     next: a.next,
     prev: a.prev,
+    tab: a.toggleSelected,
+    ctrlH: a.backButton,
+    ctrlG: a.firstButton,
+    ctrlL: a.secondButton,
     value: $.value,
     desc: $.description,
     focus: true,
     icon: $.icon,
+    loading: $.busy,
+    color: $.enabled ? undefined : cvar('foreground-60'),
   })
 
-  ,h('div', $.options.map(({ key, value }, id) => h(RowNormal, {
+  ,h('div', $.options.map(({ key, value, description, detail }, id) => h(RowNormal, {
     key,
-    active: id === $.ix
+    active: id === $.ix,
+    style: detail ? { flexFlow: 'column', alignItems: 'flex-start' } : undefined,
   }, [
-    ,h('span', value)
+
+    ,h('div', { style: { display: 'flex', alignItems: 'center' } }, [
+      ,$.canSelectMany && h($.selected.includes(key) ? Icon.CheckSquare : Icon.Square, {
+        style: { marginRight: '8px' },
+      })
+      ,h('span', value)
+      ,description && h('span', {
+        style: {
+          marginLeft: '10px',
+          fontSize: '0.9rem',
+          color: cvar('foreground-60'),
+        }
+      }, description)
+    ])
+
+    ,detail && h('div', {
+      style: {
+        fontSize: '0.9rem',
+        color: cvar('foreground-50'),
+      }
+    }, detail)
+
   ])))
 
 ])
 
 const ui = app({ name: 'generic-menu', state, actions, view })
 
+api.vscodeUI.quickPick.onShow(ui.showQuickPick)
+api.vscodeUI.quickPick.onUpdate(ui.updateQuickPick)
+api.vscodeUI.quickPick.onHide(ui.hideQuickPick)
+
 export default <T>(props: Props) => {
   const task = CreateTask<T>()
   ui.show({ ...props, task })
@@ -1,54 +1,169 @@
+import QuickInputTitle, { formatTitle, findBackButton, findOtherButton } from '../components/quick-input-title'
+import { InputBoxShow, QuickInputButtonData } from '../protocols/vscode-ui'
 import { Plugin } from '../components/plugin-container'
-import { app, vimBlur, vimFocus } from '../ui/uikit'
+import { app, h, vimBlur, vimFocus } from '../ui/uikit'
 import { CreateTask } from '../support/utils'
 import Input from '../components/text-input'
+import api from '../core/instance-api'
 import * as Icon from 'hyperapp-feather'
+import { colors } from '../ui/styles'
+import { cvar } from '../ui/css'
 
 const state = {
   value: '',
   desc: '',
   visible: false,
   task: CreateTask(),
+  inputBoxId: '',
+  remoteValue: '',
+  title: '',
+  prompt: '',
+  validationMessage: '',
+  password: false,
+  busy: false,
+  enabled: true,
+  buttons: [] as QuickInputButtonData[],
+  selection: undefined as [number, number] | undefined,
+  cursor: -1,
 }
 
 type S = typeof state
 
-const resetState = { value: '', visible: false, desc: '' } 
+const resetState = { value: '', visible: false, desc: '', inputBoxId: '', selection: undefined, cursor: -1 }
+
+const inputBox = api.vscodeUIEvent.inputBox
+
+// the text input only knows how to add or remove characters at the end of the
+// value. when part of the value is selected (vscode valueSelection) the next
+// edit replaces the selection and typing continues from that position
+const applyEdit = (s: S, nextValue: string) => {
+  if (!s.selection && s.cursor < 0) return { value: nextValue }
+
+  const [ start, end ] = s.selection || [ s.cursor, s.cursor ]
+  const appended = nextValue.length > s.value.length && nextValue.startsWith(s.value)
+  const removed = nextValue === s.value.slice(0, -1)
+
+  if (!appended && !removed) return { value: nextValue, selection: undefined, cursor: -1 }
+
+  const removeStart = removed && start === end ? Math.max(start - 1, 0) : start
+  const typed = appended ? nextValue.slice(s.value.length) : ''
+  const value = s.value.slice(0, removeStart) + typed + s.value.slice(end)
+  const cursor = removeStart + typed.length
+
+  return { value, selection: undefined, cursor: cursor < value.length ? cursor : -1 }
+}
+
+const inputBoxState = (box: InputBoxShow, s: S) => ({
+  inputBoxId: box.id,
+  value: box.value !== s.remoteValue ? box.value : s.value,
+  remoteValue: box.value,
+  title: formatTitle(box.title, box.step, box.totalSteps),
+  desc: box.placeholder || '',
+  prompt: box.prompt || '',
+  validationMessage: box.validationMessage || '',
+  password: box.password,
+  busy: box.busy,
+  enabled: box.enabled,
+  buttons: box.buttons,
+})
+
+const triggerButton = (s: S, button?: QuickInputButtonData) => {
+  if (s.inputBoxId && button) inputBox.triggerButton(s.inputBoxId, button.index)
+}
 
 const actions = {
   show: ({ desc, task }: any) => (vimBlur(), {
     desc,
     task,
     value: '',
+    title: '',
+    prompt: '',
+    validationMessage: '',
+    password: false,
+    busy: false,
+    enabled: true,
+    buttons: [],
+    visible: true,
+  }),
+  showInputBox: (box: InputBoxShow) => (s: S) => (vimBlur(), {
+    ...inputBoxState(box, { ...s, remoteValue: '' }),
+    selection: box.valueSelection,
+    cursor: -1,
     visible: true,
   }),
-  hide: () => (vimFocus(), resetState),
-  change: (value: string) => ({ value }),
+  updateInputBox: (box: InputBoxShow) => (s: S) => {
+    if (s.inputBoxId !== box.id) return
+    return inputBoxState(box, s)
+  },
+  hideInputBox: (id: string) => (s: S) => {
+    if (s.inputBoxId !== id) return
+    vimFocus()
+    return resetState
+  },
+  hide: () => (s: S) => {
+    if (s.inputBoxId) inputBox.hide(s.inputBoxId)
+    vimFocus()
+    return resetState
+  },
+  change: (value: string) => (s: S) => {
+    const edit = applyEdit(s, value)
+    if (s.inputBoxId) inputBox.changeValue(s.inputBoxId, edit.value)
+    return edit
+  },
   select: () => (s: S) => {
+    if (s.inputBoxId) {
+      if (s.enabled) inputBox.accept(s.inputBoxId)
+      return
+    }
+
     s.value && s.task.done(s.value)
     vimFocus()
     return resetState
   },
+  backButton: () => (s: S) => triggerButton(s, findBackButton(s.buttons)),
+  firstButton: () => (s: S) => triggerButton(s, findOtherButton(s.buttons, 0)),
+  secondButton: () => (s: S) => triggerButton(s, findOtherButton(s.buttons, 1)),
 }
 
 type A = typeof actions
 
 const view = ($: S, a: A) => Plugin($.visible, [
 
+  ,QuickInputTitle($.title, $.buttons)
+
   ,Input({
     focus: true,
     icon: Icon.HelpCircle,
     hide: a.hide,
     select: a.select,
     change: a.change,
+    ctrlH: a.backButton,
+    ctrlG: a.firstButton,
+    ctrlL: a.secondButton,
     value: $.value,
     desc: $.desc,
+    password: $.password,
+    selection: $.selection,
+    position: $.cursor,
+    loading: $.busy,
+    color: $.enabled ? undefined : cvar('foreground-60'),
   })
 
+  ,($.validationMessage || $.prompt) && h('div', {
+    style: {
+      padding: '6px 12px',
+      color: $.validationMessage ? colors.error : cvar('foreground-50'),
+    }
+  }, $.validationMessage || $.prompt)
+
 ])
 
 const ui = app<S, A>({ name: 'generic-prompt', state, actions, view })
 
+api.vscodeUI.inputBox.onShow(ui.showInputBox)
+api.vscodeUI.inputBox.onUpdate(ui.updateInputBox)
+api.vscodeUI.inputBox.onHide(ui.hideInputBox)
+
 export default (question: string) => {
   const task = CreateTask<string>()
   ui.show({ task, desc: question })
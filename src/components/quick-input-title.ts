@@ -0,0 +1,39 @@
+import { QuickInputButtonData } from '../protocols/vscode-ui'
+import { RowHeader } from '../components/row-container'
+import * as Icon from 'hyperapp-feather'
+import { cvar } from '../ui/css'
+import { h } from '../ui/uikit'
+
+// keyboard shortcuts for the buttons in the title bar of a vscode quick input
+// (quick pick or input box). the back button is always <C-h>
+const otherShortcuts = ['C-g', 'C-l']
+
+const otherButtons = (buttons: QuickInputButtonData[]) => buttons.filter(m => !m.isBackButton)
+
+export const findBackButton = (buttons: QuickInputButtonData[]) => buttons.find(m => m.isBackButton)
+export const findOtherButton = (buttons: QuickInputButtonData[], position: number) => otherButtons(buttons)[position]
+
+const ButtonHint = ({ isBackButton, tooltip }: QuickInputButtonData, shortcut: string) => h('div', {
+  style: {
+    display: 'flex',
+    alignItems: 'center',
+    marginLeft: '12px',
+    color: cvar('foreground-50'),
+  }
+}, [
+  ,isBackButton && h(Icon.ArrowLeft)
+  ,h('span', { style: { marginLeft: '4px' } }, tooltip || (isBackButton ? 'Back' : 'Button'))
+  ,h('span', { style: { marginLeft: '6px', color: cvar('foreground-70') } }, shortcut)
+])
+
+export const formatTitle = (title?: string, step?: number, totalSteps?: number) => {
+  if (!title) return ''
+  return step ? `${title} (${step}/${totalSteps || step})` : title
+}
+
+export default (title: string, buttons: QuickInputButtonData[]) => (title || buttons.length) && h(RowHeader, {}, [
+  ,h('span', { style: { flex: 1 } }, title)
+  ,...buttons.map(button => ButtonHint(button, button.isBackButton
+    ? 'C-h'
+    : otherShortcuts[otherButtons(buttons).indexOf(button)] || ''))
+])
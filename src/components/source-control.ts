@@ -0,0 +1,339 @@
+import { SourceControlData, ScmGroupData, ScmMenuCommand, ProgressShow } from '../protocols/vscode-ui'
+import { registerShadowComponent } from '../core/shadow-buffers'
+import userSelectOption from '../components/generic-menu'
+import { RowNormal } from '../components/row-container'
+import { h, app, vimBlur, vimFocus } from '../ui/uikit'
+import FiletypeIcon from '../components/filetype-icon'
+import { Codicon } from '../components/codicon'
+import * as Icon from 'hyperapp-feather'
+import api from '../core/instance-api'
+import { basename, dirname, relative } from 'path'
+import { cvar } from '../ui/css'
+
+// every row of the view. resources are identified by their group and their index
+interface Row {
+  key: string
+  handle: string
+  groupId?: string
+  index?: number
+  kind: 'control' | 'input' | 'group' | 'resource'
+}
+
+const BUFFER_NAME = 'source-control'
+const scm = api.vscodeUIEvent.scm
+const element = document.createElement('div')
+const inputs = new Map<string, HTMLTextAreaElement>()
+let containerRef: HTMLElement
+
+const state = {
+  controls: [] as SourceControlData[],
+  active: '',
+  progress: [] as ProgressShow[],
+}
+
+type S = typeof state
+
+const visibleGroups = (control: SourceControlData) => control.groups
+  .filter(m => !m.hideWhenEmpty || m.resources.length)
+
+const getRows = (controls: SourceControlData[]): Row[] => controls.reduce((res, control) => {
+  const { handle } = control
+
+  const groups = visibleGroups(control).reduce((rows, { id, resources }) => [
+    ...rows,
+    { key: `${handle}/${id}`, handle, groupId: id, kind: 'group' },
+    ...resources.map((_, index) => ({ key: `${handle}/${id}/${index}`, handle, groupId: id, index, kind: 'resource' })),
+  ] as Row[], [] as Row[])
+
+  return [
+    ...res,
+    { key: handle, handle, kind: 'control' },
+    { key: `${handle}/input`, handle, kind: 'input' },
+    ...groups,
+  ] as Row[]
+}, [] as Row[])
+
+const findGroup = (controls: SourceControlData[], { handle, groupId }: Row) => {
+  const control = controls.find(m => m.handle === handle)
+  const group = control && control.groups.find(m => m.id === groupId)
+  return { control, group }
+}
+
+const focusInput = (handle: string) => {
+  const input = inputs.get(handle)
+  if (input) input.focus()
+}
+
+// the input is the source of truth while it has focus. updates from the extension
+// host are debounced and can carry a value from before the last keystrokes
+const withLocalInput = (control: SourceControlData) => {
+  const input = inputs.get(control.handle)
+  const typing = input && input === document.activeElement
+  return typing ? { ...control, inputValue: input!.value } : control
+}
+
+const actions = {
+  update: (data: SourceControlData) => (s: S) => {
+    const control = withLocalInput(data)
+    const exists = s.controls.some(m => m.handle === control.handle)
+    const controls = exists
+      ? s.controls.map(m => m.handle === control.handle ? control : m)
+      : [ ...s.controls, control ]
+    return { controls, active: s.active || control.handle }
+  },
+  remove: (handle: string) => (s: S) => ({
+    controls: s.controls.filter(m => m.handle !== handle),
+    active: s.active.startsWith(handle) ? '' : s.active,
+  }),
+  changeInput: ({ handle, value }: { handle: string, value: string }) => (s: S) => {
+    scm.changeInputValue(handle, value)
+    return { controls: s.controls.map(m => m.handle === handle ? { ...m, inputValue: value } : m) }
+  },
+  select: (key: string) => ({ active: key }),
+  showProgress: (progress: ProgressShow) => (s: S) => ({ progress: s.progress.some(m => m.id === progress.id)
+    ? s.progress.map(m => m.id === progress.id ? progress : m)
+    : [ ...s.progress, progress ]
+  }),
+  hideProgress: (id: string) => (s: S) => ({ progress: s.progress.filter(m => m.id !== id) }),
+}
+
+type A = typeof actions
+
+const move = ($: S, a: A, offset: number) => {
+  const rows = getRows($.controls)
+  if (!rows.length) return
+  const ix = rows.findIndex(m => m.key === $.active)
+  const next = Math.min(Math.max(ix + offset, 0), rows.length - 1)
+  a.select(rows[next].key)
+}
+
+const activate = ($: S, row: Row) => {
+  if (row.kind === 'input') return focusInput(row.handle)
+  if (row.kind !== 'resource') return
+
+  const { group } = findGroup($.controls, row)
+  const resource = group && group.resources[row.index!]
+  if (resource && resource.hasCommand) scm.openResource(row.handle, row.groupId!, row.index!)
+}
+
+const menuCommands = ($: S, row: Row): ScmMenuCommand[] => {
+  const { control, group } = findGroup($.controls, row)
+  if (group) return row.kind === 'resource' ? group.resourceCommands : group.commands
+  return control ? control.commands : []
+}
+
+const showMenu = async ($: S, row: Row) => {
+  const options = menuCommands($, row).map(m => ({ key: m.command, value: m.title, description: m.command }))
+  if (!options.length) return
+
+  const command = await userSelectOption<string>({
+    description: 'source control command',
+    icon: Icon.GitCommit,
+    options,
+  })
+
+  if (command) scm.runCommand(row.handle, command, row.groupId, row.index)
+}
+
+const cancelProgress = ($: S) => $.progress
+  .filter(m => m.cancellable)
+  .forEach(m => api.vscodeUIEvent.progress.cancel(m.id))
+
+const keydown = ($: S, a: A) => (e: KeyboardEvent) => {
+  const row = getRows($.controls).find(m => m.key === $.active)
+
+  if (e.key === 'c' && e.ctrlKey) return cancelProgress($)
+
+  if (e.key === 'j' || e.key === 'ArrowDown') return move($, a, 1)
+  if (e.key === 'k' || e.key === 'ArrowUp') return move($, a, -1)
+  if (e.key === 'Enter' && row) return activate($, row)
+  if (e.key === 'i' && row) return focusInput(row.handle)
+  if (e.key === 'm' && row) return showMenu($, row)
+
+  if (e.key === 'Escape') {
+    vimFocus()
+    api.nvim.cmd('wincmd p')
+  }
+}
+
+// ctrl/cmd + enter accepts the input like in vscode. enter is a new line in the commit message
+const inputKeydown = (control: SourceControlData) => (e: KeyboardEvent) => {
+  e.stopPropagation()
+  if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+    e.preventDefault()
+    if (control.canAcceptInput) scm.acceptInput(control.handle)
+  }
+  if (e.key === 'Escape' && containerRef) containerRef.focus()
+}
+
+const Input = (control: SourceControlData, a: A) => h('textarea', {
+  rows: Math.min(Math.max(control.inputValue.split('\n').length, 1), 6),
+  value: control.inputValue,
+  placeholder: control.inputPlaceholder,
+  oncreate: (e: HTMLTextAreaElement) => inputs.set(control.handle, e),
+  ondestroy: () => inputs.delete(control.handle),
+  oninput: (e: any) => a.changeInput({ handle: control.handle, value: e.target.value }),
+  onkeydown: inputKeydown(control),
+  style: {
+    width: '100%',
+    resize: 'none',
+    outline: 'none',
+    border: 'none',
+    padding: '4px 6px',
+    fontFamily: 'inherit',
+    fontSize: '1rem',
+    color: cvar('foreground'),
+    background: cvar('background-10'),
+  }
+})
+
+// ctrl+c or a click cancels cancellable progress
+const Progress = (progress: ProgressShow) => h('div', {
+  key: progress.id,
+  title: progress.cancellable ? 'click to cancel' : undefined,
+  onclick: () => progress.cancellable && api.vscodeUIEvent.progress.cancel(progress.id),
+  style: {
+    padding: '4px 12px',
+    cursor: progress.cancellable ? 'pointer' : undefined,
+  }
+}, [
+  ,h('div', {
+    style: {
+      display: 'flex',
+      alignItems: 'center',
+      color: cvar('foreground-60'),
+    }
+  }, [
+    ,h('div', { style: { marginRight: '8px' } }, [
+      ,Codicon('loader', true)
+    ])
+    ,h('span', [ progress.title, progress.message ].filter(m => m).join(' '))
+  ])
+
+  ,progress.percentage !== undefined && h('div', {
+    style: {
+      marginTop: '4px',
+      height: '2px',
+      width: `${progress.percentage}%`,
+      background: cvar('foreground-50'),
+    }
+  })
+])
+
+const Group = ($: S, a: A, control: SourceControlData, group: ScmGroupData) => [
+  ,h(RowNormal, {
+    key: `${control.handle}/${group.id}`,
+    active: $.active === `${control.handle}/${group.id}`,
+    onclick: () => a.select(`${control.handle}/${group.id}`),
+    style: { fontSize: '0.9rem', fontWeight: 'bold', textTransform: 'uppercase' },
+  }, [
+    ,h('span', group.label)
+    ,h('span', { style: { marginLeft: '8px', color: cvar('foreground-50') } }, group.resources.length)
+  ])
+
+  ,...group.resources.map((resource, index) => {
+    const key = `${control.handle}/${group.id}/${index}`
+    const row = { key, handle: control.handle, groupId: group.id, index, kind: 'resource' } as Row
+    const folder = control.rootPath ? relative(control.rootPath, dirname(resource.path)) : dirname(resource.path)
+
+    return h(RowNormal, {
+      key,
+      active: $.active === key,
+      title: resource.tooltip || resource.path,
+      onclick: () => (a.select(key), activate($, row)),
+      style: {
+        paddingLeft: '24px',
+        opacity: resource.faded ? 0.6 : undefined,
+      },
+    }, [
+      ,h('div', { style: { display: 'flex', marginRight: '6px' } }, [
+        ,resource.iconPath
+          ? h('img', { src: resource.iconPath, style: { width: '14px', height: '14px' } })
+          : FiletypeIcon(resource.path)
+      ])
+
+      ,h('span', {
+        style: { textDecoration: resource.strikeThrough ? 'line-through' : undefined },
+      }, basename(resource.path))
+
+      ,folder && h('span', {
+        style: {
+          marginLeft: '8px',
+          fontSize: '0.9rem',
+          color: cvar('foreground-60'),
+        }
+      }, folder)
+    ])
+  })
+]
+
+const view = ($: S, a: A) => h('div', {
+  tabIndex: 0,
+  onkeydown: keydown($, a),
+  oncreate: (e: HTMLElement) => containerRef = e,
+  style: {
+    height: '100%',
+    overflowY: 'auto',
+    outline: 'none',
+  }
+}, [
+
+  ,...$.progress.map(Progress)
+
+  ,!$.controls.length && h('div', {
+    style: {
+      padding: '8px 12px',
+      color: cvar('foreground-50'),
+    }
+  }, 'no source control providers have been registered by extensions')
+
+  ,...$.controls.map(control => h('div', { key: control.handle }, [
+
+    ,h(RowNormal, {
+      active: $.active === control.handle,
+      onclick: () => a.select(control.handle),
+      style: { fontWeight: 'bold', textTransform: 'uppercase', fontSize: '0.9rem' },
+    }, [
+      ,h('span', control.label)
+      ,control.rootPath && h('span', {
+        style: { marginLeft: '8px', textTransform: 'none', color: cvar('foreground-50') }
+      }, basename(control.rootPath))
+      ,control.count !== undefined && h('span', {
+        style: { marginLeft: '8px', color: cvar('foreground-50') }
+      }, control.count)
+    ])
+
+    ,h('div', {
+      onclick: () => a.select(`${control.handle}/input`),
+      style: {
+        padding: '4px 12px',
+        borderLeft: `2px solid ${$.active === `${control.handle}/input` ? cvar('foreground-50') : 'transparent'}`,
+      }
+    }, [
+      ,Input(control, a)
+    ])
+
+    ,...visibleGroups(control).reduce((res, group) => [ ...res, ...Group($, a, control, group) ], [] as any[])
+
+  ]))
+
+])
+
+const ui = app<S, A>({ name: BUFFER_NAME, state, actions, view, element })
+
+registerShadowComponent(() => ({
+  element,
+  name: BUFFER_NAME,
+  onFocus: () => {
+    vimBlur()
+    if (containerRef) containerRef.focus()
+  },
+  onBlur: () => containerRef && containerRef.blur(),
+}))
+
+api.vscodeUI.scm.onUpdate(control => ui.update(control))
+api.vscodeUI.scm.onDispose(handle => ui.remove(handle))
+api.vscodeUI.progress.onShow(progress => progress.location === 'scm' && ui.showProgress(progress))
+api.vscodeUI.progress.onHide(ui.hideProgress)
+
+api.onAction('source-control', () => api.nvim.cmd(`vertical sbuffer ${BUFFER_NAME}`))
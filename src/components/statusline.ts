@@ -2,6 +2,9 @@ import { onSwitchVim, getCurrentName } from '../core/instance-manager'
 import { getColorByName } from '../render/highlight-attributes'
 import { sub, processAnyBuffered } from '../messaging/dispatch'
 import { darken, brighten, cvar } from '../ui/css'
+import { StatusBarItemShow, ProgressShow } from '../protocols/vscode-ui'
+import { StatusBarAlignment } from '../vscode/types'
+import CodiconText, { Codicon } from '../components/codicon'
 import { ExtContainer } from '../neovim/protocol'
 import * as Icon from 'hyperapp-feather'
 import api from '../core/instance-api'
@@ -42,6 +45,8 @@ const state = {
   additions: 0,
   deletions: 0,
   baseColor: '#4e415a',
+  items: [] as StatusBarItemShow[],
+  progress: [] as ProgressShow[],
 }
 
 type S = typeof state
@@ -88,6 +93,13 @@ const actions = {
   setGitStatus: ({ additions, deletions }: any) => ({ additions, deletions }),
   setColor: (baseColor: any) => ({ baseColor }),
   aiStart: ({ cwd, filetype }: any) => (s: S) => ({ runningServers: new Set([...s.runningServers, cwd + filetype]) }),
+  showItem: (item: StatusBarItemShow) => (s: S) => ({ items: [ ...s.items.filter(m => m.id !== item.id), item ] }),
+  hideItem: (id: string) => (s: S) => ({ items: s.items.filter(m => m.id !== id) }),
+  showProgress: (progress: ProgressShow) => (s: S) => ({ progress: s.progress.some(m => m.id === progress.id)
+    ? s.progress.map(m => m.id === progress.id ? progress : m)
+    : [ ...s.progress, progress ]
+  }),
+  hideProgress: (id: string) => (s: S) => ({ progress: s.progress.filter(m => m.id !== id) }),
 }
 
 const iconStyle = { style: { fontSize: '16px' } }
@@ -115,6 +127,51 @@ const Tab = ({ id, label, active }: TabView) => h('div', {
   },
 }, label)
 
+// higher priority items are shown more to the left
+const alignedItems = (items: StatusBarItemShow[], alignment: StatusBarAlignment) => items
+  .filter(m => m.alignment === alignment)
+  .sort((a, b) => b.priority - a.priority)
+
+const StatusBarItem = ({ id, text, tooltip, color, clickable }: StatusBarItemShow) => h('div', {
+  key: id,
+  title: tooltip,
+  onclick: () => clickable && api.vscodeUIEvent.statusBarItem.click(id),
+  style: {
+    ...itemStyle,
+    paddingLeft: '10px',
+    paddingRight: '10px',
+    paddingBottom: '1px',
+    color: color || cvar('foreground-60'),
+    cursor: clickable ? 'pointer' : undefined,
+  },
+}, CodiconText(text))
+
+const progressLabel = ({ title, message, percentage }: ProgressShow) => [
+  title,
+  message,
+  percentage !== undefined && `${Math.round(percentage)}%`,
+].filter(m => m).join(' ')
+
+// cancellable progress is cancelled by clicking on it
+const Progress = (progress: ProgressShow) => h('div', {
+  key: progress.id,
+  title: progress.cancellable ? 'click to cancel' : undefined,
+  onclick: () => progress.cancellable && api.vscodeUIEvent.progress.cancel(progress.id),
+  style: {
+    ...itemStyle,
+    paddingLeft: '10px',
+    paddingRight: '10px',
+    color: cvar('foreground-60'),
+    cursor: progress.cancellable ? 'pointer' : undefined,
+  },
+}, [
+  ,h('div', { style: iconBoxStyle }, [
+    ,Codicon('loader', true)
+  ])
+
+  ,Label(progressLabel(progress))
+])
+
 const view = ($: S) => h('div', {
   style: {
     flex: '1',
@@ -221,6 +278,23 @@ const view = ($: S) => h('div', {
       }, `${$.deletions}`)
     ])
 
+    // EXTENSION ITEMS
+    ,h('div', {
+      style: {
+        ...statusGroupStyle,
+        marginLeft: '16px',
+        height: '100%',
+      }
+    }, alignedItems($.items, StatusBarAlignment.Left).map(StatusBarItem))
+
+    // EXTENSION PROGRESS
+    ,h('div', {
+      style: {
+        ...statusGroupStyle,
+        height: '100%',
+      }
+    }, $.progress.map(Progress))
+
     // STATUSBAR MESSAGE
     ,h('div', [
       ,h('div', {
@@ -250,6 +324,15 @@ const view = ($: S) => h('div', {
       }, $.controlMessage)
     ])
 
+    // EXTENSION ITEMS
+    ,h('div', {
+      style: {
+        ...statusGroupStyle,
+        marginRight: '10px',
+        height: '100%',
+      }
+    }, alignedItems($.items, StatusBarAlignment.Right).map(StatusBarItem))
+
     ,$.runningServers.has(api.nvim.state.cwd + $.filetype) && h('div', {
       style: itemStyle,
     }, [
@@ -362,6 +445,10 @@ sub('ai.diagnostics.count', count => ui.setDiagnostics(count))
 sub('ai.start', opts => ui.aiStart(opts))
 sub('message.status', msg => ui.setMessage(msg))
 sub('message.control', msg => ui.setControlMessage(msg))
+api.vscodeUI.statusBarItem.onShow(ui.showItem)
+api.vscodeUI.statusBarItem.onHide(ui.hideItem)
+api.vscodeUI.progress.onShow(progress => progress.location === 'window' && ui.showProgress(progress))
+api.vscodeUI.progress.onHide(ui.hideProgress)
 onSwitchVim(() => ui.updateTabs({ active: -1, tabs: [] }))
 
 api.nvim.watchState.colorscheme(async () => {
@@ -13,6 +13,8 @@ interface Props {
   desc: string,
   focus: boolean,
   position: number,
+  selection: [number, number],
+  password: boolean,
   change: (val: string) => void,
   select: (val: string) => void,
   hide: () => void,
@@ -48,6 +50,11 @@ const setPosition = (e?: HTMLInputElement, position?: number) => {
   position > -1 && e.setSelectionRange(position, position)
 }
 
+const setSelection = (e?: HTMLInputElement, selection?: [number, number]) => {
+  if (!e || !selection) return
+  e.setSelectionRange(selection[0], selection[1])
+}
+
 const setFocus = (e: HTMLInputElement, shouldFocus: boolean) => {
   if (e && e !== document.activeElement && shouldFocus) e.focus()
   if (!shouldFocus) e && e.blur()
@@ -84,7 +91,9 @@ const view = ({
   loadingColor,
   value = '',
   position = -1,
+  selection,
   small = false,
+  password = false,
   focus = false,
   loading = false,
   pathMode = false,
@@ -129,14 +138,16 @@ const view = ({
         color,
         fontSize: small ? '1rem' : '1.4rem',
       },
-      type: 'text',
+      type: password ? 'password' : 'text',
       oncreate: (e: HTMLInputElement) => {
         setFocus(e, focus)
         setPosition(e, position)
+        setSelection(e, selection)
       },
       onupdate: (e: HTMLInputElement) => {
         setFocus(e, focus)
         setPosition(e, position)
+        setSelection(e, selection)
       },
       placeholder: desc,
       onkeyup: (e: KeyboardEvent) => {
@@ -0,0 +1,297 @@
+import { registerShadowComponent } from '../core/shadow-buffers'
+import FiletypeIcon, { Folder } from '../components/filetype-icon'
+import userSelectOption from '../components/generic-menu'
+import { RowNormal } from '../components/row-container'
+import { h, app, vimBlur, vimFocus } from '../ui/uikit'
+import { TreeItemData } from '../protocols/vscode-ui'
+import { Codicon } from '../components/codicon'
+import * as Icon from 'hyperapp-feather'
+import api from '../core/instance-api'
+import { cvar } from '../ui/css'
+
+enum CollapsibleState { None, Collapsed, Expanded }
+
+interface TreeNode {
+  item: TreeItemData
+  parent: string
+  expanded: boolean
+  children?: string[]
+}
+
+interface TreeViewUI {
+  name: string
+  title: string
+  actions: any
+}
+
+const views = new Map<string, TreeViewUI>()
+const treeView = api.vscodeUIEvent.treeView
+
+const bufferName = (viewId: string) => `tree-view-${viewId}`
+
+// only the expanded parts of the tree are shown, in the same order as the
+// rendered rows. used for moving up and down with the keyboard
+const visibleNodes = (nodes: Map<string, TreeNode>, handles: string[] = [], depth = 0): [string, number][] => handles
+  .reduce((res, handle) => {
+    const node = nodes.get(handle)
+    if (!node) return res
+    const children = node.expanded ? visibleNodes(nodes, node.children, depth + 1) : []
+    return [ ...res, [handle, depth] as [string, number], ...children ]
+  }, [] as [string, number][])
+
+const ItemIcon = ({ icon, iconPath, resourcePath, collapsibleState }: TreeItemData) => {
+  if (icon) return Codicon(icon)
+  if (iconPath) return h('img', { src: iconPath, style: { width: '14px', height: '14px' } })
+  if (!resourcePath) return
+  return collapsibleState === CollapsibleState.None ? FiletypeIcon(resourcePath) : Folder
+}
+
+const Chevron = (node: TreeNode) => h('div', {
+  style: {
+    display: 'flex',
+    width: '14px',
+    marginRight: '4px',
+  }
+}, [
+  ,node.item.collapsibleState !== CollapsibleState.None && h(node.expanded
+    ? Icon.ChevronDown
+    : Icon.ChevronRight, { size: 14 })
+])
+
+const createTreeView = (viewId: string, title: string) => {
+  const element = document.createElement('div')
+  let containerRef: HTMLElement
+
+  const state = {
+    title,
+    nodes: new Map<string, TreeNode>(),
+    roots: undefined as string[] | undefined,
+    active: '',
+  }
+
+  type S = typeof state
+
+  const loadChildren = (handle: string) => treeView.getChildren(viewId, handle)
+
+  const actions = {
+    setTitle: (title: string) => ({ title }),
+    setChildren: ({ parent, items }: { parent: string, items: TreeItemData[] }) => (s: S) => {
+      const nodes = new Map(s.nodes)
+
+      const handles = items.map(item => {
+        const previous = nodes.get(item.handle)
+        const expanded = previous
+          ? previous.expanded
+          : item.collapsibleState === CollapsibleState.Expanded
+
+        if (expanded && !(previous && previous.children)) loadChildren(item.handle)
+        nodes.set(item.handle, { ...previous, item, parent, expanded })
+        return item.handle
+      })
+
+      if (!parent) return { nodes, roots: handles }
+
+      const parentNode = nodes.get(parent)
+      if (parentNode) nodes.set(parent, { ...parentNode, children: handles })
+      return { nodes }
+    },
+    select: (handle: string) => {
+      treeView.select(viewId, handle)
+      return { active: handle }
+    },
+    expand: (handle: string) => (s: S) => {
+      const node = s.nodes.get(handle)
+      if (!node || node.expanded || node.item.collapsibleState === CollapsibleState.None) return
+
+      if (!node.children) loadChildren(handle)
+      treeView.expand(viewId, handle)
+      return { nodes: new Map(s.nodes).set(handle, { ...node, expanded: true }) }
+    },
+    collapse: (handle: string) => (s: S) => {
+      const node = s.nodes.get(handle)
+      if (!node || !node.expanded) return
+
+      treeView.collapse(viewId, handle)
+      return { nodes: new Map(s.nodes).set(handle, { ...node, expanded: false }) }
+    },
+    reveal: ({ expandHandles, handle, select }: { expandHandles: string[], handle: string, select: boolean }) => (s: S) => {
+      const nodes = new Map(s.nodes)
+      expandHandles.forEach(m => {
+        const node = nodes.get(m)
+        if (node) nodes.set(m, { ...node, expanded: true })
+      })
+
+      if (select) treeView.select(viewId, handle)
+      return select ? { nodes, active: handle } : { nodes }
+    },
+    reset: () => ({ nodes: new Map(), roots: undefined, active: '' }),
+  }
+
+  type A = typeof actions
+
+  const move = ($: S, a: A, offset: number) => {
+    const rows = visibleNodes($.nodes, $.roots)
+    if (!rows.length) return
+    const ix = rows.findIndex(([ handle ]) => handle === $.active)
+    const next = Math.min(Math.max(ix + offset, 0), rows.length - 1)
+    a.select(rows[next][0])
+  }
+
+  const activate = ($: S, a: A, handle: string) => {
+    const node = $.nodes.get(handle)
+    if (!node) return
+    if (node.item.hasCommand) return treeView.execute(viewId, handle)
+    node.expanded ? a.collapse(handle) : a.expand(handle)
+  }
+
+  const keydown = ($: S, a: A) => (e: KeyboardEvent) => {
+    const node = $.nodes.get($.active)
+
+    if (e.key === 'j' || e.key === 'ArrowDown') return move($, a, 1)
+    if (e.key === 'k' || e.key === 'ArrowUp') return move($, a, -1)
+    if (e.key === 'Enter' && node) return activate($, a, $.active)
+
+    if ((e.key === 'l' || e.key === 'ArrowRight') && node) return a.expand($.active)
+
+    if ((e.key === 'h' || e.key === 'ArrowLeft') && node) {
+      if (node.expanded) return a.collapse($.active)
+      if (node.parent) a.select(node.parent)
+      return
+    }
+
+    if (e.key === 'Escape') {
+      vimFocus()
+      api.nvim.cmd('wincmd p')
+    }
+  }
+
+  const view = ($: S, a: A) => h('div', {
+    tabIndex: 0,
+    onkeydown: keydown($, a),
+    oncreate: (e: HTMLElement) => containerRef = e,
+    style: {
+      height: '100%',
+      overflowY: 'auto',
+      outline: 'none',
+    }
+  }, [
+
+    ,h('div', {
+      style: {
+        padding: '8px 12px',
+        fontSize: '0.9rem',
+        fontWeight: 'bold',
+        textTransform: 'uppercase',
+        color: cvar('foreground-50'),
+      }
+    }, $.title)
+
+    ,$.roots && !$.roots.length && h('div', {
+      style: {
+        padding: '4px 12px',
+        color: cvar('foreground-50'),
+      }
+    }, 'no items')
+
+    ,visibleNodes($.nodes, $.roots).map(([ handle, depth ]) => {
+      const node = $.nodes.get(handle)!
+      const { label, description, tooltip, contextValue } = node.item
+
+      return h(RowNormal, {
+        key: handle,
+        active: handle === $.active,
+        title: tooltip || label,
+        'data-context-value': contextValue,
+        onclick: () => (a.select(handle), activate($, a, handle)),
+        style: { paddingLeft: `${12 + depth * 14}px` },
+      }, [
+        ,Chevron(node)
+
+        ,h('div', { style: { display: 'flex', marginRight: '6px' } }, [
+          ,ItemIcon(node.item)
+        ])
+
+        ,h('span', label)
+
+        ,description && h('span', {
+          style: {
+            marginLeft: '8px',
+            fontSize: '0.9rem',
+            color: cvar('foreground-60'),
+          }
+        }, description)
+      ])
+    })
+
+  ])
+
+  const actionsApi = app<S, A>({ name: bufferName(viewId), state, actions, view, element })
+
+  registerShadowComponent(() => ({
+    element,
+    name: bufferName(viewId),
+    onFocus: () => {
+      vimBlur()
+      if (containerRef) containerRef.focus()
+    },
+    onBlur: () => containerRef && containerRef.blur(),
+    onShow: () => {
+      treeView.changeVisibility(viewId, true)
+      loadChildren('')
+    },
+    onHide: () => treeView.changeVisibility(viewId, false),
+  }))
+
+  return actionsApi
+}
+
+api.vscodeUI.treeView.onRegister((viewId, title) => {
+  const existing = views.get(viewId)
+
+  // the extension host was restarted. the shadow buffer already exists
+  if (existing) {
+    existing.title = title
+    existing.actions.setTitle(title)
+    existing.actions.reset()
+    return treeView.getChildren(viewId, '')
+  }
+
+  views.set(viewId, { title, name: bufferName(viewId), actions: createTreeView(viewId, title) })
+})
+
+api.vscodeUI.treeView.onSetChildren((viewId, parent, items) => {
+  const view = views.get(viewId)
+  if (view) view.actions.setChildren({ parent, items })
+})
+
+api.vscodeUI.treeView.onRefresh((viewId, handle) => {
+  if (views.has(viewId)) treeView.getChildren(viewId, handle)
+})
+
+api.vscodeUI.treeView.onReveal((viewId, expandHandles, handle, select) => {
+  const view = views.get(viewId)
+  if (view) view.actions.reveal({ expandHandles, handle, select })
+})
+
+api.vscodeUI.treeView.onDispose(viewId => {
+  const view = views.get(viewId)
+  if (view) view.actions.reset()
+})
+
+api.onAction('tree-view', async () => {
+  const options = [...views.entries()].map(([ viewId, { title } ]) => ({
+    key: viewId,
+    value: title,
+    description: viewId,
+  }))
+
+  if (!options.length) return api.nvim.cmd(`echo "no tree views have been registered by extensions"`)
+
+  const viewId = await userSelectOption<string>({
+    description: 'open tree view',
+    icon: Icon.List,
+    options,
+  })
+
+  if (viewId) api.nvim.cmd(`vertical sbuffer ${bufferName(viewId)}`)
+})
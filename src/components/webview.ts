@@ -0,0 +1,227 @@
+import { RESOURCE_ROOTS_CHANNEL, isUnderRoot, parseResourceUrl, resourceUrl } from '../support/webview-resources'
+import { registerShadowComponent, removeShadowComponent } from '../core/shadow-buffers'
+import { WebviewPanelData } from '../protocols/vscode-ui'
+import { vimBlur, vimFocus } from '../ui/uikit'
+import api from '../core/instance-api'
+import { makel } from '../ui/vanilla'
+import { ipcRenderer } from 'electron'
+import { cvar } from '../ui/css'
+
+interface Webview {
+  panel: WebviewPanelData
+  name: string
+  html: string
+  element: HTMLElement
+  title: HTMLElement
+  iframe: HTMLIFrameElement
+  pendingMessages: any[]
+  loaded: boolean
+  visible: boolean
+  active: boolean
+}
+
+// vscode ViewColumn.Active
+const ACTIVE_VIEW_COLUMN = -1
+const webviews = new Map<string, Webview>()
+const resourceUrls = /vscode-resource:[^"'\s)]+/g
+const cspMeta = /<meta[^>]+http-equiv=["']?content-security-policy/i
+const defaultPolicy = [
+  `default-src 'none'`,
+  `img-src vscode-resource: https: data:`,
+  `media-src vscode-resource: https:`,
+  `font-src vscode-resource: data:`,
+  `style-src vscode-resource: 'unsafe-inline'`,
+  `script-src vscode-resource: 'unsafe-inline'`,
+].join('; ')
+
+let bufferCount = 0
+
+// the main process serves vscode-resource: urls only from the roots of the webview in the url
+const setResourceRoots = (id: string, roots?: string[]) => ipcRenderer.send(RESOURCE_ROOTS_CHANNEL, id, roots)
+
+// urls in the html are pointed at this webview. resources outside of
+// localResourceRoots are removed, they would not load anyways
+const mapResources = (html: string, panel: WebviewPanelData) => html.replace(resourceUrls, url => {
+  const { path } = parseResourceUrl(url)
+  return isUnderRoot(path, panel.localResourceRoots) ? resourceUrl(panel.id, path) : ''
+})
+
+// acquireVsCodeApi() for scripts inside the webview. this is the first element
+// in the document, so it runs before the extension csp meta tag is applied
+const preamble = (state: any) => `<script>
+(function() {
+  let state = ${(JSON.stringify(state) || 'undefined').replace(/</g, '\\u003c')}
+  let acquired = false
+  const send = (type, data) => window.parent.postMessage({ veonimWebview: true, type, data }, '*')
+
+  window.acquireVsCodeApi = () => {
+    if (acquired) throw new Error('An instance of the VS Code API has already been acquired')
+    acquired = true
+    return Object.freeze({
+      postMessage: message => send('message', message),
+      setState: nextState => (state = nextState, send('state', nextState), nextState),
+      getState: () => state,
+    })
+  }
+
+  window.addEventListener('keydown', e => e.key === 'Escape' && send('escape'))
+})()
+</script>`
+
+const renderHtml = ({ panel, html }: Webview) => {
+  const policy = cspMeta.test(html) ? '' : `<meta http-equiv="Content-Security-Policy" content="${defaultPolicy}">`
+  return preamble(panel.state) + policy + mapResources(html, panel)
+}
+
+const load = (webview: Webview) => {
+  webview.loaded = false
+  webview.iframe.setAttribute('sandbox', webview.panel.enableScripts ? 'allow-scripts allow-forms' : '')
+  webview.iframe.srcdoc = renderHtml(webview)
+}
+
+const changeViewState = (webview: Webview, patch: { visible?: boolean, active?: boolean }) => {
+  Object.assign(webview, patch)
+  api.vscodeUIEvent.webview.changeViewState(webview.panel.id, webview.visible, webview.active)
+}
+
+const leaveWebview = () => {
+  vimFocus()
+  api.nvim.cmd('wincmd p')
+}
+
+const show = (name: string, viewColumn: number, preserveFocus: boolean) => {
+  const open = viewColumn === ACTIVE_VIEW_COLUMN ? 'buffer' : 'vertical sbuffer'
+  const win = `bufwinnr('${name}')`
+
+  if (preserveFocus) return api.nvim.cmd(`if ${win} < 0 | ${open} ${name} | wincmd p | endif`)
+  api.nvim.cmd(`if ${win} < 0 | ${open} ${name} | else | exe ${win} . 'wincmd w' | endif`)
+}
+
+const createWebview = (panel: WebviewPanelData) => {
+  const element = makel({
+    display: 'flex',
+    flexFlow: 'column',
+  })
+
+  const title = makel({
+    padding: '6px 12px',
+    fontSize: '0.9rem',
+    color: cvar('foreground-50'),
+    background: cvar('background-20'),
+  })
+
+  const iframe = makel('iframe', {
+    flex: 1,
+    border: 'none',
+    background: 'white',
+  }) as HTMLIFrameElement
+
+  title.innerText = panel.title
+  element.tabIndex = 0
+  element.appendChild(title)
+  element.appendChild(iframe)
+
+  const webview: Webview = {
+    panel,
+    element,
+    title,
+    iframe,
+    name: `webview-${panel.viewType}-${++bufferCount}`,
+    html: '',
+    pendingMessages: [],
+    loaded: false,
+    visible: false,
+    active: false,
+  }
+
+  iframe.addEventListener('load', () => {
+    webview.loaded = true
+    webview.pendingMessages.forEach(message => iframe.contentWindow!.postMessage(message, '*'))
+    webview.pendingMessages = []
+  })
+
+  element.addEventListener('keydown', e => e.key === 'Escape' && leaveWebview())
+
+  webviews.set(panel.id, webview)
+  setResourceRoots(panel.id, panel.localResourceRoots)
+
+  const registered = registerShadowComponent(() => ({
+    element,
+    name: webview.name,
+    onFocus: () => {
+      vimBlur()
+      panel.enableScripts ? iframe.focus() : element.focus()
+      changeViewState(webview, { active: true })
+    },
+    onBlur: () => changeViewState(webview, { active: false }),
+    // moving the iframe in the dom reloads it. the webview state from
+    // setState() is given to the new document
+    onShow: () => {
+      load(webview)
+      changeViewState(webview, { visible: true })
+    },
+    onHide: () => changeViewState(webview, { visible: false, active: false }),
+  }))
+
+  return { webview, registered }
+}
+
+window.addEventListener('message', e => {
+  if (!e.data || !e.data.veonimWebview) return
+  const webview = [...webviews.values()].find(m => m.iframe.contentWindow === e.source)
+  if (!webview) return
+
+  const { type, data } = e.data
+  if (type === 'message') api.vscodeUIEvent.webview.receiveMessage(webview.panel.id, data)
+  if (type === 'escape') leaveWebview()
+  if (type === 'state') {
+    webview.panel.state = data
+    api.vscodeUIEvent.webview.setState(webview.panel.id, data)
+  }
+})
+
+api.vscodeUI.webview.onCreate(async (panel, viewColumn, preserveFocus) => {
+  const { webview, registered } = createWebview(panel)
+  await registered
+  show(webview.name, viewColumn, preserveFocus)
+})
+
+api.vscodeUI.webview.onUpdate(panel => {
+  const webview = webviews.get(panel.id)
+  if (!webview) return
+
+  const reload = webview.panel.enableScripts !== panel.enableScripts
+    || webview.panel.localResourceRoots.join() !== panel.localResourceRoots.join()
+
+  webview.panel = { ...panel, state: webview.panel.state }
+  setResourceRoots(panel.id, panel.localResourceRoots)
+  webview.title.innerText = panel.title
+  if (reload && webview.visible) load(webview)
+})
+
+api.vscodeUI.webview.onSetHtml((id, html) => {
+  const webview = webviews.get(id)
+  if (!webview) return
+  webview.html = html
+  if (webview.visible) load(webview)
+})
+
+api.vscodeUI.webview.onPostMessage((id, message) => {
+  const webview = webviews.get(id)
+  if (!webview) return
+  if (!webview.loaded) return webview.pendingMessages.push(message)
+  webview.iframe.contentWindow!.postMessage(message, '*')
+})
+
+api.vscodeUI.webview.onReveal((id, viewColumn, preserveFocus) => {
+  const webview = webviews.get(id)
+  if (webview) show(webview.name, viewColumn, preserveFocus)
+})
+
+api.vscodeUI.webview.onDispose(id => {
+  const webview = webviews.get(id)
+  if (!webview) return
+  webviews.delete(id)
+  setResourceRoots(id)
+  removeShadowComponent(webview.name)
+})
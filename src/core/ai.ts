@@ -3,13 +3,19 @@ import { getSignatureHint } from '../ai/signature-hint'
 import { call, on } from '../messaging/worker-client'
 import { getWorkspaceSymbols } from '../ai/symbols'
 import { runCodeAction } from '../ai/diagnostics'
+import { getDocumentColor, setDocumentColor } from '../ai/document-colors'
+import { changeThread, changeStack, changeScope, switchActiveDebugger, continuee, next, stop } from '../ai/debug'
+import { vscode } from '../core/extensions-api'
 import colorizer from '../services/colorizer'
 import { AI } from '../ai/protocol'
 import nvim from '../neovim/api'
+import '../ai/selection-range'
+import '../ai/document-links'
 import '../ai/type-definition'
 import '../ai/implementation'
 import '../ai/references'
 import '../ai/definition'
+import '../ai/folding'
 import '../ai/highlights'
 import '../ai/rename'
 import '../ai/hover'
@@ -36,6 +42,16 @@ nvim.on.cursorMoveInsert(async () => {
 on.aiGetCompletionDetail(getCompletionDetail)
 on.aiGetWorkspaceSymbols(getWorkspaceSymbols)
 on.aiRunCodeAction(runCodeAction)
+on.aiGetDocumentColor(getDocumentColor)
+on.aiSetDocumentColor(setDocumentColor)
+on.aiReadDirectory(vscode.fileSystem.readDirectory)
+on.aiDebugChangeThread(changeThread)
+on.aiDebugChangeStack(changeStack)
+on.aiDebugChangeScope(changeScope)
+on.aiDebugSwitchDebugger(switchActiveDebugger)
+on.aiDebugContinue(continuee)
+on.aiDebugNext(next)
+on.aiDebugStop(stop)
 
 export const ui: AI = new Proxy(Object.create(null), {
   get: (_: any, namespace: string) => new Proxy(Object.create(null), {
@@ -1,7 +1,9 @@
 import { DebugAdapterConnection } from '../messaging/debug-protocol'
 import { DiagnosticsEvent } from '../extension-host/language-events'
+import { FileSystemEntry } from '../extension-host/file-system'
 import * as workerHost from '../messaging/worker-client'
 import { Providers } from '../extension-host/providers'
+import { Breakpoint } from '../ai/breakpoints'
 import { threadSafeObject } from '../support/utils'
 import nvimSyncApiHandler from '../neovim/sync-api'
 import Worker from '../messaging/worker'
@@ -20,11 +22,6 @@ export interface DebuggerInfo {
   type: string
 }
 
-export interface DebugStarterPack {
-  connection: DebugAdapterConnection
-  launchConfig: DebugConfiguration
-}
-
 const { on, call, request, onContextHandler } = Worker('extension-host', {
   workerData: workerHost.workerData,
   sharedMemorySize: (1024**2) * 4,
@@ -34,11 +31,14 @@ onContextHandler(nvimSyncApiHandler)
 
 on.clipboardRead(workerHost.request.clipboardRead)
 on.clipboardWrite(workerHost.call.clipboardWrite)
+on.openExternal(workerHost.call.openExternal)
 on.showVSCodeMessage(workerHost.request.showVSCodeMessage)
 on.updateVSCodeMessageProgress(workerHost.request.updateVSCodeMessageProgress)
 on.removeVSCodeMessageProgress(workerHost.request.removeVSCodeMessageProgress)
 on.showNeovimMessage(workerHost.request.showNeovimMessage)
 on.showStatusBarMessage(workerHost.call.showStatusBarMessage)
+on.vscodeUI(workerHost.call.vscodeUI)
+workerHost.on.vscodeUIEvent(call.vscodeUIEvent)
 
 const providerBridge: Providers = new Proxy(Object.create(null), {
   get: (_: any, method: string) => (...args: any[]) => {
@@ -56,6 +56,17 @@ export const vscode = {
   commands: {
     executeCommand: (command: string, ...args: any[]) => request.commands_execute(command, args),
   },
+  debug: {
+    onStartSession: (fn: (serverId: string, launchConfig: DebugConfiguration) => void) => on.debugStartSession(fn),
+    onChangeBreakpoints: (fn: (added: Breakpoint[], removed: Breakpoint[]) => void) => on.debugBreakpointsChanged(fn),
+    onAdapterOutput: (fn: (serverId: string, output: string) => void) => on.debugAdapterOutput(fn),
+    changeBreakpoints: (added: Breakpoint[], removed: Breakpoint[]) => call.debug_changeBreakpoints(added, removed),
+    setActiveSession: (serverId?: string) => call.debug_setActiveSession(serverId),
+    connect: (serverId: string) => bridgeDebugAdapterServer(serverId),
+  },
+  fileSystem: {
+    readDirectory: (path: string): Promise<FileSystemEntry[] | undefined> => request.fileSystem_readDirectory(path),
+  },
   textSync: {
     pause: () => call.set_text_sync_state(false),
     resume: () => call.set_text_sync_state(true),
@@ -99,24 +110,10 @@ export const list = {
   launchConfigs: (): Promise<DebugConfiguration[]> => request.listLaunchConfigs(),
 }
 
+// started sessions are sent back with vscode.debug.onStartSession, the same
+// way as sessions started by extensions with vscode.debug.startDebugging
 export const start = {
-  // TODO: deprecate?
-  debug: async (type: string): Promise<DebugAdapterConnection> => {
-    const serverId = await request.startDebug(type)
-    if (!serverId) throw new Error(`was not able to start debug adapter ${type}`)
-
-    return bridgeDebugAdapterServer(serverId)
-  },
-  debugWithType: async (folderUri: string, type: string): Promise<DebugStarterPack> => {
-    const { launchConfig, serverId } = await request.startDebugWithType(folderUri, type)
-    if (!serverId) throw new Error(`was not able to start debug adapter ${type}`)
-
-    return { launchConfig, connection: bridgeDebugAdapterServer(serverId) }
-  },
-  debugWithConfig: async (folderUri: string, config: DebugConfiguration): Promise<DebugStarterPack> => {
-    const { launchConfig, serverId } = await request.startDebugWithConfig(folderUri, config)
-    if (!serverId) throw new Error(`was not able to start debug adapter ${config.type}`)
-
-    return { launchConfig, connection: bridgeDebugAdapterServer(serverId) }
-  },
+  debug: (): Promise<boolean> => request.startDebug(),
+  debugWithType: (type: string): Promise<boolean> => request.startDebugWithType(type),
+  debugWithConfig: (config: DebugConfiguration): Promise<boolean> => request.startDebugWithConfig(config),
 }
@@ -1,27 +1,32 @@
 import { getActiveInstance, onSwitchVim, onCreateVim, instances } from '../core/instance-manager'
 import { VimMode, BufferInfo, HyperspaceCoordinates } from '../neovim/types'
 import { MessageStatusUpdate, MessageReturn } from '../protocols/veonim'
-import { AIClient, WorkspaceSymbol } from '../ai/protocol'
-import { onFnCall, pascalCase } from '../support/utils'
+import { VSCodeUIClient, VSCodeUIEvents } from '../protocols/vscode-ui'
+import { AIClient, WorkspaceSymbol, CodeActionItem, DocumentColor } from '../ai/protocol'
+import { FileSystemEntry } from '../extension-host/file-system'
+import { CompletionItemData } from '../extension-host/providers'
+import { onFnCall, pascalCase, isExternalUrl } from '../support/utils'
 import { colors } from '../render/highlight-attributes'
 import { Functions } from '../neovim/function-types'
 import { WindowMetadata } from '../windows/metadata'
-import { CompletionItem, CodeAction } from 'vscode'
+import { Color, Range } from 'vscode'
 import * as dispatch from '../messaging/dispatch'
 import { GitStatus } from '../support/git'
 import NeovimState from '../neovim/state'
 import { EventEmitter } from 'events'
-import { clipboard } from 'electron'
+import { clipboard, shell } from 'electron'
 
 const ee = new EventEmitter()
 const { state, watchState, onStateValue, onStateChange, untilStateValue } = NeovimState('nvim-mirror')
 const actionRegistrations: string[] = []
+const shadowBufferRegistrations: string[] = []
 
 onCreateVim(info => {
   const isActive = () => info.id && instances.current
   const instance = getActiveInstance()
 
   if (actionRegistrations.length) actionRegistrations.forEach(name => instance.call.onAction(name))
+  shadowBufferRegistrations.forEach(name => instance.call.nvimAddShadowBuffer(name))
 
   instance.on.nvimStateUpdate((stateDiff: any) => {
     if (info.id !== instances.current) return
@@ -70,6 +75,9 @@ onCreateVim(info => {
   instance.on.ai((namespace: string, method: string, args: any[]) => {
     isActive() && ee.emit(`ai.${namespace}.on${pascalCase(method)}`, ...args)
   })
+  instance.on.vscodeUI((namespace: string, method: string, args: any[]) => {
+    isActive() && ee.emit(`vscode.${namespace}.on${pascalCase(method)}`, ...args)
+  })
 
   instance.on.getDefaultColors(async () => ({
     background: colors.background,
@@ -84,6 +92,9 @@ onCreateVim(info => {
 
   instance.on.clipboardRead(async () => clipboard.readText())
   instance.on.clipboardWrite((text: string) => clipboard.writeText(text))
+  instance.on.openExternal((url: string) => isExternalUrl(url)
+    ? shell.openExternal(url)
+    : console.warn(`not opening ${url}. only http, https and mailto links are opened`))
 })
 
 onSwitchVim(async () => {
@@ -127,6 +138,21 @@ const onAction = (name: string, fn: (...args: any[]) => void) => {
   }
 }
 
+const nvimAddShadowBuffer = async (name: string) => {
+  shadowBufferRegistrations.push(name)
+  try {
+    await getActiveInstance().request.nvimAddShadowBuffer(name)
+  } catch (_) {
+    // not worried if no instance, we will add it later in 'onCreateVim'
+  }
+}
+
+const nvimRemoveShadowBuffer = (name: string) => {
+  const ix = shadowBufferRegistrations.indexOf(name)
+  if (ix > -1) shadowBufferRegistrations.splice(ix, 1)
+  nvimCommand(`silent! bwipeout! ${name}`)
+}
+
 const git = {
   onStatus: (fn: (status: GitStatus) =>  void) => ee.on('git.status', fn),
   onBranch: (fn: (branch: string) => void) => ee.on('git.branch', fn),
@@ -160,7 +186,7 @@ const nvimRemoveHighlightSearch = async (id: number, pattern?: string): Promise<
 
 const manualAI = {
   completions: {
-    getDetail: (item: CompletionItem): Promise<CompletionItem> => {
+    getDetail: (item: CompletionItemData): Promise<CompletionItemData | undefined> => {
       return getActiveInstance().request.aiGetCompletionDetail(item)
     },
   },
@@ -170,8 +196,29 @@ const manualAI = {
     }
   },
   codeAction: {
-    run: (action: CodeAction) => getActiveInstance().call.aiRunCodeAction(action),
-  }
+    run: (action: CodeActionItem) => getActiveInstance().call.aiRunCodeAction(action),
+  },
+  documentColor: {
+    get: (): Promise<DocumentColor | undefined> => getActiveInstance().request.aiGetDocumentColor(),
+    set: (color: Color, range: Range): Promise<Range | undefined> => {
+      return getActiveInstance().request.aiSetDocumentColor(color, range)
+    },
+  },
+  debug: {
+    changeThread: (threadId: number) => getActiveInstance().call.aiDebugChangeThread(threadId),
+    changeStack: (frameId: number) => getActiveInstance().call.aiDebugChangeStack(frameId),
+    changeScope: (variablesReference: number) => getActiveInstance().call.aiDebugChangeScope(variablesReference),
+    switchDebugger: (id: string) => getActiveInstance().call.aiDebugSwitchDebugger(id),
+    continue: () => getActiveInstance().call.aiDebugContinue(),
+    next: () => getActiveInstance().call.aiDebugNext(),
+    stop: () => getActiveInstance().call.aiDebugStop(),
+  },
+  // directories of uri schemes from file system providers. undefined for other paths
+  fileSystem: {
+    readDirectory: (path: string): Promise<FileSystemEntry[] | undefined> => {
+      return getActiveInstance().request.aiReadDirectory(path)
+    },
+  },
 }
 
 type AIAPI = AIClient & typeof manualAI
@@ -187,6 +234,22 @@ const ai: AIAPI = new Proxy(Object.create(null), {
   })
 })
 
+const vscodeUI: VSCodeUIClient = new Proxy(Object.create(null), {
+  get: (_: any, namespace: string) => new Proxy(Object.create(null), {
+    get: (_: any, method: string) => (fn: (...args: any[]) => void) => {
+      ee.on(`vscode.${namespace}.${method}`, fn)
+    }
+  })
+})
+
+const vscodeUIEvent: VSCodeUIEvents = new Proxy(Object.create(null), {
+  get: (_: any, namespace: string) => new Proxy(Object.create(null), {
+    get: (_: any, event: string) => (...args: any[]) => {
+      getActiveInstance().call.vscodeUIEvent(namespace, event, args)
+    }
+  })
+})
+
 const onConfig = {
   inputRemapModifiersDidChange: (fn: (modifiers: any[]) => void) => ee.on('input.remap.modifiers', fn),
   inputKeyTransformsDidChange: (fn: (transforms: any[]) => void) => ee.on('input.key.transforms', fn),
@@ -195,6 +258,8 @@ const onConfig = {
 const api = {
   ai,
   git,
+  vscodeUI,
+  vscodeUIEvent,
   onAction,
   onConfig,
   getWindowMetadata,
@@ -212,6 +277,8 @@ const api = {
     untilStateValue,
     cmd: nvimCommand,
     getVar: nvimGetVar,
+    addShadowBuffer: nvimAddShadowBuffer,
+    removeShadowBuffer: nvimRemoveShadowBuffer,
     jumpTo: nvimJumpTo,
     onLoad: nvimLoaded,
     feedkeys: nvimFeedkeys,
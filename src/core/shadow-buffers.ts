@@ -1,4 +1,4 @@
-import nvim from '../neovim/api'
+import api from '../core/instance-api'
 
 type Callback = () => void
 
@@ -22,7 +22,12 @@ const shadowBuffers = new Map<string, ShadowBuffer>()
 export const registerShadowComponent = (initFn: () => ShadowBuffer) => {
   const shadowComponent =  initFn()
   shadowBuffers.set(shadowComponent.name, shadowComponent)
-  nvim.buffers.addShadow(shadowComponent.name)
+  return api.nvim.addShadowBuffer(shadowComponent.name)
+}
+
+export const removeShadowComponent = (name: string) => {
+  shadowBuffers.delete(name)
+  api.nvim.removeShadowBuffer(name)
 }
 
 export const getShadowBuffer = (name: string) => shadowBuffers.get(name)
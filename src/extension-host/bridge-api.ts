@@ -1,6 +1,15 @@
 import { Message, MessageReturn, MessageStatusUpdate } from '../protocols/veonim'
-import { request, call } from '../messaging/worker-client'
-import { uuid } from '../support/utils'
+import { VSCodeUI, VSCodeUIEventsClient } from '../protocols/vscode-ui'
+import { request, call, on } from '../messaging/worker-client'
+import { uuid, pascalCase } from '../support/utils'
+import { EventEmitter } from 'events'
+
+const uiEvents = new EventEmitter()
+uiEvents.setMaxListeners(200)
+
+on.vscodeUIEvent((namespace: string, event: string, args: any[]) => {
+  uiEvents.emit(`${namespace}.on${pascalCase(event)}`, ...args)
+})
 
 export const showMessage = async (message: Message): Promise<MessageReturn> => {
   const id = uuid()
@@ -17,3 +26,24 @@ export const showProgressMessage = async (message: Message): Promise<MessageRetu
   const setProgress = (update: MessageStatusUpdate) => request.updateVSCodeMessageProgress(id, update)
   return { promise, remove, setProgress }
 }
+
+export const ui: VSCodeUI = new Proxy(Object.create(null), {
+  get: (_: any, namespace: string) => new Proxy(Object.create(null), {
+    get: (_: any, method: string) => (...args: any[]) => call.vscodeUI(namespace, method, args)
+  })
+})
+
+// the ui of a namespace is shared between all of its instances (quick picks,
+// tree views, webviews, etc.) and every event starts with the instance id
+export const ownEvents = (id: string) => (fn: (...args: any[]) => void) => (eventId: string, ...args: any[]) => {
+  if (eventId === id) fn(...args)
+}
+
+export const uiEvent: VSCodeUIEventsClient = new Proxy(Object.create(null), {
+  get: (_: any, namespace: string) => new Proxy(Object.create(null), {
+    get: (_: any, method: string) => (fn: (...args: any[]) => void) => {
+      uiEvents.on(`${namespace}.${method}`, fn)
+      return () => uiEvents.removeListener(`${namespace}.${method}`, fn)
+    }
+  })
+})
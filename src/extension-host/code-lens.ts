@@ -0,0 +1,102 @@
+import { providers, getProviders } from '../extension-host/providers'
+import { CancellationTokenSource } from '../vscode/cancellation'
+import { ui } from '../extension-host/bridge-api'
+import { CodeLensLine } from '../protocols/vscode-ui'
+import TextDocument from '../vscode/text-document'
+import { debounce } from '../support/utils'
+import commands from '../vscode/commands'
+import window from '../vscode/window'
+import nvim from '../neovim/api'
+import * as vsc from 'vscode'
+
+interface ResolvedLens {
+  line: number
+  command: vsc.Command
+}
+
+const bufferLenses = new Map<number, ResolvedLens[]>()
+// lenses are queried after every change, so a failing provider is only reported once
+const failedProviders = new WeakSet<vsc.CodeLensProvider>()
+let pendingRequest = new CancellationTokenSource()
+
+const reportFailure = (provider: vsc.CodeLensProvider) => (err: any) => {
+  if (failedProviders.has(provider)) return
+  failedProviders.add(provider)
+  window.showErrorMessage(`code lens provider failed: ${err && err.message || err}`)
+}
+
+const provideLenses = async (provider: vsc.CodeLensProvider, document: vsc.TextDocument, token: vsc.CancellationToken) => {
+  const lenses = await Promise.resolve(provider.provideCodeLenses(document, token)).catch(reportFailure(provider))
+  if (!lenses) return []
+
+  const resolved = await Promise.all(lenses.map(async lens => {
+    if (lens.isResolved || !provider.resolveCodeLens) return lens
+    return Promise.resolve(provider.resolveCodeLens(lens, token)).catch(reportFailure(provider))
+  }))
+
+  return resolved.reduce((res, lens) => {
+    if (!lens || !lens.command || !lens.command.title) return res
+    return [ ...res, { line: lens.range.start.line, command: lens.command } ]
+  }, [] as ResolvedLens[])
+}
+
+const asLines = async (bufferId: number, lenses: ResolvedLens[]): Promise<CodeLensLine[]> => {
+  const lines = [...new Set(lenses.map(m => m.line))].sort((a, b) => a - b)
+  const buffer = nvim.Buffer(bufferId)
+
+  return Promise.all(lines.map(async line => {
+    const lineContent = await buffer.getLine(line)
+    return {
+      line,
+      character: (lineContent.match(/^\s*/) || [''])[0].length,
+      titles: lenses.filter(m => m.line === line).map(m => m.command.title),
+    }
+  }))
+}
+
+const refresh = async () => {
+  pendingRequest.cancel()
+  const request = pendingRequest = new CancellationTokenSource()
+  const bufferId = nvim.current.buffer.id
+  const codeLensProviders = getProviders<vsc.CodeLensProvider>(providers.codeLens)
+
+  if (!codeLensProviders.length) {
+    if (bufferLenses.delete(bufferId)) ui.codeLens.set(bufferId, [])
+    return
+  }
+
+  const document = TextDocument(bufferId)
+  const results = await Promise.all(codeLensProviders.map(m => provideLenses(m, document, request.token)))
+  if (request.token.isCancellationRequested) return
+
+  const lenses = results.reduce((res, m) => [ ...res, ...m ], [])
+  bufferLenses.set(bufferId, lenses)
+  ui.codeLens.set(bufferId, await asLines(bufferId, lenses))
+}
+
+/** Query code lenses again for the current buffer. Edits and provider change events trigger a refresh */
+export const refreshCodeLenses = debounce(refresh, 300)
+
+nvim.on.bufLoad(refreshCodeLenses)
+nvim.on.bufChange(refreshCodeLenses)
+nvim.on.bufWrite(refreshCodeLenses)
+nvim.on.insertLeave(refreshCodeLenses)
+nvim.on.filetype(refreshCodeLenses)
+nvim.on.bufClose(buffer => buffer && bufferLenses.delete(buffer.id))
+
+nvim.onAction('code-lens', async () => {
+  const lenses = (bufferLenses.get(nvim.current.buffer.id) || [])
+    .filter(m => m.line === nvim.state.line)
+
+  if (!lenses.length) return
+
+  const pick = lenses.length === 1
+    ? lenses[0]
+    : await window.showQuickPick(lenses.map(m => ({ label: m.command.title, lens: m })), {
+      placeHolder: 'Run code lens',
+    }).then(m => m && m.lens)
+
+  if (!pick || !pick.command.command) return
+  const { command, arguments: args = [] } = pick.command
+  commands.executeCommand(command, ...args)
+})
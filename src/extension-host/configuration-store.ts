@@ -1,12 +1,197 @@
+import { Watcher, readFile, writeFile, exists } from '../support/utils'
+import { USER_SETTINGS_PATH } from '../support/config-paths'
+import { ConfigurationTarget } from '../vscode/types'
+import { parse, modify, applyEdits, ParseError } from 'jsonc-parser'
+import { watchFile } from '../support/fs-watch'
+import { dirname, join } from 'path'
 import nvim from '../neovim/api'
 
-const store = {
+interface Settings {
+  [key: string]: any
+}
+
+export interface ConfigurationInspect {
+  key: string
+  defaultValue?: any
+  globalValue?: any
+  workspaceValue?: any
+  workspaceFolderValue?: any
+  defaultLanguageValue?: any
+  globalLanguageValue?: any
+  workspaceLanguageValue?: any
+  workspaceFolderLanguageValue?: any
+}
+
+type Layer = 'defaults' | 'vim' | 'user' | 'workspace'
+
+// lowest to highest priority. g:vscode_config is part of the global (user)
+// settings, but settings.json wins because that is where update() writes to
+const layerOrder: Layer[] = [ 'defaults', 'vim', 'user', 'workspace' ]
+const layers: { [K in Layer]: Settings } = {
+  defaults: {},
+  vim: {},
   user: {},
-  extensions: {},
-  updates: {},
+  workspace: {},
+}
+
+const watchedFiles = new Map<string, { close: () => void }>()
+const events = Watcher<{ didChange: string[] }>()
+
+const workspaceSettingsPath = () => join(nvim.state.cwd, '.vscode', 'settings.json')
+const languageKey = (languageId: string) => `[${languageId}]`
+const isPlainObject = (value: any) => value && typeof value === 'object' && !Array.isArray(value)
+
+// object values like "files.exclude" are merged between layers like vscode does
+const mergeSettings = (settings: Settings[]) => settings.reduce((res, layer) => {
+  Object.entries(layer).forEach(([ key, value ]) => {
+    res[key] = isPlainObject(value) && isPlainObject(res[key]) ? { ...res[key], ...value } : value
+  })
+  return res
+}, {} as Settings)
+
+const languageOverrides = (settings: Settings, languageId?: string): Settings => {
+  if (!languageId) return {}
+  return settings[languageKey(languageId)] || {}
+}
+
+/** All settings merged in order: default < user < workspace, each followed by its [language] override */
+export const getConfig = (languageId?: string) => mergeSettings(layerOrder.reduce((res, layer) => [
+  ...res,
+  layers[layer],
+  languageOverrides(layers[layer], languageId),
+], [] as Settings[]))
+
+/** Get a setting by key. "editor" returns an object built from all "editor.*" settings */
+export const getValue = (settings: Settings, key: string) => {
+  if (Reflect.has(settings, key)) return settings[key]
+
+  const prefix = key ? `${key}.` : ''
+  const nested = Object.keys(settings).filter(m => m.startsWith(prefix) && !m.startsWith('['))
+  if (!nested.length) return
+
+  return nested.reduce((res, fullKey) => {
+    const path = fullKey.slice(prefix.length).split('.')
+    const last = path.pop()!
+    const parent = path.reduce((obj, part) => {
+      if (!isPlainObject(obj[part])) obj[part] = {}
+      return obj[part]
+    }, res)
+    parent[last] = settings[fullKey]
+    return res
+  }, {} as Settings)
+}
+
+export const inspect = (key: string, languageId?: string): ConfigurationInspect => {
+  const valueIn = (layer: Layer) => getValue(layers[layer], key)
+  const languageValueIn = (layer: Layer) => languageId
+    ? getValue(languageOverrides(layers[layer], languageId), key)
+    : undefined
+
+  const globalValue = getValue(mergeSettings([ layers.vim, layers.user ]), key)
+  const globalLanguageValue = getValue(mergeSettings([
+    languageOverrides(layers.vim, languageId),
+    languageOverrides(layers.user, languageId),
+  ]), key)
+
+  // only one folder can be open in nvim, so the workspace and the workspace
+  // folder are the same thing - just like a single folder workspace in vscode
+  return {
+    key,
+    defaultValue: valueIn('defaults'),
+    globalValue,
+    workspaceValue: valueIn('workspace'),
+    workspaceFolderValue: valueIn('workspace'),
+    defaultLanguageValue: languageValueIn('defaults'),
+    globalLanguageValue: languageId ? globalLanguageValue : undefined,
+    workspaceLanguageValue: languageValueIn('workspace'),
+    workspaceFolderLanguageValue: languageValueIn('workspace'),
+  }
+}
+
+const flatten = (settings: Settings) => Object.entries(settings).reduce((res, [ key, value ]) => {
+  if (!key.startsWith('[')) return { ...res, [key]: JSON.stringify(value) }
+  const overrides = Object.entries(value || {}).reduce((obj, [ k, v ]) => ({ ...obj, [`${key}.${k}`]: JSON.stringify(v) }), {})
+  return { ...res, ...overrides }
+}, {} as Settings)
+
+const changedKeys = (previous: Settings, next: Settings) => {
+  const before = flatten(previous)
+  const after = flatten(next)
+  const keys = new Set([ ...Object.keys(before), ...Object.keys(after) ])
+  return [...keys].filter(key => before[key] !== after[key])
 }
 
-nvim.getVarCurrentAndFuture('vscode_config', config => Object.assign(store.user, config))
-export const addExtensionConfiguration = (config: any) => Object.assign(store.extensions, config)
-export const getConfig = () => ({ ...store.extensions, ...store.user, ...store.updates })
-export const update = (section: string, value: any) => Reflect.set(store, section, value)
+// language override changes are reported with and without the [language] prefix
+const withoutLanguage = (keys: string[]) => keys.map(key => key.replace(/^\[[^\]]+\]\./, ''))
+
+const setLayer = (layer: Layer, settings: Settings) => {
+  const keys = changedKeys(layers[layer], settings)
+  layers[layer] = settings
+  if (keys.length) events.emit('didChange', [...new Set([ ...keys, ...withoutLanguage(keys) ])])
+}
+
+const readSettings = async (path: string): Promise<Settings> => {
+  const fileExists = await exists(path)
+  if (!fileExists) return {}
+  return parse(await readFile(path), [], { allowTrailingComma: true }) || {}
+}
+
+const loadSettingsFile = async (layer: Layer, path: string) => {
+  setLayer(layer, await readSettings(path))
+
+  if (watchedFiles.has(path)) return
+  // fs watch needs an existing directory. a settings file in a new directory
+  // is picked up after update() creates it
+  const dirExists = await exists(dirname(path))
+  if (!dirExists) return
+
+  const watcher = await watchFile(path, () => readSettings(path).then(settings => setLayer(layer, settings)))
+  watchedFiles.set(path, watcher)
+}
+
+const loadWorkspaceSettings = () => {
+  watchedFiles.forEach((watcher, path) => path !== USER_SETTINGS_PATH && (watcher.close(), watchedFiles.delete(path)))
+  loadSettingsFile('workspace', workspaceSettingsPath())
+}
+
+nvim.getVarCurrentAndFuture('vscode_config', config => setLayer('vim', config || {}))
+nvim.watchState.cwd(loadWorkspaceSettings)
+loadSettingsFile('user', USER_SETTINGS_PATH)
+loadWorkspaceSettings()
+
+export const addExtensionConfiguration = (config: any) => setLayer('defaults', { ...layers.defaults, ...config })
+
+export const onDidChange = (fn: (keys: string[]) => void) => events.on('didChange', fn)
+
+const getTargetLayer = (target?: ConfigurationTarget | boolean): Layer => {
+  if (target === true || target === ConfigurationTarget.Global) return 'user'
+  return 'workspace'
+}
+
+const readSettingsText = async (path: string) => {
+  const fileExists = await exists(path)
+  const text = fileExists ? await readFile(path) as string : ''
+  return text.trim() ? text : '{}'
+}
+
+/**
+ * Write a setting to the user or workspace settings.json. An undefined value removes the setting.
+ * The setting is edited in place, so comments and formatting in the file are kept
+ */
+export const update = async (key: string, value: any, target?: ConfigurationTarget | boolean, languageId?: string) => {
+  const layer = getTargetLayer(target)
+  const path = layer === 'user' ? USER_SETTINGS_PATH : workspaceSettingsPath()
+  const text = await readSettingsText(path)
+
+  const errors: ParseError[] = []
+  parse(text, errors, { allowTrailingComma: true })
+  if (errors.length) throw new Error(`can not write ${key} to ${path} because the file has syntax errors`)
+
+  const jsonPath = languageId ? [ languageKey(languageId), key ] : [ key ]
+  const edits = modify(text, jsonPath, value, {
+    formattingOptions: { tabSize: 2, insertSpaces: true, eol: '\n' },
+  })
+
+  await writeFile(path, applyEdits(text, edits))
+  await loadSettingsFile(layer, path)
+}
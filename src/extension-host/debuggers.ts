@@ -1,7 +1,18 @@
-// TODO: this whole file is fucked right now. need to rework it once we have vscode extensions setup
-// import { Extension, activateExtension } from '../extensions/extensions'
+import DebugProtocolConnection, { DebugAdapterStreamConnection } from '../messaging/debug-protocol'
+import { Watcher, MapSetter, uuid, readFile, exists } from '../support/utils'
+import { DebugAdapterExecutable, DebugAdapterServer } from '../vscode/types'
+import extensions, { activateDebugExtensions } from '../vscode/extensions'
+import { Extension } from '../extension-host/extension'
+import { DebugProtocol as DP } from 'vscode-debugprotocol'
+import { on, call } from '../messaging/worker-client'
+import { spawn, ChildProcess } from 'child_process'
 import pleaseGet from '../support/please-get'
-import { merge } from '../support/utils'
+import workspace from '../vscode/workspace'
+import window from '../vscode/window'
+import { join, isAbsolute } from 'path'
+import { parse } from 'jsonc-parser'
+import nvim from '../neovim/api'
+import { connect } from 'net'
 import * as vsc from 'vscode'
 
 export interface DebugConfiguration {
@@ -14,159 +25,362 @@ export interface DebugConfiguration {
 interface Debugger {
   type: string
   label: string
-  program: string
-  runtime?: 'node' | 'mono'
+  program?: string
+  args?: string[]
+  runtime?: string
+  runtimeArgs?: string[]
   initialConfigurations?: DebugConfiguration[]
-  hasInitialConfiguration: boolean
-  hasConfigurationProvider: boolean
-  // @ts-ignore
   extension: Extension
-  debugConfigProviders: Set<vsc.DebugConfigurationProvider>
 }
 
+interface Session {
+  session: vsc.DebugSession
+  connection: DebugAdapterStreamConnection
+  trackers: vsc.DebugAdapterTracker[]
+  dispose(): void
+}
+
+export interface Events {
+  didChangeActiveDebugSession: vsc.DebugSession | undefined
+  didStartDebugSession: vsc.DebugSession
+  didReceiveDebugSessionCustomEvent: vsc.DebugSessionCustomEvent
+  didTerminateDebugSession: vsc.DebugSession
+  didChangeBreakpoints: vsc.BreakpointsChangeEvent
+}
+
+// every other event is sent to extensions as a custom event
+const protocolEvents = new Set([ 'initialized', 'stopped', 'continued', 'exited', 'terminated', 'thread',
+  'output', 'breakpoint', 'module', 'loadedSource', 'process', 'capabilities' ])
+
+const platformKey = process.platform === 'win32' ? 'windows'
+  : process.platform === 'darwin' ? 'osx' : 'linux'
+
+export const events = Watcher<Events>()
 const debuggers = new Map<string, Debugger>()
+const sessions = new Map<string, Session>()
+// providers, factories and trackers registered for the type '*' are used for every debugger
+const configProviders = new MapSetter<string, vsc.DebugConfigurationProvider>()
+const descriptorFactories = new Map<string, vsc.DebugAdapterDescriptorFactory>()
+const trackerFactories = new MapSetter<string, vsc.DebugAdapterTrackerFactory>()
+let activeSession: vsc.DebugSession | undefined
 
-// @ts-ignore
 const getExtensionDebuggers = (extension: Extension): Debugger[] => {
-  const debuggers = pleaseGet(extension.config).contributes.debuggers([]) as any[]
-
-  return debuggers.map(d => ({
-    extension,
-    type: d.type,
-    label: d.label,
-    program: d.program,
-    runtime: d.runtime,
-    initialConfigurations: d.initialConfigurations,
-    debugConfigProviders: new Set(),
-    hasInitialConfiguration: !!d.initialConfigurations,
-    hasConfigurationProvider: false,
-  }))
-}
-
-const getProviders = (type: string) => {
-  const dbg = debuggers.get(type)
+  const contributed = pleaseGet(extension.packageJSON).contributes.debuggers([]) as any[]
+
+  return contributed.filter(m => m.type).map(m => {
+    const platform = m[platformKey] || {}
+    return {
+      extension,
+      type: m.type,
+      label: m.label || m.type,
+      program: platform.program || m.program,
+      args: platform.args || m.args,
+      runtime: platform.runtime || m.runtime,
+      runtimeArgs: platform.runtimeArgs || m.runtimeArgs,
+      initialConfigurations: Array.isArray(m.initialConfigurations) ? m.initialConfigurations : undefined,
+    }
+  })
+}
 
-  if (!dbg) {
-    console.error(`could not get debug providers for ${type}`)
-    return []
+const collectDebuggers = () => {
+  debuggers.clear()
+  ;(extensions.all as Extension[])
+    .map(getExtensionDebuggers)
+    .forEach(list => list.forEach(dbg => debuggers.set(dbg.type, dbg)))
+}
+
+const getConfigProviders = (type: string) => [
+  ...configProviders.getList(type),
+  ...configProviders.getList('*'),
+]
+
+const getTrackerFactories = (type: string) => [
+  ...trackerFactories.getList(type),
+  ...trackerFactories.getList('*'),
+]
+
+const currentFolder = () => (workspace.workspaceFolders || [])[0]
+
+const substituteVariables = (config: DebugConfiguration, folder?: vsc.WorkspaceFolder): DebugConfiguration => {
+  const root = folder ? folder.uri.fsPath : nvim.state.cwd
+  const variables: { [key: string]: string } = {
+    workspaceFolder: root,
+    workspaceRoot: root,
+    cwd: nvim.state.cwd,
+    file: nvim.state.absoluteFilepath,
+  }
+
+  const substitute = (value: any): any => {
+    if (typeof value === 'string') return value.replace(/\$\{(\w+)\}/g, (match, key) => variables[key] || match)
+    if (Array.isArray(value)) return value.map(substitute)
+    if (value && typeof value === 'object') return Object.entries(value)
+      .reduce((res, [ key, val ]) => Object.assign(res, { [key]: substitute(val) }), {})
+    return value
   }
 
-  return [...dbg.debugConfigProviders.values()]
+  return substitute(config)
+}
+
+export const registerDebugConfigProvider = (type: string, provider: vsc.DebugConfigurationProvider) => {
+  return configProviders.add(type, provider)
+}
+
+export const registerDebugAdapterDescriptorFactory = (type: string, factory: vsc.DebugAdapterDescriptorFactory) => {
+  descriptorFactories.set(type, factory)
+  return () => descriptorFactories.get(type) === factory && descriptorFactories.delete(type)
+}
+
+export const registerDebugAdapterTrackerFactory = (type: string, factory: vsc.DebugAdapterTrackerFactory) => {
+  return trackerFactories.add(type, factory)
+}
+
+export const getActiveSession = () => activeSession
+
+export const getAvailableDebuggers = async () => {
+  await activateDebugExtensions('onDebugInitialConfigurations')
+  await activateDebugExtensions('onDebug')
+
+  const available = [...debuggers.values()]
+    .filter(dbg => dbg.initialConfigurations || getConfigProviders(dbg.type).some(p => !!p.provideDebugConfigurations))
+
+  return Promise.all(available.map(async dbg => ({
+    type: dbg.type,
+    label: (await dbg.extension.localize(dbg.label)) || dbg.label,
+  })))
 }
 
-const activateDebuggersByEvent = async (eventType: string) => {
-  const activations = [...debuggers.values()]
-  // @ts-ignore
-    .filter(d => d.extension.activationEvents.some(ae => ae.type === eventType))
-    // @ts-ignore
-    .map(d => activateExtension(d.extension))
+/** Read the configurations from .vscode/launch.json of the workspace folder */
+export const getLaunchConfigs = async (folder = currentFolder()): Promise<DebugConfiguration[]> => {
+  if (!folder) return []
+  const launchPath = join(folder.uri.fsPath, '.vscode', 'launch.json')
+  if (!await exists(launchPath)) return []
 
-  return Promise.all(activations)
+  const launch = parse(await readFile(launchPath) as string, [], { allowTrailingComma: true }) || {}
+  return Array.isArray(launch.configurations) ? launch.configurations : []
 }
 
-const getInitialConfig = (dbg: Debugger, cwd: string): DebugConfiguration => {
-  const providers = [...dbg.debugConfigProviders.values()]
-  const initialConfigsStatic = dbg.initialConfigurations || []
+const getInitialConfig = async (folder: vsc.WorkspaceFolder | undefined, type: string) => {
+  const dbg = debuggers.get(type)
+  const staticConfigs = (dbg && dbg.initialConfigurations) || []
 
-  const initialConfigsDynamic = providers
+  const dynamicConfigs = await Promise.all(getConfigProviders(type)
     .filter(p => p.provideDebugConfigurations)
-  // TODO: hmmm check type here!?
-  // TODO: hmmm check type here!?
-  // TODO: hmmm check type here!?
-  // TODO: hmmm check type here!?
-  // TODO: hmmm check type here!?
-  // TODO: hmmm check type here!?
-  // TODO: hmmm check type here!?
-  // TODO: hmmm check type here!?
-  // TODO: hmmm check type here!?
-  // TODO: hmmm check type here!?
-  // @ts-ignore
-    .map(p => p.provideDebugConfigurations!(cwd))
-    .reduce((res, config) => [...res, ...config], [] as DebugConfiguration[])
-
-  const initialConfigs = [...initialConfigsStatic, ...initialConfigsDynamic]
-  return initialConfigs.reduce((res, config) => merge(res, config), {} as DebugConfiguration)
+    .map(async p => (await p.provideDebugConfigurations!(folder)) || []))
+
+  const [ config ] = dynamicConfigs.reduce((res, configs) => [ ...res, ...configs ], staticConfigs)
+  return config as DebugConfiguration | undefined
 }
 
 /*
- * Get debugger config. Should probably be called after "getAvailableDebuggers"
- * and user chooses a specific debugger to start debugging with.
+ * Resolve a debug configuration with the configuration providers of the debugger.
+ * A provider may return undefined or null to cancel the debug session
  */
-export const getDebuggerConfig = async (cwd: string, type: string) => {
+const resolveConfiguration = async (folder: vsc.WorkspaceFolder | undefined, config: DebugConfiguration) => {
+  await activateDebugExtensions('onDebug')
+  await activateDebugExtensions(`onDebugResolve:${config.type}`)
+
+  return getConfigProviders(config.type)
+    .filter(p => p.resolveDebugConfiguration)
+    .reduce(async (q, provider) => {
+      const resolved = await q
+      if (!resolved) return resolved
+      return provider.resolveDebugConfiguration!(folder, resolved) as DebugConfiguration | undefined | null
+    }, Promise.resolve(config as DebugConfiguration | undefined | null))
+}
+
+const getDefaultExecutable = (type: string) => {
   const dbg = debuggers.get(type)
-  if (!dbg) return console.error(`the debugger ${type} does not exist. lolwat`)
+  if (!dbg || !dbg.program) return
+
+  const { extensionPath } = dbg.extension
+  const program = isAbsolute(dbg.program) ? dbg.program : join(extensionPath, dbg.program)
+  const args = dbg.args || []
 
-  const initialConfig = getInitialConfig(dbg, cwd)
-  return resolveConfigurationByProviders(cwd, type, initialConfig)
+  // the runtime that comes with vscode is node. we use the node from electron instead
+  if (dbg.runtime === 'node') return new DebugAdapterExecutable(process.execPath, [ ...(dbg.runtimeArgs || []), program, ...args ])
+  if (dbg.runtime) return new DebugAdapterExecutable(dbg.runtime, [ ...(dbg.runtimeArgs || []), program, ...args ])
+  return new DebugAdapterExecutable(program, args)
 }
 
-export const getAvailableDebuggers = async (): Promise<Debugger[]> => {
-  await activateDebuggersByEvent('onDebugInitialConfigurations')
-  await activateDebuggersByEvent('onDebug')
-  return [...debuggers.values()].filter(d => d.hasInitialConfiguration || d.hasConfigurationProvider)
+// stderr of debug adapters is shown with the debugger output in the debug panel
+const connectDebugAdapter = (id: string, descriptor: vsc.DebugAdapterDescriptor) => {
+  if (descriptor instanceof DebugAdapterServer) {
+    const socket = connect(descriptor.port, descriptor.host || '127.0.0.1')
+    return { connection: DebugProtocolConnection(socket, socket), dispose: () => socket.destroy() }
+  }
+
+  const { command, args, options = {} } = descriptor as vsc.DebugAdapterExecutable
+  const proc: ChildProcess = spawn(command, args, {
+    cwd: options.cwd,
+    env: { ...process.env, ELECTRON_RUN_AS_NODE: '1', ...(options.env || {}) },
+  })
+
+  proc.stderr.on('data', data => call.debugAdapterOutput(id, data + ''))
+  return { connection: DebugProtocolConnection(proc.stdout, proc.stdin), dispose: () => proc.kill(), proc }
 }
 
-export const getLaunchConfigs = async (): Promise<DebugConfiguration[]> => {
-  // TODO: get launch.json configs
-  return []
+const setActiveSession = (session: vsc.DebugSession | undefined) => {
+  if (activeSession === session) return
+  activeSession = session
+  events.emit('didChangeActiveDebugSession', session)
 }
 
-/*
- * Resolve a debug configuration from either an inital config or no config.
- *
- * Gets called from either of the following scenarios (in the following order)
- *
- * - We have a configuration from launch.json and we need to resolve it further
- * - We have an initial configuration from "initialConfigurations" or "provideDebugConfigurations"
- * - We have no configuration at all
- */
-export const resolveConfigurationByProviders = async (cwd: string, type: string, config = {} as DebugConfiguration): Promise<DebugConfiguration> => {
-  await activateDebuggersByEvent(`onDebugResolve:${type}`)
-  type UghWTF = Promise<DebugConfiguration>
-  return getProviders(type)
-    .filter(p => p.resolveDebugConfiguration)
-    .reduce((q: UghWTF, provider: vsc.DebugConfigurationProvider) => q.then(config => config
-      // TODO: hmm?? check type here
-      // TODO: hmm?? check type here
-      // TODO: hmm?? check type here
-      // TODO: hmm?? check type here
-      // TODO: hmm?? check type here
-      // TODO: hmm?? check type here
-      // TODO: hmm?? check type here
-      // @ts-ignore
-      ? provider.resolveDebugConfiguration!(cwd, config)
-      : Promise.resolve(config)
-    ), Promise.resolve(config))
+const endSession = (id: string) => {
+  const entry = sessions.get(id)
+  if (!entry) return
+
+  sessions.delete(id)
+  entry.trackers.forEach(t => t.onWillStopSession && t.onWillStopSession())
+  entry.dispose()
+  events.emit('didTerminateDebugSession', entry.session)
+
+  if (activeSession !== entry.session) return
+  const [ nextSession ] = [...sessions.values()]
+  setActiveSession(nextSession && nextSession.session)
 }
 
-/*
- * Collect debuggers from the list of extensions
- *
- * This function should only be called when we load extensions. Loading
- * extensions reloads ALL extensions whether they were loaded before or not.
- * this means we should reset the collection of debuggers from any previous
- * extension loadings
- */
-// @ts-ignore
-export const collectDebuggersFromExtensions = (extensions: Extension[]): void => {
-  debuggers.clear()
+const trackMessages = (id: string, { session, connection, trackers }: Session) => {
+  connection.onSend(message => trackers.forEach(t => t.onWillReceiveMessage && t.onWillReceiveMessage(message)))
+
+  connection.onReceive(message => {
+    trackers.forEach(t => t.onDidSendMessage && t.onDidSendMessage(message))
 
-  extensions.forEach(ext => {
-    const dbgs = getExtensionDebuggers(ext)
-    dbgs.forEach(dbg => debuggers.set(dbg.type, dbg))
+    if (message.type === 'response') {
+      const { command, success } = message as DP.Response
+      if (success && (command === 'launch' || command === 'attach')) events.emit('didStartDebugSession', session)
+      if (command === 'disconnect') endSession(id)
+    }
+
+    if (message.type !== 'event') return
+    const { event, body } = message as DP.Event
+    if (!protocolEvents.has(event)) events.emit('didReceiveDebugSessionCustomEvent', { session, event, body })
   })
+
+  connection.onError(err => trackers.forEach(t => t.onError && t.onError(err)))
+  connection.onClose(() => endSession(id))
 }
 
-export const registerDebugConfigProvider = (type: string, provider: vsc.DebugConfigurationProvider) => {
-  if (!provider) return
+export const startDebugging = async (folder: vsc.WorkspaceFolder | undefined, nameOrConfig: string | vsc.DebugConfiguration): Promise<boolean> => {
+  const launchConfig = typeof nameOrConfig === 'string'
+    ? (await getLaunchConfigs(folder)).find(m => m.name === nameOrConfig)
+    : nameOrConfig as DebugConfiguration
 
-  const dbg = debuggers.get(type)
-  if (!dbg) return console.error(`can't register debug config provider. debugger ${type} does not exist.`)
+  if (!launchConfig) {
+    console.error(`could not find the launch configuration ${nameOrConfig}`)
+    return false
+  }
 
-  dbg.debugConfigProviders.add(provider)
-  dbg.hasConfigurationProvider = true
+  const resolved = await resolveConfiguration(folder, launchConfig)
+  if (!resolved) return false
 
-  return () => {
-    if (dbg.debugConfigProviders.has(provider)) dbg.debugConfigProviders.delete(provider)
+  const configuration = substituteVariables(resolved as DebugConfiguration, folder)
+  const id = uuid()
+  const session: vsc.DebugSession = {
+    id,
+    type: configuration.type,
+    name: configuration.name,
+    workspaceFolder: folder,
+    configuration,
+    customRequest: (command, args) => {
+      const entry = sessions.get(id)
+      if (!entry) return Promise.reject(new Error(`debug session ${configuration.name} is not running`))
+      return entry.connection.sendRequest(command, args)
+    },
   }
+
+  const executable = getDefaultExecutable(configuration.type)
+  const factory = descriptorFactories.get(configuration.type) || descriptorFactories.get('*')
+  const descriptor = factory
+    ? (await factory.createDebugAdapterDescriptor(session, executable)) || executable
+    : executable
+
+  if (!descriptor) {
+    console.error(`the debugger ${configuration.type} does not have a debug adapter`)
+    return false
+  }
+
+  const trackers = await Promise.all(getTrackerFactories(configuration.type)
+    .map(f => f.createDebugAdapterTracker(session)))
+
+  const { connection, dispose, proc } = connectDebugAdapter(id, descriptor)
+  const entry: Session = { session, connection, dispose, trackers: trackers.filter(m => m) as vsc.DebugAdapterTracker[] }
+
+  sessions.set(id, entry)
+  trackMessages(id, entry)
+  entry.trackers.forEach(t => t.onWillStartSession && t.onWillStartSession())
+  if (proc) proc.on('exit', (code, signal) => entry.trackers.forEach(t => t.onExit && t.onExit(code || undefined, signal || undefined)))
+
+  setActiveSession(session)
+  call.debugStartSession(id, configuration)
+  return true
+}
+
+const startDebugWithType = async (folder: vsc.WorkspaceFolder | undefined, type: string) => {
+  const config = await getInitialConfig(folder, type)
+  return startDebugging(folder, config || { type, name: type, request: 'launch' })
+}
+
+// like the debug start in vscode: choose a launch.json configuration or a debugger
+const pickAndStartDebugging = async () => {
+  const folder = currentFolder()
+  const launchConfigs = await getLaunchConfigs(folder)
+
+  if (launchConfigs.length) {
+    const picked = await window.showQuickPick(launchConfigs.map(config => ({
+      config,
+      label: config.name,
+      description: config.type,
+    })), { placeHolder: 'choose a debug configuration' })
+    return picked ? startDebugging(folder, picked.config) : false
+  }
+
+  const available = await getAvailableDebuggers()
+  const picked = await window.showQuickPick(available.map(m => ({
+    type: m.type,
+    label: m.label,
+    description: m.type,
+  })), { placeHolder: 'choose a debugger to start' })
+  return picked ? startDebugWithType(folder, picked.type) : false
 }
+
+const getDebugAdapter = (id: string) => {
+  const entry = sessions.get(id)
+  if (!entry) throw new Error(`fail to get debug adapter ${id}. this should not happen... ever.`)
+  return entry.connection
+}
+
+extensions.onDidChange(collectDebuggers)
+
+on.listLaunchConfigs(() => getLaunchConfigs())
+on.listDebuggers(() => getAvailableDebuggers())
+on.startDebug(() => pickAndStartDebugging())
+on.startDebugWithConfig((config: DebugConfiguration) => startDebugging(currentFolder(), config))
+on.startDebugWithType((type: string) => startDebugWithType(currentFolder(), type))
+on.debug_setActiveSession((id?: string) => {
+  const entry = id ? sessions.get(id) : undefined
+  setActiveSession(entry && entry.session)
+})
+
+on.debug_sendRequest(({ serverId, command, args }: any) => {
+  return getDebugAdapter(serverId).sendRequest(command, args)
+})
+
+on.debug_sendNotification(({ serverId, response }: any) => {
+  getDebugAdapter(serverId).sendNotification(response)
+})
+
+on.debug_onNotification(({ serverId, method }: any) => {
+  getDebugAdapter(serverId).onNotification(method, a => call[`${serverId}:${method}`](a))
+})
+
+on.debug_onRequest(({ serverId }: any) => {
+  getDebugAdapter(serverId).onRequest(a => call[`${serverId}:onRequest`](a))
+})
+
+on.debug_onError(({ serverId }: any) => {
+  getDebugAdapter(serverId).onError(a => call[`${serverId}:onError`](a))
+})
+
+on.debug_onClose(({ serverId }: any) => {
+  getDebugAdapter(serverId).onClose(() => call[`${serverId}:onClose`]())
+})
@@ -27,6 +27,7 @@ export enum ActivationKind {
   DebugInitialConfigs = 'onDebugInitialConfigurations',
   DebugResolve = 'onDebugResolve',
   View = 'onView',
+  WebviewPanel = 'onWebviewPanel',
   Always  = '*',
 }
 
@@ -78,6 +79,9 @@ export default (config: ExtensionPackageConfig): Extension => {
 
   const contributedConfiguration = getContributesConfigurations(config)
   if (contributedConfiguration) addExtensionConfiguration(contributedConfiguration)
+  // language specific defaults like { "[markdown]": { "editor.wordWrap": "on" } }
+  const configurationDefaults = pleaseGet(config).contributes.configurationDefaults()
+  if (configurationDefaults) addExtensionConfiguration(configurationDefaults)
 
   const localizer = localizeFile(languageFilePath)
 
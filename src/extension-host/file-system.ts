@@ -0,0 +1,183 @@
+import { asBufferName, registerScheme, unregisterScheme } from '../extension-host/text-document-content'
+import { FileType, FileChangeType, FileSystemError } from '../vscode/types'
+import { on } from '../messaging/worker-client'
+import { virtualDocumentUri } from '../support/utils'
+import { Buffer as NeovimBuffer } from '../neovim/types'
+import { URI } from '../vscode/uri'
+import window from '../vscode/window'
+import nvim from '../neovim/api'
+import * as vsc from 'vscode'
+
+export interface FileSystemEntry {
+  name: string
+  path: string
+  dir: boolean
+  file: boolean
+}
+
+interface FileSystem {
+  provider: vsc.FileSystemProvider
+  readonly: boolean
+}
+
+const fileSystems = new Map<string, FileSystem>()
+// keyed by uri string. buffers loaded from a file system provider
+const documents = new Map<string, NeovimBuffer>()
+
+const lineBreaks: { [fileformat: string]: string } = { unix: '\n', dos: '\r\n', mac: '\r' }
+
+const toUri = (name: string, scheme: string) => URI.parse(name.slice(name.indexOf(`${scheme}:`)))
+
+/** File system provider for a uri. Documents in the 'file' scheme are handled by neovim */
+export const getFileSystemProvider = (uri: vsc.Uri) => {
+  const fileSystem = fileSystems.get(uri.scheme)
+  return fileSystem && fileSystem.provider
+}
+
+// uint8arrays from extensions may be views into a larger buffer
+const decode = (data: Uint8Array) => Buffer
+  .from(data.buffer, data.byteOffset, data.byteLength)
+  .toString('utf8')
+
+// the line break after the last line is the 'endofline' option in neovim. it does not start another line
+const parseContent = (content: string) => {
+  const firstBreak = content.indexOf('\n')
+  const fileformat = firstBreak > 0 && content[firstBreak - 1] === '\r' ? 'dos' : 'unix'
+  const lines = content.split(fileformat === 'dos' ? /\r?\n/ : '\n')
+  const endofline = lines.length > 1 && !lines[lines.length - 1]
+  return { lines: endofline ? lines.slice(0, -1) : lines, options: { fileformat, endofline } }
+}
+
+// like neovim, a buffer with only an empty line is an empty file
+const formatContent = (lines: string[], fileformat: string, endofline: boolean) => {
+  if (lines.length === 1 && !lines[0]) return ''
+  const lineBreak = lineBreaks[fileformat] || '\n'
+  return lines.join(lineBreak) + (endofline ? lineBreak : '')
+}
+
+const isFileNotFound = (err: Error) => err instanceof FileSystemError && err.name.startsWith('EntryNotFound')
+
+const statFile = async (provider: vsc.FileSystemProvider, uri: vsc.Uri) => {
+  try {
+    return await provider.stat(uri)
+  } catch (err) {
+    if (!isFileNotFound(err)) throw err
+  }
+}
+
+// files that do not exist yet are empty buffers. they are created on write
+const loadFile = async (buffer: NeovimBuffer, uri: vsc.Uri) => {
+  const { provider, readonly } = fileSystems.get(uri.scheme)!
+  const stat = await statFile(provider, uri)
+
+  if (!stat) return nvim.call.VeonimSetVirtualDocument(buffer.id, [], uri.path, !readonly)
+  if (stat.type & FileType.Directory) return window.showWarningMessage(`${uri.toString(true)} is a directory`)
+
+  const { lines, options } = parseContent(decode(await provider.readFile(uri)))
+  nvim.call.VeonimSetVirtualDocument(buffer.id, lines, uri.path, !readonly, options)
+}
+
+const saveFile = async (buffer: NeovimBuffer, uri: vsc.Uri) => {
+  const { provider } = fileSystems.get(uri.scheme)!
+  const [ lines, fileformat, endofline, fixendofline ] = await Promise.all([
+    buffer.getAllLines(),
+    buffer.getOption('fileformat'),
+    buffer.getOption('endofline'),
+    buffer.getOption('fixendofline'),
+  ])
+  const content = Buffer.from(formatContent(lines, fileformat, endofline || fixendofline))
+
+  await provider.writeFile(uri, content, { create: true, overwrite: true })
+  buffer.setOption('modified', false)
+}
+
+nvim.on.virtualDocumentRead(({ buffer, name, scheme }) => {
+  if (!fileSystems.has(scheme)) return
+  const uri = toUri(name, scheme)
+  documents.set(uri.toString(), buffer)
+  loadFile(buffer, uri).catch(err => window.showErrorMessage(`failed to read ${uri.toString(true)}: ${err.message}`))
+})
+
+nvim.on.virtualDocumentWrite(({ buffer, name, scheme }) => {
+  if (!fileSystems.has(scheme)) return
+  const uri = toUri(name, scheme)
+  saveFile(buffer, uri).catch(err => window.showErrorMessage(`failed to write ${uri.toString(true)}: ${err.message}`))
+})
+
+nvim.on.bufClose(buffer => [...documents.entries()]
+  .filter(([ , buf ]) => buf.id === buffer.id)
+  .forEach(([ key ]) => documents.delete(key)))
+
+const reloadChangedFiles = (events: vsc.FileChangeEvent[]) => events
+  .filter(m => m.type === FileChangeType.Changed)
+  .forEach(async ({ uri }) => {
+    const buffer = documents.get(uri.toString())
+    if (!buffer || await buffer.getOption('modified')) return
+    loadFile(buffer, uri).catch(err => console.error(`failed to reload ${uri.toString(true)}:`, err))
+  })
+
+/** List a directory from a file system provider. Undefined if no provider handles the path */
+export const readDirectory = async (path: string): Promise<FileSystemEntry[] | undefined> => {
+  const name = virtualDocumentUri(path, nvim.state.schemes)
+  if (!name) return
+
+  const uri = URI.parse(name)
+  const provider = getFileSystemProvider(uri)
+  if (!provider) return
+
+  const entries = await provider.readDirectory(uri)
+  return entries.map(([ name, type ]) => ({
+    name,
+    path: asBufferName(uri.with({ path: `${uri.path.replace(/\/$/, '')}/${name}` })),
+    dir: !!(type & FileType.Directory),
+    file: !!(type & FileType.File),
+  }))
+}
+
+/** Create an empty file in a provider and load it in a buffer */
+export const createFile = async (uri: vsc.Uri) => {
+  const provider = getFileSystemProvider(uri)
+  if (!provider) throw new Error(`can not create ${uri.toString(true)}`)
+
+  await provider.writeFile(uri, new Uint8Array(0), { create: true, overwrite: false })
+  return nvim.buffers.add(asBufferName(uri))
+}
+
+/** Rename a file in a provider and move the loaded buffer to the new name */
+export const renameFile = async (oldUri: vsc.Uri, newUri: vsc.Uri, overwrite = false) => {
+  const provider = getFileSystemProvider(oldUri)
+  if (!provider || oldUri.scheme !== newUri.scheme) throw new Error(`can not rename ${oldUri.toString(true)} to ${newUri.toString(true)}`)
+
+  await provider.rename(oldUri, newUri, { overwrite })
+  if (!documents.has(oldUri.toString())) return
+  nvim.buffers.remove(asBufferName(oldUri))
+  return nvim.buffers.add(asBufferName(newUri))
+}
+
+/** Delete a file or directory in a provider and unload its buffer */
+export const deleteFile = async (uri: vsc.Uri) => {
+  const provider = getFileSystemProvider(uri)
+  if (!provider) throw new Error(`can not delete ${uri.toString(true)}`)
+
+  await provider.delete(uri, { recursive: true })
+  if (documents.has(uri.toString())) nvim.buffers.remove(asBufferName(uri))
+}
+
+on.fileSystem_readDirectory((path: string) => readDirectory(path))
+
+export const registerFileSystemProvider = (scheme: string, provider: vsc.FileSystemProvider, options = {} as { isCaseSensitive?: boolean, isReadonly?: boolean }) => {
+  if (fileSystems.has(scheme)) console.warn(`a file system provider for ${scheme} has already been registered`)
+  const readonly = !!options.isReadonly
+  if (!registerScheme(scheme, 'file system provider', !readonly)) return () => {}
+  fileSystems.set(scheme, { provider, readonly })
+
+  const subscription = provider.onDidChangeFile(reloadChangedFiles)
+
+  return () => {
+    subscription.dispose()
+    const fileSystem = fileSystems.get(scheme)
+    if (!fileSystem || fileSystem.provider !== provider) return
+    fileSystems.delete(scheme)
+    unregisterScheme(scheme)
+  }
+}
@@ -0,0 +1,118 @@
+import { providers, getProviders, queryFormattingEdits, queryOnTypeFormattingEdits } from '../extension-host/providers'
+import { onDidChange as onDidChangeConfiguration } from '../extension-host/configuration-store'
+import { byteToCharacter, characterToByte } from '../support/selection-ranges'
+import WorkspaceConfiguration from '../vscode/workspace-configuration'
+import { CancellationTokenSource } from '../vscode/cancellation'
+import { shiftPosition } from '../neovim/text-edit-patch'
+import TextDocument from '../vscode/text-document'
+import { Position, Range } from '../vscode/types'
+import { Buffer } from '../neovim/types'
+import nvim from '../neovim/api'
+import * as vsc from 'vscode'
+
+const editorConfig = (document: vsc.TextDocument) => WorkspaceConfiguration('editor', { languageId: document.languageId })
+
+// the last line seen in insert mode. used to tell typed characters apart from other changes
+const insertState = {
+  line: -1,
+  text: '',
+}
+
+let pendingPaste = new CancellationTokenSource()
+let pendingType = new CancellationTokenSource()
+
+// edits are thrown away if the buffer changed while the formatter was running
+const applyFormattingEdits = async (buffer: Buffer, changedtick: number, edits: vsc.TextEdit[], undojoin = false) => {
+  if (!edits.length || changedtick !== await buffer.changedtick) return false
+  await buffer.applyEdits(edits, undojoin)
+  return true
+}
+
+/** Format the whole document unless the formatter takes longer than "editor.formatOnSaveTimeout" */
+export const formatOnSave = async (buffer: Buffer) => {
+  const document = TextDocument(buffer.id)
+  const timeout = editorConfig(document).get('formatOnSaveTimeout', 750)
+  const request = new CancellationTokenSource()
+  const changedtick = await buffer.changedtick
+
+  let timer: NodeJS.Timer
+  const timedOut = new Promise<undefined>(done => timer = setTimeout(() => {
+    request.cancel()
+    done()
+  }, timeout))
+
+  const edits = await Promise.race([ queryFormattingEdits(document, request.token), timedOut ])
+  clearTimeout(timer!)
+
+  if (!edits) return console.warn(`format on save took longer than ${timeout}ms for ${document.uri.path}`)
+  return applyFormattingEdits(buffer, changedtick, edits)
+}
+
+/** Let nvim look for puts in the current buffer if they are formatted (see VeonimFormatPaste) */
+export const refreshFormatOnPaste = () => {
+  const buffer = nvim.current.buffer
+  const enabled = editorConfig(TextDocument(buffer.id)).get('formatOnPaste', false)
+    && getProviders(providers.documentRangeFormattingEdit).length > 0
+  buffer.setVar('veonim_format_on_paste', enabled ? 1 : 0)
+}
+
+nvim.on.bufLoad(refreshFormatOnPaste)
+nvim.on.filetype(refreshFormatOnPaste)
+onDidChangeConfiguration(refreshFormatOnPaste)
+
+const formatPaste = async (bufferId: number, changedtick: number, [ line, character, endLine, endCharacter ]: number[]) => {
+  pendingPaste.cancel()
+  pendingPaste = new CancellationTokenSource()
+  const buffer = nvim.Buffer(bufferId)
+  const range = new Range(line, character, endLine, endCharacter)
+  const edits = await queryFormattingEdits(TextDocument(bufferId), pendingPaste.token, range)
+  await applyFormattingEdits(buffer, changedtick, edits, true)
+}
+
+// put from a register. the format is undone together with the put
+nvim.systemAction('format-paste', (bufferId: number, changedtick: number, range: number[]) => {
+  formatPaste(bufferId, changedtick, range).catch(err => console.error('format on paste failed:', err))
+})
+
+nvim.on.insertEnter(async () => {
+  const [ row ] = await nvim.current.window.cursor
+  Object.assign(insertState, { line: row - 1, text: await nvim.getCurrentLine() })
+})
+
+// the cursor column is in bytes, text positions are in utf-16 code units
+const formatOnType = async (buffer: Buffer) => {
+  const [ changedtick, [ row, column ], text ] = await Promise.all([
+    buffer.changedtick,
+    nvim.current.window.cursor,
+    nvim.getCurrentLine(),
+  ])
+
+  const previous = { ...insertState }
+  Object.assign(insertState, { line: row - 1, text })
+
+  const character = byteToCharacter(text, column)
+  const [ typedChar = '' ] = [...text.slice(0, character)].slice(-1)
+  const typed = previous.line === row - 1
+    && text.length === previous.text.length + typedChar.length
+    && text.slice(0, character - typedChar.length) + text.slice(character) === previous.text
+  if (!typed) return
+
+  const document = TextDocument(buffer.id)
+  if (!editorConfig(document).get('formatOnType', false)) return
+
+  pendingType.cancel()
+  pendingType = new CancellationTokenSource()
+  const position = new Position(row - 1, character)
+  const edits = await queryOnTypeFormattingEdits(document, position, typedChar, pendingType.token)
+  const applied = await applyFormattingEdits(buffer, changedtick, edits, true)
+  if (!applied) return
+
+  const cursor = shiftPosition(position, edits)
+  const line = await buffer.getLine(cursor.line)
+  nvim.current.window.setCursor(cursor.line + 1, characterToByte(line, cursor.character))
+  Object.assign(insertState, { line: cursor.line, text: line })
+}
+
+nvim.on.bufChangeInsert(buffer => {
+  if (buffer) formatOnType(buffer).catch(err => console.error('format on type failed:', err))
+})
@@ -2,12 +2,26 @@ import { Unpacked, maybe, AlterReturnType, ReturnTypeOf } from '../support/types
 import { MapSetter, dedupOn, threadSafeObject } from '../support/utils'
 import { makeCancelToken, cancelTokenById, Thenable } from '../vscode/tools'
 import TextDocument from '../vscode/text-document'
-import { Position, Range } from '../vscode/types'
+import { Position, Range, WorkspaceEdit, CodeActionKind, Color } from '../vscode/types'
+import { asBufferName } from '../extension-host/text-document-content'
+import { languageSelectorFrom } from '../vscode/type-converters'
+import { score } from '../vscode/language-selector'
+import commands from '../vscode/commands'
 import { on } from '../messaging/worker-client'
 import workspace from '../vscode/workspace'
 import nvim from '../neovim/api'
 import * as vsc from 'vscode'
 
+// SelectionRangeProvider is newer than our vscode typings
+export interface SelectionRange {
+  range: vsc.Range
+  parent?: SelectionRange
+}
+
+export interface SelectionRangeProvider {
+  provideSelectionRanges(document: vsc.TextDocument, positions: vsc.Position[], token: vsc.CancellationToken): vsc.ProviderResult<SelectionRange[]>
+}
+
 // lol
 type MassageProviderResult<S> = AlterReturnType<S, Promise<Unpacked<Exclude<Exclude<ReturnTypeOf<S>, vsc.ProviderResult<S>>, Thenable<any>>>[] | undefined>>
 
@@ -29,6 +43,7 @@ const F = <T extends object>() => {
   type Base = { [K in keyof T]: MassageProviderResult<T[K]> }
   interface Api {
     register(filetypes: string[], items: T): ReturnType<MapSetter<string, T>['addMultiple']>
+    [$$GET_PROVIDERS]: MapSetter<string, T>
   }
 
   return new Proxy(Object.create(null), {
@@ -64,8 +79,22 @@ export const providers = {
   documentLink: F<vsc.DocumentLinkProvider>(),
   color: F<vsc.DocumentColorProvider>(),
   foldingRange: F<vsc.FoldingRangeProvider>(),
+  selectionRange: F<SelectionRangeProvider>(),
+}
+
+/** Providers registered for the current filetype. For features that need to know which provider returned a result */
+export const getProviders = <T extends object>(provider: { [$$GET_PROVIDERS]: MapSetter<string, T> }): T[] => {
+  const registered = provider[$$GET_PROVIDERS].get(nvim.state.filetype)
+  return registered ? [...registered] : []
 }
 
+// provider ranking needs the DocumentSelector that the provider was registered with
+export const completionSelectors = new WeakMap<vsc.CompletionItemProvider, vsc.DocumentSelector>()
+// providers that list their CodeActionKinds are only asked for those kinds
+export const codeActionMetadata = new WeakMap<vsc.CodeActionProvider, vsc.CodeActionProviderMetadata>()
+// on type formatting providers are only asked for their own trigger characters
+export const onTypeFormattingTriggers = new WeakMap<vsc.OnTypeFormattingEditProvider, string[]>()
+
 const getFormattingOptions = async (): Promise<vsc.FormattingOptions> => {
   const [ tabstop, expandtab ] = await Promise.all([
     nvim.options.tabstop,
@@ -112,26 +141,213 @@ const cancel = () => {}
 //   - TODO: does vscode rank certain provider's completions higher than others?
 // - single -> ask user to choose (definition, implementation, etc.)
 // - what about non-user ones, like resolving things or hover, signhelp?
+interface CachedCompletionItem {
+  item: vsc.CompletionItem
+  provider: vsc.CompletionItemProvider
+  resolved: boolean
+}
+
+interface CachedCodeAction {
+  action: vsc.CodeAction | vsc.Command
+  provider: vsc.CodeActionProvider
+}
+
+// CodeAction.isPreferred and CodeAction.disabled are newer than our vscode typings
+interface CodeActionExtras {
+  isPreferred?: boolean
+  disabled?: { reason: string }
+}
+
+export interface CodeActionRequest {
+  diagnostics: vsc.Diagnostic[]
+  /** CodeActionKind value like "quickfix", "refactor" or "source.organizeImports" */
+  only?: string
+}
+
+interface CachedDocumentLink {
+  link: vsc.DocumentLink
+  provider: vsc.DocumentLinkProvider
+}
+
 const cache = {
-  currentCompletionItems: [] as vsc.CompletionItem[],
+  currentCompletionItems: [] as CachedCompletionItem[],
+  currentCodeActions: [] as CachedCodeAction[],
+  currentDocumentLinks: [] as CachedDocumentLink[],
 }
 
 const simplify = {
-  completionItem: (item: vsc.CompletionItem, index = 0) => {
+  completionItem: (item: vsc.CompletionItem, index = 0, providerId = 0) => {
     const { label, kind, detail, documentation, sortText, filterText,
       preselect, insertText, range, commitCharacters, keepWhitespace, textEdit,
-      additionalTextEdits, /*command*/ } = item
-    // TODO: call CompletionItem.command after completion was inserted into the document
-    // we should probably handle this from the extension-host because serializing the
-    // Command object across threads is a no-no
-    // TODO: determine what it means inserted? in the typescript-language-features
-    // extension, a CompletionItem.command had something like "completionAccepted"
-    // which indicates that it is not the insertion of text when we scroll thru the
-    // completion menu, but rather on CompletionDone event (the final word)
-    return { index, label, kind, detail, documentation, sortText, filterText,
-      preselect, insertText, range, commitCharacters, keepWhitespace, textEdit,
-      additionalTextEdits }
+      additionalTextEdits, command } = item
+    // the Command object (and its arguments) is not serialized across threads.
+    // the command is run from the extension host when the completion is accepted
+    return { index, providerId, label, kind, detail, documentation, sortText, filterText,
+      preselect, insertText, commitCharacters, keepWhitespace,
+      range: range && threadSafeObject(range),
+      textEdit: textEdit && threadSafeObject(textEdit),
+      additionalTextEdits: additionalTextEdits && threadSafeObject(additionalTextEdits),
+      hasCommand: !!command }
+  },
+  codeAction: ({ action }: CachedCodeAction, index: number) => {
+    const { isPreferred = false, disabled } = action as CodeActionExtras
+    const kind = isCommand(action) ? undefined : action.kind
+    return {
+      index,
+      isPreferred,
+      title: action.title,
+      kind: kind && kind.value,
+      disabled: disabled && disabled.reason,
+    }
+  },
+}
+
+/** Completion items sent to other threads. The index refers to the cached item of the last request */
+export type CompletionItemData = ReturnType<typeof simplify.completionItem>
+
+// accepted completion items are matched by provider and index. the same index
+// from an older request can belong to another provider
+const completionProviderIds = new WeakMap<vsc.CompletionItemProvider, number>()
+let nextCompletionProviderId = 1
+
+const getCompletionProviderId = (provider: vsc.CompletionItemProvider) => {
+  const existing = completionProviderIds.get(provider)
+  if (existing) return existing
+
+  completionProviderIds.set(provider, nextCompletionProviderId)
+  return nextCompletionProviderId++
+}
+
+// providers registered for the filetype without a known selector are asked last
+const getCompletionProviders = (document: vsc.TextDocument) => {
+  return getProviders<vsc.CompletionItemProvider>(providers.completionItem).map(provider => {
+    const selector = completionSelectors.get(provider)
+    const languageSelector = selector && languageSelectorFrom(selector)
+    return {
+      provider,
+      score: languageSelector ? score(languageSelector, document.uri, document.languageId, true) : 0,
+    }
+  })
+}
+
+// like vscode, providers with the same selector score are asked together. providers
+// with a lower score are only asked if the better matching providers have nothing
+const queryCompletionProviders = async (document: vsc.TextDocument, position: vsc.Position, token: vsc.CancellationToken, context: vsc.CompletionContext) => {
+  const ranked = getCompletionProviders(document)
+  const scores = [...new Set(ranked.map(m => m.score))].sort((a, b) => b - a)
+
+  for (const providerScore of scores) {
+    const group = ranked.filter(m => m.score === providerScore)
+    const results = await Promise.all(group.map(async ({ provider }) => {
+      const result = await Promise.resolve(provider.provideCompletionItems(document, position, token, context)).catch(err => {
+        console.error('completion provider failed', err)
+      })
+      if (!result) return []
+
+      const items = Array.isArray(result) ? result : result.items
+      return items.map(item => ({ item, provider, resolved: false }))
+    }))
+
+    const items = results.reduce((res, m) => [ ...res, ...m ], [] as CachedCompletionItem[])
+    if (items.length || token.isCancellationRequested) return items
+  }
+
+  return []
+}
+
+const sortKey = ({ item }: CachedCompletionItem) => item.sortText || item.label
+
+const resolveCompletion = async (cached: CachedCompletionItem, token: vsc.CancellationToken) => {
+  if (cached.resolved || !cached.provider.resolveCompletionItem) return cached.item
+  const resolved = await Promise.resolve(cached.provider.resolveCompletionItem(cached.item, token))
+  Object.assign(cached, { item: resolved || cached.item, resolved: true })
+  return cached.item
+}
+
+const isCommand = (action: vsc.CodeAction | vsc.Command): action is vsc.Command => {
+  return typeof (action as vsc.Command).command === 'string'
+}
+
+const providesKind = (provider: vsc.CodeActionProvider, only?: vsc.CodeActionKind) => {
+  const metadata = codeActionMetadata.get(provider)
+  const kinds = metadata && metadata.providedCodeActionKinds
+  return !only || !kinds || kinds.some(kind => kind.intersects(only))
+}
+
+const matchesKind = (action: vsc.CodeAction | vsc.Command, only?: vsc.CodeActionKind) => {
+  if (!only) return true
+  return !isCommand(action) && !!action.kind && only.contains(action.kind)
+}
+
+const isPreferred = ({ action }: CachedCodeAction) => !!(action as CodeActionExtras).isPreferred
+
+/** Ask the providers of the current filetype for code actions. Preferred actions are first */
+export const queryCodeActions = async (document: vsc.TextDocument, range: vsc.Range, request: CodeActionRequest, token: vsc.CancellationToken) => {
+  const only = request.only ? CodeActionKind.Empty.append(request.only) : undefined
+  const context = { diagnostics: request.diagnostics, only }
+
+  const results = await Promise.all(getProviders<vsc.CodeActionProvider>(providers.codeAction)
+    .filter(provider => providesKind(provider, only))
+    .map(async provider => {
+      const actions = await Promise.resolve(provider.provideCodeActions(document, range, context, token)).catch(err => {
+        console.error('code action provider failed', err)
+      })
+      return (actions || []).map(action => ({ action, provider }))
+    }))
+
+  const actions = results
+    .reduce((res, m) => [ ...res, ...m ], [] as CachedCodeAction[])
+    .filter(m => matchesKind(m.action, only))
+
+  const unique = dedupOn(actions, (a, b) => a.action.title === b.action.title)
+  return [ ...unique.filter(isPreferred), ...unique.filter(m => !isPreferred(m)) ]
+}
+
+/** Apply the WorkspaceEdit of the code action and then run its command */
+export const applyCodeAction = async (action: vsc.CodeAction | vsc.Command) => {
+  if (isCommand(action)) return commands.executeCommand(action.command, ...(action.arguments || []))
+
+  const { disabled } = action as CodeActionExtras
+  if (disabled) return console.warn(`code action "${action.title}" is disabled: ${disabled.reason}`)
+
+  if (action.edit) await workspace.applyEdit(action.edit)
+  if (action.command) await commands.executeCommand(action.command.command, ...(action.command.arguments || []))
+}
+
+type Formatter = () => vsc.ProviderResult<vsc.TextEdit[]>
+
+// edits from more than one formatter would conflict with each other
+const firstFormattingEdits = async (formatters: Formatter[]): Promise<vsc.TextEdit[]> => {
+  for (const format of formatters) {
+    const edits = await Promise.resolve(format()).catch(err => {
+      console.error('formatting provider failed', err)
+    })
+    if (edits && edits.length) return edits
   }
+  return []
+}
+
+/** Formatting edits for the document, or only for the range if there is one */
+export const queryFormattingEdits = async (document: vsc.TextDocument, token: vsc.CancellationToken, range?: vsc.Range) => {
+  const options = await getFormattingOptions()
+
+  const formatters: Formatter[] = range
+    ? getProviders<vsc.DocumentRangeFormattingEditProvider>(providers.documentRangeFormattingEdit)
+      .map(provider => () => provider.provideDocumentRangeFormattingEdits(document, range, options, token))
+    : getProviders<vsc.DocumentFormattingEditProvider>(providers.documentFormattingEdit)
+      .map(provider => () => provider.provideDocumentFormattingEdits(document, options, token))
+
+  return firstFormattingEdits(formatters)
+}
+
+export const queryOnTypeFormattingEdits = async (document: vsc.TextDocument, position: vsc.Position, character: string, token: vsc.CancellationToken) => {
+  const options = await getFormattingOptions()
+
+  const formatters: Formatter[] = getProviders<vsc.OnTypeFormattingEditProvider>(providers.onTypeFormattingEdit)
+    .filter(provider => (onTypeFormattingTriggers.get(provider) || []).includes(character))
+    .map(provider => () => provider.provideOnTypeFormattingEdits(document, position, character, options, token))
+
+  return firstFormattingEdits(formatters)
 }
 
 export const completionRequest = {
@@ -152,20 +368,15 @@ const api = {
       character: nvim.state.column,
     })
 
-    const results = await providers.completionItem.provideCompletionItems(document, position, token, context)
+    const results = await queryCompletionProviders(document, position, token, context)
     Object.assign(completionRequest, {
       active: false,
       line: -1,
       character: -1,
     })
-    if (!results) return
+    if (!results.length) return
 
-    cache.currentCompletionItems = results.reduce((res, item) => {
-      const next = (item as vsc.CompletionList).items
-        ? (item as vsc.CompletionList).items
-        : [item as vsc.CompletionItem]
-      return [...res, ...next]
-    }, [] as vsc.CompletionItem[])
+    cache.currentCompletionItems = results.sort((a, b) => sortKey(a).localeCompare(sortKey(b)))
 
     // the CompletionItem returned from the extensions has a bunch of extra
     // shit tacked onto it that is not part of the CompletionItem interface.
@@ -179,35 +390,62 @@ const api = {
     // that when we need to resolve a completion item we can send the extension
     // the same object that we received. (things break if we do not send back
     // the same object to the extension)
-    const completions = cache.currentCompletionItems.map((item, index) => simplify.completionItem(item, index))
+    const completions = cache.currentCompletionItems.map(({ item, provider }, index) => {
+      return simplify.completionItem(item, index, getCompletionProviderId(provider))
+    })
 
     // we will not dedup completions as they will be run thru the fuzzy filter engine
     return completions
   })()}),
-  resolveCompletionItem: (item: vsc.CompletionItem, tokenId?: string) => ({ cancel, promise: (async () => {
+  resolveCompletionItem: ({ index }: CompletionItemData, tokenId?: string) => ({ cancel, promise: (async () => {
     const { token } = makeCancelToken(tokenId!)
-    const realItem = Reflect.get(cache.currentCompletionItems, (item as any).index)
-    const results = await providers.completionItem.resolveCompletionItem!(realItem, token)
-    return results && simplify.completionItem(results[0])
+    const cached = cache.currentCompletionItems[index]
+    if (!cached) return
+
+    const resolved = await resolveCompletion(cached, token)
+    return simplify.completionItem(resolved, index, getCompletionProviderId(cached.provider))
+  })()}),
+  // typescript adds auto import edits when the completion item is resolved. the
+  // number of lines added above the completion is returned so that the caller
+  // can find the completed word again
+  acceptCompletionItem: ({ index, providerId }: CompletionItemData, tokenId?: string) => ({ cancel, promise: (async () => {
+    const { token } = makeCancelToken(tokenId!)
+    const cached = cache.currentCompletionItems[index]
+    if (!cached || getCompletionProviderId(cached.provider) !== providerId) return 0
+
+    const item = await resolveCompletion(cached, token)
+    const edits = item.additionalTextEdits || []
+    const line = nvim.state.line
+
+    if (edits.length) {
+      const edit: vsc.WorkspaceEdit = new WorkspaceEdit()
+      edit.set(TextDocument(nvim.current.buffer.id).uri, edits)
+      await workspace.applyEdit(edit)
+    }
+
+    if (item.command) await commands.executeCommand(item.command.command, ...(item.command.arguments || []))
+
+    return edits
+      .filter(m => m.range.end.line < line)
+      .reduce((res, m) => res + m.newText.split('\n').length - 1 - (m.range.end.line - m.range.start.line), 0)
   })()}),
   getCompletionTriggerCharacters: () => ({ cancel, promise: (async () => {
     return [...providers.completionTriggerCharacters.get(nvim.state.filetype) || []]
   })()}),
-  provideCodeActions: (context: vsc.CodeActionContext, tokenId?: string) => ({ cancel, promise: (async () => {
+  provideCodeActions: (request: CodeActionRequest, tokenId?: string) => ({ cancel, promise: (async () => {
     const { token } = makeCancelToken(tokenId!)
     const document = TextDocument(nvim.current.buffer.id)
     const position = new Position(nvim.state.line, nvim.state.column)
     const range = new Range(position, position)
-    const results = await providers.codeAction.provideCodeActions(document, range, context, token)
-    if (!results) return
-
-    const actions = results.map(m => m.command
-      ? m as vsc.CodeAction
-      : { command: m as vsc.Command, title: m.title })
 
-    return dedupOn(actions, (a, b) => a.command && b.command
-      ? a.command.command === b.command.command
-      : (a as vsc.CodeAction).title === (b as vsc.CodeAction).title)
+    cache.currentCodeActions = await queryCodeActions(document, range, request, token)
+    return cache.currentCodeActions.map((m, index) => simplify.codeAction(m, index))
+  })()}),
+  // code actions can not be sent between threads (the edit and the command
+  // arguments are class instances) so they are applied by index
+  runCodeAction: (index: number) => ({ cancel, promise: (async () => {
+    const cached = cache.currentCodeActions[index]
+    if (cached) await applyCodeAction(cached.action)
   })()}),
   provideCodeLenses: (tokenId?: string) => ({ cancel, promise: (async () => {
     const { token } = makeCancelToken(tokenId!)
@@ -232,7 +470,7 @@ const api = {
     if (!location) return
 
     return {
-      path: ((location as vsc.Location).uri || (location as vsc.LocationLink).targetUri).path,
+      path: asBufferName((location as vsc.Location).uri || (location as vsc.LocationLink).targetUri),
       range: threadSafeObject((location as vsc.Location).range || (location as vsc.LocationLink).targetRange),
     }
   })()}),
@@ -247,7 +485,7 @@ const api = {
     if (!location) return
 
     return {
-      path: ((location as vsc.Location).uri || (location as vsc.LocationLink).targetUri).path,
+      path: asBufferName((location as vsc.Location).uri || (location as vsc.LocationLink).targetUri),
       range: threadSafeObject((location as vsc.Location).range || (location as vsc.LocationLink).targetRange),
     }
   })()}),
@@ -262,7 +500,7 @@ const api = {
     if (!location) return
 
     return {
-      path: ((location as vsc.Location).uri || (location as vsc.LocationLink).targetUri).path,
+      path: asBufferName((location as vsc.Location).uri || (location as vsc.LocationLink).targetUri),
       range: threadSafeObject((location as vsc.Location).range || (location as vsc.LocationLink).targetRange),
     }
   })()}),
@@ -277,7 +515,7 @@ const api = {
     if (!location) return
 
     return {
-      path: ((location as vsc.Location).uri || (location as vsc.LocationLink).targetUri).path,
+      path: asBufferName((location as vsc.Location).uri || (location as vsc.LocationLink).targetUri),
       range: threadSafeObject((location as vsc.Location).range || (location as vsc.LocationLink).targetRange),
     }
   })()}),
@@ -340,7 +578,7 @@ const api = {
       name: m.name,
       containerName: m.containerName,
       kind: m.kind,
-      path: m.location.uri.path,
+      path: asBufferName(m.location.uri),
       range: m.location.range,
     }))
 
@@ -368,7 +606,7 @@ const api = {
     if (!results) return
 
     const references = results.map(m => ({
-      path: m.uri.path,
+      path: asBufferName(m.uri),
       range: threadSafeObject(m.range),
     }))
     return dedupOn(references, (a, b) => rangesEqual(a.range, b.range))
@@ -410,27 +648,18 @@ const api = {
   provideDocumentFormattingEdits: (tokenId?: string) => ({ cancel, promise: (async () => {
     const { token } = makeCancelToken(tokenId!)
     const document = TextDocument(nvim.current.buffer.id)
-    const options = await getFormattingOptions()
-    const edits = await providers.documentFormattingEdit.provideDocumentFormattingEdits(document, options, token)
-    if (!edits) return
-    return dedupOn(edits, (a, b) => rangesEqual(a.range, b.range))
+    return queryFormattingEdits(document, token)
   })()}),
   provideDocumentRangeFormattingEdits: (range: vsc.Range, tokenId?: string) => ({ cancel, promise: (async () => {
     const { token } = makeCancelToken(tokenId!)
     const document = TextDocument(nvim.current.buffer.id)
-    const options = await getFormattingOptions()
-    const edits = await providers.documentRangeFormattingEdit.provideDocumentRangeFormattingEdits(document, range, options, token)
-    if (!edits) return
-    return dedupOn(edits, (a, b) => rangesEqual(a.range, b.range))
+    return queryFormattingEdits(document, token, range)
   })()}),
   provideOnTypeFormattingEdits: (character: string, tokenId?: string) => ({ cancel, promise: (async () => {
     const { token } = makeCancelToken(tokenId!)
     const document = TextDocument(nvim.current.buffer.id)
     const position = new Position(nvim.state.line, nvim.state.column)
-    const options = await getFormattingOptions()
-    const edits = await providers.onTypeFormattingEdit.provideOnTypeFormattingEdits(document, position, character, options, token)
-    if (!edits) return
-    return dedupOn(edits, (a, b) => rangesEqual(a.range, b.range))
+    return queryOnTypeFormattingEdits(document, position, character, token)
   })()}),
   provideSignatureHelp: (context: vsc.SignatureHelpContext, tokenId?: string) => ({ cancel, promise: (async () => {
     const { token } = makeCancelToken(tokenId!)
@@ -439,38 +668,48 @@ const api = {
     const results = await providers.signatureHelp.provideSignatureHelp(document, position, token, context)
     return results && results[0]
   })()}),
+  // links without a target are resolved by index with resolveDocumentLink
   provideDocumentLinks: (tokenId?: string) => ({ cancel, promise: (async () => {
     const { token } = makeCancelToken(tokenId!)
     const document = TextDocument(nvim.current.buffer.id)
-    const results = await providers.documentLink.provideDocumentLinks(document, token)
-    if (!results) return
-
-    const links = results.map(m => ({
-      range: m.range,
-      path: m.target ? m.target.path : undefined,
+    const results = await Promise.all(getProviders<vsc.DocumentLinkProvider>(providers.documentLink).map(async provider => {
+      const links = await Promise.resolve(provider.provideDocumentLinks(document, token))
+      return (links || []).map(link => ({ link, provider }))
     }))
 
-    return dedupOn(links, (a, b) => rangesEqual(a.range, b.range))
+    const links = results.reduce((res, m) => [ ...res, ...m ], [] as CachedDocumentLink[])
+    cache.currentDocumentLinks = dedupOn(links, (a, b) => rangesEqual(a.link.range, b.link.range))
+
+    return cache.currentDocumentLinks.map(({ link }, index) => ({
+      index,
+      range: threadSafeObject(link.range),
+      target: link.target ? link.target.toString() : undefined,
+    }))
   })()}),
-  resolveDocumentLink: (link: vsc.DocumentLink, tokenId?: string) => ({ cancel, promise: (async () => {
+  resolveDocumentLink: (index: number, tokenId?: string) => ({ cancel, promise: (async () => {
     const { token } = makeCancelToken(tokenId!)
-    const results = await providers.documentLink.resolveDocumentLink!(link, token)
-    return results && results[0]
+    const cached = cache.currentDocumentLinks[index]
+    if (!cached || !cached.provider.resolveDocumentLink) return
+
+    const link = await Promise.resolve(cached.provider.resolveDocumentLink(cached.link, token))
+    return link && link.target ? link.target.toString() : undefined
   })()}),
   provideColorPresentations: (color: vsc.Color, range: vsc.Range, tokenId?: string) => ({ cancel, promise: (async () => {
     const { token } = makeCancelToken(tokenId!)
+    // the color and range lost their classes on the way from the other thread
     const context = {
-      range,
+      range: new Range(range.start.line, range.start.character, range.end.line, range.end.character),
       document: TextDocument(nvim.current.buffer.id),
     }
 
-    const colors = await providers.color.provideColorPresentations(color, context, token)
+    const colorArg = new Color(color.red, color.green, color.blue, color.alpha)
+    const colors = await providers.color.provideColorPresentations(colorArg, context, token)
     if (!colors) return
-    return dedupOn(colors, (a, b) => a.label === b.label)
+    return threadSafeObject(dedupOn(colors, (a, b) => a.label === b.label))
   })()}),
-  provideDocumentColors: (tokenId?: string) => ({ cancel, promise: (async () => {
+  provideDocumentColors: (bufferId: number, tokenId?: string) => ({ cancel, promise: (async () => {
     const { token } = makeCancelToken(tokenId!)
-    const document = TextDocument(nvim.current.buffer.id)
+    const document = TextDocument(bufferId)
     const colors = await providers.color.provideDocumentColors(document, token)
     if (!colors) return
 
@@ -480,14 +719,31 @@ const api = {
       && a.color.green === b.color.green
       && a.color.blue === b.color.blue)
   })()}),
-  provideFoldingRanges: (tokenId?: string) => ({ cancel, promise: (async () => {
+  provideFoldingRanges: (bufferId: number, tokenId?: string) => ({ cancel, promise: (async () => {
     const { token } = makeCancelToken(tokenId!)
-    const document = TextDocument(nvim.current.buffer.id)
+    const document = TextDocument(bufferId)
     const options: vsc.FoldingContext = {}
     const ranges = await providers.foldingRange.provideFoldingRanges(document, options, token)
     if (!ranges) return
     return dedupOn(ranges, (a, b) => a.start === b.start && a.end === b.end)
   })()}),
+  // every parent of the SelectionRange, from the smallest to the largest range
+  provideSelectionRanges: (tokenId?: string) => ({ cancel, promise: (async () => {
+    const { token } = makeCancelToken(tokenId!)
+    const document = TextDocument(nvim.current.buffer.id)
+    const position = new Position(nvim.state.line, nvim.state.column)
+    const selectionRanges = await providers.selectionRange.provideSelectionRanges(document, [ position ], token)
+    if (!selectionRanges) return
+
+    const ranges = selectionRanges.reduce((res, selectionRange) => {
+      for (let m: SelectionRange | undefined = selectionRange; m; m = m.parent) res.push(m.range)
+      return res
+    }, [] as vsc.Range[])
+
+    const size = (range: vsc.Range) => document.offsetAt(range.end) - document.offsetAt(range.start)
+    const sorted = dedupOn(ranges, rangesEqual).sort((a, b) => size(a) - size(b))
+    return threadSafeObject(sorted)
+  })()}),
   getSignatureHelpTriggerCharacters: () => ({ cancel, promise: (async () => {
     return [...providers.signatureHelpTriggerCharacters.get(nvim.state.filetype) || []]
   })()}),
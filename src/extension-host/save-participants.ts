@@ -0,0 +1,69 @@
+import { providers, getProviders, queryCodeActions, applyCodeAction } from '../extension-host/providers'
+import { onDidChange as onDidChangeConfiguration } from '../extension-host/configuration-store'
+import WorkspaceConfiguration from '../vscode/workspace-configuration'
+import { CancellationTokenSource } from '../vscode/cancellation'
+import { formatOnSave } from '../extension-host/formatting'
+import TextDocument from '../vscode/text-document'
+import { Range } from '../vscode/types'
+import languages from '../vscode/languages'
+import nvim from '../neovim/api'
+import * as vsc from 'vscode'
+
+// "editor.codeActionsOnSave" is either a list of kinds or { [kind]: boolean }
+const getCodeActionsOnSave = (languageId: string): string[] => {
+  const config = WorkspaceConfiguration('editor', { languageId })
+  const kinds = config.get('codeActionsOnSave', {} as string[] | { [kind: string]: boolean })
+  if (Array.isArray(kinds)) return kinds
+  return Object.entries(kinds).filter(([ , enabled ]) => enabled).map(([ kind ]) => kind)
+}
+
+const runCodeActionsOnSave = async (document: vsc.TextDocument, kinds: string[]) => {
+  const config = WorkspaceConfiguration('editor', { languageId: document.languageId })
+  const request = new CancellationTokenSource()
+  const timer = setTimeout(() => request.cancel(), config.get('codeActionsOnSaveTimeout', 750))
+  const range = new Range(0, 0, document.lineCount, 0)
+  const diagnostics = languages.getDiagnostics(document.uri)
+
+  for (const kind of kinds) {
+    const actions = await queryCodeActions(document, range, { diagnostics, only: kind }, request.token)
+    if (request.token.isCancellationRequested) break
+    for (const { action } of actions) await applyCodeAction(action)
+  }
+
+  clearTimeout(timer)
+}
+
+// time for nvim to wait on top of the timeouts of the participants
+const WILL_SAVE_MARGIN = 250
+
+/** Let nvim wait for the save participants of the current buffer. Buffers without any are written right away */
+export const refreshSaveParticipants = () => {
+  const buffer = nvim.current.buffer
+  const document = TextDocument(buffer.id)
+  const config = WorkspaceConfiguration('editor', { languageId: document.languageId })
+  const codeActions = getCodeActionsOnSave(document.languageId).length > 0
+    && getProviders(providers.codeAction).length > 0
+  const format = config.get('formatOnSave', false)
+    && getProviders(providers.documentFormattingEdit).length > 0
+
+  const timeout = (codeActions ? config.get('codeActionsOnSaveTimeout', 750) : 0)
+    + (format ? config.get('formatOnSaveTimeout', 750) : 0)
+  buffer.setVar('veonim_will_save', timeout && timeout + WILL_SAVE_MARGIN)
+}
+
+nvim.on.bufLoad(refreshSaveParticipants)
+nvim.on.filetype(refreshSaveParticipants)
+onDidChangeConfiguration(refreshSaveParticipants)
+
+// code actions and the formatter change the buffer before it is written (nvim
+// waits for us in BufWritePre)
+nvim.onWillSave(async buffer => {
+  if (buffer.id !== nvim.current.buffer.id) return
+
+  const document = TextDocument(buffer.id)
+  const kinds = getCodeActionsOnSave(document.languageId)
+  const format = WorkspaceConfiguration('editor', document).get('formatOnSave', false)
+
+  if (kinds.length) await runCodeActionsOnSave(document, kinds)
+  if (format) await formatOnSave(buffer)
+})
@@ -0,0 +1,93 @@
+import { CancellationTokenSource } from '../vscode/cancellation'
+import { showMessage } from '../extension-host/bridge-api'
+import { MessageKind } from '../protocols/veonim'
+import { Buffer } from '../neovim/types'
+import { URI } from '../vscode/uri'
+import nvim from '../neovim/api'
+import * as vsc from 'vscode'
+
+interface VirtualDocument {
+  buffer: Buffer
+  uri: vsc.Uri
+}
+
+type SchemeOwner = 'content provider' | 'file system provider'
+
+const providers = new Map<string, vsc.TextDocumentContentProvider>()
+// content providers and file system providers read buffers with the same BufReadCmd
+// autocmds, so a uri scheme can only be provided by one kind of provider
+const schemeOwners = new Map<string, SchemeOwner>()
+// keyed by uri string. the same document is loaded in one buffer
+const documents = new Map<string, VirtualDocument>()
+
+/** Buffer name for a document uri. Documents from content providers are named after their uri */
+export const asBufferName = (uri: vsc.Uri) => uri.scheme === 'file' ? uri.path : uri.toString(true)
+
+/** Install the neovim autocmds that read (and write) buffers of a uri scheme. Returns false if another kind of provider owns the scheme */
+export const registerScheme = (scheme: string, owner: SchemeOwner, writable = false) => {
+  const currentOwner = schemeOwners.get(scheme)
+  if (currentOwner && currentOwner !== owner) {
+    console.error(`can not register a ${owner} for ${scheme} because the uri scheme is already provided by a ${currentOwner}`)
+    return false
+  }
+
+  schemeOwners.set(scheme, owner)
+  nvim.call.VeonimRegisterScheme(scheme, writable)
+  return true
+}
+
+export const unregisterScheme = (scheme: string) => {
+  schemeOwners.delete(scheme)
+  nvim.call.VeonimUnregisterScheme(scheme)
+}
+
+const loadContent = async ({ buffer, uri }: VirtualDocument) => {
+  const provider = providers.get(uri.scheme)
+  if (!provider) return
+
+  const { token } = new CancellationTokenSource()
+  const content = await provider.provideTextDocumentContent(uri, token)
+  if (typeof content !== 'string') return console.error(`no content for virtual document ${uri.toString()}`)
+
+  // the line break at the end of the content does not start another line
+  const lines = content.split(/\r?\n/)
+  if (lines.length > 1 && !lines[lines.length - 1]) lines.pop()
+  nvim.call.VeonimSetVirtualDocument(buffer.id, lines, uri.path)
+}
+
+const readDocument = (doc: VirtualDocument) => loadContent(doc).catch(err => showMessage({
+  message: `failed to read ${doc.uri.toString(true)}: ${err && err.message || err}`,
+  kind: MessageKind.Error,
+}))
+
+nvim.on.virtualDocumentRead(({ buffer, name, scheme }) => {
+  if (!providers.has(scheme)) return
+  const uri = URI.parse(name.slice(name.indexOf(`${scheme}:`)))
+  const doc = { buffer, uri }
+
+  documents.set(uri.toString(), doc)
+  readDocument(doc)
+})
+
+nvim.on.bufClose(buffer => [...documents.entries()]
+  .filter(([ , doc ]) => doc.buffer.id === buffer.id)
+  .forEach(([ key ]) => documents.delete(key)))
+
+export const registerTextDocumentContentProvider = (scheme: string, provider: vsc.TextDocumentContentProvider) => {
+  if (providers.has(scheme)) console.warn(`a text document content provider for ${scheme} has already been registered`)
+  if (!registerScheme(scheme, 'content provider')) return () => {}
+  providers.set(scheme, provider)
+
+  const subscription = provider.onDidChange && provider.onDidChange(uri => {
+    const doc = documents.get(uri.toString())
+    if (doc) readDocument(doc)
+  })
+
+  return () => {
+    if (subscription) subscription.dispose()
+    if (providers.get(scheme) !== provider) return
+    providers.delete(scheme)
+    unregisterScheme(scheme)
+  }
+}
+
@@ -0,0 +1,176 @@
+import { asBufferName } from '../extension-host/text-document-content'
+import { ViewColumn } from '../vscode/types'
+import { SuperTextDocument } from '../vscode/text-document'
+import { EditorWindowData } from '../protocols/vscode-ui'
+import { SHADOW_BUFFER_TYPE } from '../support/constants'
+import { uiEvent } from '../extension-host/bridge-api'
+import { Watcher, debounce } from '../support/utils'
+import TextEditor from '../vscode/text-editor'
+import { URI } from '../vscode/uri'
+import nvim from '../neovim/api'
+import * as vsc from 'vscode'
+
+export interface Events {
+  didChangeActiveTextEditor: vsc.TextEditor | undefined
+  didChangeVisibleTextEditors: vsc.TextEditor[]
+  didChangeTextEditorSelection: vsc.TextEditorSelectionChangeEvent
+  didChangeTextEditorVisibleRanges: vsc.TextEditorVisibleRangesChangeEvent
+  didChangeTextEditorViewColumn: vsc.TextEditorViewColumnChangeEvent
+}
+
+interface ShowOptions {
+  viewColumn?: vsc.ViewColumn
+  preserveFocus?: boolean
+  preview?: boolean
+  selection?: vsc.Range
+}
+
+export const events = Watcher<Events>()
+// one editor per window, so extensions can compare editors by identity
+const editors = new Map<number, vsc.TextEditor>()
+// windows of webviews, tree views and other shadow buffers drawn by the ui are not text editors
+const shadowWindows = new Set<number>()
+const state = {
+  windows: [] as EditorWindowData[],
+  active: -1,
+  selections: [] as vsc.Selection[],
+}
+
+const refreshShadowWindow = async (id: number) => {
+  const filetype = await nvim.call.getbufvar(await nvim.call.winbufnr(id), '&filetype')
+  filetype === SHADOW_BUFFER_TYPE ? shadowWindows.add(id) : shadowWindows.delete(id)
+}
+
+const editorWindows = () => state.windows.filter(m => !shadowWindows.has(m.id))
+
+// windows stacked in the same column of the layout are in the same view column
+const viewColumnOf = (id: number, windows = state.windows) => {
+  const win = windows.find(m => m.id === id)
+  if (!win) return
+  const columns = [...new Set(windows.map(m => m.col))].sort((a, b) => a - b)
+  return Math.min(columns.indexOf(win.col) + 1, ViewColumn.Nine) as ViewColumn
+}
+
+const getEditor = (id: number) => {
+  const existing = editors.get(id)
+  if (existing) return existing
+
+  const editor = TextEditor(id, () => viewColumnOf(id))
+  editors.set(id, editor)
+  return editor
+}
+
+const activeWindow = () => state.active > 0 ? state.active : nvim.current.window.id
+
+export const getActiveTextEditor = () => {
+  const id = activeWindow()
+  return shadowWindows.has(id) ? undefined : getEditor(id)
+}
+
+// before the first layout from the ui only the current window is known
+export const getVisibleTextEditors = () => {
+  if (!state.windows.length) return [ getActiveTextEditor() ].filter(m => m) as vsc.TextEditor[]
+  return editorWindows().map(m => getEditor(m.id))
+}
+
+uiEvent.editors.onChangeLayout(async windows => {
+  const previous = editorWindows()
+  await Promise.all(windows.map(m => refreshShadowWindow(m.id)))
+  state.windows = windows
+  const current = editorWindows()
+
+  const visibleChanged = previous.length !== current.length || previous.some(m => !current.some(w => w.id === m.id))
+  if (visibleChanged) events.emit('didChangeVisibleTextEditors', getVisibleTextEditors())
+
+  current
+    .filter(m => editors.has(m.id) && viewColumnOf(m.id) !== viewColumnOf(m.id, previous))
+    .forEach(m => events.emit('didChangeTextEditorViewColumn', {
+      textEditor: getEditor(m.id),
+      viewColumn: viewColumnOf(m.id)!,
+    }))
+
+  ;[...editors.keys()]
+    .filter(id => !windows.some(m => m.id === id))
+    .forEach(id => editors.delete(id))
+})
+
+uiEvent.editors.onChangeActive(id => {
+  if (state.active === id) return
+  state.active = id
+  events.emit('didChangeActiveTextEditor', getActiveTextEditor())
+})
+
+// editors follow the window, so a different buffer in the active window is a different active document
+nvim.on.bufLoad(async () => {
+  await refreshShadowWindow(activeWindow())
+  events.emit('didChangeActiveTextEditor', getActiveTextEditor())
+})
+
+const sameSelections = (a: vsc.Selection[], b: vsc.Selection[]) => a.length === b.length
+  && a.every((m, ix) => m.isEqual(b[ix]))
+
+nvim.on.cursorMove(debounce(() => {
+  const textEditor = getActiveTextEditor()
+  if (!textEditor) return
+  const { selections } = textEditor
+  if (sameSelections(selections, state.selections)) return
+  state.selections = selections
+  events.emit('didChangeTextEditorSelection', { textEditor, selections, kind: undefined })
+}, 50))
+
+const visibleRangesChanged = debounce(() => {
+  const textEditor = getActiveTextEditor()
+  if (!textEditor) return
+  events.emit('didChangeTextEditorVisibleRanges', { textEditor, visibleRanges: textEditor.visibleRanges })
+}, 50)
+
+nvim.watchState.editorTopLine(visibleRangesChanged)
+nvim.watchState.editorBottomLine(visibleRangesChanged)
+
+const asShowOptions = (columnOrOptions?: vsc.ViewColumn | vsc.TextDocumentShowOptions, preserveFocus?: boolean): ShowOptions => {
+  if (typeof columnOrOptions === 'number') return { viewColumn: columnOrOptions, preserveFocus }
+  return columnOrOptions || {}
+}
+
+// the first window in the view column, or a new split for columns that do not exist yet
+const openWindowCommand = (viewColumn = ViewColumn.Active) => {
+  if (viewColumn === ViewColumn.Active) return
+  if (viewColumn === ViewColumn.Beside) return 'rightbelow vsplit'
+
+  const win = editorWindows().find(m => viewColumnOf(m.id) === viewColumn)
+  return win ? `call win_gotoid(${win.id})` : 'botright vsplit'
+}
+
+const select = ({ start, end }: vsc.Range, focus: boolean) => {
+  if (start.line === end.line && start.character === end.character) {
+    return nvim.call.cursor(start.line + 1, start.character + 1)
+  }
+
+  return focus
+    ? nvim.call.VeonimSelectRange(start.line, start.character, end.line, end.character)
+    : nvim.call.VeonimSetSelectionMarks(start.line, start.character, end.line, end.character)
+}
+
+// neovim has no preview editors. previews do not change the alternate file
+export const showTextDocument = async (documentOrUri: vsc.TextDocument | vsc.Uri, columnOrOptions?: vsc.ViewColumn | vsc.TextDocumentShowOptions, preserveFocusArg?: boolean) => {
+  const { viewColumn, preserveFocus, preview, selection } = asShowOptions(columnOrOptions, preserveFocusArg)
+  const previousWindow = await nvim.call.win_getid()
+
+  const bufferId = URI.isUri(documentOrUri) ? undefined : (documentOrUri as SuperTextDocument)._nvimBufferId
+  const uri = URI.isUri(documentOrUri) ? documentOrUri : (documentOrUri as vsc.TextDocument).uri
+  const name = asBufferName(uri).replace(/'/g, "''")
+  const modifier = preview ? 'keepalt ' : ''
+
+  const openWindow = openWindowCommand(viewColumn)
+  if (openWindow) nvim.cmd(openWindow)
+  nvim.cmd(bufferId
+    ? `${modifier}buffer ${bufferId}`
+    : `exe '${modifier}e ' . fnameescape('${name}')`)
+
+  const window = await nvim.call.win_getid()
+  const keepFocus = preserveFocus && window !== previousWindow
+  if (selection) await select(selection, !keepFocus)
+  if (keepFocus) nvim.cmd('wincmd p')
+  return getEditor(window)
+}
+
@@ -11,19 +11,37 @@ export interface DebugAdapterConnection {
   onClose: (cb: () => void) => void
 }
 
-export default (readable: Readable, writable: Writable): DebugAdapterConnection => {
+// the extension host also needs every message for debug adapter trackers and custom events
+export interface DebugAdapterStreamConnection extends DebugAdapterConnection {
+  onReceive: (cb: (message: DP.ProtocolMessage) => void) => void
+  onSend: (cb: (message: DP.ProtocolMessage) => void) => void
+}
+
+export default (readable: Readable, writable: Writable): DebugAdapterStreamConnection => {
   const pendingRequests = new Map()
   const watchers = new Watchers()
   const id = ID()
 
-  let onErrorFn = (_: any) => {}
   let onRequestFn = (_: DP.Request) => {}
-  let onCloseFn = () => {}
+  const receiveListeners: ((message: DP.ProtocolMessage) => void)[] = []
+  const sendListeners: ((message: DP.ProtocolMessage) => void)[] = []
+  const closeListeners: (() => void)[] = []
+  const errorListeners: ((error: any) => void)[] = []
+  let closed = false
+
+  const onClose = () => {
+    if (closed) return
+    closed = true
+    closeListeners.forEach(fn => fn())
+  }
 
-  readable.on('close', () => onCloseFn())
-  writable.on('close', () => onCloseFn())
+  const onError = (error: any) => errorListeners.forEach(fn => fn(error))
+
+  readable.on('close', onClose)
+  writable.on('close', onClose)
 
   const onMessage = (msg: DP.ProtocolMessage) => {
+    receiveListeners.forEach(fn => fn(msg))
     if (msg.type === 'event') return watchers.notify((msg as DP.Event).event, (msg as DP.Event).body)
     if (msg.type === 'request') return onRequestFn(msg as DP.Request)
     if (msg.type === 'response') {
@@ -36,26 +54,33 @@ export default (readable: Readable, writable: Writable): DebugAdapterConnection
     }
   }
 
-  const api = {} as DebugAdapterConnection
+  const api = {} as DebugAdapterStreamConnection
+
+  const send = (message: DP.ProtocolMessage) => {
+    sendListeners.forEach(fn => fn(message))
+    connection.send(message)
+  }
 
   api.sendNotification = response => {
-    if (response.seq > 0) return onErrorFn(new Error(`don't send more than one response for: ${response.command}`))
+    if (response.seq > 0) return onError(new Error(`don't send more than one response for: ${response.command}`))
     const seq = id.next()
-    connection.send({ seq, type: 'response', command: response.command })
+    send({ seq, type: 'response', command: response.command } as DP.Response)
   }
 
   api.sendRequest = (command, args = {}) => {
     const seq = id.next()
-    connection.send({ command, seq, type: 'request', arguments: args })
+    send({ command, seq, type: 'request', arguments: args } as DP.Request)
     return new Promise((done, fail) => pendingRequests.set(seq, { done, fail }))
   }
 
   api.onNotification = (method, cb) => watchers.add(method, cb)
   api.onRequest = cb => onRequestFn = cb
-  api.onError = cb => onErrorFn = cb
-  api.onClose = cb => onCloseFn = cb
+  api.onError = cb => errorListeners.push(cb)
+  api.onClose = cb => closeListeners.push(cb)
+  api.onReceive = cb => receiveListeners.push(cb)
+  api.onSend = cb => sendListeners.push(cb)
 
-  const connection = streamProcessor(readable, writable, onMessage, onErrorFn)
+  const connection = streamProcessor(readable, writable, onMessage, onError)
   return api
 }
 
@@ -199,7 +199,8 @@ const loadBuffer = async (file: string): Promise<boolean> => {
 type JumpOpts = HyperspaceCoordinates & { openBufferFirst: boolean }
 
 const jumpToPositionInFile = async ({ line, path, column, openBufferFirst }: JumpOpts) => {
-  if (openBufferFirst && path) cmd(`e ${path}`)
+  // buffer names of virtual documents are uris with characters like ? and % that need escaping
+  if (openBufferFirst && path) cmd(`exe 'e ' . fnameescape('${path.replace(/'/g, "''")}')`)
   // nvim_win_set_cursor params
   // line: 1-index based
   // column: 0-index based
@@ -350,6 +351,22 @@ const on: OnEvent = new Proxy(Object.create(null), {
   get: (_, event: BufferEvents) => (fn: any) => watchers.events.on(event, fn)
 })
 
+// nvim waits in BufWritePre until the save participants are done (see VeonimWillSave)
+const willSaveFns = new Set<(buffer: Buffer) => Promise<any>>()
+
+const onWillSave = (fn: (buffer: Buffer) => Promise<any>) => {
+  if (!willSaveFns.size) subscribe('veonim-will-save', async ([ bufId, id ]) => {
+    const buffer = Buffer(bufId-0)
+    for (const participant of willSaveFns) {
+      await participant(buffer).catch(err => console.error('save participant failed:', err))
+    }
+    g.veonim_saved = id
+  })
+
+  willSaveFns.add(fn)
+  return () => willSaveFns.delete(fn)
+}
+
 type UntilEvent = { [Key in BufferEvents]: Promise<void> }
 const untilEvent: UntilEvent = new Proxy(Object.create(null), {
   get: (_, event: BufferEvents) => new Promise(done => {
@@ -418,6 +435,14 @@ autocmd.BufEnter(bufId => watchers.events.emit('bufLoad', Buffer(bufId-0)))
 autocmd.BufWritePre(bufId => watchers.events.emit('bufWritePre', Buffer(bufId-0)))
 autocmd.BufWritePost(bufId => watchers.events.emit('bufWrite', Buffer(bufId-0)))
 autocmd.BufWipeout(bufId => watchers.events.emit('bufClose', Buffer(bufId-0)))
+autocmd.TermOpen(bufId => watchers.events.emit('termOpen', Buffer(bufId-0)))
+autocmd.TermClose(bufId => watchers.events.emit('termClose', Buffer(bufId-0)))
+autocmd.BufReadCmd((bufId, name: string, scheme: string) => {
+  watchers.events.emit('virtualDocumentRead', { buffer: Buffer(bufId-0), name, scheme })
+})
+autocmd.BufWriteCmd((bufId, name: string, scheme: string) => {
+  watchers.events.emit('virtualDocumentWrite', { buffer: Buffer(bufId-0), name, scheme })
+})
 autocmd.InsertEnter(() => watchers.events.emit('insertEnter'))
 autocmd.InsertLeave(() => watchers.events.emit('insertLeave'))
 autocmd.FileType((_, filetype: string) => watchers.events.emit('filetype', filetype))
@@ -575,6 +600,14 @@ const Buffer = (id: any) => ({
     req.buf.setLines(id, start.line, end.line + 1, false, updatedLines)
     if (undojoin) cmd('undojoin')
   },
+  applyEdits: async (edits, undojoin = false) => {
+    const lines = await req.buf.getLines(id, 0, -1, false)
+    const changed = TextEditPatch.changedLines(lines, TextEditPatch.applyEdits({ lines, edits }))
+    if (!changed) return
+    // one setLines call is one change in the undo history
+    if (undojoin) cmd('silent! undojoin')
+    await req.buf.setLines(id, changed.start, changed.end, false, changed.lines)
+  },
   replace: (start, line) => api.buf.setLines(id, start, start + 1, false, [ line ]),
   getVar: name => req.buf.getVar(id, name),
   setVar: (name, value) => api.buf.setVar(id, name, value),
@@ -636,7 +669,7 @@ const dummy = {
 
 const exportAPI = { state, watchState, onStateChange, onStateValue,
   untilStateValue, cmd, cmdOut, expr, call, feedkeys, normal, callAtomic,
-  onAction, getCurrentLine, jumpTo, systemAction, current, g, on,
+  onAction, getCurrentLine, jumpTo, systemAction, current, g, on, onWillSave,
   untilEvent, buffers, windows, tabs, options: readonlyOptions,
   Buffer: fromId.buffer, Window: fromId.window, Tabpage: fromId.tabpage,
   getKeymap, getColorByName, getCursorPosition, highlightSearchPattern,
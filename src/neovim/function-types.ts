@@ -29,10 +29,12 @@ interface State {
   colorscheme: string
   revision: number
   bufferType: string
+  bufferId: number
   line: number
   column: number
   editorTopLine: number
   editorBottomLine: number
+  editorTextOffset: number
 }
 
 interface Position {
@@ -40,6 +42,7 @@ interface Position {
   column: number
   editorTopLine: number
   editorBottomLine: number
+  editorTextOffset: number
 }
 
 type WindowPosition = [ string, number, number, number ]
@@ -61,22 +64,35 @@ export interface Functions {
   VeonimPosition(): Promise<Position>
   VeonimCallEvent(event: string): void
   VeonimCallback(id: number, result: any): void
+  VeonimTaskStart(cmd: string[], cwd: string, reveal: string): Promise<[number, number]>
+  VeonimTerminalStart(cmd: string[], cwd: string): Promise<number>
+  VeonimSnippetSelect(line: number, column: number, endLine: number, endColumn: number, choice: number): Promise<void>
+  VeonimSelectRange(line: number, column: number, endLine: number, endColumn: number): Promise<void>
+  VeonimSetSelectionMarks(line: number, column: number, endLine: number, endColumn: number): Promise<void>
+  VeonimSetFolds(bufferId: number, levels: string[]): Promise<void>
+  VeonimRegisterScheme(scheme: string, writable?: boolean): void
+  VeonimUnregisterScheme(scheme: string): void
+  VeonimSetVirtualDocument(bufferId: number, lines: string[], path: string, writable?: boolean, options?: object): Promise<void>
   Buffers(): Promise<VimBuffer[]>
   OpenPaths(): Promise<string[]>
   getcwd(): Promise<string>
   getline(type: string | number, end?: string): Promise<string | string[]>
   expand(type: string): Promise<string>
+  getreg(register: string): Promise<string>
   synIDattr(id: number, type: string): Promise<number>
   getpos(where: string): Promise<WindowPosition>
   setloclist(window: number, list: QuickFixList[]): Promise<void>
   getqflist(): Promise<QuickFixList[]>
   cursor(line: number, column: number): Promise<void>
+  win_getid(): Promise<number>
+  winbufnr(window: number): Promise<number>
   bufname(expr: string | number): Promise<string>
   bufnr(expr: string, create?: number): Promise<number>
   getbufline(expr: string | number, startLine: number, endLine?: number | string): Promise<string[]>
   getbufvar(expr: string | number, varname?: string, defaultValue?: any): Promise<any>
   termopen(cmd: string, options: object): void
   jobpid(jobId: number): Promise<number>
+  jobstop(jobId: number): Promise<number>
   chansend(id: number, data: string | string[]): Promise<number>
   matchadd(hlgrp: string, pattern: string, priority?: number, id?: number): Promise<number>
   matchdelete(id: number): Promise<number>
@@ -0,0 +1,336 @@
+import { SnippetParser, TextmateSnippet, Marker, Text, Placeholder, Variable, Choice } from '../vscode/snippet-parser'
+import { basename, dirname, extname, relative } from 'path'
+import nvim from '../neovim/api'
+
+interface Position {
+  line: number
+  character: number
+}
+
+interface Range {
+  start: Position
+  end: Position
+}
+
+interface PlaceholderRange {
+  index: number
+  start: number
+  end: number
+  primary: boolean
+  choices?: string[]
+}
+
+interface RenderedSnippet {
+  text: string
+  placeholders: PlaceholderRange[]
+}
+
+interface Session {
+  bufferId: number
+  start: Position
+  snippet: TextmateSnippet
+  values: Map<number, string>
+  tabstops: number[]
+  current: number
+  rendered: RenderedSnippet
+  leading: string
+  trailing: string
+  lineCount: number
+}
+
+interface Variables {
+  [name: string]: string
+}
+
+const MONTHS = [ 'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December' ]
+const DAYS = [ 'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday' ]
+
+let session: Session | undefined
+let pendingWork = Promise.resolve()
+
+// buffer change events and jumps read and write the buffer. doing them one
+// after another means we always compare against the latest snippet text
+const queue = (fn: () => Promise<void>) => {
+  pendingWork = pendingWork.then(fn).catch(err => {
+    console.error('snippet session failed', err)
+    session = undefined
+  })
+  return pendingWork
+}
+
+const pad = (value: number) => `${value}`.padStart(2, '0')
+
+const getVariables = async (selectedText = ''): Promise<Variables> => {
+  const [ clipboard, currentLine, currentWord, commentstring ] = await Promise.all([
+    nvim.call.getreg('+'),
+    nvim.call.getline('.') as Promise<string>,
+    nvim.call.expand('<cword>'),
+    nvim.options.commentstring as Promise<string>,
+  ])
+
+  const filepath = nvim.state.absoluteFilepath
+  const [ commentStart, commentEnd = '' ] = (commentstring || '').split('%s').map(m => m.trim())
+  const now = new Date()
+
+  return {
+    TM_SELECTED_TEXT: selectedText,
+    TM_CURRENT_LINE: currentLine,
+    TM_CURRENT_WORD: currentWord,
+    TM_LINE_INDEX: `${nvim.state.line}`,
+    TM_LINE_NUMBER: `${nvim.state.line + 1}`,
+    TM_FILENAME: basename(filepath),
+    TM_FILENAME_BASE: basename(filepath, extname(filepath)),
+    TM_DIRECTORY: dirname(filepath),
+    TM_FILEPATH: filepath,
+    RELATIVE_FILEPATH: relative(nvim.state.cwd, filepath),
+    WORKSPACE_NAME: basename(nvim.state.cwd),
+    WORKSPACE_FOLDER: nvim.state.cwd,
+    CLIPBOARD: clipboard,
+    CURRENT_YEAR: `${now.getFullYear()}`,
+    CURRENT_YEAR_SHORT: `${now.getFullYear()}`.slice(-2),
+    CURRENT_MONTH: pad(now.getMonth() + 1),
+    CURRENT_MONTH_NAME: MONTHS[now.getMonth()],
+    CURRENT_MONTH_NAME_SHORT: MONTHS[now.getMonth()].slice(0, 3),
+    CURRENT_DATE: pad(now.getDate()),
+    CURRENT_DAY_NAME: DAYS[now.getDay()],
+    CURRENT_DAY_NAME_SHORT: DAYS[now.getDay()].slice(0, 3),
+    CURRENT_HOUR: pad(now.getHours()),
+    CURRENT_MINUTE: pad(now.getMinutes()),
+    CURRENT_SECOND: pad(now.getSeconds()),
+    CURRENT_SECONDS_UNIX: `${Math.floor(now.getTime() / 1000)}`,
+    LINE_COMMENT: commentEnd ? '' : commentStart,
+    BLOCK_COMMENT_START: commentEnd ? commentStart : '',
+    BLOCK_COMMENT_END: commentEnd,
+  }
+}
+
+// like vscode, every snippet line after the first one gets the indentation
+// of the line where the snippet is inserted and tabs follow 'expandtab'
+const adjustWhitespace = async (template: string, indent: string) => {
+  const [ expandtab, shiftwidth, tabstop ] = await Promise.all([
+    nvim.options.expandtab,
+    nvim.options.shiftwidth,
+    nvim.options.tabstop,
+  ])
+
+  const tab = expandtab ? ' '.repeat(shiftwidth || tabstop) : '\t'
+  return template
+    .split('\n')
+    .map((line, ix) => ix ? indent + line : line)
+    .join('\n')
+    .replace(/\t/g, tab)
+}
+
+// placeholders that were edited use the new value instead of the default text
+// (nested placeholders go away). mirrors show the value with their transform
+// applied. the placeholder being edited is never transformed
+const render = (snippet: TextmateSnippet, values: Map<number, string>, activeIndex?: number): RenderedSnippet => {
+  const placeholders: PlaceholderRange[] = []
+  const seen = new Set<number>()
+
+  const renderChildren = (marker: Marker, offset: number): string => marker.children
+    .reduce((res, child) => res + renderMarker(child, offset + res.length), '')
+
+  const renderPlaceholder = (marker: Placeholder, offset: number) => {
+    const primary = !seen.has(marker.index)
+    seen.add(marker.index)
+
+    const value = values.has(marker.index)
+      ? values.get(marker.index)!
+      : renderChildren(marker, offset)
+
+    const transform = marker.transform && !(primary && marker.index === activeIndex)
+    const text = transform ? marker.transform.resolve(value) : value
+    const { choice } = marker
+
+    placeholders.push({
+      primary,
+      index: marker.index,
+      start: offset,
+      end: offset + text.length,
+      choices: choice && choice.options.map(m => m.value),
+    })
+
+    return text
+  }
+
+  const renderMarker = (marker: Marker, offset: number): string => {
+    if (marker instanceof Text) return marker.value
+    if (marker instanceof Placeholder) return renderPlaceholder(marker, offset)
+    if (marker instanceof Choice) return marker.options[0].value
+    if (marker instanceof Variable) return renderChildren(marker, offset) || marker.name
+    return ''
+  }
+
+  const text = renderChildren(snippet, 0)
+  return { text, placeholders: placeholders.sort((a, b) => a.start - b.start) }
+}
+
+const getTabstops = ({ placeholders }: RenderedSnippet) => [...new Set(placeholders.map(m => m.index))]
+  .sort((a, b) => a === 0 ? 1 : b === 0 ? -1 : a - b)
+
+const getPrimary = ({ placeholders }: RenderedSnippet, index: number) => placeholders
+  .find(m => m.index === index && m.primary)
+
+const positionAt = (start: Position, text: string, offset: number): Position => {
+  const lines = text.slice(0, offset).split('\n')
+  const lastLine = lines[lines.length - 1]
+  return {
+    line: start.line + lines.length - 1,
+    character: lines.length === 1 ? start.character + lastLine.length : lastLine.length,
+  }
+}
+
+// only the lines that are different are replaced, so that the cursor
+// and the undo history of the lines above stay where they are
+const writeLines = async (bufferId: number, startLine: number, previousLines: string[], nextLines: string[]) => {
+  const buffer = nvim.Buffer(bufferId)
+  const firstChange = previousLines.findIndex((line, ix) => line !== nextLines[ix])
+  const sameLineCount = previousLines.length === nextLines.length
+  if (firstChange < 0 && sameLineCount) return
+
+  const from = firstChange < 0 ? previousLines.length : firstChange
+  await buffer.setLines(startLine + from, startLine + previousLines.length, nextLines.slice(from))
+}
+
+const snippetLines = (s: Session, text: string) => (s.leading + text + s.trailing).split('\n')
+
+const select = async (s: Session) => {
+  const index = s.tabstops[s.current]
+  const placeholder = getPrimary(s.rendered, index)
+  if (!placeholder) return
+
+  const start = positionAt(s.start, s.rendered.text, placeholder.start)
+  const end = positionAt(s.start, s.rendered.text, placeholder.end)
+  const choices = placeholder.choices || []
+  if (choices.length) nvim.g.veonim_snippet_choices = choices
+
+  await nvim.call.VeonimSnippetSelect(start.line, start.character, end.line, end.character, choices.length ? 1 : 0)
+}
+
+const rerender = async (s: Session, previousText: string) => {
+  const rendered = render(s.snippet, s.values, s.tabstops[s.current])
+  const previousLines = snippetLines(s, previousText)
+  const nextLines = snippetLines(s, rendered.text)
+
+  await writeLines(s.bufferId, s.start.line, previousLines, nextLines)
+  s.rendered = rendered
+  s.lineCount += nextLines.length - previousLines.length
+}
+
+// find out what was typed in the active placeholder. the text before and
+// after it must be unchanged, otherwise the user edited outside the snippet
+const sync = async () => {
+  const s = session
+  if (!s || nvim.state.bufferId !== s.bufferId) return
+
+  const buffer = nvim.Buffer(s.bufferId)
+  const lineCount = await buffer.length
+  const { text } = s.rendered
+  const lastLine = s.start.line + snippetLines(s, text).length - 1 + (lineCount - s.lineCount)
+  if (lastLine < s.start.line) return endSession()
+
+  const lines = await buffer.getLines(s.start.line, lastLine)
+  const region = lines.join('\n')
+
+  const index = s.tabstops[s.current]
+  const placeholder = getPrimary(s.rendered, index)
+  if (!placeholder) return endSession()
+
+  const before = s.leading + text.slice(0, placeholder.start)
+  const after = text.slice(placeholder.end) + s.trailing
+  const valid = region.length >= before.length + after.length
+    && region.startsWith(before)
+    && region.endsWith(after)
+
+  if (!valid) return endSession()
+
+  const value = region.slice(before.length, region.length - after.length)
+  s.lineCount = lineCount
+  if (value === text.slice(placeholder.start, placeholder.end)) return
+
+  s.values.set(index, value)
+  // linked placeholders and transforms are updated to match the new value
+  await rerender(s, text.slice(0, placeholder.start) + value + text.slice(placeholder.end))
+}
+
+const endSession = () => {
+  session = undefined
+}
+
+const jump = (direction: number) => queue(async () => {
+  await sync()
+  const s = session
+  if (!s) return
+
+  const next = Math.max(0, s.current + direction)
+  if (next >= s.tabstops.length) return endSession()
+
+  s.current = next
+  await rerender(s, s.rendered.text)
+  await select(s)
+  if (s.tabstops[s.current] === 0) endSession()
+})
+
+/** Insert a snippet (textmate syntax) at the range or the cursor and start tabstop navigation */
+export const insertSnippet = (template: string, range?: Range, selectedText?: string) => queue(async () => {
+  endSession()
+
+  const cursor = { line: nvim.state.line, character: nvim.state.column }
+  const { start, end } = range || { start: cursor, end: cursor }
+  const buffer = nvim.current.buffer
+  const [ lines, lineCount ] = await Promise.all([
+    buffer.getLines(start.line, end.line),
+    buffer.length,
+  ])
+
+  const leading = lines[0].slice(0, start.character)
+  const trailing = lines[lines.length - 1].slice(end.character)
+  const indent = (leading.match(/^\s*/) || [''])[0]
+
+  const [ variables, adjustedTemplate ] = await Promise.all([
+    getVariables(selectedText),
+    adjustWhitespace(template, indent),
+  ])
+
+  const snippet = new SnippetParser()
+    .parse(adjustedTemplate, true)
+    .resolveVariables({ resolve: variable => variables[variable.name] })
+
+  const tabstops = getTabstops(render(snippet, new Map()))
+  const rendered = render(snippet, new Map(), tabstops[0])
+  const nextLines = (leading + rendered.text + trailing).split('\n')
+  await buffer.setLines(start.line, end.line + 1, nextLines)
+
+  const s: Session = {
+    snippet,
+    tabstops,
+    leading,
+    trailing,
+    start: { line: start.line, character: leading.length },
+    bufferId: nvim.state.bufferId,
+    values: new Map(),
+    current: 0,
+    rendered,
+    lineCount: lineCount + nextLines.length - lines.length,
+  }
+
+  if (!tabstops.length) {
+    const endPosition = positionAt(s.start, rendered.text, rendered.text.length)
+    nvim.jumpTo({ line: endPosition.line, column: endPosition.character })
+    return
+  }
+
+  // a snippet with only the final tabstop does not need a session
+  if (tabstops[0] !== 0) session = s
+  await select(s)
+})
+
+nvim.on.bufChange(() => session && queue(sync))
+nvim.on.bufChangeInsert(() => session && queue(sync))
+nvim.on.bufLoad(buffer => session && buffer && buffer.id !== session.bufferId && endSession())
+
+// both the extension host and the language features worker can insert
+// snippets. each one only jumps in a snippet that it has inserted
+nvim.systemAction('snippet-next', () => session && jump(1))
+nvim.systemAction('snippet-prev', () => session && jump(-1))
@@ -77,10 +77,13 @@ const autocmds = {
   OptionSet: `expand('<amatch>'), v:option_new, v:option_old`,
   FileType: `bufnr(expand('<afile>')), expand('<amatch>')`,
   WinEnter: `win_getid()`,
+  TermOpen: `expand('<abuf>')`,
+  TermClose: `expand('<abuf>')`,
 }
 
 export type Autocmd = typeof autocmds
-export type Autocmds = keyof Autocmd
+// BufReadCmd/BufWriteCmd are only registered for uri schemes of virtual documents (see VeonimRegisterScheme)
+export type Autocmds = keyof Autocmd | 'BufReadCmd' | 'BufWriteCmd'
 
 const autocmdsText = Object.entries(autocmds)
   .map(([ cmd, arg ]) => {
@@ -93,11 +96,75 @@ const autocmdsText = Object.entries(autocmds)
 // it makes the next autocmd a continuation of the previous
 startup.defineFunc.VeonimRegisterAutocmds`
   aug VeonimAU | au! | aug END
+  aug VeonimSchemes | au! | aug END
   au VeonimAU CursorMoved,CursorMovedI * call rpcnotify(0, 'veonim-position', VeonimPosition())
   au VeonimAU ${stateEvents.join(',')} * call rpcnotify(0, 'veonim-state', VeonimState())
+  au VeonimAU BufWritePre * call VeonimWillSave(expand('<abuf>'))
+  au VeonimAU TextYankPost * call VeonimYanked(v:event.operator)
+  au VeonimAU TextChanged * call VeonimFormatPaste()
   ${autocmdsText}
 `
 
+// save participants change the buffer before it is written. b:veonim_will_save is
+// the time in ms to wait for them, and only set for buffers that have participants.
+// sleep keeps handling rpc requests while waiting
+startup.defineFunc.VeonimWillSave`
+  let timeout = getbufvar(a:1 + 0, 'veonim_will_save', 0)
+  if !timeout
+    return
+  endif
+  let g:veonim_will_save_id = get(g:, 'veonim_will_save_id', 0) + 1
+  call rpcnotify(0, 'veonim-will-save', a:1, g:veonim_will_save_id)
+  let start = reltime()
+  while get(g:, 'veonim_saved', 0) < g:veonim_will_save_id && reltimefloat(reltime(start)) * 1000 < timeout
+    sleep 10m
+  endwhile
+`
+
+// buffer names like git:/path?ref=HEAD~1 are read (and written if the second argument is
+// set) by the extension that provides the uri scheme. neovim expands names without :// to
+// a path in the current directory, so match those too. the registered schemes are sent
+// as state so that buffer names are only treated as uris if a provider exists
+startup.defineFunc.VeonimRegisterScheme`
+  let patterns = a:1 . ':*,' . a:1 . ':/*,*/' . a:1 . ':/*'
+  let notify = ' call rpcnotify(0, "veonim-autocmd", "%s", expand("<abuf>"), expand("<amatch>"), "' . a:1 . '")'
+  exe 'au! VeonimSchemes BufReadCmd,BufWriteCmd ' . patterns
+  exe 'au VeonimSchemes BufReadCmd ' . patterns . printf(notify, 'BufReadCmd')
+  if get(a:, 2, 0)
+    exe 'au VeonimSchemes BufWriteCmd ' . patterns . printf(notify, 'BufWriteCmd')
+  endif
+  let g:veonim_schemes = uniq(sort(add(copy(get(g:, 'veonim_schemes', [])), a:1)))
+  call rpcnotify(0, 'veonim-state', { 'schemes': g:veonim_schemes })
+`
+
+startup.defineFunc.VeonimUnregisterScheme`
+  exe 'au! VeonimSchemes BufReadCmd,BufWriteCmd ' . a:1 . ':*,' . a:1 . ':/*,*/' . a:1 . ':/*'
+  let g:veonim_schemes = filter(copy(get(g:, 'veonim_schemes', [])), 'v:val !=# a:1')
+  call rpcnotify(0, 'veonim-state', { 'schemes': g:veonim_schemes })
+`
+
+// set the contents of a virtual document buffer without undo history. writable documents
+// are saved with BufWriteCmd. the filetype is detected from the uri path. buffer options
+// like fileformat are set before the modified flag is reset (changing them modifies the buffer)
+startup.defineFunc.VeonimSetVirtualDocument`
+  let buf = a:1
+  let undolevels = getbufvar(buf, '&undolevels')
+  call setbufvar(buf, '&undolevels', -1)
+  call setbufvar(buf, '&modifiable', 1)
+  call nvim_buf_set_lines(buf, 0, -1, 0, a:2)
+  call setbufvar(buf, '&undolevels', undolevels)
+  for [name, value] in items(get(a:, 5, {}))
+    call setbufvar(buf, '&' . name, value)
+  endfor
+  call setbufvar(buf, '&buftype', get(a:, 4, 0) ? 'acwrite' : 'nofile')
+  call setbufvar(buf, '&swapfile', 0)
+  call setbufvar(buf, '&modified', 0)
+  call setbufvar(buf, '&modifiable', get(a:, 4, 0))
+  if bufnr('%') == buf && empty(&filetype)
+    exe 'doautocmd filetypedetect BufRead ' . fnameescape(a:3)
+  endif
+`
+
 startup.defineFunc.VeonimComplete`
   return a:1 ? g:veonim_complete_pos : g:veonim_completions
 `
@@ -130,6 +197,8 @@ startup.defineFunc.VeonimState`
   let m.bufferType = getbufvar(currentBuffer, '&buftype')
   let m.editorTopLine = line('w0')
   let m.editorBottomLine = line('w$')
+  let m.editorTextOffset = wincol() - virtcol('.')
+  let m.bufferId = bufnr('%')
   let m.absoluteFilepath = expand('%:p')
   return m
 `
@@ -141,6 +210,7 @@ startup.defineFunc.VeonimPosition`
   let m.column = p[2]-1
   let m.editorTopLine = line('w0')
   let m.editorBottomLine = line('w$')
+  let m.editorTextOffset = wincol() - virtcol('.')
   return m
 `
 
@@ -158,6 +228,143 @@ startup.defineFunc.VeonimTermExit`
   call remove(g:vn_jobs_connected, a:1)
 `
 
+// extension terminals start hidden like in vscode. terminal.show() opens a window
+startup.defineFunc.VeonimTerminalStart`
+  botright new
+  call termopen(a:1, { 'cwd': a:2 })
+  let bufferId = bufnr('%')
+  hide
+  return bufferId
+`
+
+// snippet placeholders are selected in select mode (typing replaces them) and
+// empty placeholders start insert mode. positions are 0 based characters
+startup.defineFunc.VeonimSnippetSelect`
+  let startText = getline(a:1 + 1)
+  let startByte = line2byte(a:1 + 1) + byteidxcomp(startText, a:2)
+  let endByte = line2byte(a:3 + 1) + byteidxcomp(getline(a:3 + 1), a:4) - 1
+  let atLineEnd = a:2 > 0 && a:2 >= strchars(startText)
+  if a:1 == a:3 && a:2 == a:4
+    let keys = atLineEnd ? (startByte - 1) . 'goa' : startByte . 'goi'
+  elseif a:5
+    let keys = startByte . 'gov' . endByte . 'goc'
+  else
+    let keys = startByte . 'gov' . endByte . "go\\<c-g>"
+  endif
+  if a:5
+    let keys .= "\\<c-r>=VeonimSnippetChoice()\\<cr>"
+  endif
+  call feedkeys("\\<esc>" . keys, 'n')
+`
+
+// folds from folding range providers are only used by windows that opt in
+// with foldmethod=expr foldexpr=VeonimFoldExpr(v:lnum)
+startup.defineFunc.VeonimFoldExpr`
+  return get(get(b:, 'veonim_fold_levels', []), a:1 - 1, 0)
+`
+
+startup.defineFunc.VeonimSetFolds`
+  call setbufvar(a:1, 'veonim_fold_levels', a:2)
+  if bufnr('%') == a:1 && &foldmethod ==# 'expr' && &foldexpr =~# 'VeonimFoldExpr'
+    let &l:foldexpr = &l:foldexpr
+  endif
+`
+
+// a window without focus can not have a visual selection. the marks keep the
+// selection for gv. the end position is exclusive like in vscode
+startup.defineFunc.VeonimSetSelectionMarks`
+  let startCol = byteidxcomp(getline(a:1 + 1), a:2) + 1
+  call setpos("'<", [0, a:1 + 1, startCol, 0])
+  call setpos("'>", [0, a:3 + 1, byteidxcomp(getline(a:3 + 1), a:4), 0])
+  call cursor(a:1 + 1, startCol)
+`
+
+// visual selection of a range. the end position is exclusive like in vscode
+startup.defineFunc.VeonimSelectRange`
+  let startByte = line2byte(a:1 + 1) + byteidxcomp(getline(a:1 + 1), a:2)
+  let endByte = line2byte(a:3 + 1) + byteidxcomp(getline(a:3 + 1), a:4) - 1
+  call feedkeys("\\<esc>" . startByte . 'gov' . endByte . 'go', 'n')
+`
+
+// operators like d and c leave the changed text in the registers, so their
+// change looks like a put
+startup.defineFunc.VeonimYanked`
+  if a:1 !=# 'y'
+    let b:veonim_yanked = 1
+  endif
+`
+
+// puts are only looked for in buffers that format them (b:veonim_format_on_paste)
+startup.defineFunc.VeonimFormatPaste`
+  if !get(b:, 'veonim_format_on_paste', 0)
+    return
+  endif
+  if get(b:, 'veonim_yanked', 0)
+    let b:veonim_yanked = 0
+    return
+  endif
+  let range = VeonimPutRange()
+  if !empty(range)
+    call rpcnotify(0, 'veonim', 'format-paste', [bufnr('%'), b:changedtick, range])
+  endif
+`
+
+// the range of the text put from a register if that was the last change. empty otherwise
+startup.defineFunc.VeonimPutRange`
+  let undo = undotree()
+  if undo.seq_cur != undo.seq_last
+    return []
+  endif
+  let [start, end] = [getpos("'["), getpos("']")]
+  for reg in ['"', '0', '+', '*']
+    let text = getreg(reg, 1, 1)
+    let lines = getline(start[1], end[1])
+    if empty(text) || len(text) != len(lines)
+      continue
+    endif
+    if getregtype(reg) ==# 'V'
+      if text == lines
+        return [start[1] - 1, 0, end[1] - 1, len(lines[-1])]
+      endif
+      continue
+    endif
+    let lines[-1] = lines[-1][: end[2] - 1]
+    let lines[0] = lines[0][start[2] - 1 :]
+    if text == lines
+      return [start[1] - 1, start[2] - 1, end[1] - 1, end[2]]
+    endif
+  endfor
+  return []
+`
+
+startup.defineFunc.VeonimSnippetChoice`
+  call complete(col('.'), g:veonim_snippet_choices)
+  return ''
+`
+
+// tasks run in a terminal buffer in a new split at the bottom. reveal is one of
+// 'always' (focus the terminal), 'silent' (keep focus) or 'never' (no window)
+startup.defineFunc.VeonimTaskStart`
+  botright new
+  let opts = { 'cwd': a:2, 'on_stdout': function('VeonimTaskOutput'), 'on_exit': function('VeonimTaskExit') }
+  let jobId = termopen(a:1, opts)
+  let bufferId = bufnr('%')
+  if a:3 ==# 'never'
+    hide
+  elseif a:3 ==# 'silent'
+    wincmd p
+  endif
+  return [jobId, bufferId]
+`
+
+startup.defineFunc.VeonimTaskOutput`
+  call rpcnotify(0, 'veonim', 'task-output', [a:1, a:2])
+`
+
+startup.defineFunc.VeonimTaskExit`
+  call rpcnotify(0, 'veonim', 'task-exit', [a:1, a:2])
+`
+
 startup.defineFunc.Veonim`
   call rpcnotify(0, 'veonim', a:1, a:000[1:])
 `
@@ -14,7 +14,11 @@ const state = {
   column: 0,
   editorTopLine: 0,
   editorBottomLine: 0,
+  editorTextOffset: 0,
+  bufferId: 0,
   absoluteFilepath: '',
+  // uri schemes of virtual documents that have a registered provider
+  schemes: [] as string[],
 }
 
 export type NeovimState = typeof state
@@ -1,6 +1,7 @@
 import { positionToOffset } from '../neovim/text-edit-patch'
 import { BufferChangeEvent, Buffer } from '../neovim/types'
 import filetypeToLanguageID from '../vscode/vsc-languages'
+import { virtualDocumentUri } from '../support/utils'
 import { TextDocumentContentChangeEvent } from 'vscode'
 import { Range, Position } from '../vscode/types'
 import { NeovimAPI } from '../neovim/api'
@@ -67,6 +68,7 @@ const nvimChangeToLSPChange = ({ firstLine, lastLine, lineData }: BufferChangeEv
 }
 
 const api = (nvim: NeovimAPI, onlyFiletypeBuffers?: string[]) => {
+  const nameToUri = (name: string) => virtualDocumentUri(name, nvim.state.schemes) || `file://${name}`
   const openDocuments = new Set<string>()
   const sentDidOpen = new Set<string>()
   const attachedBuffers = new Set<Buffer>()
@@ -88,7 +90,7 @@ const api = (nvim: NeovimAPI, onlyFiletypeBuffers?: string[]) => {
         filetype,
         id: buffer.id,
         version: changedTick,
-        uri: `file://${name}`,
+        uri: nameToUri(name),
         languageId: filetypeToLanguageID(filetype),
         textLines: lineData,
         text: lineData.join('\n'),
@@ -107,7 +109,7 @@ const api = (nvim: NeovimAPI, onlyFiletypeBuffers?: string[]) => {
         lastLine,
         textLines,
         id: buffer.id,
-        uri: `file://${name}`,
+        uri: nameToUri(name),
         languageId: filetypeToLanguageID(filetype),
         contentChanges: nvimChangeToLSPChange(change),
       } as DidChange)
@@ -144,7 +146,7 @@ const api = (nvim: NeovimAPI, onlyFiletypeBuffers?: string[]) => {
       watchers.emit('didClose', {
         name,
         id: buffer.id,
-        uri: `file://${name}`,
+        uri: nameToUri(name),
       } as Doc)
     })
 
@@ -180,7 +182,7 @@ const api = (nvim: NeovimAPI, onlyFiletypeBuffers?: string[]) => {
     watchers.emit('didClose', {
       name,
       id: buffer.id,
-      uri: `file://${name}`,
+      uri: nameToUri(name),
     } as Doc)
 
     watchers.emit('didOpen', {
@@ -188,7 +190,7 @@ const api = (nvim: NeovimAPI, onlyFiletypeBuffers?: string[]) => {
       filetype,
       id: buffer.id,
       version: revision,
-      uri: `file://${name}`,
+      uri: nameToUri(name),
       languageId: filetypeToLanguageID(filetype),
       textLines: fullBufferContents,
       text: fullBufferContents.join('\n')
@@ -207,7 +209,7 @@ const api = (nvim: NeovimAPI, onlyFiletypeBuffers?: string[]) => {
     watchers.emit('willSave', {
       id: buffer.id,
       name: nvim.state.absoluteFilepath,
-      uri: `file://${nvim.state.absoluteFilepath}`,
+      uri: nameToUri(nvim.state.absoluteFilepath),
     } as Doc)
   }))
 
@@ -216,7 +218,7 @@ const api = (nvim: NeovimAPI, onlyFiletypeBuffers?: string[]) => {
     watchers.emit('didSave', {
       id: buffer.id,
       name: nvim.state.absoluteFilepath,
-      uri: `file://${nvim.state.absoluteFilepath}`,
+      uri: nameToUri(nvim.state.absoluteFilepath),
     } as Doc)
   }))
 
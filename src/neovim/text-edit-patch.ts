@@ -1,4 +1,4 @@
-import { Position } from 'vscode'
+import { Position, TextEdit } from 'vscode'
 
 interface AppendPatch {
   lines: string[]
@@ -19,6 +19,22 @@ interface DeletePatch {
   end: Position
 }
 
+interface EditsPatch {
+  lines: string[]
+  edits: TextEdit[]
+}
+
+interface PlainPosition {
+  line: number
+  character: number
+}
+
+interface ChangedLines {
+  start: number
+  end: number
+  lines: string[]
+}
+
 export const positionToOffset = (lines: string[], position: Position): number => {
   let offset = 0
   const totalol = lines.length
@@ -57,3 +73,62 @@ export const remove = ({ lines, start, end }: DeletePatch): string[] => {
   const next = startText + endText
   return next.split('\n')
 }
+
+const isBefore = (a: PlainPosition, b: PlainPosition) => a.line < b.line || (a.line === b.line && a.character < b.character)
+
+const compareRanges = (a: TextEdit, b: TextEdit) => {
+  if (isBefore(a.range.start, b.range.start)) return -1
+  if (isBefore(b.range.start, a.range.start)) return 1
+  if (isBefore(a.range.end, b.range.end)) return -1
+  if (isBefore(b.range.end, a.range.end)) return 1
+  return 0
+}
+
+// edits are applied from the end of the document to the start, so the ranges of
+// the remaining edits stay valid. edits at the same position keep their order
+const lastEditFirst = (edits: TextEdit[]) => edits
+  .map((edit, ix) => ({ edit, ix }))
+  .sort((a, b) => compareRanges(b.edit, a.edit) || b.ix - a.ix)
+  .map(m => m.edit)
+
+/** Apply all the edits of a TextEdit[] (ranges relative to the original lines) at once */
+export const applyEdits = ({ lines, edits }: EditsPatch): string[] => lastEditFirst(edits)
+  .reduce((res, { range: { start, end }, newText }) => {
+    const before = res[start.line].slice(0, start.character)
+    const after = res[end.line].slice(end.character)
+    const replacement = (before + newText + after).split('\n')
+    return [ ...res.slice(0, start.line), ...replacement, ...res.slice(end.line + 1) ]
+  }, lines)
+
+/** Where a position ends up after the edits are applied */
+export const shiftPosition = (position: PlainPosition, edits: TextEdit[]): PlainPosition => lastEditFirst(edits)
+  .reverse()
+  .filter(({ range }) => !isBefore(position, range.end))
+  .reduce((res, { range: { start, end }, newText }) => {
+    const newLines = newText.split('\n')
+    const line = res.line + newLines.length - 1 - (end.line - start.line)
+    if (end.line !== position.line) return { line, character: res.character }
+
+    // previous edits on the same line already moved the start of this edit
+    const shift = start.line === position.line ? res.character - position.character : 0
+    const lastLineStart = newLines.length > 1 ? 0 : start.character + shift
+    const lastLineLength = newLines[newLines.length - 1].length
+    return { line, character: lastLineStart + lastLineLength + position.character - end.character }
+  }, { line: position.line, character: position.character })
+
+/** The smallest block of lines that needs to be replaced to go from one version to the other */
+export const changedLines = (previous: string[], next: string[]): ChangedLines | undefined => {
+  const maxSame = Math.min(previous.length, next.length)
+  let start = 0
+  while (start < maxSame && previous[start] === next[start]) start++
+  if (start === previous.length && start === next.length) return
+
+  let same = 0
+  while (same < maxSame - start && previous[previous.length - 1 - same] === next[next.length - 1 - same]) same++
+
+  return {
+    start,
+    end: previous.length - same,
+    lines: next.slice(start, next.length - same),
+  }
+}
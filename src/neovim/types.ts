@@ -1,4 +1,4 @@
-import { Range, Position } from 'vscode'
+import { Range, Position, TextEdit } from 'vscode'
 
 export type GenericCallback = (...args: any[]) => void
 export type VimOption = { [index: string]: Promise<any> }
@@ -77,6 +77,7 @@ export enum HighlightGroupId {
   // neovim. we want to use our own, so we will skip 0
   Diagnostics = 2,
   DocumentHighlight = 3,
+  DocumentColor = 4,
 }
 
 export interface HyperspaceCoordinates {
@@ -113,6 +114,23 @@ export interface BufferChangeEvent {
   more: boolean
 }
 
+/** v:completed_item. empty if no item was selected */
+export interface CompletedItem {
+  word?: string
+  abbr?: string
+  menu?: string
+  info?: string
+  kind?: string
+  user_data?: string
+}
+
+export interface VirtualDocumentEvent {
+  buffer: Buffer
+  // the full buffer name. may have the current directory in front of the uri
+  name: string
+  scheme: string
+}
+
 export interface BufferEvent {
   bufOpen: Buffer
   bufLoad: Buffer
@@ -123,11 +141,15 @@ export interface BufferEvent {
   bufClose: Buffer
   cursorMove: void
   cursorMoveInsert: void
-  completion: string
+  completion: CompletedItem
   insertLeave: void
   insertEnter: void
   winEnter: number
   filetype: string
+  termOpen: Buffer
+  termClose: Buffer
+  virtualDocumentRead: VirtualDocumentEvent
+  virtualDocumentWrite: VirtualDocumentEvent
 }
 
 export interface Color {
@@ -167,6 +189,7 @@ export interface Buffer {
   appendRange(position: Position, text: string, undojoin?: boolean): void
   replaceRange(range: Range, text: string, undojoin?: boolean): void
   deleteRange(range: Range, undojoin?: boolean): void
+  applyEdits(edits: TextEdit[], undojoin?: boolean): Promise<void>
   getKeymap(mode: string): Promise<any>
   getVar(name: string): Promise<any>
   setVar(name: string, value: any): void
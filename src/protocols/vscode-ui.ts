@@ -0,0 +1,411 @@
+// UI elements requested by vscode extensions. the extension host sends
+// updates to the UI thread with VSCodeUI and the UI thread reports user
+// interactions back to the extension host with VSCodeUIEvents
+
+export interface QuickInputButtonData {
+  index: number
+  tooltip?: string
+  isBackButton: boolean
+}
+
+export interface QuickPickItemData {
+  index: number
+  label: string
+  description?: string
+  detail?: string
+  alwaysShow: boolean
+}
+
+export interface QuickPickShow {
+  id: string
+  title?: string
+  step?: number
+  totalSteps?: number
+  value: string
+  placeholder?: string
+  items: QuickPickItemData[]
+  buttons: QuickInputButtonData[]
+  activeItems: number[]
+  selectedItems: number[]
+  canSelectMany: boolean
+  matchOnDescription: boolean
+  matchOnDetail: boolean
+  busy: boolean
+  enabled: boolean
+}
+
+export interface InputBoxShow {
+  id: string
+  title?: string
+  step?: number
+  totalSteps?: number
+  value: string
+  valueSelection?: [number, number]
+  placeholder?: string
+  prompt?: string
+  validationMessage?: string
+  password: boolean
+  buttons: QuickInputButtonData[]
+  busy: boolean
+  enabled: boolean
+}
+
+export interface DecorationAttachmentStyle {
+  contentText?: string
+  color?: string
+  backgroundColor?: string
+  margin?: boolean
+}
+
+export interface DecorationStyle {
+  color?: string
+  backgroundColor?: string
+  // the grid can not draw borders, they are drawn as underlines instead
+  border?: boolean
+  borderColor?: string
+  underline?: boolean
+  opacity?: number
+  gutterIconPath?: string
+  before?: DecorationAttachmentStyle
+  after?: DecorationAttachmentStyle
+}
+
+export interface DecorationType {
+  key: string
+  isWholeLine: boolean
+  style: DecorationStyle
+  light: Partial<DecorationStyle>
+  dark: Partial<DecorationStyle>
+}
+
+export interface DecorationRange {
+  // [ startLine, startCharacter, endLine, endCharacter ]
+  range: [number, number, number, number]
+  before?: DecorationAttachmentStyle
+  after?: DecorationAttachmentStyle
+}
+
+export interface CodeLensLine {
+  line: number
+  // indentation of the line. lenses are aligned with the code below them
+  character: number
+  titles: string[]
+}
+
+export interface StatusBarItemShow {
+  id: string
+  // vscode StatusBarAlignment (1 = left, 2 = right)
+  alignment: number
+  priority: number
+  // may contain $(icon) codicons
+  text: string
+  tooltip?: string
+  color?: string
+  clickable: boolean
+}
+
+export interface TreeItemData {
+  handle: string
+  label: string
+  description?: string
+  tooltip?: string
+  contextValue?: string
+  // vscode TreeItemCollapsibleState (0 = none, 1 = collapsed, 2 = expanded)
+  collapsibleState: number
+  // codicon name of a ThemeIcon
+  icon?: string
+  // image from TreeItem.iconPath
+  iconPath?: string
+  // used for file or folder icons
+  resourcePath?: string
+  hasCommand: boolean
+}
+
+export interface WebviewPanelData {
+  id: string
+  viewType: string
+  title: string
+  enableScripts: boolean
+  // absolute paths that the webview may load vscode-resource: urls from
+  localResourceRoots: string[]
+  // set with acquireVsCodeApi().setState() inside the webview
+  state?: any
+}
+
+// commands contributed to the scm menus of the extension package.json
+export interface ScmMenuCommand {
+  command: string
+  title: string
+}
+
+export interface ScmResourceData {
+  path: string
+  tooltip?: string
+  strikeThrough: boolean
+  faded: boolean
+  iconPath?: string
+  hasCommand: boolean
+}
+
+export interface ScmGroupData {
+  id: string
+  label: string
+  hideWhenEmpty: boolean
+  resources: ScmResourceData[]
+  commands: ScmMenuCommand[]
+  resourceCommands: ScmMenuCommand[]
+}
+
+export interface SourceControlData {
+  // unique per source control. extensions may create more than one with the same id
+  handle: string
+  label: string
+  rootPath?: string
+  count?: number
+  inputValue: string
+  inputPlaceholder: string
+  canAcceptInput: boolean
+  groups: ScmGroupData[]
+  commands: ScmMenuCommand[]
+}
+
+// withProgress tasks in the statusline ('window') or in the source control view.
+// percentage is the sum of the reported increments
+export interface ProgressShow {
+  id: string
+  location: 'window' | 'scm'
+  title?: string
+  message?: string
+  percentage?: number
+  cancellable: boolean
+}
+
+// dialogs start in the directory path. save dialogs fill in the file name.
+// extensions without the dot are from the dialog filters, none means any file
+export interface FileDialogShow {
+  id: string
+  kind: 'open' | 'save'
+  title?: string
+  path: string
+  name?: string
+  canSelectFiles: boolean
+  canSelectFolders: boolean
+  canSelectMany: boolean
+  extensions: string[]
+}
+
+// neovim windows shown in the multigrid layout. ids are neovim window handles
+export interface EditorWindowData {
+  id: number
+  row: number
+  col: number
+  width: number
+  height: number
+}
+
+export interface VSCodeUI {
+  quickPick: {
+    show(options: QuickPickShow): void
+    update(options: QuickPickShow): void
+    hide(id: string): void
+  }
+  inputBox: {
+    show(options: InputBoxShow): void
+    update(options: InputBoxShow): void
+    hide(id: string): void
+  }
+  decorations: {
+    createType(decorationType: DecorationType): void
+    disposeType(key: string): void
+    set(bufferId: number, key: string, ranges: DecorationRange[]): void
+    changeLines(bufferId: number, firstLine: number, lastLine: number, lineCount: number): void
+  }
+  codeLens: {
+    set(bufferId: number, lenses: CodeLensLine[]): void
+  }
+  statusBarItem: {
+    show(item: StatusBarItemShow): void
+    hide(id: string): void
+  }
+  // tree item handles are unique per view. the root of the tree is ''
+  treeView: {
+    register(viewId: string, title: string): void
+    setChildren(viewId: string, parentHandle: string, items: TreeItemData[]): void
+    refresh(viewId: string, handle: string): void
+    reveal(viewId: string, expandHandles: string[], handle: string, select: boolean): void
+    dispose(viewId: string): void
+  }
+  scm: {
+    update(sourceControl: SourceControlData): void
+    dispose(handle: string): void
+  }
+  webview: {
+    // viewColumn is a vscode ViewColumn. ViewColumn.Active (-1) replaces the current window
+    create(panel: WebviewPanelData, viewColumn: number, preserveFocus: boolean): void
+    update(panel: WebviewPanelData): void
+    setHtml(id: string, html: string): void
+    postMessage(id: string, message: any): void
+    reveal(id: string, viewColumn: number, preserveFocus: boolean): void
+    dispose(id: string): void
+  }
+  fileDialog: {
+    show(dialog: FileDialogShow): void
+  }
+  progress: {
+    show(progress: ProgressShow): void
+    hide(id: string): void
+  }
+}
+
+export interface VSCodeUIClient {
+  quickPick: {
+    onShow(fn: VSCodeUI['quickPick']['show']): void
+    onUpdate(fn: VSCodeUI['quickPick']['update']): void
+    onHide(fn: VSCodeUI['quickPick']['hide']): void
+  }
+  inputBox: {
+    onShow(fn: VSCodeUI['inputBox']['show']): void
+    onUpdate(fn: VSCodeUI['inputBox']['update']): void
+    onHide(fn: VSCodeUI['inputBox']['hide']): void
+  }
+  decorations: {
+    onCreateType(fn: VSCodeUI['decorations']['createType']): void
+    onDisposeType(fn: VSCodeUI['decorations']['disposeType']): void
+    onSet(fn: VSCodeUI['decorations']['set']): void
+    onChangeLines(fn: VSCodeUI['decorations']['changeLines']): void
+  }
+  codeLens: {
+    onSet(fn: VSCodeUI['codeLens']['set']): void
+  }
+  statusBarItem: {
+    onShow(fn: VSCodeUI['statusBarItem']['show']): void
+    onHide(fn: VSCodeUI['statusBarItem']['hide']): void
+  }
+  treeView: {
+    onRegister(fn: VSCodeUI['treeView']['register']): void
+    onSetChildren(fn: VSCodeUI['treeView']['setChildren']): void
+    onRefresh(fn: VSCodeUI['treeView']['refresh']): void
+    onReveal(fn: VSCodeUI['treeView']['reveal']): void
+    onDispose(fn: VSCodeUI['treeView']['dispose']): void
+  }
+  scm: {
+    onUpdate(fn: VSCodeUI['scm']['update']): void
+    onDispose(fn: VSCodeUI['scm']['dispose']): void
+  }
+  webview: {
+    onCreate(fn: VSCodeUI['webview']['create']): void
+    onUpdate(fn: VSCodeUI['webview']['update']): void
+    onSetHtml(fn: VSCodeUI['webview']['setHtml']): void
+    onPostMessage(fn: VSCodeUI['webview']['postMessage']): void
+    onReveal(fn: VSCodeUI['webview']['reveal']): void
+    onDispose(fn: VSCodeUI['webview']['dispose']): void
+  }
+  fileDialog: {
+    onShow(fn: VSCodeUI['fileDialog']['show']): void
+  }
+  progress: {
+    onShow(fn: VSCodeUI['progress']['show']): void
+    onHide(fn: VSCodeUI['progress']['hide']): void
+  }
+}
+
+export interface VSCodeUIEvents {
+  quickPick: {
+    changeValue(id: string, value: string): void
+    changeActive(id: string, activeItems: number[]): void
+    changeSelection(id: string, selectedItems: number[]): void
+    triggerButton(id: string, button: number): void
+    accept(id: string): void
+    hide(id: string): void
+  }
+  inputBox: {
+    changeValue(id: string, value: string): void
+    triggerButton(id: string, button: number): void
+    accept(id: string): void
+    hide(id: string): void
+  }
+  statusBarItem: {
+    click(id: string): void
+  }
+  treeView: {
+    getChildren(viewId: string, parentHandle: string): void
+    expand(viewId: string, handle: string): void
+    collapse(viewId: string, handle: string): void
+    select(viewId: string, handle: string): void
+    execute(viewId: string, handle: string): void
+    changeVisibility(viewId: string, visible: boolean): void
+  }
+  // resources are identified by the group id and their index in the group
+  scm: {
+    changeInputValue(handle: string, value: string): void
+    acceptInput(handle: string): void
+    openResource(handle: string, groupId: string, index: number): void
+    runCommand(handle: string, command: string, groupId?: string, index?: number): void
+  }
+  webview: {
+    receiveMessage(id: string, message: any): void
+    setState(id: string, state: any): void
+    changeViewState(id: string, visible: boolean, active: boolean): void
+  }
+  editors: {
+    changeLayout(windows: EditorWindowData[]): void
+    changeActive(id: number): void
+  }
+  fileDialog: {
+    accept(id: string, paths: string[]): void
+    hide(id: string): void
+  }
+  progress: {
+    cancel(id: string): void
+  }
+}
+
+export interface VSCodeUIEventsClient {
+  quickPick: {
+    onChangeValue(fn: VSCodeUIEvents['quickPick']['changeValue']): () => void
+    onChangeActive(fn: VSCodeUIEvents['quickPick']['changeActive']): () => void
+    onChangeSelection(fn: VSCodeUIEvents['quickPick']['changeSelection']): () => void
+    onTriggerButton(fn: VSCodeUIEvents['quickPick']['triggerButton']): () => void
+    onAccept(fn: VSCodeUIEvents['quickPick']['accept']): () => void
+    onHide(fn: VSCodeUIEvents['quickPick']['hide']): () => void
+  }
+  inputBox: {
+    onChangeValue(fn: VSCodeUIEvents['inputBox']['changeValue']): () => void
+    onTriggerButton(fn: VSCodeUIEvents['inputBox']['triggerButton']): () => void
+    onAccept(fn: VSCodeUIEvents['inputBox']['accept']): () => void
+    onHide(fn: VSCodeUIEvents['inputBox']['hide']): () => void
+  }
+  statusBarItem: {
+    onClick(fn: VSCodeUIEvents['statusBarItem']['click']): () => void
+  }
+  treeView: {
+    onGetChildren(fn: VSCodeUIEvents['treeView']['getChildren']): () => void
+    onExpand(fn: VSCodeUIEvents['treeView']['expand']): () => void
+    onCollapse(fn: VSCodeUIEvents['treeView']['collapse']): () => void
+    onSelect(fn: VSCodeUIEvents['treeView']['select']): () => void
+    onExecute(fn: VSCodeUIEvents['treeView']['execute']): () => void
+    onChangeVisibility(fn: VSCodeUIEvents['treeView']['changeVisibility']): () => void
+  }
+  scm: {
+    onChangeInputValue(fn: VSCodeUIEvents['scm']['changeInputValue']): () => void
+    onAcceptInput(fn: VSCodeUIEvents['scm']['acceptInput']): () => void
+    onOpenResource(fn: VSCodeUIEvents['scm']['openResource']): () => void
+    onRunCommand(fn: VSCodeUIEvents['scm']['runCommand']): () => void
+  }
+  webview: {
+    onReceiveMessage(fn: VSCodeUIEvents['webview']['receiveMessage']): () => void
+    onSetState(fn: VSCodeUIEvents['webview']['setState']): () => void
+    onChangeViewState(fn: VSCodeUIEvents['webview']['changeViewState']): () => void
+  }
+  editors: {
+    onChangeLayout(fn: VSCodeUIEvents['editors']['changeLayout']): () => void
+    onChangeActive(fn: VSCodeUIEvents['editors']['changeActive']): () => void
+  }
+  fileDialog: {
+    onAccept(fn: VSCodeUIEvents['fileDialog']['accept']): () => void
+    onHide(fn: VSCodeUIEvents['fileDialog']['hide']): () => void
+  }
+  progress: {
+    onCancel(fn: VSCodeUIEvents['progress']['cancel']): () => void
+  }
+}
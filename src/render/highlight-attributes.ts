@@ -47,6 +47,19 @@ interface HighlightInfo {
   hlid: number
 }
 
+export interface DecorationHighlight {
+  foreground?: string
+  background?: string
+  special?: string
+  underline?: boolean
+  opacity?: number
+}
+
+interface DerivedHighlight {
+  base: number
+  decoration: DecorationHighlight
+}
+
 interface DefaultColors {
   background: string
   foreground: string
@@ -75,6 +88,13 @@ const highlightInfo = MapSet<number, string, HighlightInfo>()
 const canvas = document.createElement('canvas')
 const ui = canvas.getContext('2d', { alpha: true }) as CanvasRenderingContext2D
 const highlights = MapMap<number, number, HighlightGroup>()
+const derivedHighlights = MapMap<number, number, DerivedHighlight>()
+const derivedHighlightIds = MapMap<number, string, number>()
+
+// vscode decorations are drawn by replacing the highlight id of the decorated
+// grid cells. the decoration highlights are derived from the nvim highlight
+// of the cell, and take the ids after the last nvim highlight so the color
+// atlas stays small. they are reassigned when decorations or colors change
 
 export const setDefaultColors = (fg: number, bg: number, sp: number) => {
   const defaultColors = defaultColorsMap.get(instances.current) || {} as DefaultColors
@@ -174,9 +194,56 @@ export const highlightLookup = (name: string): HighlightInfo[] => {
 }
 export const getHighlight = (id: number) => highlights.get(instances.current, id)
 
+/** Returns the derived highlight id and if it is a new id (needs color atlas update) */
+export const getDecorationHighlight = (baseId: number, decoration: DecorationHighlight) => {
+  const derivedKey = `${baseId}:${JSON.stringify(decoration)}`
+  const existingId = derivedHighlightIds.get(instances.current, derivedKey)
+  if (existingId) return { id: existingId, created: false }
+
+  const id = Math.max(0, ...highlights.keys(instances.current), ...derivedHighlights.keys(instances.current)) + 1
+  derivedHighlightIds.set(instances.current, derivedKey, id)
+  derivedHighlights.set(instances.current, id, { base: baseId, decoration })
+  return { id, created: true }
+}
+
+/** Windows need to redraw their decorations to get new highlight ids */
+export const resetDecorationHighlights = () => {
+  derivedHighlightIds.raw.delete(instances.current)
+  derivedHighlights.raw.delete(instances.current)
+}
+
+export const isDecorationHighlight = (id: number) => derivedHighlights.has(instances.current, id)
+
+const generateDerivedHighlights = (defaultColors: DefaultColors) => derivedHighlights.forEach(instances.current, ({ base, decoration }, id) => {
+  const hlgrp = highlights.get(instances.current, base) || {} as HighlightGroup
+  const background = hlgrp.background || (hlgrp.reverse ? defaultColors.foreground : defaultColors.background)
+  const foreground = hlgrp.foreground || (hlgrp.reverse ? defaultColors.background : defaultColors.foreground)
+
+  // decoration colors can have transparency (and opacity for faded text),
+  // so we blend them on top of the cell colors
+  ui.fillStyle = background
+  ui.fillRect(id, 0, 1, 1)
+  if (decoration.background) {
+    ui.fillStyle = decoration.background
+    ui.fillRect(id, 0, 1, 1)
+  }
+
+  ui.fillStyle = background
+  ui.fillRect(id, 1, 1, 1)
+  ui.globalAlpha = decoration.opacity === undefined ? 1 : decoration.opacity
+  ui.fillStyle = decoration.foreground || foreground
+  ui.fillRect(id, 1, 1, 1)
+  ui.globalAlpha = 1
+
+  if (!decoration.underline && !hlgrp.underline) return
+
+  ui.fillStyle = decoration.special || hlgrp.special || defaultColors.special
+  ui.fillRect(id, 2, 1, 1)
+})
+
 export const generateColorLookupAtlas = () => {
   // hlid are 0 indexed, but width starts at 1
-  const max = Math.max(...highlights.keys(instances.current))
+  const max = Math.max(...highlights.keys(instances.current), ...derivedHighlights.keys(instances.current))
   canvas.width = max + 1
   canvas.height = 3
 
@@ -203,6 +270,8 @@ export const generateColorLookupAtlas = () => {
     ui.fillRect(id, 2, 1, 1)
   })
 
+  generateDerivedHighlights(defaultColors)
+
   return canvas
 }
 
@@ -1,4 +1,4 @@
-import { addHighlight, generateColorLookupAtlas, setDefaultColors } from '../render/highlight-attributes'
+import { addHighlight, generateColorLookupAtlas, setDefaultColors, resetDecorationHighlights, isDecorationHighlight } from '../render/highlight-attributes'
 import { getCharIndex, getUpdatedFontAtlasMaybe } from '../render/font-texture-atlas'
 import { moveCursor, hideCursor, showCursor, updateCursorChar } from '../core/cursor'
 import * as windows from '../windows/window-manager'
@@ -8,6 +8,9 @@ import * as renderEvents from '../render/events'
 
 let dummyData = new Float32Array()
 let state_cursorVisible = true
+// decorations are drawn on top of the grid buffer once all grid events of a
+// redraw are done, instead of after every grid_line and grid_scroll
+const decoratedGrids = new Set<number>()
 
 const default_colors_set = (e: any) => {
   const count = e.length
@@ -21,20 +24,30 @@ const default_colors_set = (e: any) => {
 
   if (!defaultColorsChanged) return
 
+  // a new colorscheme, so the decoration highlights of the old one are not used anymore
+  resetDecorationHighlights()
   const colorAtlas = generateColorLookupAtlas()
   windows.webgl.updateColorAtlas(colorAtlas)
+  windows.redrawDecorations()
 }
 
 const hl_attr_define = (e: any) => {
   const count = e.length
+  let decorationsReset = false
 
   for (let ix = 1; ix < count; ix++) {
     const [ id, attr, /*cterm_attr*/, info ] = e[ix]
+    // nvim took an id after the last highlight that a decoration was using
+    if (isDecorationHighlight(id)) {
+      resetDecorationHighlights()
+      decorationsReset = true
+    }
     addHighlight(id, attr, info)
   }
 
   const colorAtlas = generateColorLookupAtlas()
   windows.webgl.updateColorAtlas(colorAtlas)
+  if (decorationsReset) windows.redrawDecorations()
 }
 
 const win_pos = (e: any) => {
@@ -88,10 +101,16 @@ const grid_scroll = ([ , [ gridId, top, bottom, /*left*/, /*right*/, amount ] ]:
   // we make the assumption that left & right will always be
   // at the window edges (left == 0 && right == window.width)
   const win = windows.get(gridId)
+  if (win.hasDecorations) {
+    win.clearDecorations()
+    decoratedGrids.add(gridId)
+  }
 
   amount > 0
     ? win.webgl.moveRegionUp(amount, top, bottom)
     : win.webgl.moveRegionDown(-amount, top, bottom)
+
+  win.scrollEditorViewport(amount, top, bottom)
 }
 
 const grid_line = (e: any) => {
@@ -171,10 +190,16 @@ const grid_line = (e: any) => {
     const gridId = grids[ix]
     const win = windows.get(gridId)
     const renderCount = gridRenderIndexes[gridId]
-    win.webgl.render(renderCount)
+    if (win.hasDecorations) decoratedGrids.add(gridId)
+    else win.webgl.render(renderCount)
   }
 }
 
+const redrawDecoratedGrids = () => {
+  decoratedGrids.forEach(gridId => windows.has(gridId) && windows.get(gridId).redrawDecorations())
+  decoratedGrids.clear()
+}
+
 const tabline_update = ([ , [ curtab, tabs ] ]: any) => {
   requestAnimationFrame(() => dispatch.pub('tabs', { curtab, tabs }))
 }
@@ -221,6 +246,8 @@ onRedraw(redrawEvents => {
     else if (e === 'set_title') renderEvents.set_title(ev)
   }
 
+  redrawDecoratedGrids()
+
   // we queue the message events because we are interested to know
   // if the cursor is visible or not when the message will be displayed.
   // this is kind of a hack - we do this because certain messages will
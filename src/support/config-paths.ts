@@ -6,3 +6,4 @@ const veonimPath = (path: string) => join(configPath, 'veonim', path)
 export const EXT_PATH = veonimPath('extensions')
 export const EXT_DATA_PATH = veonimPath('extensions_data')
 export const LOG_PATH = veonimPath('logs')
+export const USER_SETTINGS_PATH = veonimPath('settings.json')
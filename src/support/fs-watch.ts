@@ -1,7 +1,7 @@
-import { throttle } from '../support/utils'
+import { throttle, getDirFiles } from '../support/utils'
 import { promisify as P } from 'util'
 import { EventEmitter } from 'events'
-import { join } from 'path'
+import { join, sep } from 'path'
 import * as fs from 'fs'
 
 const watchers = new EventEmitter()
@@ -30,3 +30,114 @@ export const watchFile = async (path: string, callback: () => void) => {
   if (!watchedParentPaths.has(parentPath)) watchDir(parentPath)
   return { close: () => watchers.removeListener(realpath, notifyCallback) }
 }
+
+export type FileChangeKind = 'create' | 'change' | 'delete'
+
+export interface FileChange {
+  kind: FileChangeKind
+  path: string
+}
+
+interface DirectoryWatchOptions {
+  debounce?: number
+  isExcluded?: (path: string) => boolean
+}
+
+// fs.watch is not recursive on linux, so every directory gets its own watcher.
+// raw fs events are collected for a short while and then compared against the
+// paths we know about. this coalesces bursts like create+change into one create
+// and create+delete into nothing
+export const watchDirectory = (root: string, callback: (changes: FileChange[]) => void, { debounce = 75, isExcluded = () => false }: DirectoryWatchOptions = {}) => {
+  const dirWatchers = new Map<string, fs.FSWatcher>()
+  const knownPaths = new Set<string>()
+  const touchedPaths = new Set<string>()
+  let timer: NodeJS.Timer | undefined
+  let closed = false
+
+  const unwatchDir = (path: string) => {
+    const watcher = dirWatchers.get(path)
+    if (watcher) watcher.close()
+    dirWatchers.delete(path)
+  }
+
+  const removeKnown = (path: string): FileChange[] => [...knownPaths]
+    .filter(m => m === path || m.startsWith(path + sep))
+    .map(m => {
+      knownPaths.delete(m)
+      unwatchDir(m)
+      return { kind: 'delete' as FileChangeKind, path: m }
+    })
+
+  const walk = async (path: string, report = false): Promise<FileChange[]> => {
+    if (closed || dirWatchers.has(path) || isExcluded(path)) return []
+
+    try {
+      const watcher = fs.watch(path, (_, file) => file && touch(join(path, file.toString())))
+      watcher.on('error', () => unwatchDir(path))
+      dirWatchers.set(path, watcher)
+    } catch (_) { return [] }
+
+    const entries = (await getDirFiles(path)).filter(m => !isExcluded(m.path))
+    const changes = await Promise.all(entries.map(async entry => {
+      const known = knownPaths.has(entry.path)
+      knownPaths.add(entry.path)
+      const created: FileChange[] = report && !known ? [ { kind: 'create', path: entry.path } ] : []
+      return entry.dir ? [ ...created, ...await walk(entry.path, report) ] : created
+    }))
+
+    return changes.reduce((res, m) => [ ...res, ...m ], [])
+  }
+
+  const classify = async (path: string): Promise<FileChange[]> => {
+    const stat = await P(fs.stat)(path).catch(() => undefined)
+    const known = knownPaths.has(path)
+
+    if (!stat) return known ? removeKnown(path) : []
+    knownPaths.add(path)
+    if (known) return stat.isDirectory() ? [] : [ { kind: 'change', path } ]
+
+    // files copied into a new directory before we started watching it
+    // are reported as created with the directory
+    const nested = stat.isDirectory() ? await walk(path, true) : []
+    return [ { kind: 'create', path }, ...nested ]
+  }
+
+  // a new directory can be removed again while it is walked. it was never
+  // reported, so it is forgotten without a delete
+  const classifyOrDrop = (path: string) => classify(path).catch(() => {
+    removeKnown(path)
+    return [] as FileChange[]
+  })
+
+  const flush = async () => {
+    timer = undefined
+    // paths are only known after the first walk. until then every change would look like a create
+    await ready
+    const paths = [...touchedPaths].filter(m => !isExcluded(m))
+    touchedPaths.clear()
+
+    const changes = await Promise.all(paths.map(classifyOrDrop))
+    const allChanges = changes.reduce((res, m) => [ ...res, ...m ], [])
+    if (closed || !allChanges.length) return
+
+    try { callback(allChanges) }
+    catch (err) { console.error(`failed to report file changes in ${root}:`, err) }
+  }
+
+  const touch = (path: string) => {
+    touchedPaths.add(path)
+    if (!timer) timer = setTimeout(flush, debounce)
+  }
+
+  const ready = walk(root).catch(err => console.error(`failed to watch ${root}:`, err))
+
+  return {
+    close: () => {
+      closed = true
+      if (timer) clearTimeout(timer)
+      dirWatchers.forEach(watcher => watcher.close())
+      dirWatchers.clear()
+      knownPaths.clear()
+    },
+  }
+}
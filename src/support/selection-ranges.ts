@@ -0,0 +1,120 @@
+export interface Position {
+  line: number
+  character: number
+}
+
+export interface Range {
+  start: Position
+  end: Position
+}
+
+// offsets into the buffer text with lines joined by \n. end is exclusive
+type OffsetRange = [number, number]
+
+const brackets = new Map([ [ ')', '(' ], [ ']', '[' ], [ '}', '{' ] ])
+const openBrackets = new Set(brackets.values())
+
+const toOffset = (lines: string[], { line, character }: Position) => lines
+  .slice(0, line)
+  .reduce((res, m) => res + m.length + 1, character)
+
+const toPosition = (lines: string[], offset: number): Position => {
+  let remaining = offset
+  for (let line = 0; line < lines.length; line++) {
+    if (remaining <= lines[line].length) return { line, character: remaining }
+    remaining -= lines[line].length + 1
+  }
+  const last = lines.length - 1
+  return { line: last, character: lines[last].length }
+}
+
+export const wordRange = (text: string, offset: number): OffsetRange[] => {
+  const isWord = (char?: string) => !!char && /\w/.test(char)
+  let start = offset
+  let end = offset
+  while (isWord(text[start - 1])) start--
+  while (isWord(text[end])) end++
+  return end > start ? [ [ start, end ] ] : []
+}
+
+// the inside of enclosing brackets and then the brackets themselves
+export const bracketRanges = (text: string, offset: number): OffsetRange[] => {
+  const stack: number[] = []
+  const ranges: OffsetRange[] = []
+
+  for (let ix = 0; ix < text.length; ix++) {
+    const char = text[ix]
+    if (openBrackets.has(char)) stack.push(ix)
+    if (!brackets.has(char)) continue
+
+    const open = stack.pop()
+    if (open === undefined || text[open] !== brackets.get(char)) continue
+    if (open < offset && offset <= ix) ranges.push([ open + 1, ix ], [ open, ix + 1 ])
+  }
+
+  return ranges
+}
+
+const indentOf = (line: string) => line.trim() ? line.match(/^\s*/)![0].length : Infinity
+
+// the text of the line, then blocks of lines that are indented at least as
+// much as the current line (each time one indentation level less)
+export const indentRanges = (lines: string[], line: number): OffsetRange[] => {
+  const lineStart = toOffset(lines, { line, character: 0 })
+  const indent = Math.min(indentOf(lines[line]), lines[line].length)
+  const ranges: OffsetRange[] = [ [ lineStart + indent, lineStart + lines[line].length ] ]
+
+  let level = indentOf(lines[line])
+  while (level > 0 && level !== Infinity) {
+    let first = line
+    let last = line
+    while (first > 0 && indentOf(lines[first - 1]) >= level) first--
+    while (last < lines.length - 1 && indentOf(lines[last + 1]) >= level) last++
+
+    const start = toOffset(lines, { line: first, character: Math.min(indentOf(lines[first]), lines[first].length) })
+    ranges.push([ start, toOffset(lines, { line: last, character: lines[last].length }) ])
+
+    const outer = [ lines[first - 1], lines[last + 1] ].map(m => m === undefined ? 0 : indentOf(m))
+    level = Math.max(...outer.filter(m => m < level), 0)
+  }
+
+  return ranges
+}
+
+// used when no language server provides selection ranges
+export const fallbackRanges = (lines: string[], position: Position): Range[] => {
+  const text = lines.join('\n')
+  const offset = toOffset(lines, position)
+
+  const candidates = [
+    ...wordRange(text, offset),
+    ...bracketRanges(text, offset),
+    ...indentRanges(lines, position.line),
+    [ 0, text.length ] as OffsetRange,
+  ].sort((a, b) => (a[1] - a[0]) - (b[1] - b[0]))
+
+  // every range must contain the previous one, otherwise expanding jumps around
+  const ranges = candidates.reduce((res, range) => {
+    const previous = res[res.length - 1]
+    const contains = !previous || (range[0] <= previous[0] && range[1] >= previous[1])
+    const same = previous && range[0] === previous[0] && range[1] === previous[1]
+    return contains && !same && range[1] > range[0] ? [ ...res, range ] : res
+  }, [] as OffsetRange[])
+
+  return ranges.map(([ start, end ]) => ({
+    start: toPosition(lines, start),
+    end: toPosition(lines, end),
+  }))
+}
+
+// nvim columns are bytes and vim functions like byteidx count code points, but
+// positions here count utf-16 code units like js strings and vscode do
+export const byteToCharacter = (line: string, byteColumn: number) => Buffer
+  .from(line)
+  .slice(0, byteColumn)
+  .toString()
+  .length
+
+export const characterToByte = (line: string, character: number) => Buffer.byteLength(line.slice(0, character))
+
+export const characterToCodePoint = (line: string, character: number) => [...line.slice(0, character)].length
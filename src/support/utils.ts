@@ -46,6 +46,16 @@ export const proxyFn = (cb: (name: string, data?: any) => void) => new Proxy({},
 export const uriToPath = (m: string) => m.replace(/^\S+:\/\//, '')
 export const uriAsCwd = (m = '') => dirname(uriToPath(m)) 
 export const uriAsFile = (m = '') => basename(uriToPath(m)) 
+// buffer names of virtual documents are uris (e.g. git:/path?ref=HEAD). neovim
+// puts the current directory in front of uris that do not have :// after the scheme.
+// only schemes with a provider are uris, so a path like /notes:2020/a.ts stays a path
+export const virtualDocumentUri = (name: string, schemes: string[]): string | undefined => {
+  if (!schemes.length) return
+  const names = schemes.map(m => m.replace(/[.+]/g, '\\$&')).join('|')
+  return (name.match(new RegExp(`(?:^|\\/)((?:${names}):.*)$`)) || [])[1]
+}
+// only web and mail links are given to the os. other schemes can start any application
+export const isExternalUrl = (url: string) => /^(https?|mailto):/i.test(url)
 export const CreateTask = <T>(): Task<T> => ( (done = (_: T) => {}, promise = new Promise<T>(m => done = m)) => ({ done, promise }) )()
 export const uuid = (): string => (<any>[1e7]+-1e3+-4e3+-8e3+-1e11).replace(/[018]/g,(a: any)=>(a^Math.random()*16>>a/4).toString(16))
 export const shell = (cmd: string, opts?: object): Promise<string> => new Promise(fin => exec(cmd, opts, (_, out) => fin(out + '')))
@@ -0,0 +1,23 @@
+import { relative, resolve, isAbsolute, sep } from 'path'
+
+export const RESOURCE_SCHEME = 'vscode-resource'
+// ipc channel from the ui to the main process with the localResourceRoots of a webview
+export const RESOURCE_ROOTS_CHANNEL = 'webview-resource-roots'
+
+const resourceUrlParts = /^vscode-resource:(?:\/\/([^/?#]*))?([^?#]*)/
+
+export const isUnderRoot = (path: string, roots: string[]) => roots.some(root => {
+  const rel = relative(root, path)
+  return rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel)
+})
+
+/** Resource urls carry the webview id as authority, so each webview is limited to its own roots */
+export const resourceUrl = (webviewId: string, path: string) => {
+  const encodedPath = resolve(path).split(sep).map(encodeURIComponent).join('/')
+  return `${RESOURCE_SCHEME}://${webviewId}${encodedPath}`
+}
+
+export const parseResourceUrl = (url: string) => {
+  const [ , webviewId = '', path = '' ] = url.match(resourceUrlParts) || []
+  return { webviewId, path: resolve('/', decodeURIComponent(path)) }
+}
@@ -7,6 +7,7 @@ enum ColorMode { hex, rgb, hsl }
 
 export default () => {
   let onChangeFn = (_: string) => {}
+  let onChangeRGBFn = (_red: number, _green: number, _blue: number, _alpha: number) => {}
 
   const state = {
     mode: ColorMode.hex,
@@ -21,6 +22,7 @@ export default () => {
 
   const reportChange = throttle((m: S) => {
     const useAlpha = m.alpha > 0 && m.alpha < 1
+    onChangeRGBFn(m.red, m.green, m.blue, m.alpha)
 
     if (m.mode === ColorMode.hex) return onChangeFn(rgbToHex(m.red, m.green, m.blue))
 
@@ -371,6 +373,7 @@ export default () => {
   const ui = app({ name: 'dank-memes', state, actions, view, element })
 
   const onChange = (fn: (color: string) => void) => onChangeFn = fn
+  const onChangeRGB = (fn: (red: number, green: number, blue: number, alpha: number) => void) => onChangeRGBFn = fn
 
   const setRGB = (red: number, green: number, blue: number, alpha?: number) => {
     const [ hue, saturation, value ] = rgbToHSV(red, green, blue)
@@ -389,5 +392,5 @@ export default () => {
     ui.up({ mode: ColorMode.hsl, hue: h, saturation: s, value, red, green, blue, alpha })
   }
   
-  return { setRGB, setHex, setHSL, element, onChange }
+  return { setRGB, setHex, setHSL, element, onChange, onChangeRGB }
 }
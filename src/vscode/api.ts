@@ -15,13 +15,6 @@ import scm from '../vscode/scm'
 import env from '../vscode/env'
 import * as vsc from 'vscode'
 
-export enum FileType {
-  Unknown = 0,
-  File = 1,
-  Directory = 2,
-  SymbolicLink = 64
-}
-
 const api: typeof vsc = {
   version: packageInfo['vscode-api-version'],
   ...vscodeTypes,
@@ -33,7 +26,6 @@ const api: typeof vsc = {
   extensions,
   languages,
   workspace,
-  FileType,
   commands,
   window,
   debug,
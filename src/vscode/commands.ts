@@ -1,3 +1,4 @@
+import { getActiveTextEditor } from '../extension-host/text-editors'
 import { on } from '../messaging/worker-client'
 import { EventEmitter } from 'events'
 import * as vsc from 'vscode'
@@ -19,11 +20,13 @@ const commands: typeof vsc.commands = {
     registeredCommands.on(command, callback.bind(thisArg))
     return { dispose: () => registeredCommands.removeListener(command, callback) }
   },
+  // text editor commands run with the active editor. edits are applied after the callback
   registerTextEditorCommand: (command: string, callback: Function, thisArg?: any) => {
-    // TODO: the callback needs to return a TextEditor object. where do we get that from?
-    // TODO: are we supposed to return textEditorCommands in getCommands or executeCommand?
-    console.warn('NYI: registerTextEditorCommand', command, callback.bind(thisArg))
-    return { dispose: () => console.warn('NYI: registerTextEditorCommand disposable') }
+    return commands.registerCommand(command, (...args: any[]) => {
+      const editor = getActiveTextEditor()
+      if (!editor) return
+      return editor.edit(edit => callback.call(thisArg, editor, edit, ...args))
+    })
   },
 }
 
@@ -1,27 +1,80 @@
-// TODO: do this
-// import { registerDebugConfigProvider } from '../extensions/debuggers'
-import { Watcher } from '../support/utils'
+import { events, Events, getActiveSession, startDebugging, registerDebugConfigProvider,
+  registerDebugAdapterDescriptorFactory, registerDebugAdapterTrackerFactory } from '../extension-host/debuggers'
+import { SourceBreakpoint, FunctionBreakpoint, Location, Position } from '../vscode/types'
+import { Breakpoint, BreakpointKind } from '../ai/breakpoints'
+import { on, call } from '../messaging/worker-client'
+import { URI } from '../vscode/uri'
 import * as vsc from 'vscode'
 
-interface Events {
-  didChangeActiveDebugSession: vsc.DebugSession | undefined
-  didStartDebugSession: vsc.DebugSession
-  didReceiveDebugSessionCustomEvent: vsc.DebugSessionCustomEvent
-  didTerminateDebugSession: vsc.DebugSession
-  didChangeBreakpoints: vsc.BreakpointsChangeEvent
-}
-
-const events = Watcher<Events>()
+const breakpoints: vsc.Breakpoint[] = []
 
 const eventreg = (name: keyof Events) => (fn: any, thisArg?: any) => ({
   dispose: events.on(name, fn.bind(thisArg)),
 })
 
+const asBreakpoint = (breakpoint: vsc.Breakpoint): Breakpoint => {
+  const { condition, hitCondition, logMessage } = breakpoint
+  if (breakpoint instanceof FunctionBreakpoint) return {
+    kind: BreakpointKind.Function,
+    path: '',
+    line: 0,
+    column: 0,
+    functionName: breakpoint.functionName,
+    condition,
+    hitCondition,
+    logMessage,
+  }
+
+  const { uri, range } = (breakpoint as vsc.SourceBreakpoint).location
+  return {
+    kind: BreakpointKind.Source,
+    path: uri.fsPath,
+    line: range.start.line,
+    column: range.start.character,
+    condition,
+    hitCondition,
+    logMessage,
+  }
+}
+
+const fromBreakpoint = (breakpoint: Breakpoint): vsc.Breakpoint | undefined => {
+  const { condition, hitCondition, logMessage } = breakpoint
+  if (breakpoint.kind === BreakpointKind.Source) {
+    const location = new Location(URI.file(breakpoint.path), new Position(breakpoint.line, breakpoint.column))
+    return new SourceBreakpoint(location, true, condition, hitCondition, logMessage)
+  }
+  if (breakpoint.kind === BreakpointKind.Function && breakpoint.functionName) {
+    return new FunctionBreakpoint(breakpoint.functionName, true, condition, hitCondition, logMessage)
+  }
+}
+
+const sameBreakpoint = (a: Breakpoint, b: Breakpoint) => a.kind === b.kind
+  && a.path === b.path
+  && a.line === b.line
+  && a.column === b.column
+  && a.functionName === b.functionName
+
+const addBreakpoints = (added: vsc.Breakpoint[]) => {
+  if (!added.length) return
+  breakpoints.push(...added)
+  events.emit('didChangeBreakpoints', { added, removed: [], changed: [] })
+}
+
+const removeBreakpoints = (removed: vsc.Breakpoint[]) => {
+  if (!removed.length) return
+  removed.forEach(bp => breakpoints.splice(breakpoints.indexOf(bp), 1))
+  events.emit('didChangeBreakpoints', { added: [], removed, changed: [] })
+}
+
+// breakpoints toggled in neovim. the instance already has them, so they are not sent back
+on.debug_changeBreakpoints((added: Breakpoint[], removed: Breakpoint[]) => {
+  const removedBreakpoints = breakpoints.filter(bp => removed.some(m => sameBreakpoint(m, asBreakpoint(bp))))
+  removeBreakpoints(removedBreakpoints)
+  addBreakpoints(added.map(fromBreakpoint).filter(m => m) as vsc.Breakpoint[])
+})
+
 const debug: typeof vsc.debug = {
-  get activeDebugSession() {
-    console.warn('NYI: debug.activeDebugSession')
-    return undefined
-  },
+  get activeDebugSession() { return getActiveSession() },
   get activeDebugConsole() {
     console.warn('NYI: debug.activeDebugConsole')
     return {
@@ -29,33 +82,26 @@ const debug: typeof vsc.debug = {
       appendLine: (value: string) => console.log('vsc-ext-api.debugConsole', value),
     }
   },
-  get breakpoints() {
-    console.warn('NYI: debug.breakpoints')
-    return []
-  },
-  registerDebugConfigurationProvider: (debugType: string, provider: vsc.DebugConfigurationProvider) => {
-    // @ts-ignore
-    const dispose = registerDebugConfigProvider(debugType, provider)
-    // TODO: why fail to registerDebugConfigProvider? vscode api assumes this will always return a Disposable?
-    return { dispose: dispose || (() => {}) }
-  },
-  registerDebugAdapterDescriptorFactory: () => {
-    console.warn('NYI: debug.registerDebugAdapterDescriptorFactory')
-    return { dispose: () => {} }
-  },
-  registerDebugAdapterTrackerFactory: () => {
-    console.warn('NYI: debug.reigsterDebugAdapaterTrackerFactory')
-    return { dispose: () => {} }
-  },
-  startDebugging: async () => {
-    console.warn('NYI: debug.startDebugging')
-    return false
-  },
-  addBreakpoints: () => {
-    console.warn('NYI: debug.addBreakpoints')
+  get breakpoints() { return [ ...breakpoints ] },
+  registerDebugConfigurationProvider: (debugType, provider) => ({
+    dispose: registerDebugConfigProvider(debugType, provider),
+  }),
+  registerDebugAdapterDescriptorFactory: (debugType, factory) => ({
+    dispose: registerDebugAdapterDescriptorFactory(debugType, factory),
+  }),
+  registerDebugAdapterTrackerFactory: (debugType, factory) => ({
+    dispose: registerDebugAdapterTrackerFactory(debugType, factory),
+  }),
+  startDebugging: (folder, nameOrConfiguration) => startDebugging(folder, nameOrConfiguration),
+  addBreakpoints: list => {
+    const added = list.filter(bp => !breakpoints.includes(bp))
+    addBreakpoints(added)
+    if (added.length) call.debugBreakpointsChanged(added.map(asBreakpoint), [])
   },
-  removeBreakpoints: () => {
-    console.warn('NYI: debug.removeBreakpoints')
+  removeBreakpoints: list => {
+    const removed = list.filter(bp => breakpoints.includes(bp))
+    removeBreakpoints(removed)
+    if (removed.length) call.debugBreakpointsChanged([], removed.map(asBreakpoint))
   },
   onDidChangeActiveDebugSession: eventreg('didChangeActiveDebugSession'),
   onDidStartDebugSession: eventreg('didStartDebugSession'),
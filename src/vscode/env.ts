@@ -1,4 +1,5 @@
 import { call, request } from '../messaging/worker-client'
+import { isExternalUrl } from '../support/utils'
 import * as vsc from 'vscode'
 import { hostname } from 'os'
 
@@ -12,9 +13,10 @@ const env: typeof vsc.env = {
     readText: async () => request.clipboardRead(),
     writeText: async value => call.clipboardWrite(value),
   },
-  openExternal: async () => {
-    console.warn('vscode.env.openExternal is not supported. sorry')
-    return false
+  openExternal: async uri => {
+    if (!isExternalUrl(uri.toString())) return false
+    call.openExternal(uri.toString())
+    return true
   },
 }
 
@@ -22,6 +22,9 @@ const extensions: typeof vsc.extensions = {
 
 const activators = {
   language: new MapSetter<string, Extension>(),
+  webviewPanel: new MapSetter<string, Extension>(),
+  // keyed by the full activation event like onDebugResolve:node
+  debug: new MapSetter<string, Extension>(),
 }
 
 export const loadExtensions = (configs: ExtensionPackageConfig[]) => {
@@ -29,18 +32,32 @@ export const loadExtensions = (configs: ExtensionPackageConfig[]) => {
   const extensions = configs.map(config => makeExtensionObject(config))
   extensions.forEach(ext => registry.set(ext.id, ext))
   setupExtensionActivations()
+  events.emit('didChange')
 }
 
 const setupExtensionActivations = () => {
   activators.language.clear()
+  activators.webviewPanel.clear()
+  activators.debug.clear()
   ;[...registry.values()].forEach(setupActivation)
 }
 
 const setupActivation = (ext: Extension) => ext.activationEvents.forEach(event => {
   if (event.type === ActivationKind.Always) return ext.activate()
   if (event.type === ActivationKind.Language) return activators.language.add(event.value, ext)
+  if (event.type === ActivationKind.WebviewPanel) return activators.webviewPanel.add(event.value, ext)
+  if (event.type === ActivationKind.Debug || event.type === ActivationKind.DebugInitialConfigs) return activators.debug.add(event.type, ext)
+  if (event.type === ActivationKind.DebugResolve) return activators.debug.add(`${event.type}:${event.value}`, ext)
 })
 
+export const activateWebviewPanelExtensions = (viewType: string) => Promise.all(activators.webviewPanel
+  .getList(viewType)
+  .map(ext => ext.activate()))
+
+export const activateDebugExtensions = (activationEvent: string) => Promise.all(activators.debug
+  .getList(activationEvent)
+  .map(ext => ext.activate()))
+
 nvim.on.filetype(filetype => {
   activators.language.getList(filetype).forEach(ext => ext.activate())
 })
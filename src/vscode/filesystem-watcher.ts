@@ -1,10 +1,117 @@
+import WorkspaceConfiguration from '../vscode/workspace-configuration'
+import { watchDirectory, FileChange } from '../support/fs-watch'
+import { IExpression, parse } from '../vscode/glob'
 import { Watcher } from '../support/utils'
+import { URI } from '../vscode/uri'
+import nvim from '../neovim/api'
+import { relative, basename, dirname } from 'path'
 import * as vsc from 'vscode'
 
 interface Events {
-  didCreate: vsc.Event<vsc.Uri>
-  didChange: vsc.Event<vsc.Uri>
-  didDelete: vsc.Event<vsc.Uri>
+  didCreate: vsc.Uri
+  didChange: vsc.Uri
+  didDelete: vsc.Uri
+}
+
+export interface FileRenameEvent {
+  oldUri: vsc.Uri
+  newUri: vsc.Uri
+}
+
+interface WorkspaceEvents {
+  changes: FileChange[]
+  didCreateFiles: { files: vsc.Uri[] }
+  didDeleteFiles: { files: vsc.Uri[] }
+  didRenameFile: FileRenameEvent
+}
+
+// same default as vscode if the user has not configured files.watcherExclude
+const defaultWatcherExclude: IExpression = {
+  '**/.git/objects/**': true,
+  '**/.git/subtree-cache/**': true,
+  '**/node_modules/**': true,
+}
+
+const workspaceEvents = Watcher<WorkspaceEvents>()
+let directoryWatcher: { close: () => void } | undefined
+let subscriberCount = 0
+
+const asUris = (changes: FileChange[]) => changes.map(m => URI.file(m.path))
+
+// the fs does not tell us about renames. a delete and a create are paired up as
+// a rename if they match each other and nothing else in the batch. moved files
+// keep their name and renamed files stay in the same directory
+const findRenames = (changes: FileChange[]) => {
+  const created = new Set(changes.filter(m => m.kind === 'create'))
+  const deleted = new Set(changes.filter(m => m.kind === 'delete'))
+  const renames: FileRenameEvent[] = []
+
+  const pair = (matches: (a: string, b: string) => boolean) => [...deleted].forEach(del => {
+    const candidates = [...created].filter(m => matches(del.path, m.path))
+    if (candidates.length !== 1) return
+    const ambiguous = [...deleted].some(m => m !== del && matches(m.path, candidates[0].path))
+    if (ambiguous) return
+
+    deleted.delete(del)
+    created.delete(candidates[0])
+    renames.push({ oldUri: URI.file(del.path), newUri: URI.file(candidates[0].path) })
+  })
+
+  pair((a, b) => basename(a) === basename(b))
+  pair((a, b) => dirname(a) === dirname(b))
+  return { renames, created: [...created], deleted: [...deleted] }
+}
+
+const emitWorkspaceEvents = (changes: FileChange[]) => {
+  const { renames, created, deleted } = findRenames(changes)
+  renames.forEach(m => workspaceEvents.emit('didRenameFile', m))
+  if (created.length) workspaceEvents.emit('didCreateFiles', { files: asUris(created) })
+  if (deleted.length) workspaceEvents.emit('didDeleteFiles', { files: asUris(deleted) })
+}
+
+const watchWorkspace = (cwd: string) => {
+  if (directoryWatcher) directoryWatcher.close()
+
+  const excludes = WorkspaceConfiguration('files').get('watcherExclude', defaultWatcherExclude)
+  // trimming the trailing /** lets us skip whole directories
+  const isExcluded = parse(excludes, { trimForExclusions: true })
+
+  directoryWatcher = watchDirectory(cwd, changes => {
+    workspaceEvents.emit('changes', changes)
+    emitWorkspaceEvents(changes)
+  }, { isExcluded: path => !!isExcluded(relative(cwd, path)) })
+}
+
+nvim.watchState.cwd(cwd => directoryWatcher && watchWorkspace(cwd))
+
+// the workspace is only watched while someone is interested in file events
+const subscribe = <K extends keyof WorkspaceEvents>(event: K, fn: (value: WorkspaceEvents[K]) => void) => {
+  if (!subscriberCount++) watchWorkspace(nvim.state.cwd)
+  const unsubscribe = workspaceEvents.on(event, fn)
+  let subscribed = true
+
+  return () => {
+    if (!subscribed) return
+    subscribed = false
+    unsubscribe()
+    if (--subscriberCount || !directoryWatcher) return
+    directoryWatcher.close()
+    directoryWatcher = undefined
+  }
+}
+
+export const workspaceFileEvent = (name: 'didCreateFiles' | 'didDeleteFiles' | 'didRenameFile') => (fn: any, thisArg?: any) => ({
+  dispose: subscribe(name, fn.bind(thisArg)),
+})
+
+const getMatcher = (pattern: vsc.GlobPattern) => {
+  if (typeof pattern === 'string') {
+    const matches = parse(pattern)
+    return (path: string) => matches(relative(nvim.state.cwd, path)) || matches(path)
+  }
+
+  const matches = parse(pattern.pattern)
+  return (path: string) => !relative(pattern.base, path).startsWith('..') && matches(relative(pattern.base, path))
 }
 
 export default (pattern: vsc.GlobPattern, ignoreCreateEvents = false, ignoreChangeEvents = false, ignoreDeleteEvents = false): vsc.FileSystemWatcher => {
@@ -13,16 +120,31 @@ export default (pattern: vsc.GlobPattern, ignoreCreateEvents = false, ignoreChan
     dispose: events.on(name, fn.bind(thisArg)),
   })
 
-  // TODO: watch fs for pattern:
-  console.warn('NYI: fileSystemWatcher - watch globPattern:', pattern)
+  const matches = getMatcher(pattern)
+  const ignored = {
+    create: ignoreCreateEvents,
+    change: ignoreChangeEvents,
+    delete: ignoreDeleteEvents,
+  }
+
+  const eventNames: { [K in FileChange['kind']]: keyof Events } = {
+    create: 'didCreate',
+    change: 'didChange',
+    delete: 'didDelete',
+  }
+
+  const unsubscribe = subscribe('changes', changes => changes
+    .filter(m => !ignored[m.kind] && matches(m.path))
+    .forEach(m => events.emit(eventNames[m.kind], URI.file(m.path))))
 
   const onDidCreate = eventreg('didCreate')
   const onDidChange = eventreg('didChange')
   const onDidDelete = eventreg('didDelete')
   const dispose = () => {
-      events.remove('didCreate')
-      events.remove('didChange')
-      events.remove('didDelete')
+    unsubscribe()
+    events.remove('didCreate')
+    events.remove('didChange')
+    events.remove('didDelete')
   }
 
   const api: vsc.FileSystemWatcher = {
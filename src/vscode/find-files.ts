@@ -0,0 +1,80 @@
+import WorkspaceConfiguration from '../vscode/workspace-configuration'
+import { IExpression, parse } from '../vscode/glob'
+import { NewlineSplitter } from '../support/utils'
+import { Ripgrep } from '../support/binaries'
+import { URI } from '../vscode/uri'
+import nvim from '../neovim/api'
+import { join } from 'path'
+import * as vsc from 'vscode'
+
+// same defaults as vscode if the user has not configured anything
+const defaultFilesExclude: IExpression = {
+  '**/.git': true,
+  '**/.svn': true,
+  '**/.hg': true,
+  '**/CVS': true,
+  '**/.DS_Store': true,
+}
+
+const defaultSearchExclude: IExpression = {
+  '**/node_modules': true,
+  '**/bower_components': true,
+  '**/*.code-search': true,
+}
+
+const getPattern = (glob: vsc.GlobPattern) => typeof glob === 'string' ? glob : glob.pattern
+
+// undefined exclude means the default excludes, null means no excludes at all
+const getExcludes = (exclude?: vsc.GlobPattern | null): IExpression => {
+  if (exclude === null) return {}
+
+  const filesExclude = WorkspaceConfiguration('files').get('exclude', defaultFilesExclude)
+  if (exclude) return { ...filesExclude, [getPattern(exclude)]: true }
+
+  const searchExclude = WorkspaceConfiguration('search').get('exclude', defaultSearchExclude)
+  return { ...filesExclude, ...searchExclude }
+}
+
+// ripgrep globs use gitignore semantics. only "**/" patterns mean the same
+// thing in both, so those are given to ripgrep to skip whole directories.
+// every exclude pattern is still checked with the vscode glob afterwards
+const ripgrepExcludes = (excludes: IExpression) => Object.entries(excludes)
+  .filter(([ pattern, enabled ]) => enabled === true && pattern.startsWith('**/'))
+  .reduce((res, [ pattern ]) => [ ...res, '--glob', `!${pattern}` ], [] as string[])
+
+export default (include: vsc.GlobPattern, exclude?: vsc.GlobPattern | null, maxResults?: number, token?: vsc.CancellationToken): Promise<vsc.Uri[]> => new Promise(done => {
+  if (token && token.isCancellationRequested) return done([])
+
+  const cwd = typeof include === 'string' ? nvim.state.cwd : include.base
+  const excludes = getExcludes(exclude)
+  const isIncluded = parse(getPattern(include))
+  const isExcluded = parse(excludes)
+  const results = [] as vsc.Uri[]
+  let finished = false
+
+  const rg = Ripgrep([ '--files', '--hidden', '--no-ignore', '--follow', ...ripgrepExcludes(excludes) ], { cwd })
+
+  const finish = (uris: vsc.Uri[]) => {
+    if (finished) return
+    finished = true
+    rg.kill()
+    done(uris)
+  }
+
+  if (token) token.onCancellationRequested(() => finish([]))
+
+  rg.stderr.pipe(new NewlineSplitter()).on('data', console.error)
+
+  rg.stdout.pipe(new NewlineSplitter()).on('data', (path: string) => {
+    if (finished || !isIncluded(path) || isExcluded(path)) return
+    results.push(URI.file(join(cwd, path)))
+    if (maxResults && results.length >= maxResults) finish(results)
+  })
+
+  rg.on('error', err => {
+    console.error('workspace.findFiles failed', err)
+    finish(results)
+  })
+
+  rg.on('close', () => finish(results))
+})
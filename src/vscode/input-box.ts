@@ -0,0 +1,132 @@
+import { ui, uiEvent, ownEvents } from '../extension-host/bridge-api'
+import { InputBoxShow } from '../protocols/vscode-ui'
+import { asButtonData } from '../vscode/quick-pick'
+import { Watcher, uuid } from '../support/utils'
+import * as vsc from 'vscode'
+
+interface Events {
+  didChangeValue: string
+  didAccept: void
+  didTriggerButton: vsc.QuickInputButton
+  didHide: void
+}
+
+interface InputBoxOptions {
+  // not part of the InputBox api, but used by window.showInputBox
+  valueSelection?: [number, number]
+}
+
+export default ({ valueSelection } = {} as InputBoxOptions): vsc.InputBox => {
+  const id = uuid()
+  const events = Watcher<Events>()
+  let visible = false
+
+  const state = {
+    title: undefined as string | undefined,
+    step: undefined as number | undefined,
+    totalSteps: undefined as number | undefined,
+    enabled: true,
+    busy: false,
+    ignoreFocusOut: false,
+    value: '',
+    placeholder: undefined as string | undefined,
+    password: false,
+    buttons: [] as ReadonlyArray<vsc.QuickInputButton>,
+    prompt: undefined as string | undefined,
+    validationMessage: undefined as string | undefined,
+  }
+
+  const render = (): InputBoxShow => ({
+    id,
+    valueSelection,
+    title: state.title,
+    step: state.step,
+    totalSteps: state.totalSteps,
+    value: state.value,
+    placeholder: state.placeholder,
+    prompt: state.prompt,
+    validationMessage: state.validationMessage,
+    password: state.password,
+    buttons: state.buttons.map(asButtonData),
+    busy: state.busy,
+    enabled: state.enabled,
+  })
+
+  const update = (patch: Partial<typeof state>) => {
+    Object.assign(state, patch)
+    if (visible) ui.inputBox.update(render())
+  }
+
+  const ours = ownEvents(id)
+
+  const unsubscribers = [
+    uiEvent.inputBox.onChangeValue(ours((nextValue: string) => {
+      state.value = nextValue
+      events.emit('didChangeValue', nextValue)
+    })),
+    uiEvent.inputBox.onTriggerButton(ours((index: number) => {
+      const button = state.buttons[index]
+      if (button) events.emit('didTriggerButton', button)
+    })),
+    uiEvent.inputBox.onAccept(ours(() => events.emit('didAccept'))),
+    uiEvent.inputBox.onHide(ours(() => {
+      visible = false
+      events.emit('didHide')
+    })),
+  ]
+
+  const eventNames: (keyof Events)[] = ['didChangeValue', 'didAccept', 'didTriggerButton', 'didHide']
+
+  const eventreg = (name: keyof Events) => (fn: any, thisArg?: any) => ({
+    dispose: events.on(name, fn.bind(thisArg)),
+  })
+
+  const api: vsc.InputBox = {
+    get title() { return state.title },
+    set title(title) { update({ title }) },
+    get step() { return state.step },
+    set step(step) { update({ step }) },
+    get totalSteps() { return state.totalSteps },
+    set totalSteps(totalSteps) { update({ totalSteps }) },
+    get enabled() { return state.enabled },
+    set enabled(enabled) { update({ enabled }) },
+    get busy() { return state.busy },
+    set busy(busy) { update({ busy }) },
+    get ignoreFocusOut() { return state.ignoreFocusOut },
+    set ignoreFocusOut(ignoreFocusOut) { state.ignoreFocusOut = ignoreFocusOut },
+    get value() { return state.value },
+    set value(value) { update({ value }) },
+    get placeholder() { return state.placeholder },
+    set placeholder(placeholder) { update({ placeholder }) },
+    get password() { return state.password },
+    set password(password) { update({ password }) },
+    get buttons() { return state.buttons },
+    set buttons(buttons) { update({ buttons }) },
+    get prompt() { return state.prompt },
+    set prompt(prompt) { update({ prompt }) },
+    get validationMessage() { return state.validationMessage },
+    set validationMessage(validationMessage) { update({ validationMessage }) },
+    show: () => {
+      if (visible) return
+      visible = true
+      ui.inputBox.show(render())
+    },
+    hide: () => {
+      if (!visible) return
+      visible = false
+      ui.inputBox.hide(id)
+      events.emit('didHide')
+    },
+    dispose: () => {
+      api.hide()
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+      eventNames.forEach(name => events.remove(name))
+    },
+    onDidChangeValue: eventreg('didChangeValue'),
+    onDidAccept: eventreg('didAccept'),
+    onDidTriggerButton: eventreg('didTriggerButton'),
+    onDidHide: eventreg('didHide'),
+  }
+
+  return api
+}
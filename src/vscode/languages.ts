@@ -4,8 +4,11 @@ import { languageSelectorFrom } from '../vscode/type-converters'
 import { Watcher, is, uuid, MapSetter } from '../support/utils'
 import { regExpLeadsToEndlessLoop } from '../vscode/strings'
 import { SuperTextDocument } from '../vscode/text-document'
-import { providers } from '../extension-host/providers'
+import { providers, completionSelectors, codeActionMetadata, onTypeFormattingTriggers, SelectionRangeProvider } from '../extension-host/providers'
 import { selectorToFiletypes } from '../vscode/tools'
+import { refreshCodeLenses } from '../extension-host/code-lens'
+import { refreshSaveParticipants } from '../extension-host/save-participants'
+import { refreshFormatOnPaste } from '../extension-host/formatting'
 import { score } from '../vscode/language-selector'
 import nvim from '../neovim/api'
 import * as vsc from 'vscode'
@@ -53,11 +56,13 @@ const eventreg = (name: keyof Events) => (fn: any, thisArg?: any) => ({
 })
 
 const languages: typeof vsc.languages = {
-  // TODO: this is a proposed API. our extension discombobulator process should
-  // target stable tags that match the vscode api instead of master@HEAD
+  // TODO: this API is newer than our vscode typings. our extension discombobulator
+  // process should target stable tags that match the vscode api instead of master@HEAD
   // @ts-ignore
-  registerSelectionRangeProvider: () => {
-    console.warn('NYI: registerSelectionRangeProvider')
+  registerSelectionRangeProvider: (selector: vsc.DocumentSelector, provider: SelectionRangeProvider) => {
+    const filetypes = selectorToFiletypes(selector)
+    const dispose = providers.selectionRange.register(filetypes, provider)
+    return { dispose }
   },
   getDiagnostics: PROGRAMMING_SUCKS_YAY,
   getLanguages: async () => {
@@ -99,25 +104,24 @@ const languages: typeof vsc.languages = {
   },
   registerCompletionItemProvider: (selector, provider, ...triggerCharacters) => {
     const filetypes = selectorToFiletypes(selector)
+    completionSelectors.set(provider, selector)
     const d1 = providers.completionItem.register(filetypes, provider)
     const d2 = providers.completionTriggerCharacters.addMultipleValues(filetypes, triggerCharacters)
     return { dispose: () => (d1(), d2()) }
   },
   registerCodeActionsProvider: (selector, provider, metadata) => {
-    if (metadata) {
-      // TODO: metadata includes CodeActionKind like quickfix, refactor, source.organizeImports. wat do wit dis?
-      console.warn('NYI: languages.registerCodeActionsProvider metadata not supported:', metadata)
-    }
-
+    if (metadata) codeActionMetadata.set(provider, metadata)
     const filetypes = selectorToFiletypes(selector)
     const dispose = providers.codeAction.register(filetypes, provider)
-    return { dispose }
+    refreshSaveParticipants()
+    return { dispose: () => (dispose(), refreshSaveParticipants()) }
   },
   registerCodeLensProvider: (selector, provider) => {
-    // TODO: handle provider.onDidChangeCodeLenses event?
     const filetypes = selectorToFiletypes(selector)
-    const dispose = providers.codeLens.register(filetypes, provider)
-    return { dispose }
+    const d1 = providers.codeLens.register(filetypes, provider)
+    const d2 = provider.onDidChangeCodeLenses && provider.onDidChangeCodeLenses(refreshCodeLenses)
+    refreshCodeLenses()
+    return { dispose: () => (d1(), d2 && d2.dispose(), refreshCodeLenses()) }
   },
   registerDefinitionProvider: (selector, provider) => {
     const filetypes = selectorToFiletypes(selector)
@@ -175,16 +179,19 @@ const languages: typeof vsc.languages = {
   registerDocumentFormattingEditProvider: (selector, provider) => {
     const filetypes = selectorToFiletypes(selector)
     const dispose = providers.documentFormattingEdit.register(filetypes, provider)
-    return { dispose }
+    refreshSaveParticipants()
+    return { dispose: () => (dispose(), refreshSaveParticipants()) }
   },
   registerDocumentRangeFormattingEditProvider: (selector, provider) => {
     const filetypes = selectorToFiletypes(selector)
     const dispose = providers.documentRangeFormattingEdit.register(filetypes, provider)
-    return { dispose }
+    refreshFormatOnPaste()
+    return { dispose: () => (dispose(), refreshFormatOnPaste()) }
   },
   registerOnTypeFormattingEditProvider: (selector, provider, ...triggerCharacters: string[]) => {
     const filetypes = selectorToFiletypes(selector)
     const disposeProvider = providers.onTypeFormattingEdit.register(filetypes, provider)
+    onTypeFormattingTriggers.set(provider, triggerCharacters)
     const disposeTriggers = providers.onTypeFormattingTriggerCharacters.addMultipleValues(filetypes, triggerCharacters)
     return { dispose: () => (disposeProvider(), disposeTriggers()) }
   },
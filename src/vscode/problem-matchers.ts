@@ -0,0 +1,282 @@
+import { Diagnostic, DiagnosticSeverity, Range } from '../vscode/types'
+import pleaseGet from '../support/please-get'
+import extensions from '../vscode/extensions'
+import { isAbsolute, join } from 'path'
+import { existsSync } from 'fs'
+
+export interface ProblemPattern {
+  regexp: string
+  kind?: 'file' | 'location'
+  file?: number
+  location?: number
+  line?: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+  severity?: number
+  code?: number
+  message?: number
+  loop?: boolean
+}
+
+interface BackgroundMatcher {
+  activeBegins?: boolean
+  beginsPattern?: string | { regexp: string }
+  endsPattern?: string | { regexp: string }
+}
+
+export interface ProblemMatcher {
+  name?: string
+  base?: string
+  owner?: string
+  source?: string
+  severity?: string
+  fileLocation?: string | string[]
+  pattern?: string | ProblemPattern | ProblemPattern[]
+  background?: BackgroundMatcher
+}
+
+interface Problem {
+  path: string
+  diagnostic: Diagnostic
+}
+
+type PatternData = { [K in keyof ProblemPattern]?: string }
+
+const tscPattern: ProblemPattern = {
+  regexp: '^([^\\s].*)[\\(:](\\d+)[,:](\\d+)(?:\\):\\s+|\\s+-\\s+)(error|warning|info)\\s+TS(\\d+)\\s*:\\s*(.*)$',
+  file: 1,
+  line: 2,
+  column: 3,
+  severity: 4,
+  code: 5,
+  message: 6,
+}
+
+// the most used problem matchers that ship with vscode. extensions can add
+// more with contributes.problemMatchers and contributes.problemPatterns
+const builtinMatchers = new Map<string, ProblemMatcher>([
+  [ 'tsc', {
+    owner: 'typescript',
+    source: 'ts',
+    fileLocation: 'relative',
+    pattern: tscPattern,
+  } ],
+  [ 'tsc-watch', {
+    owner: 'typescript',
+    source: 'ts',
+    fileLocation: 'relative',
+    pattern: tscPattern,
+    background: {
+      activeBegins: true,
+      beginsPattern: 'File change detected\\. Starting incremental compilation',
+      endsPattern: '(?:Compilation complete\\.|Found \\d+ errors?\\.) Watching for file changes',
+    },
+  } ],
+  [ 'eslint-compact', {
+    owner: 'eslint',
+    source: 'eslint',
+    fileLocation: 'absolute',
+    pattern: {
+      regexp: '^(.+):\\sline\\s(\\d+),\\scol\\s(\\d+),\\s(Error|Warning|Info)\\s-\\s(.+)\\s\\((.+)\\)$',
+      file: 1,
+      line: 2,
+      column: 3,
+      severity: 4,
+      message: 5,
+      code: 6,
+    },
+  } ],
+  [ 'eslint-stylish', {
+    owner: 'eslint',
+    source: 'eslint',
+    fileLocation: 'absolute',
+    pattern: [{
+      regexp: '^([^\\s].*)$',
+      file: 1,
+    }, {
+      regexp: '^\\s+(\\d+):(\\d+)\\s+(error|warning|info)\\s+(.+?)(?:\\s\\s+(.*))?$',
+      line: 1,
+      column: 2,
+      severity: 3,
+      message: 4,
+      code: 5,
+      loop: true,
+    }],
+  } ],
+  [ 'gcc', {
+    owner: 'cpp',
+    source: 'gcc',
+    fileLocation: 'relative',
+    pattern: {
+      regexp: '^(.*?):(\\d+):(\\d*):?\\s+(?:fatal\\s+)?(warning|error):\\s+(.*)$',
+      file: 1,
+      line: 2,
+      column: 3,
+      severity: 4,
+      message: 5,
+    },
+  } ],
+  [ 'go', {
+    owner: 'go',
+    source: 'go',
+    fileLocation: 'relative',
+    pattern: {
+      regexp: '^([^:]*: )?((.:)?[^:]*):(\\d+)(:(\\d+))?: (.*)$',
+      file: 2,
+      line: 4,
+      column: 6,
+      message: 7,
+    },
+  } ],
+  [ 'msCompile', {
+    owner: 'msCompile',
+    fileLocation: 'absolute',
+    pattern: {
+      regexp: '^(?:\\s*\\d+>)?(\\S.*?)(?:\\((\\d+|\\d+,\\d+|\\d+,\\d+,\\d+,\\d+)\\))?\\s*:\\s+(error|warning|info)\\s+(\\w+\\d+)\\s*:\\s*(.*)$',
+      file: 1,
+      location: 2,
+      severity: 3,
+      code: 4,
+      message: 5,
+    },
+  } ],
+])
+
+const contributed = (kind: 'problemMatchers' | 'problemPatterns') => extensions.all
+  .reduce((res, ext) => [ ...res, ...pleaseGet(ext.packageJSON).contributes[kind]([]) ], [] as any[])
+
+const findPatterns = (name: string): ProblemPattern[] => {
+  const pattern = contributed('problemPatterns').find(m => m.name === name.replace(/^\$/, ''))
+  if (!pattern) return []
+  return pattern.patterns || [ pattern ]
+}
+
+const findMatcher = (name: string): ProblemMatcher | undefined => {
+  const matcherName = name.replace(/^\$/, '')
+  return builtinMatchers.get(matcherName) || contributed('problemMatchers').find(m => m.name === matcherName)
+}
+
+/** Resolve a problem matcher reference ("$tsc") or matcher object from tasks.json */
+export const resolveProblemMatcher = (matcher: string | ProblemMatcher): ProblemMatcher | undefined => {
+  const resolved = typeof matcher === 'string' ? findMatcher(matcher) : matcher
+  if (!resolved) {
+    console.warn(`problem matcher ${matcher} does not exist`)
+    return
+  }
+
+  if (!resolved.base) return resolved
+
+  const base = resolveProblemMatcher(resolved.base)
+  return { ...base, ...resolved, base: undefined }
+}
+
+const getPatterns = ({ pattern }: ProblemMatcher): ProblemPattern[] => {
+  if (!pattern) return []
+  if (typeof pattern === 'string') return findPatterns(pattern)
+  return Array.isArray(pattern) ? pattern : [ pattern ]
+}
+
+const asRegExp = (pattern?: string | { regexp: string }) => {
+  if (!pattern) return
+  return new RegExp(typeof pattern === 'string' ? pattern : pattern.regexp)
+}
+
+const asSeverity = (severity = '') => {
+  const kind = severity.toLowerCase()
+  if (kind.startsWith('warn')) return DiagnosticSeverity.Warning
+  if (kind.startsWith('info')) return DiagnosticSeverity.Information
+  if (kind === 'hint') return DiagnosticSeverity.Hint
+  return DiagnosticSeverity.Error
+}
+
+const resolvePath = (file: string, fileLocation: ProblemMatcher['fileLocation'], cwd: string) => {
+  const [ kind, base = cwd ] = typeof fileLocation === 'string' ? [ fileLocation ] : fileLocation || [ 'relative' ]
+  if (kind === 'absolute' || isAbsolute(file)) return file
+  if (kind === 'autoDetect') return existsSync(join(base, file)) ? join(base, file) : file
+  return join(base, file)
+}
+
+// problem locations are 1 based and the column is optional
+const asRange = (data: PatternData) => {
+  const [ line, column, endLine, endColumn ] = data.location
+    ? data.location.split(',').map(m => parseInt(m))
+    : [ data.line, data.column, data.endLine, data.endColumn ].map(m => m ? parseInt(m) : NaN)
+
+  const start = [ Math.max((line || 1) - 1, 0), Math.max((column || 1) - 1, 0) ]
+  const end = [ endLine ? endLine - 1 : start[0], endColumn ? endColumn - 1 : start[1] ]
+  return new Range(start[0], start[1], end[0], end[1])
+}
+
+const extractData = (pattern: ProblemPattern, match: RegExpMatchArray): PatternData => {
+  const keys: (keyof ProblemPattern)[] = [ 'file', 'location', 'line', 'column', 'endLine', 'endColumn', 'severity', 'code', 'message' ]
+  return keys.reduce((res, key) => {
+    const group = pattern[key] as number | undefined
+    const value = group ? match[group] : undefined
+    return value === undefined ? res : { ...res, [key]: value }
+  }, {} as PatternData)
+}
+
+/** Parse output lines from a task with a problem matcher. Multi line patterns keep state between lines */
+export const ProblemMatcherRunner = (matcher: ProblemMatcher, cwd: string) => {
+  const patterns = getPatterns(matcher)
+  const beginsPattern = asRegExp(matcher.background && matcher.background.beginsPattern)
+  const endsPattern = asRegExp(matcher.background && matcher.background.endsPattern)
+  const regexps = patterns.map(m => new RegExp(m.regexp))
+  const owner = matcher.owner || 'external'
+  let patternIndex = 0
+  let data: PatternData = {}
+
+  const asProblem = (problemData: PatternData): Problem | undefined => {
+    if (!problemData.file || !problemData.message) return
+
+    const diagnostic = new Diagnostic(asRange(problemData), problemData.message, asSeverity(problemData.severity || matcher.severity))
+    diagnostic.source = matcher.source || owner
+    if (problemData.code) diagnostic.code = problemData.code
+
+    return { path: resolvePath(problemData.file, matcher.fileLocation, cwd), diagnostic }
+  }
+
+  const matchFirstPattern = (line: string) => {
+    const match = line.match(regexps[0])
+    if (!match) return
+
+    data = extractData(patterns[0], match)
+    if (patterns.length === 1) return asProblem(data)
+    patternIndex = 1
+  }
+
+  const processLine = (line: string): Problem | undefined => {
+    if (!patterns.length) return
+    if (patternIndex === 0) return matchFirstPattern(line)
+
+    const pattern = patterns[patternIndex]
+    const match = line.match(regexps[patternIndex])
+    if (!match) {
+      patternIndex = 0
+      return matchFirstPattern(line)
+    }
+
+    const lastPattern = patternIndex === patterns.length - 1
+    if (!lastPattern) {
+      data = { ...data, ...extractData(pattern, match) }
+      patternIndex++
+      return
+    }
+
+    // a looping last pattern matches many problems for the data from the earlier patterns
+    const problem = asProblem({ ...data, ...extractData(pattern, match) })
+    if (!pattern.loop) patternIndex = 0
+    return problem
+  }
+
+  return {
+    owner,
+    processLine,
+    isBackground: !!matcher.background,
+    isBeginLine: (line: string) => !!beginsPattern && beginsPattern.test(line),
+    isEndLine: (line: string) => !!endsPattern && endsPattern.test(line),
+  }
+}
+
+export type ProblemMatcherRunner = ReturnType<typeof ProblemMatcherRunner>
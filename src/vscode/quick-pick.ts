@@ -0,0 +1,170 @@
+import { QuickPickShow, QuickInputButtonData } from '../protocols/vscode-ui'
+import { ui, uiEvent, ownEvents } from '../extension-host/bridge-api'
+import { QuickInputButtons } from '../vscode/types'
+import { Watcher, uuid } from '../support/utils'
+import * as vsc from 'vscode'
+
+interface Events {
+  didChangeValue: string
+  didAccept: void
+  didTriggerButton: vsc.QuickInputButton
+  didChangeActive: vsc.QuickPickItem[]
+  didChangeSelection: vsc.QuickPickItem[]
+  didHide: void
+}
+
+export const asButtonData = (button: vsc.QuickInputButton, index: number): QuickInputButtonData => ({
+  index,
+  tooltip: button.tooltip,
+  isBackButton: button === QuickInputButtons.Back,
+})
+
+export default <T extends vsc.QuickPickItem>(): vsc.QuickPick<T> => {
+  const id = uuid()
+  const events = Watcher<Events>()
+  let visible = false
+
+  const state = {
+    title: undefined as string | undefined,
+    step: undefined as number | undefined,
+    totalSteps: undefined as number | undefined,
+    enabled: true,
+    busy: false,
+    ignoreFocusOut: false,
+    value: '',
+    placeholder: undefined as string | undefined,
+    buttons: [] as ReadonlyArray<vsc.QuickInputButton>,
+    items: [] as ReadonlyArray<T>,
+    canSelectMany: false,
+    matchOnDescription: false,
+    matchOnDetail: false,
+    activeItems: [] as ReadonlyArray<T>,
+    selectedItems: [] as ReadonlyArray<T>,
+  }
+
+  const render = (): QuickPickShow => ({
+    id,
+    title: state.title,
+    step: state.step,
+    totalSteps: state.totalSteps,
+    value: state.value,
+    placeholder: state.placeholder,
+    enabled: state.enabled,
+    busy: state.busy,
+    canSelectMany: state.canSelectMany,
+    matchOnDescription: state.matchOnDescription,
+    matchOnDetail: state.matchOnDetail,
+    buttons: state.buttons.map(asButtonData),
+    items: state.items.map((item, index) => ({
+      index,
+      label: item.label,
+      description: item.description,
+      detail: item.detail,
+      alwaysShow: !!item.alwaysShow,
+    })),
+    activeItems: state.activeItems.map(item => state.items.indexOf(item)),
+    selectedItems: state.selectedItems.map(item => state.items.indexOf(item)),
+  })
+
+  const update = (patch: Partial<typeof state>) => {
+    Object.assign(state, patch)
+    if (visible) ui.quickPick.update(render())
+  }
+
+  const fromIndexes = (indexes: number[]) => indexes.map(ix => state.items[ix]).filter(m => m)
+
+  const ours = ownEvents(id)
+
+  const unsubscribers = [
+    uiEvent.quickPick.onChangeValue(ours((nextValue: string) => {
+      state.value = nextValue
+      events.emit('didChangeValue', nextValue)
+    })),
+    uiEvent.quickPick.onChangeActive(ours((indexes: number[]) => {
+      state.activeItems = fromIndexes(indexes)
+      events.emit('didChangeActive', state.activeItems.slice())
+    })),
+    uiEvent.quickPick.onChangeSelection(ours((indexes: number[]) => {
+      state.selectedItems = fromIndexes(indexes)
+      events.emit('didChangeSelection', state.selectedItems.slice())
+    })),
+    uiEvent.quickPick.onTriggerButton(ours((index: number) => {
+      const button = state.buttons[index]
+      if (button) events.emit('didTriggerButton', button)
+    })),
+    uiEvent.quickPick.onAccept(ours(() => events.emit('didAccept'))),
+    uiEvent.quickPick.onHide(ours(() => {
+      visible = false
+      events.emit('didHide')
+    })),
+  ]
+
+  const eventNames: (keyof Events)[] = ['didChangeValue', 'didAccept',
+    'didTriggerButton', 'didChangeActive', 'didChangeSelection', 'didHide']
+
+  const eventreg = (name: keyof Events) => (fn: any, thisArg?: any) => ({
+    dispose: events.on(name, fn.bind(thisArg)),
+  })
+
+  const api: vsc.QuickPick<T> = {
+    get title() { return state.title },
+    set title(title) { update({ title }) },
+    get step() { return state.step },
+    set step(step) { update({ step }) },
+    get totalSteps() { return state.totalSteps },
+    set totalSteps(totalSteps) { update({ totalSteps }) },
+    get enabled() { return state.enabled },
+    set enabled(enabled) { update({ enabled }) },
+    get busy() { return state.busy },
+    set busy(busy) { update({ busy }) },
+    // quick inputs are always dismissed explicitly (esc) so focus out does not apply
+    get ignoreFocusOut() { return state.ignoreFocusOut },
+    set ignoreFocusOut(ignoreFocusOut) { state.ignoreFocusOut = ignoreFocusOut },
+    get value() { return state.value },
+    set value(value) { update({ value }) },
+    get placeholder() { return state.placeholder },
+    set placeholder(placeholder) { update({ placeholder }) },
+    get buttons() { return state.buttons },
+    set buttons(buttons) { update({ buttons }) },
+    get items() { return state.items },
+    set items(items) { update({
+      items,
+      activeItems: [],
+      selectedItems: state.canSelectMany ? items.filter(item => item.picked) : [],
+    }) },
+    get canSelectMany() { return state.canSelectMany },
+    set canSelectMany(canSelectMany) { update({ canSelectMany }) },
+    get matchOnDescription() { return state.matchOnDescription },
+    set matchOnDescription(matchOnDescription) { update({ matchOnDescription }) },
+    get matchOnDetail() { return state.matchOnDetail },
+    set matchOnDetail(matchOnDetail) { update({ matchOnDetail }) },
+    get activeItems() { return state.activeItems },
+    set activeItems(activeItems) { update({ activeItems }) },
+    get selectedItems() { return state.selectedItems },
+    set selectedItems(selectedItems) { update({ selectedItems }) },
+    show: () => {
+      if (visible) return
+      visible = true
+      ui.quickPick.show(render())
+    },
+    hide: () => {
+      if (!visible) return
+      visible = false
+      ui.quickPick.hide(id)
+      events.emit('didHide')
+    },
+    dispose: () => {
+      api.hide()
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+      eventNames.forEach(name => events.remove(name))
+    },
+    onDidChangeValue: eventreg('didChangeValue'),
+    onDidAccept: eventreg('didAccept'),
+    onDidTriggerButton: eventreg('didTriggerButton'),
+    onDidChangeActive: eventreg('didChangeActive'),
+    onDidChangeSelection: eventreg('didChangeSelection'),
+    onDidHide: eventreg('didHide'),
+  }
+
+  return api
+}
@@ -1,28 +1,270 @@
+import { SourceControlData, ScmGroupData, ScmMenuCommand, ScmResourceData } from '../protocols/vscode-ui'
+import { ui, uiEvent } from '../extension-host/bridge-api'
+import { Extension } from '../extension-host/extension'
+import { evaluateWhen, ContextKeys } from '../vscode/when-clause'
+import { debounce, uuid } from '../support/utils'
+import { StatusBarAlignment } from '../vscode/types'
+import pleaseGet from '../support/please-get'
+import extensions from '../vscode/extensions'
+import commands from '../vscode/commands'
 import * as vsc from 'vscode'
 
+type ScmMenu = 'scm/title' | 'scm/resourceGroup/context' | 'scm/resourceState/context'
+
+interface SourceControlEntry {
+  sourceControl: vsc.SourceControl
+  groups: vsc.SourceControlResourceGroup[]
+  setInputValue(value: string): void
+}
+
+const sourceControls = new Map<string, SourceControlEntry>()
+// statusline item id -> status bar command of a source control
+const statusBarCommands = new Map<string, vsc.Command>()
+let lastInputBox: vsc.SourceControlInputBox | undefined
+
+const getMenuCommands = async (menu: ScmMenu, context: ContextKeys): Promise<ScmMenuCommand[]> => {
+  const contributions = await Promise.all((extensions.all as Extension[]).map(async ext => {
+    const contributes = pleaseGet(ext.packageJSON).contributes
+    const titles = new Map((contributes.commands([]) as any[]).map(m => [ m.command, m.title ] as [string, string]))
+
+    const items = (contributes.menus[menu]([]) as any[]).filter(m => evaluateWhen(m.when, context))
+    return Promise.all(items.map(async ({ command }) => {
+      const title = titles.get(command) || command
+      return { command, title: (await ext.localize(title)) || title }
+    }))
+  }))
+
+  return contributions.reduce((res, m) => [ ...res, ...m ], [] as ScmMenuCommand[])
+}
+
+const getIconPath = ({ iconPath, dark }: vsc.SourceControlResourceDecorations) => {
+  const icon = (dark && dark.iconPath) || iconPath
+  if (!icon) return
+  return typeof icon === 'string' ? icon : icon.fsPath
+}
+
+const asResourceData = ({ resourceUri, command, decorations = {} }: vsc.SourceControlResourceState): ScmResourceData => ({
+  path: resourceUri.fsPath,
+  tooltip: decorations.tooltip,
+  strikeThrough: !!decorations.strikeThrough,
+  faded: !!decorations.faded,
+  iconPath: getIconPath(decorations),
+  hasCommand: !!command,
+})
+
+const asData = async (handle: string, { sourceControl, groups }: SourceControlEntry): Promise<SourceControlData> => {
+  const scmProvider = sourceControl.id
+
+  const groupData = await Promise.all(groups.map(async (group): Promise<ScmGroupData> => {
+    const context = { scmProvider, scmResourceGroup: group.id, scmResourceGroupType: group.id }
+    const [ groupCommands, resourceCommands ] = await Promise.all([
+      getMenuCommands('scm/resourceGroup/context', context),
+      getMenuCommands('scm/resourceState/context', context),
+    ])
+
+    return {
+      id: group.id,
+      label: group.label,
+      hideWhenEmpty: !!group.hideWhenEmpty,
+      resources: group.resourceStates.map(asResourceData),
+      commands: groupCommands,
+      resourceCommands,
+    }
+  }))
+
+  return {
+    handle,
+    label: sourceControl.label,
+    rootPath: sourceControl.rootUri && sourceControl.rootUri.fsPath,
+    count: sourceControl.count,
+    inputValue: sourceControl.inputBox.value,
+    inputPlaceholder: sourceControl.inputBox.placeholder,
+    canAcceptInput: !!sourceControl.acceptInputCommand,
+    groups: groupData,
+    commands: await getMenuCommands('scm/title', { scmProvider }),
+  }
+}
+
+const executeCommand = (command: string, ...args: any[]) => {
+  Promise.resolve(commands.executeCommand(command, ...args)).catch(err => {
+    console.error(`source control command ${command} failed`, err)
+  })
+}
+
+const runCommand = (command?: vsc.Command) => command && executeCommand(command.command, ...(command.arguments || []))
+
+// status bar commands (e.g. the current branch) go on the left of the statusline like in vscode
+const showStatusBarCommands = (handle: string, next: vsc.Command[] = []) => {
+  const ids = next.map((_, ix) => `${handle}/status/${ix}`)
+
+  ;[...statusBarCommands.keys()]
+    .filter(id => id.startsWith(`${handle}/status/`) && !ids.includes(id))
+    .forEach(id => {
+      statusBarCommands.delete(id)
+      ui.statusBarItem.hide(id)
+    })
+
+  next.forEach((command, ix) => {
+    statusBarCommands.set(ids[ix], command)
+    ui.statusBarItem.show({
+      id: ids[ix],
+      alignment: StatusBarAlignment.Left,
+      priority: 10e3 - ix,
+      text: command.title,
+      tooltip: command.tooltip,
+      clickable: !!command.command,
+    })
+  })
+}
+
+uiEvent.statusBarItem.onClick(id => runCommand(statusBarCommands.get(id)))
+
+uiEvent.scm.onChangeInputValue((handle, value) => {
+  const entry = sourceControls.get(handle)
+  if (entry) entry.setInputValue(value)
+})
+
+uiEvent.scm.onAcceptInput(handle => {
+  const entry = sourceControls.get(handle)
+  if (entry) runCommand(entry.sourceControl.acceptInputCommand)
+})
+
+uiEvent.scm.onOpenResource((handle, groupId, index) => {
+  const entry = sourceControls.get(handle)
+  const group = entry && entry.groups.find(m => m.id === groupId)
+  const resource = group && group.resourceStates[index]
+  if (resource) runCommand(resource.command)
+})
+
+// menu commands get the resource state, the resource group or the source
+// control they were run from, depending on the menu they are contributed to
+uiEvent.scm.onRunCommand((handle, command, groupId, index) => {
+  const entry = sourceControls.get(handle)
+  if (!entry) return
+
+  const group = entry.groups.find(m => m.id === groupId)
+  if (!group) return executeCommand(command, entry.sourceControl)
+
+  const resource = typeof index === 'number' ? group.resourceStates[index] : undefined
+  executeCommand(command, resource || group)
+})
+
+const SourceControl = (id: string, label: string, rootUri?: vsc.Uri): vsc.SourceControl => {
+  const handle = `${id}:${uuid()}`
+  const groups: vsc.SourceControlResourceGroup[] = []
+
+  const state = {
+    inputValue: '',
+    placeholder: '',
+    count: undefined as number | undefined,
+    commitTemplate: undefined as string | undefined,
+    acceptInputCommand: undefined as vsc.Command | undefined,
+    statusBarCommands: undefined as vsc.Command[] | undefined,
+  }
+
+  const update = debounce(async () => {
+    const entry = sourceControls.get(handle)
+    if (entry) ui.scm.update(await asData(handle, entry))
+  }, 50)
+
+  const inputBox: vsc.SourceControlInputBox = {
+    get value() { return state.inputValue },
+    set value(value: string) {
+      state.inputValue = value
+      update()
+    },
+    get placeholder() { return state.placeholder },
+    set placeholder(placeholder: string) {
+      state.placeholder = placeholder
+      update()
+    },
+  }
+
+  const createResourceGroup = (groupId: string, groupLabel: string): vsc.SourceControlResourceGroup => {
+    const groupState = {
+      label: groupLabel,
+      hideWhenEmpty: undefined as boolean | undefined,
+      resourceStates: [] as vsc.SourceControlResourceState[],
+    }
+
+    const group: vsc.SourceControlResourceGroup = {
+      id: groupId,
+      get label() { return groupState.label },
+      set label(label: string) {
+        groupState.label = label
+        update()
+      },
+      get hideWhenEmpty() { return groupState.hideWhenEmpty },
+      set hideWhenEmpty(hideWhenEmpty: boolean | undefined) {
+        groupState.hideWhenEmpty = hideWhenEmpty
+        update()
+      },
+      get resourceStates() { return groupState.resourceStates },
+      set resourceStates(resourceStates: vsc.SourceControlResourceState[]) {
+        groupState.resourceStates = resourceStates
+        update()
+      },
+      dispose: () => {
+        const ix = groups.indexOf(group)
+        if (ix > -1) groups.splice(ix, 1)
+        update()
+      },
+    }
+
+    groups.push(group)
+    update()
+    return group
+  }
+
+  const sourceControl: vsc.SourceControl = {
+    id,
+    label,
+    rootUri,
+    inputBox,
+    quickDiffProvider: undefined,
+    get count() { return state.count },
+    set count(count: number | undefined) {
+      state.count = count
+      update()
+    },
+    get commitTemplate() { return state.commitTemplate },
+    set commitTemplate(template: string | undefined) {
+      state.commitTemplate = template
+      if (template && !state.inputValue) inputBox.value = template
+    },
+    get acceptInputCommand() { return state.acceptInputCommand },
+    set acceptInputCommand(command: vsc.Command | undefined) {
+      state.acceptInputCommand = command
+      update()
+    },
+    get statusBarCommands() { return state.statusBarCommands },
+    set statusBarCommands(commands: vsc.Command[] | undefined) {
+      state.statusBarCommands = commands
+      showStatusBarCommands(handle, commands)
+    },
+    createResourceGroup,
+    dispose: () => {
+      sourceControls.delete(handle)
+      showStatusBarCommands(handle, [])
+      ui.scm.dispose(handle)
+    },
+  }
+
+  // typing in the ui changes the value without sending it back to the ui
+  const setInputValue = (value: string) => state.inputValue = value
+
+  sourceControls.set(handle, { sourceControl, groups, setInputValue })
+  lastInputBox = inputBox
+  update()
+  return sourceControl
+}
+
 const scm: typeof vsc.scm = {
   get inputBox() {
     console.warn('DEPRECATED: scm.inputBox. Use SourceControl.inputBox instead')
-    return { value: '', placeholder: '' }
+    return lastInputBox || { value: '', placeholder: '' }
   },
   createSourceControl: (id, label, rootUri) => SourceControl(id, label, rootUri),
 }
 
-const SourceControl = (id: string, label: string, rootUri?: vsc.Uri) => ({
-  id,
-  label,
-  rootUri,
-  inputBox: {
-    value: '',
-    placeholder: '',
-  },
-  createResourceGroup: () => ({
-    id: '',
-    label: '',
-    resourceStates: [],
-    dispose: () => {},
-  }),
-  dispose: () => {},
-})
-
 export default scm
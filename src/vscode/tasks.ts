@@ -1,4 +1,12 @@
-import { Watcher, MapSetter } from '../support/utils'
+import { Task, TaskGroup, TaskScope, TaskRevealKind, ShellExecution, ProcessExecution, ShellQuoting } from '../vscode/types'
+import { ProblemMatcher, ProblemMatcherRunner, resolveProblemMatcher } from '../vscode/problem-matchers'
+import { Watcher, MapSetter, readFile, exists } from '../support/utils'
+import { join, basename, dirname, extname, relative } from 'path'
+import { parse } from 'jsonc-parser'
+import languages from '../vscode/languages'
+import window from '../vscode/window'
+import { URI } from '../vscode/uri'
+import nvim from '../neovim/api'
 import * as vsc from 'vscode'
 
 interface Events {
@@ -8,42 +16,293 @@ interface Events {
   didEndTaskProcess: vsc.TaskProcessEndEvent
 }
 
-interface MetaTask extends vsc.Task {
-  type: string
+interface RunningTask {
+  execution: vsc.TaskExecution
+  matchers: ProblemMatcherRunner[]
+  partialLine: string
 }
 
+type Execution = vsc.ShellExecution | vsc.ProcessExecution
+
 const activeTasks = new Set<vsc.TaskExecution>()
-const registeredTasks = new Set<MetaTask>()
+const runningTasks = new Map<number, RunningTask>()
 const watchers = Watcher<Events>()
 const taskProviders = new MapSetter<string, vsc.TaskProvider>()
+const diagnosticCollections = new Map<string, vsc.DiagnosticCollection>()
+// tasks.json can define problem matchers inline which vsc.Task can not hold
+const jsonProblemMatchers = new WeakMap<vsc.Task, (string | ProblemMatcher)[]>()
 
-// TODO: determine when we need to call the task providers and register the tasks
-// looking at vscode it seems to be called when the task list is called upon in
-// the UI by either user action or implicit thru build/run/unTests vscode functionality
-// see here: https://github.com/Microsoft/vscode/blob/master/src/vs/workbench/contrib/tasks/electron-browser/task.contribution.ts (getGroupedTasks)
-// const provideTasksAndRegister = async (type: string, provider: vsc.TaskProvider) => {
-//   const providedTasks = (await provider.provideTasks()) || []
-//   providedTasks.forEach(task => registeredTasks.add(Object.assign(task, { type })))
-// }
-
-const runTask = (task: vsc.Task): vsc.TaskExecution => {
-  const terminate = () => {
-    console.warn('NYI: terminate running task')
-    watchers.emit('didEndTask', { execution: taskExec })
-    activeTasks.delete(taskExec)
-  }
+const platformKeys: Record<string, string> = { darwin: 'osx', win32: 'windows' }
+const platformKey = platformKeys[process.platform] || 'linux'
+
+// tasks.json properties that are not part of the task definition of contributed task types
+const taskProperties = [ 'label', 'taskName', 'type', 'problemMatcher', 'group', 'presentation', 'isBackground',
+  'dependsOn', 'options', 'runOptions', 'promptOnClose', 'osx', 'linux', 'windows' ]
+
+const getVariable = (name: string, arg?: string) => {
+  const { cwd, absoluteFilepath: file, line } = nvim.state
+  if (name === 'env') return process.env[arg || ''] || ''
+  if (name === 'workspaceFolder' || name === 'workspaceRoot' || name === 'cwd') return cwd
+  if (name === 'workspaceFolderBasename') return basename(cwd)
+  if (name === 'file') return file
+  if (name === 'relativeFile') return relative(cwd, file)
+  if (name === 'fileBasename') return basename(file)
+  if (name === 'fileBasenameNoExtension') return basename(file, extname(file))
+  if (name === 'fileDirname') return dirname(file)
+  if (name === 'fileExtname') return extname(file)
+  if (name === 'lineNumber') return `${line + 1}`
+}
+
+const resolveValue = (value: unknown): unknown => {
+  if (typeof value === 'string') return value.replace(/\$\{(\w+)(?::([^}]+))?\}/g, (match, name, arg) => {
+    const resolved = getVariable(name, arg)
+    return resolved === undefined ? match : resolved
+  })
+
+  if (Array.isArray(value)) return value.map(resolveValue)
+  if (value && typeof value === 'object') return Object.entries(value as object).reduce((res, [ key, val ]) => {
+    return { ...res, [key]: resolveValue(val) }
+  }, {} as Record<string, unknown>)
+
+  return value
+}
+
+const resolveVariables = <T>(value: T) => resolveValue(value) as T
+
+const quote = (arg: string | vsc.ShellQuotedString) => {
+  const { value, quoting } = typeof arg === 'string'
+    ? { value: arg, quoting: /[\s"'$`\\]/.test(arg) ? ShellQuoting.Strong : undefined }
+    : arg
+
+  if (quoting === ShellQuoting.Escape) return value.replace(/([\s"'$`\\])/g, '\\$1')
+  if (quoting === ShellQuoting.Weak) return `"${value.replace(/(["$`\\])/g, '\\$1')}"`
+  if (quoting === ShellQuoting.Strong) return `'${value.replace(/'/g, `'\\''`)}'`
+  return value
+}
+
+const asCommand = (execution: Execution) => {
+  const options: vsc.ShellExecutionOptions & vsc.ProcessExecutionOptions = execution.options || {}
+  const cwd = options.cwd || nvim.state.cwd
+  const env = options.env
+    ? [ 'env', ...Object.entries(options.env).map(([ key, val ]) => `${key}=${val}`) ]
+    : []
+
+  if (execution instanceof ProcessExecution) return { cwd, cmd: [ ...env, execution.process, ...execution.args ] }
+
+  const shellExecution = execution as vsc.ShellExecution
+  const shell = options.executable || process.env.SHELL || 'sh'
+  const shellArgs = options.shellArgs || [ '-c' ]
+  const commandLine = shellExecution.commandLine
+    || [ shellExecution.command, ...shellExecution.args ].map(quote).join(' ')
+
+  return { cwd, cmd: [ ...env, shell, ...shellArgs, commandLine ] }
+}
+
+const getReveal = ({ presentationOptions: { reveal, focus } }: vsc.Task) => {
+  if (reveal === TaskRevealKind.Never) return 'never'
+  return focus ? 'always' : 'silent'
+}
+
+const getDiagnosticCollection = (owner: string) => {
+  const existing = diagnosticCollections.get(owner)
+  if (existing) return existing
+
+  const collection = languages.createDiagnosticCollection(owner)
+  diagnosticCollections.set(owner, collection)
+  return collection
+}
+
+const getProblemMatchers = (task: vsc.Task, cwd: string) => {
+  const matchers = jsonProblemMatchers.get(task) || (task as Task).problemMatchers || []
+  return matchers
+    .map(resolveProblemMatcher)
+    .filter(m => m)
+    .map(m => ProblemMatcherRunner(m!, cwd))
+}
+
+const processOutputLine = ({ matchers }: RunningTask, line: string) => matchers.forEach(matcher => {
+  const collection = getDiagnosticCollection(matcher.owner)
+  if (matcher.isBeginLine(line)) return collection.clear()
+
+  const problem = matcher.processLine(line)
+  if (!problem) return
+
+  const uri = URI.file(problem.path)
+  collection.set(uri, [ ...(collection.get(uri) || []), problem.diagnostic ])
+})
+
+// terminal output comes in chunks that do not end on line boundaries
+nvim.systemAction('task-output', (jobId: number, data: string[]) => {
+  const task = runningTasks.get(jobId)
+  if (!task) return
 
-  // TODO: actually start the task
-  // start the task process and shit
-  // emit taskstartprocess and taskendprocess events
+  const [ first, ...rest ] = data
+  const chunks = [ task.partialLine + first, ...rest ]
+  task.partialLine = chunks.pop() || ''
 
+  chunks
+    .map(m => m.replace(/\x1b\[[0-9;?]*[a-zA-Z]/g, '').replace(/\r$/, ''))
+    .forEach(line => processOutputLine(task, line))
+})
+
+nvim.systemAction('task-exit', (jobId: number, exitCode: number) => {
+  const task = runningTasks.get(jobId)
+  if (!task) return
+
+  if (task.partialLine) processOutputLine(task, task.partialLine)
+  runningTasks.delete(jobId)
+  activeTasks.delete(task.execution)
+
+  watchers.emit('didEndTaskProcess', { execution: task.execution, exitCode })
+  watchers.emit('didEndTask', { execution: task.execution })
+})
+
+const runTask = async (task: vsc.Task): Promise<vsc.TaskExecution> => {
+  let jobId = 0
+  const terminate = () => { if (jobId) nvim.call.jobstop(jobId) }
   const taskExec = { task, terminate }
+
+  if (!task.execution) {
+    console.error(`task ${task.name} does not have a shell or process execution`)
+    return taskExec
+  }
+
+  const { cmd, cwd } = asCommand(task.execution)
+  const matchers = getProblemMatchers(task, cwd)
+  matchers.forEach(m => getDiagnosticCollection(m.owner).clear())
+
+  const [ id ] = await nvim.call.VeonimTaskStart(cmd, cwd, getReveal(task))
+  if (id <= 0) {
+    console.error(`failed to start task ${task.name}: ${cmd.join(' ')}`)
+    return taskExec
+  }
+
+  jobId = id
+  runningTasks.set(jobId, { execution: taskExec, matchers, partialLine: '' })
   activeTasks.add(taskExec)
   watchers.emit('didStartTask', { execution: taskExec })
 
+  const processId = await nvim.call.jobpid(jobId)
+  watchers.emit('didStartTaskProcess', { execution: taskExec, processId })
+
   return taskExec
 }
 
+const provideTasks = async (type?: string) => {
+  const providers = type
+    ? taskProviders.getList(type)
+    : [...taskProviders.values()].reduce((res, m) => [ ...res, ...m ], [] as vsc.TaskProvider[])
+
+  const providedTasks = await Promise.all(providers.map(async provider => {
+    try {
+      return (await provider.provideTasks()) || []
+    } catch(err) {
+      console.error('task provider failed to provide tasks', err)
+      return []
+    }
+  }))
+
+  return providedTasks.reduce((res, m) => [ ...res, ...m ], [] as vsc.Task[])
+}
+
+const asGroup = (group?: string | { kind: string }) => {
+  if (!group) return
+  return TaskGroup.from(typeof group === 'string' ? group : group.kind)
+}
+
+const asRevealKind = (reveal?: string) => {
+  if (reveal === 'silent') return TaskRevealKind.Silent
+  if (reveal === 'never') return TaskRevealKind.Never
+  return TaskRevealKind.Always
+}
+
+const asExecution = ({ type, command, args, options }: any): ProcessExecution | ShellExecution | undefined => {
+  if (!command) return
+  if (type === 'process') return new ProcessExecution(command, args || [], options)
+  return args ? new ShellExecution(command, args, options) : new ShellExecution(command, options)
+}
+
+// tasks.json entries with a contributed type (npm, gulp, etc.) customize a task
+// from the task provider that matches the task definition
+const findContributedTask = async (definition: vsc.TaskDefinition, label: string) => {
+  const definitionKeys = Object.keys(definition).filter(key => !taskProperties.includes(key))
+  const providedTasks = await provideTasks(definition.type)
+  const providedTask = providedTasks.find(task => definitionKeys.every(key => {
+    return JSON.stringify(task.definition[key]) === JSON.stringify(definition[key])
+  }))
+
+  if (providedTask) return providedTask
+
+  const task = new Task(definition, TaskScope.Workspace, label, definition.type)
+  const resolvedTasks = await Promise.all(taskProviders.getList(definition.type).map(provider => {
+    return Promise.resolve(provider.resolveTask(task)).catch(err => {
+      console.error('task provider failed to resolve task', err)
+    })
+  }))
+
+  return resolvedTasks.find(m => !!m)
+}
+
+const asTask = async (config: any): Promise<vsc.Task | undefined> => {
+  const json = resolveVariables({ ...config, ...config[platformKey] })
+  const type = json.type || 'process'
+  const label = json.label || json.taskName || json.command
+
+  const task = type === 'shell' || type === 'process'
+    ? new Task({ type }, TaskScope.Workspace, label, 'Workspace', asExecution({ ...json, type }))
+    : await findContributedTask({ ...json, type }, label)
+
+  if (!task) {
+    console.warn(`could not find a task provider for tasks.json task ${label} with type ${type}`)
+    return
+  }
+
+  if (json.group) task.group = asGroup(json.group)
+  if (json.isBackground) task.isBackground = true
+  if (json.presentation) task.presentationOptions = {
+    ...json.presentation,
+    reveal: asRevealKind(json.presentation.reveal),
+  }
+
+  if (json.problemMatcher) {
+    const matchers = Array.isArray(json.problemMatcher) ? json.problemMatcher : [ json.problemMatcher ]
+    jsonProblemMatchers.set(task, matchers)
+  }
+
+  return task
+}
+
+const getTasksFromJson = async (): Promise<vsc.Task[]> => {
+  const path = join(nvim.state.cwd, '.vscode', 'tasks.json')
+  if (!await exists(path)) return []
+
+  const config = parse(await readFile(path), [], { allowTrailingComma: true }) || {}
+  const globalOptions = { ...config, ...config[platformKey] }
+  const taskConfigs: any[] = config.tasks || []
+
+  const tasks = await Promise.all(taskConfigs.map(m => asTask({
+    options: globalOptions.options,
+    ...m,
+  })))
+
+  return tasks.filter(m => !!m) as vsc.Task[]
+}
+
+const fetchTasks = async ({ type } = {} as vsc.TaskFilter) => {
+  const [ providedTasks, tasksFromJson ] = await Promise.all([ provideTasks(type), getTasksFromJson() ])
+  const tasks = [ ...tasksFromJson, ...providedTasks ]
+  return type ? tasks.filter(m => m.definition.type === type) : tasks
+}
+
+nvim.onAction('tasks', async () => {
+  const allTasks = await fetchTasks()
+  if (!allTasks.length) return window.showInformationMessage('no tasks found')
+
+  const items = allTasks.map((task, ix) => ({ label: task.name, description: task.source, ix }))
+  const selected = await window.showQuickPick(items, { placeHolder: 'run task' })
+  if (selected) runTask(allTasks[selected.ix]).catch(err => console.error(`failed to run task ${selected.label}`, err))
+})
+
 const tasks: typeof vsc.tasks = {
   get taskExecutions() { return [...activeTasks] },
 
@@ -53,19 +312,12 @@ const tasks: typeof vsc.tasks = {
   onDidEndTaskProcess: (fn, thisArg) => ({ dispose: watchers.on('didEndTaskProcess', fn.bind(thisArg)) }),
 
   registerTaskProvider: (type, provider) => {
-    taskProviders.add(type, provider)
-    // TODO: when do we resolve a task?
-    return { dispose: () => console.warn('NYI: remove registered task provider') }
-  },
-
-  fetchTasks: async (filter = {}) => {
-    const filterQuery = filter.type
-    // TODO: get tasks from tasks.json (this will be an async op)
-    const tasksFromJson: MetaTask[] = []
-    return [...registeredTasks, ...tasksFromJson].filter(mt => mt.type === filterQuery)
+    const remove = taskProviders.add(type, provider)
+    return { dispose: remove }
   },
 
-  executeTask: async task => runTask(task),
+  fetchTasks,
+  executeTask: runTask,
 }
 
 export default tasks
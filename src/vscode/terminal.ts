@@ -1,29 +1,117 @@
 import nvimSync from '../neovim/sync-api-client'
+import { Watcher } from '../support/utils'
 import nvim from '../neovim/api'
 import * as vsc from 'vscode'
 
-export default (bufid: number): vsc.Terminal => ({
+interface Events {
+  open: vsc.Terminal
+  close: vsc.Terminal
+  changeActive: vsc.Terminal | undefined
+}
+
+const events = Watcher<Events>()
+// one Terminal object per terminal buffer so that extensions can compare them
+const terminals = new Map<number, vsc.Terminal>()
+const closedTerminals = new Set<number>()
+const terminalNames = new Map<number, string>()
+// like vscode the active terminal is the last one that had focus
+let activeTerminal: number | undefined
+
+const getJobId = (bufid: number): Promise<number> => nvim.Buffer(bufid).getVar('terminal_job_id')
+
+const Terminal = (bufid: number): vsc.Terminal => ({
   get name() {
-    return nvimSync((nvim, id) => nvim.Buffer(id).name).call(bufid)
+    return terminalNames.get(bufid) || nvimSync((nvim, id) => nvim.Buffer(id).name).call(bufid)
   },
   get processId() {
-    return nvim.Buffer(bufid).getVar('channel').then(channelId => nvim.call.jobpid(channelId))
+    return getJobId(bufid).then(jobId => nvim.call.jobpid(jobId))
   },
   sendText: async (text, addNewLine = true) => {
-    const channelId = await nvim.Buffer(bufid).getVar('channel')
+    const jobId = await getJobId(bufid)
     // as per nvim docs, to send a final newline, include a final empty string
-    nvim.call.chansend(channelId, addNewLine ? [ text, '' ] : text)
+    nvim.call.chansend(jobId, addNewLine ? [ text, '' ] : text)
   },
-  show: () => {
-    // TODO: not sure about the UX here. we don't use terminal panel like vscode
-    console.warn('NYI: terminal.show')
+  show: preserveFocus => {
+    const focus = preserveFocus ? ' | wincmd p' : ''
+    nvim.cmd(`if bufwinnr(${bufid}) < 0 | botright sbuffer ${bufid}${focus} | elseif !${preserveFocus ? 1 : 0} | exe bufwinnr(${bufid}) . 'wincmd w' | endif`)
   },
   hide: () => {
-    // TODO: not sure about the UX here. we don't use terminal panel like vscode
-    console.warn('NYI: terminal.show')
+    nvim.cmd(`for winid in win_findbuf(${bufid}) | exe win_id2win(winid) . 'hide' | endfor`)
   },
-  dispose: () => {
-    // TODO: what do we do here? delete the term buffer?
-    console.warn('NYI: terminal.dispose')
+  dispose: async () => {
+    // the buffer can be wiped already. there is no job to stop then
+    const jobId = closedTerminals.has(bufid) ? undefined : await getJobId(bufid).catch(() => undefined)
+    if (jobId) nvim.call.jobstop(jobId)
+    nvim.cmd(`silent! bwipeout! ${bufid}`)
   },
 })
+
+export const getTerminal = (bufid: number) => {
+  const existing = terminals.get(bufid)
+  if (existing) return existing
+
+  const terminal = Terminal(bufid)
+  terminals.set(bufid, terminal)
+  return terminal
+}
+
+export const isOpenTerminal = (bufid: number) => !closedTerminals.has(bufid)
+
+export const getActiveTerminal = () => activeTerminal === undefined ? undefined : getTerminal(activeTerminal)
+
+const setActiveTerminal = (bufid?: number) => {
+  if (bufid === activeTerminal) return
+  activeTerminal = bufid
+  events.emit('changeActive', getActiveTerminal())
+}
+
+const closeTerminal = (bufid: number) => {
+  if (closedTerminals.has(bufid)) return
+  closedTerminals.add(bufid)
+  events.emit('close', getTerminal(bufid))
+
+  if (bufid !== activeTerminal) return
+  const openTerminals = [...terminals.keys()].filter(isOpenTerminal)
+  setActiveTerminal(openTerminals[openTerminals.length - 1])
+}
+
+nvim.on.termOpen(buffer => {
+  events.emit('open', getTerminal(buffer.id))
+  setActiveTerminal(buffer.id)
+})
+
+nvim.on.bufLoad(buffer => {
+  if (terminals.has(buffer.id) && isOpenTerminal(buffer.id)) setActiveTerminal(buffer.id)
+})
+
+nvim.on.termClose(buffer => closeTerminal(buffer.id))
+nvim.on.bufClose(buffer => {
+  if (terminals.has(buffer.id)) closeTerminal(buffer.id)
+  terminals.delete(buffer.id)
+  terminalNames.delete(buffer.id)
+})
+
+export const onTerminalOpen = (fn: (terminal: vsc.Terminal) => void) => events.on('open', fn)
+export const onTerminalClose = (fn: (terminal: vsc.Terminal) => void) => events.on('close', fn)
+export const onActiveTerminalChange = (fn: (terminal?: vsc.Terminal) => void) => events.on('changeActive', fn)
+
+export const createTerminal = (nameOrOptions?: string | vsc.TerminalOptions, shellPath?: string, shellArgs?: string[]) => {
+  const options: vsc.TerminalOptions = typeof nameOrOptions === 'object'
+    ? nameOrOptions
+    : { name: nameOrOptions, shellPath, shellArgs }
+
+  const args = options.shellArgs || []
+  // null env values remove the variable from the inherited environment
+  const env = options.env
+    ? [ 'env', ...Object.entries(options.env).reduce((res, [ key, val ]) => val === null
+      ? [ '-u', key, ...res ]
+      : [ ...res, `${key}=${val}` ], [] as string[]) ]
+    : []
+
+  const cmd = [ ...env, options.shellPath || process.env.SHELL || 'sh', ...args ]
+  const cwd = typeof options.cwd === 'object' ? options.cwd.fsPath : options.cwd || nvim.state.cwd
+
+  const bufid = nvimSync((nvim, cmd, cwd) => nvim.call.VeonimTerminalStart(cmd, cwd)).call(cmd, cwd)
+  if (options.name) terminalNames.set(bufid, options.name)
+  return getTerminal(bufid)
+}
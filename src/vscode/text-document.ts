@@ -6,8 +6,9 @@ import { wordDefinitions } from '../vscode/languages'
 import { Position, Range } from '../vscode/types'
 import nvimSync from '../neovim/sync-api-client'
 import TextLine from '../vscode/text-line'
-import { is } from '../support/utils'
+import { is, virtualDocumentUri } from '../support/utils'
 import { URI } from '../vscode/uri'
+import nvim from '../neovim/api'
 import * as vsc from 'vscode'
 
 export interface SuperTextDocument extends vsc.TextDocument {
@@ -23,7 +24,8 @@ const api = (bufid: number): SuperTextDocument => ({
   },
   get uri() {
     const name = nvimSync((nvim, id) => nvim.Buffer(id).name).call(bufid)
-    return URI.file(name)
+    const uri = virtualDocumentUri(name, nvim.state.schemes)
+    return uri ? URI.parse(uri) : URI.file(name)
   },
   get fileName() {
     return nvimSync((nvim, id) => nvim.Buffer(id).name).call(bufid)
@@ -0,0 +1,92 @@
+import { DecorationStyle, DecorationAttachmentStyle, DecorationRange } from '../protocols/vscode-ui'
+import { ui } from '../extension-host/bridge-api'
+import { uuid } from '../support/utils'
+import nvim from '../neovim/api'
+import * as vsc from 'vscode'
+
+const decoratedBuffers = new Set<number>()
+
+// ThemeColor ids refer to vscode themes. we only know about the colors
+// from the nvim colorscheme, so only css colors are supported
+const asColor = (color?: string | vsc.ThemeColor) => typeof color === 'string' ? color : undefined
+
+const definedOnly = <T extends object>(obj: T): T => Object.entries(obj).reduce((res, [ key, val ]) => {
+  if (val !== undefined) Reflect.set(res, key, val)
+  return res
+}, {} as T)
+
+const hasUnderline = (textDecoration?: string) => !!textDecoration && textDecoration.includes('underline')
+
+const asAttachment = (attachment?: vsc.ThemableDecorationAttachmentRenderOptions): DecorationAttachmentStyle | undefined => {
+  if (!attachment) return
+  return definedOnly({
+    contentText: attachment.contentText,
+    color: asColor(attachment.color),
+    backgroundColor: asColor(attachment.backgroundColor),
+    margin: attachment.margin ? true : undefined,
+  })
+}
+
+const asStyle = (options: vsc.ThemableDecorationRenderOptions = {}): Partial<DecorationStyle> => {
+  const border = !!(options.border || options.borderWidth || options.borderStyle || options.borderColor)
+  const outline = !!(options.outline || options.outlineWidth || options.outlineStyle || options.outlineColor)
+  const gutterIcon = options.gutterIconPath
+
+  return definedOnly({
+    color: asColor(options.color),
+    backgroundColor: asColor(options.backgroundColor),
+    border: border || outline || undefined,
+    borderColor: asColor(options.borderColor) || asColor(options.outlineColor),
+    underline: hasUnderline(options.textDecoration) || undefined,
+    opacity: options.opacity ? parseFloat(options.opacity) : undefined,
+    gutterIconPath: typeof gutterIcon === 'string' ? gutterIcon : gutterIcon && gutterIcon.fsPath,
+    before: asAttachment(options.before),
+    after: asAttachment(options.after),
+  })
+}
+
+// decorations are rendered by the UI thread which can not see buffer
+// changes. forward line changes so that decorations move with the text
+const trackLineChanges = (bufferId: number) => {
+  if (decoratedBuffers.has(bufferId)) return
+  decoratedBuffers.add(bufferId)
+
+  const buffer = nvim.Buffer(bufferId)
+  buffer.attach({ sendInitialBuffer: false }, ({ firstLine, lastLine, lineData }) => {
+    ui.decorations.changeLines(bufferId, firstLine, lastLine, lineData.length)
+  })
+  buffer.onDetach(() => decoratedBuffers.delete(bufferId))
+}
+
+export const setDecorations = (bufferId: number, decorationType: vsc.TextEditorDecorationType, rangesOrOptions: vsc.Range[] | vsc.DecorationOptions[]) => {
+  const ranges: DecorationRange[] = (rangesOrOptions as any[]).map(m => {
+    const { range, renderOptions = {} } = m.range ? m as vsc.DecorationOptions : { range: m as vsc.Range }
+    const { start, end } = range
+
+    return definedOnly({
+      range: [ start.line, start.character, end.line, end.character ] as DecorationRange['range'],
+      before: asAttachment(renderOptions.before),
+      after: asAttachment(renderOptions.after),
+    })
+  })
+
+  ui.decorations.set(bufferId, decorationType.key, ranges)
+  if (ranges.length) trackLineChanges(bufferId)
+}
+
+export default (options: vsc.DecorationRenderOptions): vsc.TextEditorDecorationType => {
+  const key = `TextEditorDecorationType-${uuid()}`
+
+  ui.decorations.createType({
+    key,
+    isWholeLine: !!options.isWholeLine,
+    style: asStyle(options) as DecorationStyle,
+    light: asStyle(options.light),
+    dark: asStyle(options.dark),
+  })
+
+  return {
+    key,
+    dispose: () => ui.decorations.disposeType(key),
+  }
+}
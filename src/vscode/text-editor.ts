@@ -1,18 +1,23 @@
-import { Position, Range, Selection, TextEditorLineNumbersStyle, ViewColumn, EndOfLine } from '../vscode/types'
+import { Position, Range, Selection, TextEdit, TextEditorLineNumbersStyle, ViewColumn, EndOfLine } from '../vscode/types'
+import { setDecorations } from '../vscode/text-editor-decoration-type'
 import TextDocument from '../vscode/text-document'
 import nvimSync from '../neovim/sync-api-client'
-import { CreateTask } from '../support/utils'
+import { insertSnippet } from '../neovim/snippets'
 import nvim from '../neovim/api'
 import * as vsc from 'vscode'
 
-const TextEditor = (winid: number): vsc.TextEditor => ({
-  get document() {
-    const bufid = nvimSync(async (nvim, id) => {
-      const buf = await nvim.Window(id).buffer
-      return buf.id
-    }).call(winid)
+const getBufferId = (winid: number): number => nvimSync(async (nvim, id) => {
+  const buf = await nvim.Window(id).buffer
+  return buf.id
+}).call(winid)
 
-    return TextDocument(bufid)
+const asTextEdit = (location: vsc.Position | vsc.Range, newText: string) => location instanceof Position
+  ? new TextEdit(new Range(location, location), newText)
+  : new TextEdit(location as Range, newText)
+
+const TextEditor = (winid: number, getViewColumn: () => ViewColumn | undefined): vsc.TextEditor => ({
+  get document() {
+    return TextDocument(getBufferId(winid))
   },
   // this only works for the current active window
   get selection() {
@@ -66,7 +71,7 @@ const TextEditor = (winid: number): vsc.TextEditor => ({
     const bottom = new Position(nvim.state.editorBottomLine + 1, 0)
     return [ new Range(top, bottom) ]
   },
-  viewColumn: ViewColumn.One,
+  get viewColumn() { return getViewColumn() },
   get options() {
     const { number, relativeNumber, tabstop, expandtab } = nvimSync(async (nvim, id) => {
       const win = nvim.Window(id)
@@ -88,60 +93,31 @@ const TextEditor = (winid: number): vsc.TextEditor => ({
         : number ? TextEditorLineNumbersStyle.On : TextEditorLineNumbersStyle.Off,
     }
   },
-  // TODO: do something with the options?
-  edit: editFn => {
-    const editTask = CreateTask()
-    let transactionComplete = false
-    const fin = () => {
-      transactionComplete = true
-      editTask.done(true)
-    }
-
-    const editBuilder: vsc.TextEditorEdit = {
-      replace: async (location, value) => {
-        if (transactionComplete) return
-        const buffer = await nvim.Window(winid).buffer
-
-        const range = location instanceof Position
-          ? new Range(location, location)
-          : location as Range
-
-        buffer.replaceRange(range, value)
-        fin()
-      },
-      insert: async (location, value) => {
-        if (transactionComplete) return
-        const buffer = await nvim.Window(winid).buffer
-        buffer.appendRange(location, value)
-        fin()
-      },
-      delete: async range => {
-        if (transactionComplete) return
-        const buffer = await nvim.Window(winid).buffer
-        buffer.deleteRange(range)
-        fin()
-      },
-      setEndOfLine: eol => {
-        if (transactionComplete) return
-        const fileformat = eol === EndOfLine.LF ? 'unix' : 'dos'
-        nvim.current.buffer.setOption('fileformat', fileformat)
-        fin()
-      },
-    }
-
-    editFn(editBuilder)
-    return editTask.promise as Promise<boolean>
+  // like vscode the edits are relative to the document before the edit and are
+  // applied together after the callback. the undo stop options are not supported
+  edit: async editFn => {
+    const edits: TextEdit[] = []
+    let endOfLine: EndOfLine | undefined
+
+    editFn({
+      replace: (location, value) => edits.push(asTextEdit(location, value)),
+      insert: (location, value) => edits.push(asTextEdit(location, value)),
+      delete: range => edits.push(asTextEdit(range, '')),
+      setEndOfLine: eol => endOfLine = eol,
+    })
+
+    const buffer = await nvim.Window(winid).buffer
+    if (endOfLine) buffer.setOption('fileformat', endOfLine === EndOfLine.LF ? 'unix' : 'dos')
+    return buffer.applyEdits(edits).then(() => true, () => false)
   },
-  // TODO: i want to wait for extended marks before implementing snippets
-  insertSnippet: () => {
-    console.warn('NYI: textEditor.insertSnippet')
-    return Promise.resolve(false)
+  // nvim has one cursor, so only the first location is used. only works for current window
+  insertSnippet: (snippet, location) => {
+    const target = Array.isArray(location) ? location[0] : location
+    const range = target instanceof Position ? new Range(target, target) : target as Range | undefined
+    return insertSnippet(snippet.value, range).then(() => true, () => false)
   },
-  // TODO: what are decorations? the references/git blame stuff in the editor?
-  // we could use the nvim virtual text annotations?
-  setDecorations: () => {
-    console.warn('NYI: textEditor.setDecorations')
-    // nvim.current.buffer.addVirtualText()
+  setDecorations: (decorationType, rangesOrOptions) => {
+    setDecorations(getBufferId(winid), decorationType, rangesOrOptions)
   },
   // only works for current window
   revealRange: range => {
@@ -151,11 +127,11 @@ const TextEditor = (winid: number): vsc.TextEditor => ({
   hide: () => console.warn('DEPRECATED: use workbench.action.closeActiveEditor'),
 })
 
-export default (winid: number) => {
+export default (winid: number, getViewColumn = () => ViewColumn.One as ViewColumn | undefined) => {
   if (typeof winid !== 'number') {
     console.error('invalid TextEditor window id:', winid)
     throw new Error('can not create TextEditor without a window id NUMBER')
   }
 
-  return TextEditor(winid)
+  return TextEditor(winid, getViewColumn)
 }
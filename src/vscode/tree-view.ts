@@ -0,0 +1,170 @@
+import { TreeItemCollapsibleState, ThemeIcon } from '../vscode/types'
+import { ui, uiEvent, ownEvents } from '../extension-host/bridge-api'
+import { TreeItemData } from '../protocols/vscode-ui'
+import pleaseGet from '../support/please-get'
+import extensions from '../vscode/extensions'
+import { Watcher } from '../support/utils'
+import commands from '../vscode/commands'
+import { basename } from 'path'
+import * as vsc from 'vscode'
+
+interface Events {
+  didExpandElement: vsc.TreeViewExpansionEvent<any>
+  didCollapseElement: vsc.TreeViewExpansionEvent<any>
+  didChangeSelection: vsc.TreeViewSelectionChangeEvent<any>
+  didChangeVisibility: vsc.TreeViewVisibilityChangeEvent
+}
+
+// the view name is only known from the extension package.json (contributes.views)
+const getViewTitle = (viewId: string) => {
+  const views = extensions.all.reduce((res, ext) => {
+    const containers: { [container: string]: any[] } = pleaseGet(ext.packageJSON).contributes.views({})
+    return Object.values(containers).reduce((list, m) => [ ...list, ...m ], res)
+  }, [] as any[])
+
+  const view = views.find((m: any) => m.id === viewId)
+  const name = view && view.name
+  return name && !name.startsWith('%') ? name : viewId
+}
+
+const getLabel = ({ label, resourceUri }: vsc.TreeItem) => {
+  if (label) return label
+  return resourceUri ? basename(resourceUri.path) : ''
+}
+
+const getIconPath = (iconPath: vsc.TreeItem['iconPath']) => {
+  if (!iconPath || iconPath instanceof ThemeIcon) return
+  const icon = typeof iconPath === 'object' && 'dark' in iconPath ? iconPath.dark : iconPath
+  return typeof icon === 'string' ? icon : (icon as vsc.Uri).fsPath
+}
+
+const asItemData = (handle: string, item: vsc.TreeItem): TreeItemData => ({
+  handle,
+  label: getLabel(item),
+  description: typeof item.description === 'string' ? item.description : undefined,
+  tooltip: item.tooltip,
+  contextValue: item.contextValue,
+  collapsibleState: item.collapsibleState || TreeItemCollapsibleState.None,
+  icon: item.iconPath instanceof ThemeIcon ? item.iconPath.id : undefined,
+  iconPath: getIconPath(item.iconPath),
+  resourcePath: item.resourceUri && item.resourceUri.path,
+  hasCommand: !!item.command,
+})
+
+export default <T>(viewId: string, { treeDataProvider }: vsc.TreeViewOptions<T>): vsc.TreeView<T> => {
+  const events = Watcher<Events>()
+  const elements = new Map<string, T>()
+  const handles = new Map<T, string>()
+  const treeItems = new Map<string, vsc.TreeItem>()
+  let visible = false
+  let selection: T[] = []
+
+  // elements do not have ids, so tree items without an id are identified by
+  // their position in the tree. this is stable enough to survive a refresh
+  const getHandle = (parentHandle: string, item: vsc.TreeItem, index: number) => item.id
+    ? `id:${item.id}`
+    : `${parentHandle}/${index}:${getLabel(item)}`
+
+  const sendChildren = async (parentHandle: string) => {
+    const parent = elements.get(parentHandle)
+    if (parentHandle && !parent) return
+
+    const children = (await treeDataProvider.getChildren(parent)) || []
+    const items = await Promise.all(children.map(m => treeDataProvider.getTreeItem(m)))
+
+    const data = items.map((item, ix) => {
+      const handle = getHandle(parentHandle, item, ix)
+      elements.set(handle, children[ix])
+      handles.set(children[ix], handle)
+      treeItems.set(handle, item)
+      return asItemData(handle, item)
+    })
+
+    ui.treeView.setChildren(viewId, parentHandle, data)
+  }
+
+  // the ui waits for the children of an expanded item, even if the provider fails
+  const getChildren = (parentHandle: string) => sendChildren(parentHandle).catch(err => {
+    console.error(`tree view ${viewId} failed to get children`, err)
+    ui.treeView.setChildren(viewId, parentHandle, [])
+  })
+
+  const ours = ownEvents(viewId)
+
+  const unsubscribers = [
+    uiEvent.treeView.onGetChildren(ours(getChildren)),
+    uiEvent.treeView.onExpand(ours((handle: string) => {
+      const element = elements.get(handle)
+      if (element) events.emit('didExpandElement', { element })
+    })),
+    uiEvent.treeView.onCollapse(ours((handle: string) => {
+      const element = elements.get(handle)
+      if (element) events.emit('didCollapseElement', { element })
+    })),
+    uiEvent.treeView.onSelect(ours((handle: string) => {
+      const element = elements.get(handle)
+      selection = element ? [ element ] : []
+      events.emit('didChangeSelection', { selection })
+    })),
+    uiEvent.treeView.onExecute(ours((handle: string) => {
+      const item = treeItems.get(handle)
+      if (!item || !item.command) return
+      const { command, arguments: args = [] } = item.command
+      Promise.resolve(commands.executeCommand(command, ...args)).catch(err => {
+        console.error(`tree view ${viewId} failed to run command ${command}`, err)
+      })
+    })),
+    uiEvent.treeView.onChangeVisibility(ours((isVisible: boolean) => {
+      visible = isVisible
+      events.emit('didChangeVisibility', { visible })
+    })),
+  ]
+
+  const treeDataChanged = treeDataProvider.onDidChangeTreeData && treeDataProvider.onDidChangeTreeData(element => {
+    const handle = element ? handles.get(element) : ''
+    if (handle !== undefined) ui.treeView.refresh(viewId, handle)
+  })
+
+  const eventreg = (name: keyof Events) => (fn: any, thisArg?: any) => ({
+    dispose: events.on(name, fn.bind(thisArg)),
+  })
+
+  ui.treeView.register(viewId, getViewTitle(viewId))
+
+  return {
+    get visible() { return visible },
+    get selection() { return selection },
+    onDidExpandElement: eventreg('didExpandElement'),
+    onDidCollapseElement: eventreg('didCollapseElement'),
+    onDidChangeSelection: eventreg('didChangeSelection'),
+    onDidChangeVisibility: eventreg('didChangeVisibility'),
+    reveal: async (element, options = {}) => {
+      const { select = true } = options
+      if (!treeDataProvider.getParent) return console.error(`TreeView.reveal for ${viewId} needs TreeDataProvider.getParent`)
+
+      const ancestors: T[] = []
+      let parent = await treeDataProvider.getParent(element)
+      while (parent) {
+        ancestors.unshift(parent)
+        parent = await treeDataProvider.getParent(parent)
+      }
+
+      // load every level of the tree down to the element so that it has a handle
+      const expandHandles: string[] = []
+      for (const node of [ ...ancestors, element ]) {
+        await sendChildren(expandHandles[expandHandles.length - 1] || '')
+        const handle = handles.get(node)
+        if (!handle) return console.error(`TreeView.reveal for ${viewId} could not find element`, node)
+        expandHandles.push(handle)
+      }
+
+      const handle = expandHandles.pop()!
+      ui.treeView.reveal(viewId, expandHandles, handle, select)
+    },
+    dispose: () => {
+      if (treeDataChanged) treeDataChanged.dispose()
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+      ui.treeView.dispose(viewId)
+    },
+  }
+}
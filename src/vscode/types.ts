@@ -1074,12 +1074,16 @@ export class SelectionRangeKind {
 
 export class SelectionRange {
 
-	kind: SelectionRangeKind;
 	range: Range;
+	parent?: SelectionRange;
 
-	constructor(kind: SelectionRangeKind, range: Range) {
-		this.kind = kind;
+	constructor(range: Range, parent?: SelectionRange) {
 		this.range = range;
+		this.parent = parent;
+
+		if (parent && !parent.range.contains(this.range)) {
+			throw new Error('Invalid argument: parent must contain this range');
+		}
 	}
 }
 
@@ -2078,6 +2082,13 @@ export enum LogLevel {
 
 //#region file api
 
+export enum FileType {
+	Unknown = 0,
+	File = 1,
+	Directory = 2,
+	SymbolicLink = 64
+}
+
 export enum FileChangeType {
 	Changed = 1,
 	Created = 2,
@@ -0,0 +1,217 @@
+import extensions, { activateWebviewPanelExtensions } from '../vscode/extensions'
+import { ui, uiEvent, ownEvents } from '../extension-host/bridge-api'
+import { WebviewPanelData } from '../protocols/vscode-ui'
+import { isUnderRoot, resourceUrl } from '../support/webview-resources'
+import { EXT_DATA_PATH } from '../support/config-paths'
+import createMemento from '../support/memento'
+import { Watcher, uuid } from '../support/utils'
+import { ViewColumn } from '../vscode/types'
+import workspace from '../vscode/workspace'
+import { URI } from '../vscode/uri'
+import { join, sep } from 'path'
+import * as vsc from 'vscode'
+
+interface Events {
+  didReceiveMessage: any
+  didChangeViewState: vsc.WebviewPanelOnDidChangeViewStateEvent
+  didDispose: void
+}
+
+interface ShowOptions {
+  viewColumn: vsc.ViewColumn
+  preserveFocus?: boolean
+}
+
+interface PersistedPanels {
+  [id: string]: WebviewPanelData
+}
+
+const PERSISTED_PANELS = 'panels'
+const serializers = new Map<string, vsc.WebviewPanelSerializer>()
+const livePanels = new Map<string, WebviewPanelData>()
+const memento = createMemento(join(EXT_DATA_PATH, 'webview-panels.json'))
+
+// panels from the previous session are restored only if an extension registers
+// a serializer for the viewType. panels that are not restored are forgotten
+const pendingPanels = memento.then(db => {
+  const panels = db.get<PersistedPanels>(PERSISTED_PANELS, {})!
+  db.update(PERSISTED_PANELS, {})
+  return new Map(Object.entries(panels))
+})
+
+const persistPanels = async () => {
+  const db = await memento
+  const panels = [...livePanels.values()].reduce((res, panel) => ({ ...res, [panel.id]: panel }), {})
+  db.update(PERSISTED_PANELS, panels)
+}
+
+extensions.onDidChange(async () => {
+  const panels = await pendingPanels
+  const viewTypes = new Set([...panels.values()].map(m => m.viewType))
+  viewTypes.forEach(activateWebviewPanelExtensions)
+})
+
+const getShowOptions = (showOptions: vsc.ViewColumn | ShowOptions): ShowOptions => typeof showOptions === 'object'
+  ? showOptions
+  : { viewColumn: showOptions }
+
+// all extensions share the vscode api. the extension that owns a panel is the
+// first extension in the call stack of createWebviewPanel
+const findCallingExtension = () => {
+  const stack = new Error().stack || ''
+  const [ caller ] = extensions.all
+    .map(extension => ({ extension, index: stack.indexOf(extension.extensionPath + sep) }))
+    .filter(m => m.index >= 0)
+    .sort((a, b) => a.index - b.index)
+
+  return caller && caller.extension
+}
+
+// like vscode, webviews can load resources from the workspace folders
+// and from the extension that owns the panel by default
+const defaultResourceRoots = () => {
+  const owner = findCallingExtension()
+  const folders = (workspace.workspaceFolders || []).map(m => m.uri)
+  return owner ? [ ...folders, URI.file(owner.extensionPath) ] : folders
+}
+
+const WebviewPanel = (panel: WebviewPanelData, options: vsc.WebviewPanelOptions & vsc.WebviewOptions, viewColumn?: vsc.ViewColumn): vsc.WebviewPanel => {
+  const { id } = panel
+  const events = Watcher<Events>()
+  let html = ''
+  let webviewOptions: vsc.WebviewOptions = options
+  let disposed = false
+
+  const state = {
+    visible: true,
+    active: true,
+    viewColumn,
+  }
+
+  livePanels.set(id, panel)
+  persistPanels()
+
+  const update = (patch: Partial<WebviewPanelData>) => {
+    Object.assign(panel, patch)
+    persistPanels()
+    if (!disposed) ui.webview.update(panel)
+  }
+
+  const ours = ownEvents(id)
+
+  const unsubscribers = [
+    uiEvent.webview.onReceiveMessage(ours(message => events.emit('didReceiveMessage', message))),
+    uiEvent.webview.onSetState(ours(webviewState => {
+      panel.state = webviewState
+      persistPanels()
+    })),
+    uiEvent.webview.onChangeViewState(ours((visible: boolean, active: boolean) => {
+      if (state.visible === visible && state.active === active) return
+      Object.assign(state, { visible, active })
+      events.emit('didChangeViewState', { webviewPanel: api })
+    })),
+  ]
+
+  const eventreg = (name: keyof Events) => (fn: any, thisArg?: any) => ({
+    dispose: events.on(name, fn.bind(thisArg)),
+  })
+
+  const webview: vsc.Webview & { asWebviewUri(uri: vsc.Uri): vsc.Uri, cspSource: string } = {
+    get options() { return webviewOptions },
+    set options(nextOptions) {
+      webviewOptions = nextOptions
+      update({
+        enableScripts: !!nextOptions.enableScripts,
+        localResourceRoots: (nextOptions.localResourceRoots || []).map(m => m.fsPath),
+      })
+    },
+    get html() { return html },
+    set html(nextHtml) {
+      html = nextHtml
+      if (!disposed) ui.webview.setHtml(id, html)
+    },
+    onDidReceiveMessage: eventreg('didReceiveMessage'),
+    postMessage: async message => {
+      if (disposed) return false
+      ui.webview.postMessage(id, message)
+      return true
+    },
+    // the ui only allows vscode-resource: urls that are in localResourceRoots
+    asWebviewUri: uri => isUnderRoot(uri.fsPath, panel.localResourceRoots)
+      ? URI.parse(resourceUrl(id, uri.fsPath))
+      : uri,
+    cspSource: 'vscode-resource:',
+  }
+
+  const api: vsc.WebviewPanel = {
+    viewType: panel.viewType,
+    webview,
+    options,
+    get title() { return panel.title },
+    set title(title) { update({ title }) },
+    get viewColumn() { return state.viewColumn },
+    get active() { return state.active },
+    get visible() { return state.visible },
+    onDidChangeViewState: eventreg('didChangeViewState'),
+    onDidDispose: eventreg('didDispose'),
+    reveal: (viewColumn = ViewColumn.Active, preserveFocus = false) => {
+      if (disposed) return
+      state.viewColumn = viewColumn
+      ui.webview.reveal(id, viewColumn, preserveFocus)
+    },
+    dispose: () => {
+      if (disposed) return
+      disposed = true
+      livePanels.delete(id)
+      persistPanels()
+      ui.webview.dispose(id)
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+      events.emit('didDispose')
+    },
+  }
+
+  return api
+}
+
+export const createWebviewPanel = (viewType: string, title: string, showOptions: vsc.ViewColumn | ShowOptions, options: vsc.WebviewPanelOptions & vsc.WebviewOptions = {}) => {
+  const { viewColumn, preserveFocus = false } = getShowOptions(showOptions)
+  const localResourceRoots = options.localResourceRoots || defaultResourceRoots()
+
+  const panel: WebviewPanelData = {
+    id: uuid(),
+    viewType,
+    title,
+    enableScripts: !!options.enableScripts,
+    localResourceRoots: localResourceRoots.map(m => m.fsPath),
+  }
+
+  ui.webview.create(panel, viewColumn, preserveFocus)
+  return WebviewPanel(panel, options, viewColumn)
+}
+
+export const registerWebviewPanelSerializer = (viewType: string, serializer: vsc.WebviewPanelSerializer): vsc.Disposable => {
+  serializers.set(viewType, serializer)
+
+  pendingPanels.then(panels => [...panels.values()]
+    .filter(m => m.viewType === viewType)
+    .forEach(async persisted => {
+      if (serializers.get(viewType) !== serializer) return
+      panels.delete(persisted.id)
+      const panel = { ...persisted }
+      ui.webview.create(panel, ViewColumn.Beside, true)
+
+      const webviewPanel = WebviewPanel(panel, {
+        enableScripts: panel.enableScripts,
+        localResourceRoots: panel.localResourceRoots.map(m => URI.file(m)),
+      }, ViewColumn.Beside)
+
+      try {
+        await serializer.deserializeWebviewPanel(webviewPanel, panel.state)
+      } catch(err) {
+        console.error(`failed to restore webview panel ${viewType}`, err)
+        webviewPanel.dispose()
+      }
+    }))
+
+  return { dispose: () => serializers.delete(viewType) }
+}
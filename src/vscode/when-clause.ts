@@ -0,0 +1,31 @@
+export interface ContextKeys {
+  [key: string]: string | boolean | undefined
+}
+
+const unquote = (value: string) => value.trim().replace(/^'(.*)'$/, '$1')
+
+const evaluateTerm = (term: string, context: ContextKeys): boolean => {
+  const expression = term.trim()
+  if (expression === 'true') return true
+  if (expression === 'false') return false
+
+  const [ , key, operator, value ] = expression.match(/^([\w.]+)\s*(==|!=|=~)\s*(.+)$/) || [] as string[]
+  if (operator === '==') return String(context[key]) === unquote(value)
+  if (operator === '!=') return String(context[key]) !== unquote(value)
+  if (operator === '=~') {
+    const [ , pattern, flags ] = value.trim().match(/^\/(.*)\/(\w*)$/) || [] as string[]
+    return pattern !== undefined && new RegExp(pattern, flags).test(String(context[key] || ''))
+  }
+
+  if (expression.startsWith('!')) return !evaluateTerm(expression.slice(1), context)
+  return !!context[expression]
+}
+
+/** Evaluate the "when" clause of a contribution in an extension package.json. Context keys
+ * that are not given are undefined, like in vscode when no one has set them */
+export const evaluateWhen = (when: string | undefined, context: ContextKeys) => {
+  if (!when) return true
+  return when
+    .split('||')
+    .some(alternative => alternative.split('&&').every(term => evaluateTerm(term, context)))
+}
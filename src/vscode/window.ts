@@ -1,23 +1,30 @@
-import { showMessage, showStatusBarMessage, showProgressMessage } from '../extension-host/bridge-api'
+import { showMessage, showStatusBarMessage, showProgressMessage, ui, uiEvent } from '../extension-host/bridge-api'
+import { StatusBarItemShow, FileDialogShow, ProgressShow } from '../protocols/vscode-ui'
+import { asBufferName } from '../extension-host/text-document-content'
 import OutputChannel from '../vscode/output-channel'
-import { is, Watcher, uuid } from '../support/utils'
-import { StatusBarAlignment } from '../vscode/types'
+import { is, Watcher, uuid, virtualDocumentUri } from '../support/utils'
+import { StatusBarAlignment, ProgressLocation } from '../vscode/types'
 import { MessageKind } from '../protocols/veonim'
 import { makeCancelToken } from '../vscode/tools'
+import { Omit } from '../support/types'
+import QuickPick from '../vscode/quick-pick'
+import commands from '../vscode/commands'
+import InputBox from '../vscode/input-box'
 import nvimSync from '../neovim/sync-api-client'
-import TextEditor from '../vscode/text-editor'
-import Terminal from '../vscode/terminal'
+import TextEditorDecorationType from '../vscode/text-editor-decoration-type'
+import { events as editorEvents, Events as EditorEvents, getActiveTextEditor, getVisibleTextEditors, showTextDocument } from '../extension-host/text-editors'
+import { createWebviewPanel, registerWebviewPanelSerializer } from '../vscode/webview-panel'
+import TreeView from '../vscode/tree-view'
+import workspace from '../vscode/workspace'
+import { URI } from '../vscode/uri'
+import { createTerminal, getTerminal, getActiveTerminal, isOpenTerminal, onTerminalOpen, onTerminalClose, onActiveTerminalChange } from '../vscode/terminal'
 import nvim from '../neovim/api'
+import { basename, dirname } from 'path'
 import * as vsc from 'vscode'
 
 interface Events {
   didChangeWindowState: vsc.WindowState
-  didChangeActiveTextEditor: vsc.TextEditor | undefined
-  didChangeVisibleTextEditors: vsc.TextEditor[]
-  didChangeTextEditorSelection: vsc.TextEditorSelectionChangeEvent
-  didChangeTextEditorVisibleRanges: vsc.TextEditorVisibleRangesChangeEvent
   didChangeTextEditorOptions: vsc.TextEditorOptionsChangeEvent
-  didChangeTextEditorViewColumn: vsc.TextEditorViewColumnChangeEvent
   didChangeActiveTerminal: vsc.Terminal | undefined
   didOpenTerminal: vsc.Terminal
   didCloseTerminal: vsc.Terminal
@@ -41,39 +48,274 @@ const unifyMessage = ([ message, ...stuff ]: any[]): UnifiedMessage => {
 }
 
 const makeStatusBarItem = (alignment = StatusBarAlignment.Left, priority = 0): vsc.StatusBarItem => {
-  let text = ''
-  let tooltip: string | undefined
-  let color: string | vsc.ThemeColor | undefined
-  let command: string | undefined
+  const id = uuid()
+  let visible = false
+
+  const state = {
+    text: '',
+    tooltip: undefined as string | undefined,
+    color: undefined as string | vsc.ThemeColor | undefined,
+    command: undefined as string | undefined,
+  }
+
+  const render = (): StatusBarItemShow => ({
+    id,
+    alignment,
+    priority,
+    text: state.text,
+    tooltip: state.tooltip,
+    // ThemeColor ids refer to vscode themes which we do not have
+    color: typeof state.color === 'string' ? state.color : undefined,
+    clickable: !!state.command,
+  })
+
+  const update = (patch: Partial<typeof state>) => {
+    Object.assign(state, patch)
+    if (visible) ui.statusBarItem.show(render())
+  }
+
+  const unsubscribe = uiEvent.statusBarItem.onClick(itemId => {
+    if (itemId === id && state.command) commands.executeCommand(state.command)
+  })
 
   const api: vsc.StatusBarItem = {
     get alignment() { return alignment },
     get priority() { return priority },
-    get text() { return text },
-    set text(m) { text = m },
-    get tooltip() { return tooltip },
-    set tooltip(m) { tooltip = m },
-    get color() { return color },
-    set color(m) { color = m },
-    get command() { return command },
-    set command(m) { command = m },
-    // TODO: hookup to UI
-    show: () => console.warn('NYI: StatusBarItem.show()', api),
-    // TODO: is hide supposed to also call dispose()? the typings docs
-    // say something about that but it is ambigious. should check src
-    hide: () => console.warn('NYI: StatusBarItem.hide()', api),
-    dispose: () => console.warn('NYI: StatusBarItem.dispose()', api),
+    get text() { return state.text },
+    set text(text) { update({ text }) },
+    get tooltip() { return state.tooltip },
+    set tooltip(tooltip) { update({ tooltip }) },
+    get color() { return state.color },
+    set color(color) { update({ color }) },
+    get command() { return state.command },
+    set command(command) { update({ command }) },
+    show: () => {
+      visible = true
+      ui.statusBarItem.show(render())
+    },
+    hide: () => {
+      if (!visible) return
+      visible = false
+      ui.statusBarItem.hide(id)
+    },
+    dispose: () => {
+      api.hide()
+      unsubscribe()
+    },
   }
 
   return api
 }
 
+type QuickPickItems = string[] | vsc.QuickPickItem[]
+
+const showQuickPick = (
+  itemsOrPromise: QuickPickItems | Thenable<QuickPickItems>,
+  options = {} as vsc.QuickPickOptions,
+  token?: vsc.CancellationToken,
+): Promise<any> => new Promise((done, fail) => {
+  const quickPick = QuickPick()
+  const canPickMany = !!options.canPickMany
+  let originalItems: any[] = []
+  let finished = false
+
+  Object.assign(quickPick, {
+    busy: true,
+    canSelectMany: canPickMany,
+    placeholder: options.placeHolder,
+    ignoreFocusOut: !!options.ignoreFocusOut,
+    matchOnDescription: !!options.matchOnDescription,
+    matchOnDetail: !!options.matchOnDetail,
+  })
+
+  const original = (item: vsc.QuickPickItem) => originalItems[quickPick.items.indexOf(item)]
+
+  const finish = (result: any, error?: Error) => {
+    if (finished) return
+    finished = true
+    error ? fail(error) : done(result)
+    quickPick.dispose()
+  }
+
+  quickPick.onDidAccept(() => canPickMany
+    ? finish(quickPick.selectedItems.map(original))
+    : finish(original(quickPick.selectedItems[0] || quickPick.activeItems[0])))
+
+  quickPick.onDidHide(() => finish(undefined))
+
+  if (options.onDidSelectItem) quickPick.onDidChangeActive(([ item ]) => {
+    if (item) options.onDidSelectItem!(original(item))
+  })
+
+  if (token) token.onCancellationRequested(() => quickPick.hide())
+
+  quickPick.show()
+
+  // items that fail to load reject the pick like in vscode
+  Promise.resolve(itemsOrPromise).then(items => {
+    originalItems = items
+    quickPick.items = originalItems.map(item => is.string(item) ? { label: item } : item)
+    quickPick.busy = false
+  }).catch(error => finish(undefined, error))
+})
+
+const showInputBox = (
+  options = {} as vsc.InputBoxOptions,
+  token?: vsc.CancellationToken,
+): Promise<string | undefined> => new Promise(done => {
+  const inputBox = InputBox({ valueSelection: options.valueSelection })
+  let finished = false
+
+  Object.assign(inputBox, {
+    value: options.value || '',
+    prompt: options.prompt,
+    placeholder: options.placeHolder,
+    password: !!options.password,
+    ignoreFocusOut: !!options.ignoreFocusOut,
+  })
+
+  // a validator that throws shows the error instead of leaving the input box stuck
+  const validationMessage = async (value: string) => {
+    if (!options.validateInput) return
+    try { return await options.validateInput(value) || undefined }
+    catch (error) { return (error && error.message) || String(error) }
+  }
+
+  const validate = async (value: string) => {
+    const message = await validationMessage(value)
+    // the user may have typed more while validation was running
+    if (value === inputBox.value) inputBox.validationMessage = message || undefined
+  }
+
+  const finish = (result?: string) => {
+    if (finished) return
+    finished = true
+    done(result)
+    inputBox.dispose()
+  }
+
+  inputBox.onDidChangeValue(validate)
+
+  inputBox.onDidAccept(async () => {
+    const { value } = inputBox
+    const message = await validationMessage(value)
+    if (message) inputBox.validationMessage = message
+    else finish(value)
+  })
+
+  inputBox.onDidHide(() => finish(undefined))
+
+  if (token) token.onCancellationRequested(() => inputBox.hide())
+
+  inputBox.show()
+  validate(inputBox.value)
+})
+
+// paths of file system providers are uri buffer names like memfs:/src/index.ts
+const asUri = (path: string) => {
+  const name = virtualDocumentUri(path, nvim.state.schemes)
+  return name ? URI.parse(name) : URI.file(path)
+}
+
+// a '*' filter allows any file
+const filterExtensions = (filters = {} as { [name: string]: string[] }) => {
+  const extensions = Object.values(filters).reduce((res, m) => [ ...res, ...m ], [] as string[])
+  return extensions.includes('*') ? [] : extensions
+}
+
+const showFileDialog = (dialog: Omit<FileDialogShow, 'id'>): Promise<vsc.Uri[] | undefined> => new Promise(done => {
+  const id = uuid()
+
+  const finish = (paths?: string[]) => {
+    unsubscribeAccept()
+    unsubscribeHide()
+    done(paths && paths.map(asUri))
+  }
+
+  const unsubscribeAccept = uiEvent.fileDialog.onAccept((dialogId, paths) => dialogId === id && finish(paths))
+  const unsubscribeHide = uiEvent.fileDialog.onHide(dialogId => dialogId === id && finish())
+
+  ui.fileDialog.show({ id, ...dialog })
+})
+
+const showOpenDialog = async (options = {} as vsc.OpenDialogOptions) => showFileDialog({
+  kind: 'open',
+  title: options.openLabel,
+  path: options.defaultUri ? asBufferName(options.defaultUri) : nvim.state.cwd,
+  canSelectFiles: options.canSelectFiles !== false,
+  canSelectFolders: !!options.canSelectFolders,
+  canSelectMany: !!options.canSelectMany,
+  extensions: filterExtensions(options.filters),
+})
+
+const showSaveDialog = async (options = {} as vsc.SaveDialogOptions) => {
+  const path = options.defaultUri && asBufferName(options.defaultUri)
+  const uris = await showFileDialog({
+    kind: 'save',
+    title: options.saveLabel,
+    path: path ? dirname(path) : nvim.state.cwd,
+    name: path && basename(path),
+    canSelectFiles: true,
+    canSelectFolders: false,
+    canSelectMany: false,
+    extensions: filterExtensions(options.filters),
+  })
+  return uris && uris[0]
+}
+
+const showWorkspaceFolderPick = async (options = {} as vsc.WorkspaceFolderPickOptions) => {
+  const folders = workspace.workspaceFolders || []
+  if (!folders.length) return
+
+  const picked = await showQuickPick(folders.map(folder => ({
+    label: folder.name,
+    description: folder.uri.fsPath,
+    folder,
+  })), options)
+
+  return picked && picked.folder as vsc.WorkspaceFolder
+}
+
+type ProgressTask<R> = (progress: vsc.Progress<{ message?: string, increment?: number }>, token: vsc.CancellationToken) => Thenable<R>
+
+// every task is shown until it is done, so several tasks can run at the same time
+const showLocationProgress = async <R>(location: ProgressShow['location'], options: Omit<vsc.ProgressOptions, 'location'>, task: ProgressTask<R>) => {
+  const id = uuid()
+  const token = makeCancelToken(id)
+  const progress: ProgressShow = { id, location, title: options.title, cancellable: !!options.cancellable }
+  const unsubscribe = uiEvent.progress.onCancel(progressId => progressId === id && token.cancel())
+
+  const report = ({ message, increment }: { message?: string, increment?: number }) => {
+    if (message !== undefined) progress.message = message
+    if (increment) progress.percentage = Math.min((progress.percentage || 0) + increment, 100)
+    ui.progress.show(progress)
+  }
+
+  ui.progress.show(progress)
+
+  try {
+    return await task({ report }, token.token)
+  } finally {
+    unsubscribe()
+    token.dispose()
+    ui.progress.hide(id)
+  }
+}
+
 const events = Watcher<Events>()
 
+onTerminalOpen(terminal => events.emit('didOpenTerminal', terminal))
+onTerminalClose(terminal => events.emit('didCloseTerminal', terminal))
+onActiveTerminalChange(terminal => events.emit('didChangeActiveTerminal', terminal))
+
 const eventreg = (name: keyof Events) => (fn: any, thisArg?: any) => ({
   dispose: events.on(name, fn.bind(thisArg)),
 })
 
+const editorEventreg = (name: keyof EditorEvents) => (fn: any, thisArg?: any) => ({
+  dispose: editorEvents.on(name, fn.bind(thisArg)),
+})
+
 // @ts-ignore
 const window: typeof vsc.window = {
   get state() {
@@ -83,35 +325,26 @@ const window: typeof vsc.window = {
     return { focused: true }
   },
   get activeTextEditor() {
-    return TextEditor(nvim.current.window.id)
+    return getActiveTextEditor()
   },
+  // selections and visible ranges are only available for the active editor. visual
+  // selections in nvim are not preserved when switching windows like in vscode
   get visibleTextEditors() {
-    // while we could query all current windows in the tabpage, we can't
-    // perform all necessary buffer operations on inactive windows.
-    // for example, visual selections in nvim are not preserved when
-    // switching windows. in vscode that is indeed possible.
-    // so for now, we will only return the current active window
-    return [ TextEditor(nvim.current.window.id) ]
+    return getVisibleTextEditors()
   },
   get activeTerminal() {
-    const { bufferId, isTerminal } = nvimSync(async nvim => {
-      const currentBuffer = await nvim.current.window.buffer
-      return {
-        bufferId: currentBuffer.id,
-        isTerminal: await currentBuffer.isTerminal(),
-      }
-    }).call()
-
-    if (isTerminal) return Terminal(bufferId)
+    return getActiveTerminal()
   },
   get terminals() {
     const terminalBufferIds = nvimSync(async nvim => {
       const buffers = await nvim.buffers.list()
-      const terminalBuffers = await Promise.all(buffers.filter(b => b.isTerminal()))
-      return terminalBuffers.map(b => b.id)
+      const terminalChecks = await Promise.all(buffers.map(b => b.isTerminal()))
+      return buffers.filter((_, ix) => terminalChecks[ix]).map(b => b.id)
     }).call()
 
-    return terminalBufferIds.map(bufid => Terminal(bufid))
+    return terminalBufferIds
+      .filter(isOpenTerminal)
+      .map(getTerminal)
   },
   showInformationMessage: async (...a: any[]) => {
     const { message, actions } = unifyMessage(a)
@@ -128,46 +361,16 @@ const window: typeof vsc.window = {
     const { promise } = await showMessage({ message, kind: MessageKind.Error, actions })
     return promise
   },
-  showQuickPick: () => {
-    console.warn('NYI: window.showQuickPick')
-    return Promise.resolve(undefined)
-  },
-  showWorkspaceFolderPick: () => {
-    console.warn('NYI: window.showWorkspaceFolderPick')
-    return Promise.resolve(undefined)
-  },
-  showOpenDialog: () => {
-    console.warn('NYI: window.showOpenDialog')
-    return Promise.resolve(undefined)
-  },
-  showSaveDialog: () => {
-    console.warn('NYI: window.showSaveDialog')
-    return Promise.resolve(undefined)
-  },
-  showInputBox: (options = {}) => {
-    // TODO: support more options and cancel token with a custom input
-    // prompt instead of the nvim built-in one. i think we can still leverage
-    // the nvim input, we just need to signal the UI some additional properties
-    // for the next cmdline event update
-    return nvim.call.input(options.prompt, options.value)
-  },
-  // @ts-ignore
-  createInputBox: () => {
-    console.warn('NYI: window.createInputBox')
-  },
-  // @ts-ignore
-  createTextEditorDecorationType: () => {
-    console.warn('NYI: window.createTextEditorDecorationType')
-  },
-  // @ts-ignore
-  createQuickPick: () => {
-    console.warn('NYI: window.createQuickPick')
-  },
+  showQuickPick,
+  showWorkspaceFolderPick,
+  showOpenDialog,
+  showSaveDialog,
+  showInputBox,
+  createInputBox: () => InputBox(),
+  createTextEditorDecorationType: options => TextEditorDecorationType(options),
+  createQuickPick: QuickPick,
   createOutputChannel: name => OutputChannel(name),
-  // @ts-ignore
-  createWebviewPanel: () => {
-    console.warn('NYI: window.createWebviewPanel')
-  },
+  createWebviewPanel,
   setStatusBarMessage: (text: string, timeoutOrThenable?: any) => {
     showStatusBarMessage(text)
     // TODO: this is a real shit way of doing because we could be overriding
@@ -180,23 +383,19 @@ const window: typeof vsc.window = {
     }
     return { dispose: () => showStatusBarMessage('') }
   },
-  // @ts-ignore
-  withScmProgress: () => {
-    console.warn('NYI: window.withScmProgress')
-  },
+  // the deprecated scm progress reports increments without messages
+  withScmProgress: task => showLocationProgress('scm', {}, progress => task({
+    report: increment => progress.report({ increment }),
+  })),
   withProgress: async (options, task) => {
-    const token = makeCancelToken(uuid())
-
-    if (options.location !== 15) {
-      console.warn('NYI: withProgress - not supported non ProgressLocation.Notification', options)
-      const progress = {
-        report: (_: any) => {},
-      }
-      return task(progress, token.token)
+    if (options.location === ProgressLocation.Window) return showLocationProgress('window', options, task)
+    if (options.location === ProgressLocation.SourceControl) return showLocationProgress('scm', options, task)
+    // progress for locations that are not drawn (like views) is not shown anywhere
+    if (options.location !== ProgressLocation.Notification) {
+      return task({ report: () => {} }, makeCancelToken(uuid()).token)
     }
 
-    // TODO: support ProgressLocation.Window (status bar)
-    // TODO: support ProgressLocation.SourceControl
+    const token = makeCancelToken(uuid())
     const msg = await showProgressMessage({
       message: options.title || '',
       kind: MessageKind.Progress,
@@ -215,41 +414,25 @@ const window: typeof vsc.window = {
     return task(progress, token.token)
   },
   createStatusBarItem: makeStatusBarItem,
-  // @ts-ignore
-  createTerminal: () => {
-    // TODO: this is easy to do, but where do we show the new term buffer?
-    console.warn('NYI: window.createTerminal')
-  },
-  // @ts-ignore
-  registerTreeDataProvider: () => {
-    console.warn('NYI: window.registerTreeDataProvider')
-  },
-  // @ts-ignore
-  createTreeView: () => {
-    console.warn('NYI: window.createTreeView')
-  },
+  createTerminal,
+  registerTreeDataProvider: (viewId, treeDataProvider) => TreeView(viewId, { treeDataProvider }),
+  createTreeView: (viewId, options) => TreeView(viewId, options),
   // @ts-ignore
   registerUriHandler: () => {
     console.warn('NYI: window.registerUriHandler')
   },
-  // @ts-ignore
-  registerWebviewPanelSerializer: () => {
-    console.warn('NYI: window.registerWebviewPanelSerializer')
-  },
-  // TODO: get the argument types here
-  // @ts-ignore
-  showTextDocument: async (documentOrUri: any, optionsOrColumn: any) => {
-    console.warn('NYI: window.showTextDocument', documentOrUri, optionsOrColumn)
-    return TextEditor(-1)
+  registerWebviewPanelSerializer,
+  showTextDocument: (documentOrUri: any, columnOrOptions?: any, preserveFocus?: boolean) => {
+    return showTextDocument(documentOrUri, columnOrOptions, preserveFocus)
   },
   onDidChangeWindowState: eventreg('didChangeWindowState'),
-  onDidChangeActiveTextEditor: eventreg('didChangeActiveTextEditor'),
-  onDidChangeVisibleTextEditors: eventreg('didChangeVisibleTextEditors'),
+  onDidChangeActiveTextEditor: editorEventreg('didChangeActiveTextEditor'),
+  onDidChangeVisibleTextEditors: editorEventreg('didChangeVisibleTextEditors'),
 
-  onDidChangeTextEditorSelection: eventreg('didChangeTextEditorSelection'),
-  onDidChangeTextEditorVisibleRanges: eventreg('didChangeTextEditorVisibleRanges'),
+  onDidChangeTextEditorSelection: editorEventreg('didChangeTextEditorSelection'),
+  onDidChangeTextEditorVisibleRanges: editorEventreg('didChangeTextEditorVisibleRanges'),
   onDidChangeTextEditorOptions: eventreg('didChangeTextEditorOptions'),
-  onDidChangeTextEditorViewColumn: eventreg('didChangeTextEditorViewColumn'),
+  onDidChangeTextEditorViewColumn: editorEventreg('didChangeTextEditorViewColumn'),
   onDidChangeActiveTerminal: eventreg('didChangeActiveTerminal'),
   onDidOpenTerminal: eventreg('didOpenTerminal'),
   onDidCloseTerminal: eventreg('didCloseTerminal'),
@@ -1,8 +1,12 @@
+import { onDidChange as onDidChangeConfiguration } from '../extension-host/configuration-store'
+import { registerTextDocumentContentProvider, asBufferName } from '../extension-host/text-document-content'
+import { registerFileSystemProvider, getFileSystemProvider, createFile, renameFile, deleteFile } from '../extension-host/file-system'
 import WorkspaceConfiguration from '../vscode/workspace-configuration'
 import TextDocumentManager from '../neovim/text-document-manager'
 import { Watcher, pathRelativeToCwd, is } from '../support/utils'
-import makeFileSystemWatcher from '../vscode/filesystem-watcher'
+import makeFileSystemWatcher, { workspaceFileEvent } from '../vscode/filesystem-watcher'
 import TextDocument from '../vscode/text-document'
+import findFiles from '../vscode/find-files'
 import nvimSync from '../neovim/sync-api-client'
 import { on } from '../messaging/worker-client'
 import { WorkspaceEdit } from '../vscode/types'
@@ -19,7 +23,6 @@ interface Events {
   didChangeTextDocument: vsc.TextDocumentChangeEvent
   willSaveTextDocument: vsc.TextDocumentWillSaveEvent
   didSaveTextDocument: vsc.TextDocument
-  // TODO: no didChangeConfig emitters yet
   didChangeConfiguration: vsc.ConfigurationChangeEvent
 }
 
@@ -54,6 +57,12 @@ tdm.on.didSave(({ id }) => events.emit('didSaveTextDocument', TextDocument(id)))
 
 tdm.on.didClose(({ id }) => events.emit('didCloseTextDocument', TextDocument(id)))
 
+onDidChangeConfiguration(keys => events.emit('didChangeConfiguration', {
+  affectsConfiguration: (section: string) => keys.some(key => key === section
+    || key.startsWith(`${section}.`)
+    || section.startsWith(`${key}.`)),
+}))
+
 const eventreg = (name: keyof Events) => (fn: any, thisArg?: any) => ({
   dispose: events.on(name, fn.bind(thisArg)),
 })
@@ -85,16 +94,20 @@ const workspace: typeof vsc.workspace = {
   createFileSystemWatcher: makeFileSystemWatcher,
   // TODO: nvim does not provide a save buffers in background option yet
   saveAll: () => Promise.resolve(false),
-  findFiles: async () => {
-    // TODO: vscode has a glob module built-in. we have it in veonim src
-    console.warn('NYI: workspace.findFiles')
-    return []
-  },
+  findFiles,
   applyEdit: async workspaceEdit => {
     // vscode does the same weird hack here, so shush
     const entries = (workspaceEdit as WorkspaceEdit)._allEntries()
 
     const editRequests = entries.map(async ([ arg1, arg2 ], fileEditIx) => {
+      // files from file system providers are changed through the provider
+      const uri = (URI.isUri(arg1) ? arg1 : arg2) as vsc.Uri
+      if (!Array.isArray(arg2) && getFileSystemProvider(uri)) {
+        if (arg1 == null) return createFile(uri)
+        if (arg2 == null) return deleteFile(uri)
+        return renameFile(arg1, arg2)
+      }
+
       // create buffer
       if (arg1 == null && URI.isUri(arg2)) return nvim.buffers.add(arg2.path)
       // delete buffer
@@ -104,9 +117,8 @@ const workspace: typeof vsc.workspace = {
       // text edits
       if (URI.isUri(arg1) && !Array.isArray(arg2)) throw new Error(`workspace edit entry makes no sense. expected [uri, TextEdit[]]`)
 
-      const uri = arg1 as vsc.Uri
       const edits = arg2 as vsc.TextEdit[]
-      const buffer = await nvim.buffers.getBufferFromPath(uri.path)
+      const buffer = await nvim.buffers.getBufferFromPath(asBufferName(uri))
 
       edits.forEach(({ range, newText }, editIx) => {
         const undojoin = !fileEditIx && !editIx
@@ -118,7 +130,7 @@ const workspace: typeof vsc.workspace = {
   },
   openTextDocument: async (arg: any) => {
     if (is.object(arg) && arg.path) {
-      const buffer = await nvim.buffers.add((arg as vsc.Uri).path)
+      const buffer = await nvim.buffers.add(asBufferName(arg as vsc.Uri))
       return TextDocument(buffer.id)
     }
 
@@ -130,24 +142,18 @@ const workspace: typeof vsc.workspace = {
     const buffer = await nvim.buffers.create(arg)
     return TextDocument(buffer.id)
   },
-  registerTextDocumentContentProvider: () => {
-    console.warn('NYI: workspace.registerTextDocumentContentProvider')
-    return ({ dispose: () => {} })
-  },
-  getConfiguration: (section/*, resource*/) => {
-    // TODO: i'm not sure what the resource is used for?
-    // if (resource) console.warn('NYI: workspace.getConfiguration - resource param not used:', section, resource)
-    return WorkspaceConfiguration(section)
-  },
+  registerTextDocumentContentProvider: (scheme, provider) => ({
+    dispose: registerTextDocumentContentProvider(scheme, provider),
+  }),
+  getConfiguration: (section, resource) => WorkspaceConfiguration(section, resource),
   registerTaskProvider: (...a: any[]) => {
     console.warn('DEPRECATED: workspace.registerTaskProvider. use the "tasks" namespace instead')
     // @ts-ignore - help me typescript you're my only hope
     return Tasks.registerTaskProvider(...a as any)
   },
-  registerFileSystemProvider: () => {
-    console.warn('NYI: workspace.registerFileSystemProvider')
-    return ({ dispose: () => {} })
-  },
+  registerFileSystemProvider: (scheme, provider, options) => ({
+    dispose: registerFileSystemProvider(scheme, provider, options),
+  }),
   onDidChangeWorkspaceFolders: eventreg('didChangeWorkspaceFolders'),
   onDidOpenTextDocument: eventreg('didOpenTextDocument'),
   onDidCloseTextDocument: eventreg('didCloseTextDocument'),
@@ -158,10 +164,9 @@ const workspace: typeof vsc.workspace = {
 
   // TODO: proposed API
   // @ts-ignore
-  onDidRenameFile: () => {
-    console.warn('NYI: workspace.onDidRenameFile')
-    return ({ dispose: () => {} })
-  },
+  onDidCreateFiles: workspaceFileEvent('didCreateFiles'),
+  onDidDeleteFiles: workspaceFileEvent('didDeleteFiles'),
+  onDidRenameFile: workspaceFileEvent('didRenameFile'),
 }
 
 const WorkspaceFolder = (dir: string) => ({
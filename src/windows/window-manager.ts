@@ -1,6 +1,8 @@
-import { generateColorLookupAtlas } from '../render/highlight-attributes'
+import { generateColorLookupAtlas, resetDecorationHighlights } from '../render/highlight-attributes'
 import { onSwitchVim, instances } from '../core/instance-manager'
-import CreateWindow, { Window } from '../windows/window'
+import { getShadowBuffer, ShadowBuffer } from '../core/shadow-buffers'
+import { SHADOW_BUFFER_TYPE } from '../support/constants'
+import CreateWindow, { Window, createDecorationType, disposeDecorationType, setDecorations, setCodeLenses, moveDecorations } from '../windows/window'
 import { cursor, moveCursor } from '../core/cursor'
 import CreateWebGLRenderer from '../render/webgl'
 import { onElementResize } from '../ui/vanilla'
@@ -8,17 +10,24 @@ import * as workspace from '../core/workspace'
 import { throttle } from '../support/utils'
 import windowSizer from '../windows/sizer'
 import api from '../core/instance-api'
+import { basename } from 'path'
 
 export const size = { width: 0, height: 0 }
 export const webgl = CreateWebGLRenderer()
 const windows = new Map<string, Window>()
 const windowsById = new Map<string, Window>()
 const invalidWindows = new Set<string>()
-const state = { activeGrid: '', activeInstanceGrid: 1 }
+const state = {
+  activeGrid: '',
+  activeInstanceGrid: 1,
+  focusedShadowBuffer: undefined as ShadowBuffer | undefined,
+}
 const container = document.getElementById('windows') as HTMLElement
 const webglContainer = document.getElementById('webgl') as HTMLElement
 
 const superid = (id: number) => `i${instances.current}-${id}`
+// neovim window handle from a window id: i1-1000 -> 1000
+const windowHandle = (id: string) => Number(id.slice(id.indexOf('-') + 1))
 
 const getWindowById = (windowId: number) => {
   const win = windowsById.get(superid(windowId))
@@ -36,10 +45,27 @@ const refreshWebGLGrid = () => {
 
 export const createWebGLView = () => webgl.createView()
 
-export const setActiveGrid = (id: number) => Object.assign(state, {
-  activeGrid: superid(id),
-  activeInstanceGrid: id,
-})
+// keyboard input goes to the shadow buffer component while its window is active
+const refreshShadowBufferFocus = () => {
+  const win = windows.get(state.activeGrid)
+  const shadowBuffer = win && win.shadowBuffer
+  if (state.focusedShadowBuffer === shadowBuffer) return
+
+  const previous = state.focusedShadowBuffer
+  state.focusedShadowBuffer = shadowBuffer
+  if (previous && previous.onBlur) previous.onBlur()
+  if (shadowBuffer && shadowBuffer.onFocus) shadowBuffer.onFocus()
+}
+
+export const setActiveGrid = (id: number) => {
+  const activeGrid = superid(id)
+  if (state.activeGrid === activeGrid) return
+  Object.assign(state, { activeGrid, activeInstanceGrid: id })
+  refreshShadowBufferFocus()
+
+  const win = windows.get(activeGrid)
+  if (win) api.vscodeUIEvent.editors.changeActive(windowHandle(win.id))
+}
 
 export const getActive = () => {
   const win = windows.get(state.activeGrid)
@@ -96,6 +122,7 @@ export const remove = (gridId: number) => {
   // redraw webgl first before removing DOM element
   // this helps a bit with flickering
   requestAnimationFrame(() => {
+    win.setShadowBuffer(undefined)
     win.element.remove()
     windowsById.delete(win.getWindowInfo().id)
     windows.delete(superid(gridId))
@@ -124,6 +151,11 @@ export const layout = () => {
   windowGridInfo.forEach(({ gridId }) => windows.get(gridId)!.refreshLayout())
   refreshWebGLGrid()
 
+  // the extension host derives visible text editors and their view columns from the layout
+  api.vscodeUIEvent.editors.changeLayout(wininfos
+    .filter(m => m.visible && windowHandle(m.id) > 0)
+    .map(({ id, row, col, width, height }) => ({ id: windowHandle(id), row, col, width, height })))
+
   // cursorline width does not always get resized correctly after window
   // layout changes, so we will force an update of the cursor to make sure
   // it is correct. test case: two vert splits, move to left and :bo
@@ -135,7 +167,12 @@ export const layout = () => {
 
 const updateWindowNameplates = () => requestAnimationFrame(async () => {
   const windowsWithMetadata = await api.getWindowMetadata()
-  windowsWithMetadata.forEach(w => getWindowById(w.id).updateNameplate(w))
+  windowsWithMetadata.forEach(w => {
+    const win = getWindowById(w.id)
+    win.updateNameplate(w)
+    win.setShadowBuffer(w.filetype === SHADOW_BUFFER_TYPE ? getShadowBuffer(basename(w.name)) : undefined)
+  })
+  refreshShadowBufferFocus()
 })
 
 export const refresh = throttle(updateWindowNameplates, 5)
@@ -211,6 +248,51 @@ onSwitchVim((id, lastId) => {
   workspace.resize()
 })
 
+export const redrawDecorations = (bufferId?: string) => getInstanceWindows()
+  .filter(win => !bufferId || win.bufferId === bufferId)
+  .forEach(win => win.redrawDecorations())
+
+const updateEditorViewport = () => {
+  const win = windows.get(state.activeGrid)
+  if (!win) return
+
+  const { bufferId, editorTopLine, editorTextOffset } = api.nvim.state
+  win.setEditorViewport({
+    bufferId: superid(bufferId),
+    topLine: editorTopLine - 1,
+    textOffset: editorTextOffset,
+  })
+}
+
+api.nvim.watchState.bufferId(updateEditorViewport)
+api.nvim.watchState.editorTopLine(updateEditorViewport)
+api.nvim.watchState.editorTextOffset(updateEditorViewport)
+
+api.vscodeUI.decorations.onCreateType(createDecorationType)
+
+// decoration highlights are shared between windows, so all windows get the new ids
+api.vscodeUI.decorations.onDisposeType(key => {
+  disposeDecorationType(key)
+  resetDecorationHighlights()
+  redrawDecorations()
+})
+
+// new ranges reuse the decoration highlights. only the windows of the buffer change
+api.vscodeUI.decorations.onSet((bufferId, key, ranges) => {
+  setDecorations(superid(bufferId), key, ranges)
+  redrawDecorations(superid(bufferId))
+})
+
+api.vscodeUI.codeLens.onSet((bufferId, lenses) => {
+  setCodeLenses(superid(bufferId), lenses)
+  redrawDecorations(superid(bufferId))
+})
+
+api.vscodeUI.decorations.onChangeLines((bufferId, firstLine, lastLine, lineCount) => {
+  moveDecorations(superid(bufferId), firstLine, lastLine, lineCount)
+  redrawDecorations(superid(bufferId))
+})
+
 api.nvim.watchState.colorscheme(() => requestAnimationFrame(() => {
   webgl.clearAll()
   getInstanceWindows().forEach(w => w.redrawFromGridBuffer())
@@ -1,12 +1,15 @@
-import { createWebGLView, size as windowsGridSize } from '../windows/window-manager'
+import { highlightLookup, getDecorationHighlight, generateColorLookupAtlas, colors, DecorationHighlight } from '../render/highlight-attributes'
+import { DecorationType, DecorationRange, DecorationStyle, DecorationAttachmentStyle, CodeLensLine } from '../protocols/vscode-ui'
+import { createWebGLView, size as windowsGridSize, webgl as renderer } from '../windows/window-manager'
+import { getCharFromIndex, getCharIndex, getUpdatedFontAtlasMaybe } from '../render/font-texture-atlas'
 import CreateWindowNameplate, { NameplateState } from '../windows/nameplate'
-import { highlightLookup } from '../render/highlight-attributes'
-import { getCharFromIndex } from '../render/font-texture-atlas'
 import { specs as titleSpecs } from '../core/title'
+import { ShadowBuffer } from '../core/shadow-buffers'
 import instanceAPI from '../core/instance-api'
 import { WebGLView } from '../render/webgl'
-import { cell } from '../core/workspace'
+import { cell, font } from '../core/workspace'
 import { makel } from '../ui/vanilla'
+import { hexToRGB } from '../ui/css'
 
 export interface WindowInfo {
   id: string
@@ -49,6 +52,14 @@ interface HighlightCell {
   char: string
 }
 
+export interface EditorViewport {
+  bufferId: string
+  // zero-indexed buffer line shown on the first row of the window
+  topLine: number
+  // width of the gutter (line numbers, signs, folds) before the text starts
+  textOffset: number
+}
+
 export interface Editor {
   getChar(row: number, col: number): string
   getLine(row: number): string
@@ -82,6 +93,104 @@ export interface Window {
   positionToWorkspacePixels(row: number, col: number, opts?: PosOpts): Position
   getWindowSize(): Size
   resizeWindow(width: number, height: number): void
+  readonly shadowBuffer?: ShadowBuffer
+  setShadowBuffer(shadowBuffer?: ShadowBuffer): void
+  readonly bufferId: string
+  readonly hasDecorations: boolean
+  setEditorViewport(viewport: Partial<EditorViewport>): void
+  scrollEditorViewport(amount: number, top: number, bottom: number): void
+  clearDecorations(): void
+  redrawDecorations(): void
+}
+
+interface Attachment {
+  row: number
+  col: number
+  text: string
+  before: boolean
+  style: DecorationAttachmentStyle
+}
+
+// vscode decorations are tracked per buffer. every window that shows the
+// buffer draws the decorations into its webgl grid buffer
+const decorationTypes = new Map<string, DecorationType>()
+const bufferDecorations = new Map<string, Map<string, DecorationRange[]>>()
+const bufferCodeLenses = new Map<string, CodeLensLine[]>()
+
+export const createDecorationType = (decorationType: DecorationType) => {
+  decorationTypes.set(decorationType.key, decorationType)
+}
+
+export const disposeDecorationType = (key: string) => {
+  decorationTypes.delete(key)
+  bufferDecorations.forEach(decorations => decorations.delete(key))
+}
+
+export const setDecorations = (bufferId: string, key: string, ranges: DecorationRange[]) => {
+  const decorations = bufferDecorations.get(bufferId) || new Map()
+  ranges.length ? decorations.set(key, ranges) : decorations.delete(key)
+  bufferDecorations.set(bufferId, decorations)
+}
+
+export const setCodeLenses = (bufferId: string, lenses: CodeLensLine[]) => {
+  lenses.length ? bufferCodeLenses.set(bufferId, lenses) : bufferCodeLenses.delete(bufferId)
+}
+
+/** Lines firstLine until lastLine (exclusive) were replaced by lineCount lines */
+export const moveDecorations = (bufferId: string, firstLine: number, lastLine: number, lineCount: number) => {
+  const decorations = bufferDecorations.get(bufferId)
+  const delta = lineCount - (lastLine - firstLine)
+  if (!decorations || !delta) return
+
+  // lines that were part of the change stick to the changed region
+  const moveLine = (line: number, end: boolean) => {
+    if (line < firstLine) return line
+    if (line >= lastLine) return line + delta
+    return end ? firstLine + Math.max(lineCount - 1, 0) : firstLine
+  }
+
+  decorations.forEach((ranges, key) => decorations.set(key, ranges.reduce((res, decoration) => {
+    const [ startLine, startChar, endLine, endChar ] = decoration.range
+    const removed = !lineCount && startLine >= firstLine && endLine < lastLine
+    if (removed) return res
+
+    const range: DecorationRange['range'] = [ moveLine(startLine, false), startChar, moveLine(endLine, true), endChar ]
+    return [ ...res, { ...decoration, range } ]
+  }, [] as DecorationRange[])))
+}
+
+const isDarkTheme = () => {
+  const [ red, green, blue ] = hexToRGB(colors.background)
+  return (red * 0.299 + green * 0.587 + blue * 0.114) < 128
+}
+
+const themedStyle = ({ style, light, dark }: DecorationType): DecorationStyle => ({
+  ...style,
+  ...(isDarkTheme() ? dark : light),
+})
+
+const asHighlight = (style: DecorationStyle | DecorationAttachmentStyle): DecorationHighlight => {
+  const { border, borderColor, underline, opacity } = style as DecorationStyle
+  return {
+    foreground: style.color,
+    background: style.backgroundColor,
+    special: borderColor,
+    underline: !!(border || underline),
+    opacity,
+  }
+}
+
+const mergeHighlights = (highlights: DecorationHighlight[]) => highlights.reduce((res, hl) => ({
+  foreground: hl.foreground || res.foreground,
+  background: hl.background || res.background,
+  special: hl.special || res.special,
+  underline: hl.underline || res.underline,
+  opacity: hl.opacity === undefined ? res.opacity : hl.opacity,
+}), {} as DecorationHighlight)
+
+const asCharIndex = (char: string) => {
+  const code = char.codePointAt(0) || 32
+  return code < 127 ? code - 32 : getCharIndex(char)
 }
 
 const edgeDetection = (el: HTMLElement) => {
@@ -137,6 +246,13 @@ export default () => {
     background: 'var(--background-30)',
   })
 
+  const viewport: EditorViewport = { bufferId: '', topLine: 0, textOffset: 0 }
+  // grid buffer index -> [ hlid, charIndex, decorated hlid, decorated charIndex ]
+  const decoratedCells = new Map<number, number[]>()
+  let gutterIcons: HTMLElement[] = []
+  let codeLenses: HTMLElement[] = []
+  let shadowBuffer: ShadowBuffer | undefined
+
   content.appendChild(overlay)
   container.appendChild(nameplate.element)
   container.appendChild(content)
@@ -156,6 +272,8 @@ export default () => {
   api.resizeWindow = (width, height) => {
     Object.assign(wininfo, { height, width })
     webgl.resize(height, width)
+    // grid buffer indexes are not valid anymore. nvim will redraw the grid
+    decoratedCells.clear()
   }
 
   api.setWindowInfo = info => {
@@ -252,6 +370,248 @@ export default () => {
 
   api.redrawFromGridBuffer = () => webgl.renderGridBuffer()
 
+  Object.defineProperty(api, 'shadowBuffer', { get: () => shadowBuffer })
+
+  // shadow buffers are nvim buffers that render a GUI component on top of the
+  // window instead of the buffer contents
+  api.setShadowBuffer = nextShadowBuffer => {
+    if (shadowBuffer === nextShadowBuffer) return
+
+    if (shadowBuffer) {
+      shadowBuffer.element.remove()
+      if (shadowBuffer.onHide) shadowBuffer.onHide()
+    }
+
+    shadowBuffer = nextShadowBuffer
+    if (!shadowBuffer) return
+
+    Object.assign(shadowBuffer.element.style, {
+      position: 'absolute',
+      top: 0,
+      left: 0,
+      width: '100%',
+      height: '100%',
+      background: 'var(--background)',
+      zIndex: 10,
+    })
+
+    content.appendChild(shadowBuffer.element)
+    if (shadowBuffer.onShow) shadowBuffer.onShow()
+  }
+
+  Object.defineProperty(api, 'bufferId', { get: () => viewport.bufferId })
+
+  Object.defineProperty(api, 'hasDecorations', {
+    get: () => {
+      const decorations = bufferDecorations.get(viewport.bufferId)
+      return decoratedCells.size > 0
+        || codeLenses.length > 0
+        || bufferCodeLenses.has(viewport.bufferId)
+        || !!(decorations && decorations.size)
+    }
+  })
+
+  api.setEditorViewport = next => {
+    const same = Object.entries(next).every(([ key, val ]) => Reflect.get(viewport, key) === val)
+    if (same) return
+
+    Object.assign(viewport, next)
+    if (api.hasDecorations) api.redrawDecorations()
+  }
+
+  api.scrollEditorViewport = (amount, top, bottom) => {
+    // only scrolling the whole window changes which lines are visible
+    if (top !== 0 || bottom !== wininfo.height) return
+    viewport.topLine += amount
+  }
+
+  const lineEnd = (row: number) => {
+    const buffer = webgl.getGridLine(row)
+    for (let col = wininfo.width - 1; col >= viewport.textOffset; col--) {
+      if (buffer[col * 4 + 3]) return col + 1
+    }
+    return viewport.textOffset
+  }
+
+  // attachment (before/after) text is written into blank cells only.
+  // the grid can not make room for text that is not part of the buffer
+  const collectAttachment = (attachments: Attachment[], attachment: Attachment) => {
+    if (attachment.text) attachments.push(attachment)
+  }
+
+  const drawAttachment = (attachment: Attachment, cellHighlights: Map<number, DecorationHighlight[]>) => {
+    const { row, col, text, before, style } = attachment
+    const buffer = webgl.getGridBuffer()
+    const chars = before ? [...text].reverse() : [...text]
+    const step = before ? -1 : 1
+    const startCol = before ? col - 1 : col + (style.margin ? 1 : 0)
+    let created = false
+
+    chars.every((char, ix) => {
+      const nextCol = startCol + ix * step
+      if (nextCol < viewport.textOffset || nextCol >= wininfo.width) return false
+
+      const bufix = (nextCol * 4) + wininfo.width * row * 4
+      const [ hlid, charIndex ] = decoratedCells.get(bufix) || [ buffer[bufix + 2], buffer[bufix + 3] ]
+      if (charIndex) return false
+
+      const highlights = [ ...(cellHighlights.get(bufix) || []), asHighlight(style) ]
+      const hl = getDecorationHighlight(hlid, mergeHighlights(highlights))
+      const nextCharIndex = asCharIndex(char)
+      decoratedCells.set(bufix, [ hlid, charIndex, hl.id, nextCharIndex ])
+      buffer[bufix + 2] = hl.id
+      buffer[bufix + 3] = nextCharIndex
+      created = created || hl.created
+      return true
+    })
+
+    return created
+  }
+
+  const addGutterIcon = (row: number, path: string) => {
+    const size = cell.height
+    const { x, y } = api.positionToWorkspacePixels(row, Math.max(viewport.textOffset - 2, 0), { within: true })
+    const icon = makel('img', {
+      position: 'absolute',
+      top: `${y}px`,
+      left: `${x}px`,
+      width: `${size}px`,
+      height: `${size}px`,
+    }) as HTMLImageElement
+
+    icon.src = path
+    overlay.appendChild(icon)
+    gutterIcons.push(icon)
+  }
+
+  api.clearDecorations = () => {
+    const buffer = webgl.getGridBuffer()
+
+    decoratedCells.forEach(([ hlid, charIndex, decoratedHlid, decoratedCharIndex ], bufix) => {
+      // nvim redrew the cell after we decorated it
+      if (buffer[bufix + 2] !== decoratedHlid || buffer[bufix + 3] !== decoratedCharIndex) return
+      buffer[bufix + 2] = hlid
+      buffer[bufix + 3] = charIndex
+    })
+
+    decoratedCells.clear()
+    gutterIcons.forEach(icon => icon.remove())
+    gutterIcons = []
+    codeLenses.forEach(lens => lens.remove())
+    codeLenses = []
+  }
+
+  // the grid can not make room for lines that are not part of the buffer.
+  // code lenses are drawn with a smaller font in the line spacing above
+  // the line, like a virtual line between two buffer lines
+  const drawCodeLenses = () => {
+    const lenses = bufferCodeLenses.get(viewport.bufferId)
+    if (!lenses) return
+
+    const { topLine, textOffset } = viewport
+    const height = Math.max(Math.round(cell.height / 2), 1)
+
+    lenses
+      .filter(({ line }) => line >= topLine && line < topLine + wininfo.height)
+      .forEach(({ line, character, titles }) => {
+        const { x, y } = api.positionToWorkspacePixels(line - topLine, textOffset + character, { within: true })
+        const lens = makel({
+          position: 'absolute',
+          top: `${Math.max(y - height, 0)}px`,
+          left: `${x}px`,
+          height: `${height}px`,
+          lineHeight: `${height}px`,
+          fontSize: `${Math.round(font.size * 0.7)}px`,
+          color: 'var(--foreground-50)',
+          whiteSpace: 'pre',
+          pointerEvents: 'none',
+        })
+
+        lens.innerText = titles.join(' | ')
+        overlay.appendChild(lens)
+        codeLenses.push(lens)
+      })
+  }
+
+  const decorate = () => {
+    const decorations = bufferDecorations.get(viewport.bufferId)
+    if (!decorations || !decorations.size) return
+
+    const buffer = webgl.getGridBuffer()
+    const { topLine, textOffset } = viewport
+    const lastVisibleLine = topLine + wininfo.height - 1
+    const cellHighlights = new Map<number, DecorationHighlight[]>()
+    const attachments: Attachment[] = []
+    let colorsChanged = false
+
+    decorations.forEach((ranges, key) => {
+      const decorationType = decorationTypes.get(key)
+      if (!decorationType) return
+
+      const style = themedStyle(decorationType)
+      const highlight = asHighlight(style)
+
+      ranges.forEach(({ range: [ startLine, startChar, endLine, endChar ], before, after }) => {
+        const firstLine = Math.max(startLine, topLine)
+        const lastLine = Math.min(endLine, lastVisibleLine)
+
+        for (let line = firstLine; line <= lastLine; line++) {
+          const row = line - topLine
+          const startCol = decorationType.isWholeLine || line > startLine ? textOffset : startChar + textOffset
+          const endCol = decorationType.isWholeLine
+            ? wininfo.width
+            : line < endLine ? lineEnd(row) : Math.min(endChar + textOffset, wininfo.width)
+
+          for (let col = startCol; col < endCol; col++) {
+            const bufix = (col * 4) + wininfo.width * row * 4
+            const highlights = cellHighlights.get(bufix) || []
+            cellHighlights.set(bufix, [ ...highlights, highlight ])
+          }
+
+          if (style.gutterIconPath) addGutterIcon(row, style.gutterIconPath)
+
+          if (line === startLine) collectAttachment(attachments, {
+            row,
+            col: startCol,
+            before: true,
+            text: (before && before.contentText) || (style.before && style.before.contentText) || '',
+            style: { ...style.before, ...before },
+          })
+
+          if (line === endLine) collectAttachment(attachments, {
+            row,
+            col: decorationType.isWholeLine ? lineEnd(row) : endCol,
+            before: false,
+            text: (after && after.contentText) || (style.after && style.after.contentText) || '',
+            style: { ...style.after, ...after },
+          })
+        }
+      })
+    })
+
+    cellHighlights.forEach((highlights, bufix) => {
+      const hl = getDecorationHighlight(buffer[bufix + 2], mergeHighlights(highlights))
+      decoratedCells.set(bufix, [ buffer[bufix + 2], buffer[bufix + 3], hl.id, buffer[bufix + 3] ])
+      buffer[bufix + 2] = hl.id
+      colorsChanged = colorsChanged || hl.created
+    })
+
+    attachments.forEach(attachment => {
+      colorsChanged = drawAttachment(attachment, cellHighlights) || colorsChanged
+    })
+
+    if (colorsChanged) renderer.updateColorAtlas(generateColorLookupAtlas())
+    const fontAtlas = getUpdatedFontAtlasMaybe()
+    if (fontAtlas) renderer.updateFontAtlas(fontAtlas)
+  }
+
+  api.redrawDecorations = () => {
+    api.clearDecorations()
+    decorate()
+    drawCodeLenses()
+    if (wininfo.visible) webgl.renderGridBuffer()
+  }
+
   api.updateNameplate = data => nameplate.update(data)
 
   api.editor = {
@@ -49,6 +49,7 @@ on.getWindowMetadata(async () => getWindowMetadata())
 on.nvimSaveCursor(async () => nvim.current.window.cursor)
 on.nvimRestoreCursor((position: number[]) => nvim.current.window.setCursor(position[0], position[1]))
 on.nvimHighlightSearchPattern(async (pattern: string, id?: number) => nvim.highlightSearchPattern(pattern, id))
+on.nvimAddShadowBuffer(async (name: string) => { await nvim.buffers.addShadow(name) })
 on.nvimRemoveHighlightSearch(async (id: number, pattern?: string) => nvim.removeHighlightSearch(id, pattern))
 on.onAction(async (name: string) => {
   if (!actions.has(name)) actions.set(name, (...a: any[]) => call.actionCalled(name, a))
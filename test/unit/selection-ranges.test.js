@@ -0,0 +1,71 @@
+const { src, same } = require('../util')
+const m = src('support/selection-ranges')
+
+const range = (startLine, startCharacter, endLine, endCharacter) => ({
+  start: { line: startLine, character: startCharacter },
+  end: { line: endLine, character: endCharacter },
+})
+
+describe('selection ranges', () => {
+  it('word around the offset', () => {
+    same(m.wordRange('foo bar', 5), [ [ 4, 7 ] ])
+    same(m.wordRange('foo bar', 7), [ [ 4, 7 ] ])
+  })
+
+  it('no word on punctuation', () => {
+    same(m.wordRange('a + b', 2), [])
+  })
+
+  it('inside of brackets and then the brackets, from the innermost pair', () => {
+    same(m.bracketRanges('f(a, [b])', 6), [ [ 6, 7 ], [ 5, 8 ], [ 2, 8 ], [ 1, 9 ] ])
+  })
+
+  it('mismatched brackets are not ranges', () => {
+    same(m.bracketRanges('a(]b)', 3), [])
+  })
+
+  it('line text and then the indented block', () => {
+    const lines = [ 'if (a) {', '  one()', '  two()', '}' ]
+    same(m.indentRanges(lines, 1), [ [ 11, 16 ], [ 11, 24 ] ])
+  })
+
+  it('indented block skips blank lines', () => {
+    const lines = [ 'a', '  b', '', '  c' ]
+    same(m.indentRanges(lines, 1), [ [ 4, 5 ], [ 4, 10 ] ])
+  })
+
+  it('fallback ranges contain each other from the smallest', () => {
+    const lines = [ 'if (a) {', '  one()', '  two()', '}' ]
+    same(m.fallbackRanges(lines, { line: 1, character: 3 }), [
+      range(1, 2, 1, 5),
+      range(1, 2, 1, 7),
+      range(1, 2, 2, 7),
+      range(0, 8, 3, 0),
+      range(0, 7, 3, 1),
+      range(0, 0, 3, 1),
+    ])
+  })
+
+  it('fallback ranges count utf-16 code units', () => {
+    same(m.fallbackRanges([ '😀 foo' ], { line: 0, character: 4 }), [
+      range(0, 3, 0, 6),
+      range(0, 0, 0, 6),
+    ])
+  })
+
+  it('byte columns as utf-16 characters', () => {
+    same(m.byteToCharacter('a😀b', 5), 3)
+    same(m.byteToCharacter('éa', 2), 1)
+    same(m.byteToCharacter('abc', 2), 2)
+  })
+
+  it('utf-16 characters as byte columns', () => {
+    same(m.characterToByte('a😀b', 3), 5)
+    same(m.characterToByte('éa', 1), 2)
+  })
+
+  it('utf-16 characters as code points', () => {
+    same(m.characterToCodePoint('a😀b', 3), 2)
+    same(m.characterToCodePoint('abc', 2), 2)
+  })
+})
@@ -1,6 +1,6 @@
 const { src, same } = require('../util')
-const { append, replace, remove } = src('neovim/text-edit-patch')
-const { Position } = src('vscode/types')
+const { append, replace, remove, applyEdits, shiftPosition, changedLines } = src('neovim/text-edit-patch')
+const { Position, Range, TextEdit } = src('vscode/types')
 
 describe('text edit patch', () => {
   it('append', () => {
@@ -123,4 +123,42 @@ describe('text edit patch', () => {
       'you not join them',
     ])
   })
+
+  it('apply multiple edits', () => {
+    const lines = [
+      'you were the chosen one',
+      'you were supposed to destroy the sith',
+      'not join them',
+    ]
+
+    const edits = [
+      new TextEdit(new Range(2, 0, 2, 3), 'never'),
+      new TextEdit(new Range(0, 13, 0, 19), 'JEDI'),
+      new TextEdit(new Range(1, 37, 2, 0), ' '),
+      new TextEdit(new Range(0, 13, 0, 13), 'chosen '),
+    ]
+
+    same(applyEdits({ lines, edits }), [
+      'you were the chosen JEDI one',
+      'you were supposed to destroy the sith never join them',
+    ])
+  })
+
+  it('shift position after edits', () => {
+    const edits = [
+      new TextEdit(new Range(0, 1, 0, 2), ' = '),
+      new TextEdit(new Range(0, 0, 0, 0), 'const '),
+      new TextEdit(new Range(1, 0, 1, 4), ''),
+    ]
+
+    same(shiftPosition({ line: 0, character: 4 }, edits), { line: 0, character: 12 })
+    same(shiftPosition({ line: 1, character: 6 }, edits), { line: 1, character: 2 })
+    same(shiftPosition({ line: 1, character: 6 }, [ new TextEdit(new Range(0, 3, 1, 1), 'a\nbc') ]), { line: 1, character: 7 })
+  })
+
+  it('changed lines', () => {
+    same(changedLines([ 'a', 'b', 'c', 'd' ], [ 'a', 'x', 'y', 'd' ]), { start: 1, end: 3, lines: [ 'x', 'y' ] })
+    same(changedLines([ 'a', 'b' ], [ 'a', 'b', 'b' ]), { start: 2, end: 2, lines: [ 'b' ] })
+    same(changedLines([ 'a', 'b' ], [ 'a', 'b' ]), undefined)
+  })
 })
@@ -187,3 +187,29 @@ describe('promise boss', () => {
     }, 10)
   })
 })
+
+describe('virtual document uri', () => {
+  const schemes = [ 'git', 'jdt', 'vscode.git' ]
+
+  it('uri as buffer name', () => {
+    same(m.virtualDocumentUri('jdt://contents/rt.jar/java.lang/String.class', schemes), 'jdt://contents/rt.jar/java.lang/String.class')
+  })
+
+  it('uri with the current directory in front', () => {
+    same(m.virtualDocumentUri('/Users/a/veonim/git:/Users/a/veonim/package.json?ref=HEAD~1', schemes), 'git:/Users/a/veonim/package.json?ref=HEAD~1')
+  })
+
+  it('scheme with special characters', () => {
+    same(m.virtualDocumentUri('vscode.git:/a/b.ts', schemes), 'vscode.git:/a/b.ts')
+    same(m.virtualDocumentUri('vscodeagit:/a/b.ts', schemes), undefined)
+  })
+
+  it('file path is not a virtual document', () => {
+    same(m.virtualDocumentUri('/Users/a/veonim/package.json', schemes), undefined)
+  })
+
+  it('path with a colon is not a virtual document', () => {
+    same(m.virtualDocumentUri('/home/me/notes:2020/a.ts', schemes), undefined)
+    same(m.virtualDocumentUri('/home/me/git:2020/a.ts', []), undefined)
+  })
+})
@@ -0,0 +1,38 @@
+const { src, same } = require('../util')
+const m = src('support/webview-resources')
+
+const nix = process.platform === 'linux' || process.platform === 'darwin'
+
+if (nix) {
+
+describe('webview resources', () => {
+  it('path under root', () => {
+    same(m.isUnderRoot('/ext/foo/media/a.css', ['/ext/foo']), true)
+    same(m.isUnderRoot('/ext/foo', ['/ext/foo']), true)
+  })
+
+  it('sibling path with the same prefix is not under root', () => {
+    same(m.isUnderRoot('/ext/foobar/a.css', ['/ext/foo']), false)
+    same(m.isUnderRoot('/ext/foo/../bar/a.css', ['/ext/foo']), false)
+  })
+
+  it('file names starting with dots are under root', () => {
+    same(m.isUnderRoot('/ext/foo/..a.css', ['/ext/foo']), true)
+  })
+
+  it('resource url round trip', () => {
+    const url = m.resourceUrl('abc', '/ext/foo/my file#1.css')
+    same(url, 'vscode-resource://abc/ext/foo/my%20file%231.css')
+    same(m.parseResourceUrl(url), { webviewId: 'abc', path: '/ext/foo/my file#1.css' })
+  })
+
+  it('url without webview id', () => {
+    same(m.parseResourceUrl('vscode-resource:/ext/foo/a.css?v=1'), { webviewId: '', path: '/ext/foo/a.css' })
+  })
+
+  it('parent segments are resolved', () => {
+    same(m.parseResourceUrl('vscode-resource://abc/ext/foo/../../home/.ssh/id_rsa').path, '/home/.ssh/id_rsa')
+  })
+})
+
+}
@@ -0,0 +1,56 @@
+const { src, same } = require('../util')
+const m = src('vscode/when-clause')
+
+describe('when clause', () => {
+  it('no clause is always true', () => {
+    same(m.evaluateWhen(undefined, {}), true)
+    same(m.evaluateWhen('', {}), true)
+  })
+
+  it('literals', () => {
+    same(m.evaluateWhen('true', {}), true)
+    same(m.evaluateWhen('false', {}), false)
+  })
+
+  it('context key is truthy', () => {
+    same(m.evaluateWhen('scmProvider', { scmProvider: 'git' }), true)
+    same(m.evaluateWhen('scmProvider', {}), false)
+    same(m.evaluateWhen('!scmProvider', {}), true)
+    same(m.evaluateWhen('!scmProvider', { scmProvider: 'git' }), false)
+  })
+
+  it('equals and not equals', () => {
+    same(m.evaluateWhen('scmProvider == git', { scmProvider: 'git' }), true)
+    same(m.evaluateWhen(`scmProvider == 'git'`, { scmProvider: 'git' }), true)
+    same(m.evaluateWhen('scmProvider == git', { scmProvider: 'hg' }), false)
+    same(m.evaluateWhen('scmProvider != git', { scmProvider: 'hg' }), true)
+    same(m.evaluateWhen('scmProvider != git', {}), true)
+  })
+
+  it('equals compares booleans as strings', () => {
+    same(m.evaluateWhen('gitOpenRepositoryCount == true', { gitOpenRepositoryCount: true }), true)
+    same(m.evaluateWhen('config.git.enabled != false', { 'config.git.enabled': false }), false)
+  })
+
+  it('regex match', () => {
+    same(m.evaluateWhen('scmResourceGroup =~ /^(index|merge)$/', { scmResourceGroup: 'index' }), true)
+    same(m.evaluateWhen('scmResourceGroup =~ /^(index|merge)$/', { scmResourceGroup: 'workingTree' }), false)
+    same(m.evaluateWhen('resourceFilename =~ /\\.TS$/i', { resourceFilename: 'a.ts' }), true)
+    same(m.evaluateWhen('resourceFilename =~ /a/', {}), false)
+  })
+
+  it('invalid regex is false', () => {
+    same(m.evaluateWhen('scmProvider =~ git', { scmProvider: 'git' }), false)
+  })
+
+  it('and binds tighter than or', () => {
+    const when = 'scmProvider == git && scmResourceGroup == index || scmProvider == hg'
+    same(m.evaluateWhen(when, { scmProvider: 'git', scmResourceGroup: 'index' }), true)
+    same(m.evaluateWhen(when, { scmProvider: 'git', scmResourceGroup: 'merge' }), false)
+    same(m.evaluateWhen(when, { scmProvider: 'hg' }), true)
+  })
+
+  it('whitespace around terms', () => {
+    same(m.evaluateWhen('  scmProvider==git&&!scmResourceGroup  ', { scmProvider: 'git' }), true)
+  })
+})
@@ -1,3 +1,5 @@
+const vscode = require('vscode')
+
 // test('commands.registerCommand', async () => {
 //   const command = commands.registerCommand('blarg', () => {})
 //   const coms = await commands.getCommands()
@@ -31,4 +33,17 @@
 //   same(callback.calls, [ [42] ])
 // })
 
-// test('commands.registerTextEditorCommand')
+test('commands.registerTextEditorCommand', async eq => {
+  nvim.cmd('enew')
+  await nvim.current.buffer.setLines(0, -1, [ 'world' ])
+  let commandEditor
+  const command = vscode.commands.registerTextEditorCommand('veonim.test.editor', (editor, edit, greeting) => {
+    commandEditor = editor
+    edit.insert(new vscode.Position(0, 0), `${greeting} `)
+  })
+
+  await vscode.commands.executeCommand('veonim.test.editor', 'hello')
+  eq(commandEditor, vscode.window.activeTextEditor)
+  eq(await nvim.current.buffer.getLines(0, -1), [ 'hello world' ])
+  command.dispose()
+})
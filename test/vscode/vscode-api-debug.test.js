@@ -1,14 +1,56 @@
+const vscode = require('vscode')
+
 // test('activeDebugConsole')
-// test('activeDebugSession')
-// test('breakpoints')
+
+test('activeDebugSession', eq => {
+  eq(vscode.debug.activeDebugSession, undefined)
+})
+
+test('breakpoints', eq => {
+  const location = new vscode.Location(vscode.Uri.file(`${process.cwd()}/package.json`), new vscode.Position(1, 0))
+  const breakpoint = new vscode.SourceBreakpoint(location)
+  vscode.debug.addBreakpoints([ breakpoint ])
+  eq(vscode.debug.breakpoints.includes(breakpoint), true)
+  vscode.debug.removeBreakpoints([ breakpoint ])
+})
 
 // test('onDidChangeActiveDebugSession')
-// test('onDidChangeBreakpoints')
+
+test('onDidChangeBreakpoints', eq => {
+  const breakpoint = new vscode.FunctionBreakpoint('main')
+  let added = []
+  const subscription = vscode.debug.onDidChangeBreakpoints(e => added = e.added)
+  vscode.debug.addBreakpoints([ breakpoint ])
+  eq(added, [ breakpoint ])
+  subscription.dispose()
+  vscode.debug.removeBreakpoints([ breakpoint ])
+})
+
 // test('onDidReceiveDebugSessionCustomEvent')
 // test('onDidStartDebugSession')
 // test('onDidTerminateDebugSession')
 
-// test('addBreakpoints')
-// test('registerDebugConfigurationProvider')
-// test('removeBreakpoints')
+test('addBreakpoints', eq => {
+  const breakpoint = new vscode.FunctionBreakpoint('main')
+  vscode.debug.addBreakpoints([ breakpoint ])
+  vscode.debug.addBreakpoints([ breakpoint ])
+  eq(vscode.debug.breakpoints.filter(m => m === breakpoint).length, 1)
+  vscode.debug.removeBreakpoints([ breakpoint ])
+})
+
+test('registerDebugConfigurationProvider', eq => {
+  const subscription = vscode.debug.registerDebugConfigurationProvider('test', {
+    resolveDebugConfiguration: (folder, config) => config,
+  })
+  eq(typeof subscription.dispose, 'function')
+  subscription.dispose()
+})
+
+test('removeBreakpoints', eq => {
+  const breakpoint = new vscode.FunctionBreakpoint('main')
+  vscode.debug.addBreakpoints([ breakpoint ])
+  vscode.debug.removeBreakpoints([ breakpoint ])
+  eq(vscode.debug.breakpoints.includes(breakpoint), false)
+})
+
 // test('startDebugging')
@@ -1,3 +1,8 @@
+const vscode = require('vscode')
+const path = require('path')
+const fs = require('fs')
+const os = require('os')
+
 // test('onDidChangeDiagnostics')
 
 // test('getLanguages')
@@ -5,9 +10,90 @@
 // test('getDiagnostics')
 // test('getDiagnostics')
 // test('createDiagnosticCollection')
-// test('registerCompletionItemProvider')
-// test('registerCodeActionsProvider')
-// test('registerCodeLensProvider')
+test('registerCompletionItemProvider', () => {
+  const provider = {
+    provideCompletionItems: () => {
+      const item = new vscode.CompletionItem('readFile', vscode.CompletionItemKind.Function)
+      item.insertText = new vscode.SnippetString('readFile(${1:path})')
+      item.additionalTextEdits = [ vscode.TextEdit.insert(new vscode.Position(0, 0), `import { readFile } from 'fs'\n`) ]
+      item.commitCharacters = [ '(' ]
+      item.preselect = true
+      return [ item ]
+    },
+  }
+  const registration = vscode.languages.registerCompletionItemProvider('javascript', provider, '.')
+  registration.dispose()
+})
+test('registerCodeActionsProvider', async eq => {
+  const file = path.join(os.tmpdir(), `veonim-code-actions-${Date.now()}.js`)
+  const requestedKinds = []
+  const provider = {
+    provideCodeActions: (document, _range, context) => {
+      requestedKinds.push(context.only.value)
+      const imports = new vscode.Range(0, 0, 1, document.lineAt(1).text.length)
+      const action = new vscode.CodeAction('Organize imports', vscode.CodeActionKind.SourceOrganizeImports)
+      action.edit = new vscode.WorkspaceEdit()
+      action.edit.replace(document.uri, imports, `import a from 'a'\nimport b from 'b'`)
+      return [ action ]
+    },
+  }
+  const metadata = { providedCodeActionKinds: [ vscode.CodeActionKind.SourceOrganizeImports ] }
+  const registration = vscode.languages.registerCodeActionsProvider('javascript', provider, metadata)
+  nvim.g.vscode_config = { 'editor.codeActionsOnSave': [ 'source.organizeImports' ] }
+
+  fs.writeFileSync(file, `import b from 'b'\nimport a from 'a'\n`)
+  nvim.cmd(`e ${file}`)
+  await nvim.untilEvent.bufLoad
+  nvim.cmd('setl filetype=javascript')
+  await new Promise(done => setTimeout(done, 100))
+  await nvim.cmd('w')
+
+  // the code actions are applied before the write, so the file is written once
+  eq(requestedKinds, [ 'source.organizeImports' ])
+  eq(fs.readFileSync(file, 'utf8'), `import a from 'a'\nimport b from 'b'\n`)
+  eq(await nvim.current.buffer.getOption('modified'), false)
+
+  nvim.g.vscode_config = {}
+  nvim.cmd('bwipeout!')
+  fs.unlinkSync(file)
+  registration.dispose()
+})
+test('registerCodeLensProvider', async eq => {
+  const wait = ms => new Promise(done => setTimeout(done, ms))
+  const onDidChangeCodeLenses = new vscode.EventEmitter()
+  let provided = 0
+  let runArgs
+  const provider = {
+    onDidChangeCodeLenses: onDidChangeCodeLenses.event,
+    provideCodeLenses: () => (provided++, [ new vscode.CodeLens(new vscode.Range(0, 0, 0, 0)) ]),
+    resolveCodeLens: lens => {
+      lens.command = { title: 'Run test', command: 'veonim.test.run', arguments: [ 0 ] }
+      return lens
+    },
+  }
+  const command = vscode.commands.registerCommand('veonim.test.run', (...args) => runArgs = args)
+
+  nvim.cmd('enew')
+  nvim.cmd('setl filetype=javascript')
+  nvim.current.buffer.setLines(0, -1, [ `test('code lens', () => {})` ])
+  const registration = vscode.languages.registerCodeLensProvider({ language: 'javascript' }, provider)
+  await wait(500)
+  eq(provided > 0, true)
+
+  const providedBeforeChange = provided
+  onDidChangeCodeLenses.fire()
+  await wait(500)
+  eq(provided, providedBeforeChange + 1)
+
+  nvim.cmd('call cursor(1, 1)')
+  nvim.cmd('Veonim code-lens')
+  await wait(100)
+  eq(runArgs, [ 0 ])
+
+  registration.dispose()
+  command.dispose()
+  nvim.cmd('bwipeout!')
+})
 // test('registerDefinitionProvider')
 // test('registerImplementationProvider')
 // test('registerTypeDefinitionProvider')
@@ -1,2 +1,18 @@
-// test('scm.inputBox')
-// test('scm.createSourceControl')
+const vscode = require('vscode')
+
+test('scm.inputBox', eq => {
+  const sourceControl = vscode.scm.createSourceControl('test', 'Test')
+  sourceControl.inputBox.value = 'commit message'
+  eq(vscode.scm.inputBox.value, 'commit message')
+  sourceControl.dispose()
+})
+
+test('scm.createSourceControl', eq => {
+  const sourceControl = vscode.scm.createSourceControl('test', 'Test', vscode.Uri.file(process.cwd()))
+  const changes = sourceControl.createResourceGroup('changes', 'Changes')
+  changes.resourceStates = [ { resourceUri: vscode.Uri.file(`${process.cwd()}/package.json`) } ]
+  eq(sourceControl.id, 'test')
+  eq(changes.resourceStates.length, 1)
+  changes.dispose()
+  sourceControl.dispose()
+})
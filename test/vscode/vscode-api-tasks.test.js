@@ -1,10 +1,68 @@
+const vscode = require('vscode')
+
 // test('taskExecutions')
 
 // test('onDidEndTask')
-// test('onDidEndTaskProcess')
+test('onDidEndTaskProcess', async eq => {
+  const task = new vscode.Task({ type: 'shell' }, vscode.TaskScope.Workspace, 'exit', 'test', new vscode.ShellExecution('exit 3'))
+  const ended = new Promise(done => {
+    const subscription = vscode.tasks.onDidEndTaskProcess(e => {
+      if (e.execution.task !== task) return
+      subscription.dispose()
+      done(e)
+    })
+  })
+
+  const taskExecution = await vscode.tasks.executeTask(task)
+  const { execution, exitCode } = await ended
+  eq(execution, taskExecution)
+  eq(exitCode, 3)
+})
 // test('onDidStartTask')
 // test('onDidStartTaskProcess')
 
-// test('executeTask')
-// test('fetchTasks')
-// test('registerTaskProvider')
+test('executeTask', async eq => {
+  const found = new Promise(done => {
+    const subscription = vscode.languages.onDidChangeDiagnostics(({ uris }) => {
+      const uri = uris.find(m => m.path.endsWith('/src/task-matcher.ts'))
+      if (!uri) return
+      subscription.dispose()
+      done(vscode.languages.getDiagnostics(uri))
+    })
+  })
+
+  const execution = new vscode.ShellExecution('echo "src/task-matcher.ts(3,7): error TS2322: nope"')
+  const task = new vscode.Task({ type: 'shell' }, vscode.TaskScope.Workspace, 'echo', 'test', execution, '$tsc')
+  const taskExecution = await vscode.tasks.executeTask(task)
+  eq(taskExecution.task, task)
+
+  const [ diagnostic ] = await found
+  eq(diagnostic.message, 'nope')
+  eq(diagnostic.severity, vscode.DiagnosticSeverity.Error)
+  eq(diagnostic.range.start.line, 2)
+  eq(diagnostic.range.start.character, 6)
+})
+
+test('fetchTasks', async eq => {
+  const provider = vscode.tasks.registerTaskProvider('fetch-test', {
+    provideTasks: () => [new vscode.Task({ type: 'fetch-test' }, vscode.TaskScope.Workspace, 'build', 'fetch-test', new vscode.ProcessExecution('make'))],
+    resolveTask: () => undefined,
+  })
+
+  const tasks = await vscode.tasks.fetchTasks({ type: 'fetch-test' })
+  provider.dispose()
+  eq(tasks.map(m => m.name), ['build'])
+})
+
+test('registerTaskProvider', async eq => {
+  const provider = vscode.tasks.registerTaskProvider('make', {
+    provideTasks: () => [new vscode.Task({ type: 'make' }, vscode.TaskScope.Workspace, 'build', 'make', new vscode.ProcessExecution('make'))],
+    resolveTask: () => undefined,
+  })
+
+  const provided = await vscode.tasks.fetchTasks({ type: 'make' })
+  provider.dispose()
+  const disposed = await vscode.tasks.fetchTasks({ type: 'make' })
+  eq(provided.length, 1)
+  eq(disposed.length, 0)
+})
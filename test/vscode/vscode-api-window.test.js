@@ -1,32 +1,227 @@
 const vscode = require('vscode')
 const path = require('path')
 
-// test('activeTextEditor', eq => { })
-// test('visibleTextEditors')
+const packageJson = `${process.cwd()}/package.json`
+// the extension host is a worker, so calls to the ui are messages posted to the main thread
+const sentMessages = []
+const postMessage = global.postMessage
+global.postMessage = data => {
+  sentMessages.push(JSON.parse(JSON.stringify(data)))
+  return postMessage(data)
+}
+const uiCalls = namespace => sentMessages
+  .filter(([ event, args ]) => event === 'vscodeUI' && args[0] === namespace)
+  .map(([ , [ , method, args ] ]) => [ method, ...args ])
+const sendUIEvent = (namespace, event, args) => global.onmessage({ data: [ 'vscodeUIEvent', [ namespace, event, args ] ] })
+const wait = time => new Promise(done => setTimeout(done, time))
+
+// tests start as soon as they are defined. the spy is removed once all tests in this file are done
+const runningTests = []
+const test = (name, fn) => global.test(name, eq => {
+  const result = fn(eq)
+  runningTests.push(Promise.resolve(result).catch(() => {}))
+  return result
+})
+
+const nextEvent = event => new Promise(done => {
+  const subscription = event(e => (subscription.dispose(), done(e)))
+})
+
+test('activeTextEditor', async eq => {
+  nvim.cmd(`e ${packageJson}`)
+  await nvim.untilEvent.bufLoad
+  eq(vscode.window.activeTextEditor.document.fileName, packageJson)
+  eq(vscode.window.activeTextEditor, vscode.window.activeTextEditor)
+})
+test('visibleTextEditors', eq => {
+  eq(vscode.window.visibleTextEditors.includes(vscode.window.activeTextEditor), true)
+})
 // test('state')
 // test('terminals')
 
-// test('onDidChangeActiveTextEditor')
-// test('onDidChangeVisibleTextEditors')
-// test('onDidChangeTextEditorSelection')
-// test('onDidChangeTextEditorVisibleRanges')
+test('onDidChangeActiveTextEditor', async eq => {
+  const changed = nextEvent(vscode.window.onDidChangeActiveTextEditor)
+  nvim.cmd('enew')
+  const editor = await changed
+  eq(editor, vscode.window.activeTextEditor)
+})
+test('onDidChangeVisibleTextEditors', async eq => {
+  const visible = vscode.window.visibleTextEditors.length
+  const changed = nextEvent(vscode.window.onDidChangeVisibleTextEditors)
+  nvim.cmd('vnew')
+  const editors = await changed
+  eq(editors.length, visible + 1)
+  nvim.cmd('close')
+})
+test('onDidChangeTextEditorSelection', async eq => {
+  nvim.cmd('enew')
+  await nvim.current.buffer.setLines(0, -1, [ 'one', 'two' ])
+  const changed = nextEvent(vscode.window.onDidChangeTextEditorSelection)
+  nvim.cmd('normal! j')
+  const { textEditor } = await changed
+  eq(textEditor, vscode.window.activeTextEditor)
+})
+test('onDidChangeTextEditorVisibleRanges', async eq => {
+  nvim.cmd('enew')
+  await nvim.current.buffer.setLines(0, -1, Array.from({ length: 500 }, (_, ix) => `line ${ix}`))
+  const changed = nextEvent(vscode.window.onDidChangeTextEditorVisibleRanges)
+  nvim.cmd('normal! G')
+  const { visibleRanges } = await changed
+  eq(visibleRanges[0].end.line > 100, true)
+})
 // test('onDidChangeTextEditorOptions')
-// test('onDidChangeTextEditorViewColumn')
+test('onDidChangeTextEditorViewColumn', async eq => {
+  nvim.cmd(`e ${packageJson}`)
+  const editor = vscode.window.activeTextEditor
+  nvim.cmd('vnew')
+  const changed = nextEvent(vscode.window.onDidChangeTextEditorViewColumn)
+  nvim.cmd('wincmd x')
+  const { textEditor, viewColumn } = await changed
+  eq(textEditor.viewColumn, viewColumn)
+  eq([ editor, vscode.window.activeTextEditor ].includes(textEditor), true)
+  nvim.cmd('only')
+})
 // test('onDidOpenTerminal')
 // test('onDidCloseTerminal')
+test('onDidChangeActiveTerminal', async eq => {
+  const changed = new Promise(done => {
+    const subscription = vscode.window.onDidChangeActiveTerminal(terminal => {
+      if (!terminal || terminal.name !== 'Active') return
+      subscription.dispose()
+      done(terminal)
+    })
+  })
+
+  const terminal = vscode.window.createTerminal({ name: 'Active' })
+  terminal.show()
+  eq(await changed, terminal)
+  eq(vscode.window.activeTerminal, terminal)
+  terminal.dispose()
+})
 // test('onDidChangeWindowState')
 
-// test('createInputBox')
+test('createInputBox', eq => {
+  const inputBox = vscode.window.createInputBox()
+  inputBox.prompt = 'Name of the new file'
+  inputBox.onDidAccept(() => inputBox.dispose())
+  inputBox.show()
+
+  const [ , { id } ] = uiCalls('inputBox').find(([ method, m ]) => method === 'show' && m.prompt === 'Name of the new file')
+  sendUIEvent('inputBox', 'changeValue', [ id, 'readme.md' ])
+  eq(inputBox.value, 'readme.md')
+  sendUIEvent('inputBox', 'accept', [ id ])
+  eq(uiCalls('inputBox').some(([ method, inputId ]) => method === 'hide' && inputId === id), true)
+})
 // test('createOutputChannel')
-// test('createQuickPick')
-// test('createStatusBarItem')
-// test('createTerminal')
-// test('createTextEditorDecorationType')
-// test('createTreeView')
-// test('createWebviewPanel')
-// test('registerTreeDataProvider')
+test('createQuickPick', eq => {
+  const quickPick = vscode.window.createQuickPick()
+  quickPick.placeholder = 'Pick a fruit'
+  quickPick.items = [{ label: 'Apple', description: 'red' }, { label: 'Banana', detail: 'yellow' }]
+  quickPick.onDidAccept(() => quickPick.dispose())
+  quickPick.show()
+
+  const [ , shown ] = uiCalls('quickPick').find(([ method, m ]) => method === 'show' && m.placeholder === 'Pick a fruit')
+  eq(shown.items.map(m => [ m.label, m.description, m.detail ]), [ [ 'Apple', 'red', undefined ], [ 'Banana', undefined, 'yellow' ] ])
+
+  sendUIEvent('quickPick', 'changeActive', [ shown.id, [ 1 ] ])
+  eq(quickPick.activeItems.map(m => m.label), [ 'Banana' ])
+  sendUIEvent('quickPick', 'accept', [ shown.id ])
+  eq(uiCalls('quickPick').some(([ method, id ]) => method === 'hide' && id === shown.id), true)
+})
+test('createStatusBarItem', () => {
+  const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100)
+  item.text = '$(sync~spin) Installing tools'
+  item.tooltip = 'Go: Install tools'
+  item.command = 'go.tools.install'
+  item.show()
+  item.dispose()
+})
+test('createTerminal', () => {
+  const terminal = vscode.window.createTerminal({ name: 'Build', cwd: path.resolve('.') })
+  terminal.sendText('echo hello')
+  terminal.show(true)
+  terminal.processId.then(() => terminal.dispose())
+})
+test('createTextEditorDecorationType', () => {
+  const decorationType = vscode.window.createTextEditorDecorationType({
+    backgroundColor: 'rgba(255, 0, 0, 0.3)',
+    after: { contentText: ' blame', color: '#888888' },
+    isWholeLine: true,
+  })
+  const editor = vscode.window.activeTextEditor
+  if (editor) editor.setDecorations(decorationType, [ new vscode.Range(0, 0, 0, 0) ])
+  decorationType.dispose()
+})
+test('createTreeView', async eq => {
+  const treeDataProvider = {
+    getChildren: element => element ? [] : ['fish', 'squid'],
+    getTreeItem: element => new vscode.TreeItem(element, vscode.TreeItemCollapsibleState.Collapsed),
+  }
+
+  const treeView = vscode.window.createTreeView('fishTank', { treeDataProvider })
+  eq(uiCalls('treeView').some(([ method, viewId ]) => method === 'register' && viewId === 'fishTank'), true)
+
+  sendUIEvent('treeView', 'getChildren', [ 'fishTank', '' ])
+  await wait(50)
+  const [ , , , children ] = uiCalls('treeView').find(([ method, viewId ]) => method === 'setChildren' && viewId === 'fishTank')
+  eq(children.map(m => [ m.label, m.collapsibleState ]), [
+    [ 'fish', vscode.TreeItemCollapsibleState.Collapsed ],
+    [ 'squid', vscode.TreeItemCollapsibleState.Collapsed ],
+  ])
+
+  const selected = nextEvent(treeView.onDidChangeSelection)
+  sendUIEvent('treeView', 'select', [ 'fishTank', children[1].handle ])
+  eq((await selected).selection, [ 'squid' ])
+
+  treeView.dispose()
+  eq(uiCalls('treeView').some(([ method, viewId ]) => method === 'dispose' && viewId === 'fishTank'), true)
+})
+test('createWebviewPanel', async eq => {
+  const panel = vscode.window.createWebviewPanel('catPreview', 'Cat Preview', vscode.ViewColumn.Beside, {
+    enableScripts: true,
+  })
+
+  const [ , created ] = uiCalls('webview').find(([ method, m ]) => method === 'create' && m.viewType === 'catPreview')
+  eq([ created.title, created.enableScripts ], [ 'Cat Preview', true ])
+
+  const received = nextEvent(panel.webview.onDidReceiveMessage)
+  sendUIEvent('webview', 'receiveMessage', [ created.id, { command: 'meow' } ])
+  eq(await received, { command: 'meow' })
+
+  panel.webview.html = '<html><body><h1>meow</h1></body></html>'
+  eq(uiCalls('webview').some(([ method, id, html ]) => method === 'setHtml' && id === created.id && html.includes('meow')), true)
+  eq(await panel.webview.postMessage({ command: 'refactor' }), true)
+  eq(uiCalls('webview').some(([ method, id, m ]) => method === 'postMessage' && id === created.id && m.command === 'refactor'), true)
+
+  panel.dispose()
+  eq(uiCalls('webview').some(([ method, id ]) => method === 'dispose' && id === created.id), true)
+  eq(await panel.webview.postMessage({ command: 'refactor' }), false)
+})
+test('registerTreeDataProvider', async eq => {
+  const treeView = vscode.window.registerTreeDataProvider('squidTank', {
+    getChildren: () => [],
+    getTreeItem: element => new vscode.TreeItem(element),
+  })
+
+  eq(uiCalls('treeView').some(([ method, viewId ]) => method === 'register' && viewId === 'squidTank'), true)
+  sendUIEvent('treeView', 'getChildren', [ 'squidTank', '' ])
+  await wait(50)
+  eq(uiCalls('treeView').find(([ method, viewId ]) => method === 'setChildren' && viewId === 'squidTank').slice(2), [ '', [] ])
+  treeView.dispose()
+})
 // test('registerUriHandler')
-// test('registerWebviewPanelSerializer')
+test('registerWebviewPanelSerializer', async eq => {
+  let deserialized = false
+  const serializer = vscode.window.registerWebviewPanelSerializer('dogPreview', {
+    deserializeWebviewPanel: async () => deserialized = true,
+  })
+
+  // only panels of the viewType from the previous session are restored
+  await wait(100)
+  eq(deserialized, false)
+  eq(uiCalls('webview').some(([ method, m ]) => method === 'create' && m.viewType === 'dogPreview'), false)
+  serializer.dispose()
+})
 test('setStatusBarMessage', () => {
   vscode.window.setStatusBarMessage('Installing your fancy shiny extensions')
 })
@@ -48,42 +243,164 @@ test('setStatusBarMessage + dispose', () => {
 test('showInformationMessage', () => {
   vscode.window.showInformationMessage('Extension not installed. Install?', 'Yes')
 })
-// test('showInputBox')
-// test('showOpenDialog')
-// test('showQuickPick')
-// test('showSaveDialog')
-// test('showTextDocument')
+test('showInputBox', () => {
+  vscode.window.showInputBox({
+    value: 'new-file.ts',
+    valueSelection: [0, 8],
+    validateInput: value => value.endsWith('.ts') ? undefined : 'must be a typescript file',
+  })
+})
+test('showInputBox + failing validation', async eq => {
+  const input = vscode.window.showInputBox({
+    value: 'broken.ts',
+    validateInput: () => Promise.reject(new Error('validation failed')),
+  })
+  await new Promise(done => setTimeout(done, 100))
+  const [ , { id, validationMessage } ] = uiCalls('inputBox').find(([ , m ]) => m.value === 'broken.ts' && m.validationMessage)
+  eq(validationMessage, 'validation failed')
+
+  sendUIEvent('inputBox', 'accept', [ id ])
+  await new Promise(done => setTimeout(done, 100))
+  sendUIEvent('inputBox', 'hide', [ id ])
+  eq(await input, undefined)
+})
+test('showOpenDialog', async eq => {
+  const uris = vscode.window.showOpenDialog({
+    canSelectMany: true,
+    defaultUri: vscode.Uri.file(process.cwd()),
+    filters: { TypeScript: ['ts', 'tsx'] },
+    openLabel: 'Add files',
+  })
+
+  const [ , dialog ] = uiCalls('fileDialog').find(([ , m ]) => m.title === 'Add files')
+  eq([ dialog.kind, dialog.path, dialog.canSelectMany, dialog.extensions ], [ 'open', process.cwd(), true, [ 'ts', 'tsx' ] ])
+  sendUIEvent('fileDialog', 'accept', [ dialog.id, [ packageJson ] ])
+  eq((await uris).map(m => m.fsPath), [ packageJson ])
+})
+test('showOpenDialog + second dialog', async eq => {
+  const first = vscode.window.showOpenDialog({ canSelectFolders: true, openLabel: 'First' })
+  const second = vscode.window.showOpenDialog({ canSelectFolders: true, openLabel: 'Second' })
+  eq(await first, undefined)
+
+  const [ , { id } ] = uiCalls('fileDialog').find(([ , m ]) => m.title === 'Second')
+  sendUIEvent('fileDialog', 'hide', [ id ])
+  eq(await second, undefined)
+})
+test('showQuickPick', async eq => {
+  const picked = vscode.window.showQuickPick(['one', 'two', 'three'], { placeHolder: 'Pick a number' })
+  await wait(50)
+
+  const [ , { id, items, busy } ] = uiCalls('quickPick').filter(([ , m ]) => m && m.placeholder === 'Pick a number').pop()
+  eq([ items.map(m => m.label), busy ], [ [ 'one', 'two', 'three' ], false ])
+  sendUIEvent('quickPick', 'changeSelection', [ id, [ 1 ] ])
+  sendUIEvent('quickPick', 'accept', [ id ])
+  eq(await picked, 'two')
+})
+test('showQuickPick + rejected items', async eq => {
+  const error = await vscode.window.showQuickPick(Promise.reject(new Error('no numbers'))).catch(e => e)
+  eq(error.message, 'no numbers')
+})
+test('showSaveDialog', async eq => {
+  const uri = vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.resolve('export.json')),
+    filters: { JSON: ['json'] },
+    saveLabel: 'Export',
+  })
+
+  const [ , dialog ] = uiCalls('fileDialog').find(([ , m ]) => m.title === 'Export')
+  eq([ dialog.kind, dialog.path, dialog.name, dialog.extensions ], [ 'save', path.resolve('.'), 'export.json', [ 'json' ] ])
+  sendUIEvent('fileDialog', 'accept', [ dialog.id, [ path.resolve('export.json') ] ])
+  eq((await uri).fsPath, path.resolve('export.json'))
+})
+test('showTextDocument', async eq => {
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(packageJson))
+  const editor = await vscode.window.showTextDocument(document, {
+    viewColumn: vscode.ViewColumn.Active,
+    preserveFocus: true,
+    selection: new vscode.Range(1, 2, 1, 2),
+  })
+  eq(editor.document.fileName, packageJson)
+  eq(await nvim.call.getpos('.'), [ 0, 2, 3, 0 ])
+})
+test('showTextDocument + selection', async eq => {
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(packageJson))
+  await vscode.window.showTextDocument(document, { selection: new vscode.Range(1, 2, 1, 8) })
+  eq(await nvim.call.mode(), 'v')
+  await nvim.call.feedkeys('\x1b', 'nx')
+  eq((await nvim.call.getpos(`'<`)).slice(1, 3), [ 2, 3 ])
+  eq((await nvim.call.getpos(`'>`)).slice(1, 3), [ 2, 8 ])
+})
 // test('showWarningMessage')
-// test('showWorkspaceFolderPick')
-test('withProgress', () => {
-  vscode.window.withProgress({
+test('showWorkspaceFolderPick', async eq => {
+  const picked = vscode.window.showWorkspaceFolderPick({ placeHolder: 'Pick a workspace folder' })
+  await wait(50)
+
+  const [ , { id, items } ] = uiCalls('quickPick').filter(([ , m ]) => m && m.placeholder === 'Pick a workspace folder').pop()
+  const [ folder ] = vscode.workspace.workspaceFolders
+  eq(items.map(m => [ m.label, m.description ]), [ [ folder.name, folder.uri.fsPath ] ])
+  sendUIEvent('quickPick', 'changeSelection', [ id, [ 0 ] ])
+  sendUIEvent('quickPick', 'accept', [ id ])
+  eq((await picked).uri.fsPath, folder.uri.fsPath)
+})
+test('withProgress', async eq => {
+  const result = await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
-    title: "this is cool",
+    title: 'this is cool',
     cancellable: true,
-  }, (progress, token) => {
-    token.onCancellationRequested(() => {
-      console.log("CANCELED")
-    })
-
-    setTimeout(() => {
-      progress.report({ percentage: 10, message: "still going..."})
-    }, 1000)
+  }, async progress => {
+    progress.report({ increment: 10, message: 'still going...' })
+    await new Promise(done => setTimeout(done, 100))
+    progress.report({ increment: 80, message: 'almost there...' })
+    return 'done'
+  })
 
-    setTimeout(() => {
-      progress.report({ percentage: 50, message: "still going harder..."})
-    }, 2000)
+  eq(result, 'done')
+})
+test('withProgress window', async eq => {
+  let canceled = false
+  let id
 
-    setTimeout(() => {
-      progress.report({ percentage: 90, message: "almost there..."})
-    }, 3000)
+  const result = await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Window,
+    title: 'indexing',
+    cancellable: true,
+  }, async (progress, token) => {
+    token.onCancellationRequested(() => canceled = true)
+    progress.report({ increment: 50, message: 'half way' })
+    id = uiCalls('progress').find(([ method, { title } ]) => method === 'show' && title === 'indexing')[1].id
+    sendUIEvent('progress', 'cancel', [ id ])
+    return 'done'
+  })
 
-    var p = new Promise(resolve => {
-      setTimeout(() => {
-        resolve()
-      }, 5000)
-    })
+  eq(result, 'done')
+  eq(canceled, true)
+  eq(uiCalls('progress').filter(([ method, m ]) => method === 'show' && m.id === id).map(([ , m ]) => [ m.location, m.percentage, m.message ]), [
+    [ 'window', undefined, undefined ],
+    [ 'window', 50, 'half way' ],
+  ])
+  eq(uiCalls('progress').some(([ method, progressId ]) => method === 'hide' && progressId === id), true)
+})
+test('withProgress + unsupported location', async eq => {
+  const sentBefore = sentMessages.length
+  const result = await vscode.window.withProgress({ location: 99, title: 'nowhere' }, progress => {
+    progress.report({ increment: 50 })
+    return Promise.resolve('done')
+  })
 
-    return p
+  eq(result, 'done')
+  eq(sentMessages.slice(sentBefore).some(([ , args ]) => JSON.stringify(args).includes('nowhere')), false)
+})
+test('withScmProgress', async eq => {
+  let id
+  const result = await vscode.window.withScmProgress(async progress => {
+    progress.report(50)
+    id = uiCalls('progress').find(([ method, { location } ]) => method === 'show' && location === 'scm')[1].id
+    return 'done'
   })
+
+  eq(result, 'done')
+  eq(uiCalls('progress').filter(([ method, m ]) => method === 'show' && m.id === id).map(([ , m ]) => m.percentage), [ undefined, 50 ])
+  eq(uiCalls('progress').some(([ method, progressId ]) => method === 'hide' && progressId === id), true)
 })
-// test('withScmProgress')
+
+Promise.all(runningTests).then(() => global.postMessage = postMessage)
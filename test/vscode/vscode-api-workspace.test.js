@@ -1,6 +1,45 @@
 const vscode = require('vscode')
 const path = require('path')
 
+const fileSystem = require('../../build/extension-host/file-system')
+
+// in memory file system provider. stat and readDirectory go through the paths in files
+const memoryFileSystem = (files, calls = []) => ({
+  onDidChangeFile: new vscode.EventEmitter().event,
+  watch: () => ({ dispose: () => {} }),
+  stat: uri => {
+    calls.push([ 'stat', uri.path ])
+    const isDir = [...files.keys()].some(m => m.startsWith(`${uri.path.replace(/\/$/, '')}/`))
+    if (isDir) return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 }
+    if (!files.has(uri.path)) throw vscode.FileSystemError.FileNotFound(uri)
+    return { type: vscode.FileType.File, ctime: 0, mtime: 0, size: files.get(uri.path).length }
+  },
+  readDirectory: uri => {
+    const dir = uri.path.replace(/\/$/, '')
+    const names = [...files.keys()]
+      .filter(m => m.startsWith(`${dir}/`))
+      .map(m => m.slice(dir.length + 1).split('/'))
+      .map(([ name, ...rest ]) => [ name, rest.length ? vscode.FileType.Directory : vscode.FileType.File ])
+    return [...new Map(names).entries()]
+  },
+  createDirectory: () => {},
+  readFile: uri => {
+    calls.push([ 'readFile', uri.path ])
+    if (!files.has(uri.path)) throw vscode.FileSystemError.FileNotFound(uri)
+    return Buffer.from(files.get(uri.path))
+  },
+  writeFile: (uri, content) => files.set(uri.path, Buffer.from(content).toString()),
+  delete: uri => {
+    calls.push([ 'delete', uri.path ])
+    files.delete(uri.path)
+  },
+  rename: (oldUri, newUri) => {
+    calls.push([ 'rename', oldUri.path, newUri.path ])
+    files.set(newUri.path, files.get(oldUri.path))
+    files.delete(oldUri.path)
+  },
+})
+
 test('workspace.rootPath', eq => {
   eq(vscode.workspace.rootPath, testDataPath)
 })
@@ -39,14 +78,139 @@ test('workspace.onDidChangeConfiguration')
 test('workspace.getWorkspaceFolder')
 test('workspace.asRelativePath')
 test('workspace.updateWorkspaceFolders')
-test('workspace.createFileSystemWatcher')
-test('workspace.findFiles')
+test('workspace.createFileSystemWatcher', () => {
+  const watcher = vscode.workspace.createFileSystemWatcher('**/*.ts', false, true, false)
+  watcher.onDidCreate(() => {})
+  watcher.onDidDelete(() => {})
+  watcher.dispose()
+})
+test('workspace.findFiles', async eq => {
+  const files = await vscode.workspace.findFiles('src/*.ts')
+  eq(files.map(m => m.fsPath).includes(path.join(testDataPath, 'src/blarg.ts')), true)
+
+  const relativeFiles = await vscode.workspace.findFiles(new vscode.RelativePattern(testDataPath, '**/blarg.ts'), null, 1)
+  eq(relativeFiles.length, 1)
+})
 test('workspace.saveAll')
-test('workspace.applyEdit')
+test('workspace.applyEdit', async eq => {
+  const files = new Map([ [ '/src/a.ts', 'a' ], [ '/src/b.ts', 'b' ] ])
+  const calls = []
+  const provider = vscode.workspace.registerFileSystemProvider('veonim-test-edit', memoryFileSystem(files, calls))
+  const uri = name => vscode.Uri.parse(`veonim-test-edit:${name}`)
+
+  const edit = new vscode.WorkspaceEdit()
+  edit.createFile(uri('/src/c.ts'))
+  edit.renameFile(uri('/src/a.ts'), uri('/src/d.ts'))
+  edit.deleteFile(uri('/src/b.ts'))
+
+  eq(await vscode.workspace.applyEdit(edit), true)
+  eq([...files.entries()].sort(), [ [ '/src/c.ts', '' ], [ '/src/d.ts', 'a' ] ])
+  eq(calls.filter(([ kind ]) => kind === 'rename'), [ [ 'rename', '/src/a.ts', '/src/d.ts' ] ])
+  eq(calls.filter(([ kind ]) => kind === 'delete'), [ [ 'delete', '/src/b.ts' ] ])
+
+  const missing = new vscode.WorkspaceEdit()
+  missing.renameFile(uri('/src/d.ts'), vscode.Uri.parse('veonim-test-other:/src/d.ts'))
+  eq(await vscode.workspace.applyEdit(missing), false)
+  eq(files.has('/src/d.ts'), true)
+
+  nvim.cmd('bwipeout! veonim-test-edit:/src/c.ts')
+  provider.dispose()
+})
 test('workspace.openTextDocument')
 test('workspace.openTextDocument')
 test('workspace.openTextDocument')
-test('workspace.registerTextDocumentContentProvider')
-test('workspace.getConfiguration')
+test('workspace.registerTextDocumentContentProvider', async eq => {
+  const provider = vscode.workspace.registerTextDocumentContentProvider('veonim-test', {
+    provideTextDocumentContent: uri => `virtual\r\n${uri.path}\n`,
+  })
+
+  nvim.cmd('e veonim-test:/notes.txt')
+  await nvim.untilEvent.bufLoad
+  await new Promise(done => setTimeout(done, 100))
+
+  eq(await nvim.current.buffer.getAllLines(), [ 'virtual', '/notes.txt' ])
+  eq(await nvim.current.buffer.getOption('modified'), false)
+
+  nvim.cmd('bwipeout!')
+  provider.dispose()
+})
+test('workspace.registerFileSystemProvider stat', async eq => {
+  const files = new Map([ [ '/src/a.ts', 'a' ] ])
+  const calls = []
+  const provider = vscode.workspace.registerFileSystemProvider('veonim-test-stat', memoryFileSystem(files, calls))
+
+  nvim.cmd('e veonim-test-stat:/src/new.ts')
+  await nvim.untilEvent.bufLoad
+  await new Promise(done => setTimeout(done, 100))
+
+  eq(await nvim.current.buffer.getAllLines(), [ '' ])
+  eq(calls, [ [ 'stat', '/src/new.ts' ] ])
+  nvim.cmd('bwipeout!')
+
+  calls.length = 0
+  nvim.cmd('e veonim-test-stat:/src')
+  await new Promise(done => setTimeout(done, 100))
+
+  eq(calls, [ [ 'stat', '/src' ] ])
+
+  nvim.cmd('bwipeout!')
+  provider.dispose()
+})
+test('workspace.registerFileSystemProvider explorer', async eq => {
+  const files = new Map([ [ '/src/a.ts', 'a' ], [ '/src/lib/b.ts', 'b' ] ])
+  const provider = vscode.workspace.registerFileSystemProvider('veonim-test-explorer', memoryFileSystem(files))
+  await new Promise(done => setTimeout(done, 100))
+
+  eq(await fileSystem.readDirectory('veonim-test-explorer:/src'), [
+    { name: 'a.ts', path: 'veonim-test-explorer:/src/a.ts', dir: false, file: true },
+    { name: 'lib', path: 'veonim-test-explorer:/src/lib', dir: true, file: false },
+  ])
+
+  // buffer names of virtual documents may have the current directory in front of the uri
+  eq(await fileSystem.readDirectory(path.join(testDataPath, 'veonim-test-explorer:/src/lib/')), [
+    { name: 'b.ts', path: 'veonim-test-explorer:/src/lib/b.ts', dir: false, file: true },
+  ])
+
+  eq(await fileSystem.readDirectory(path.join(testDataPath, 'src')), undefined)
+
+  provider.dispose()
+})
+test('workspace.getConfiguration', eq => {
+  const config = vscode.workspace.getConfiguration('editor', { languageId: 'typescript' })
+  eq(config.inspect('tabSize').key, 'editor.tabSize')
+  eq(config.get('veonimDoesNotExist', 42), 42)
+  eq(config.has('veonimDoesNotExist'), false)
+})
 test('workspace.registerTaskProvider')
-test('workspace.registerFileSystemProvider')
+test('workspace.registerFileSystemProvider', async eq => {
+  const files = new Map([ [ '/notes.txt', 'one\r\ntwo\r\n' ] ])
+  let written
+  const write = new Promise(done => written = done)
+
+  const provider = vscode.workspace.registerFileSystemProvider('veonim-test-fs', {
+    onDidChangeFile: new vscode.EventEmitter().event,
+    watch: () => ({ dispose: () => {} }),
+    stat: () => ({ type: vscode.FileType.File, ctime: 0, mtime: 0, size: 0 }),
+    readDirectory: () => [],
+    createDirectory: () => {},
+    readFile: uri => Buffer.from(files.get(uri.path)),
+    writeFile: (uri, content) => {
+      files.set(uri.path, Buffer.from(content).toString())
+      written()
+    },
+    delete: () => {},
+    rename: () => {},
+  })
+
+  nvim.cmd('e veonim-test-fs:/notes.txt')
+  await nvim.untilEvent.bufLoad
+  await new Promise(done => setTimeout(done, 100))
+
+  eq(await nvim.current.buffer.getAllLines(), [ 'one', 'two' ])
+  nvim.cmd('w')
+  await write
+
+  eq(files.get('/notes.txt'), 'one\r\ntwo\r\n')
+  nvim.cmd('bwipeout!')
+  provider.dispose()
+})